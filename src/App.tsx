@@ -6,17 +6,23 @@ import { EncryptDecryptCard } from './components/EncryptDecryptCard';
 import { OutputCard } from './components/OutputCard';
 import { QRScannerModal } from './components/QRScannerModal';
 import { RatchetVisualizer } from './components/RatchetVisualizer';
+import { KeyChangeModal } from './components/KeyChangeModal';
+import { ContactBook } from './components/ContactBook';
+import { ConversationView } from './components/ConversationView';
+import { GroupView } from './components/GroupView';
 import { useKeyManagement } from './hooks/useKeyManagement';
 import { useCrypto } from './hooks/useCrypto';
 import { useQRScanner } from './hooks/useQRScanner';
 import { uint8ArrayToBase32Crockford, formatInGroups } from './utils/encoding';
 import { copyTextToClipboard, copyImageToClipboard } from './utils/clipboard';
+import { computeSafetyNumber, isSafetyNumberPayload, matchesSafetyNumber } from './utils/safetyNumber';
 import { DisplayFormat } from './types';
 
 const App: React.FC = () => {
   const {
     keypair,
     keypairDisplay,
+    ephemeralSeed,
     masterKey,
     setMasterKey,
     masterKeyLocked,
@@ -25,19 +31,42 @@ const App: React.FC = () => {
     userId,
     generateNewKeypair,
     handleMasterKeySubmit,
+    restoreFromRecoveryPhrase,
+    recoveryPhrase,
     lockApp,
     incrementNonceCounter,
     setWaitingForMasterKey,
     isUnlocking,
+    unlockProgress,
+    rollbackWarning,
+    overrideRollback,
+    dismissRollbackWarning,
+    contextMismatch,
+    rebindToCurrentContext,
+    dismissContextMismatch,
     isSavingKeys,
     isLocking,
     changeMasterKey,
+    fragmentSlots,
+    currentSlotId,
+    addPassphraseSlot,
+    removePassphraseSlot,
+    preferredKdf,
+    changeFragmentKdf,
+    contextPolicy,
+    changeContextPolicy,
     formatPublicKeyBundle,
+    storeKey,
+    signingKeyPair,
   } = useKeyManagement();
 
   const {
     recipientPublicKey,
     setRecipientPublicKey,
+    contactName,
+    setContactName,
+    extraRecipients,
+    setExtraRecipients,
     message,
     setMessage,
     output,
@@ -45,16 +74,55 @@ const App: React.FC = () => {
     isDecrypting,
     handleEncrypt,
     handleDecrypt,
+    signMode,
+    setSignMode,
+    detachedSignature,
+    setDetachedSignature,
+    signatureInput,
+    setSignatureInput,
+    canSign,
+    handleSign,
+    handleVerify,
     useRatchet,
     setUseRatchet,
+    useHeaderEncryption,
+    setUseHeaderEncryption,
     ratchetInitialized,
     ratchetOperations,
     ratchetSession,
     isRatchetProcessing,
     ratchetSessionCount,
     handleResetRatchet,
-    clearAllSessions
-  } = useCrypto(keypair, incrementNonceCounter, masterKey);
+    clearAllSessions,
+    setRatchetSessionVerified,
+    recipientSeedUnsigned,
+    pendingKeyChange,
+    acceptKeyChange,
+    rejectKeyChange,
+    clearTrustedKeys,
+    contacts,
+    selectedContact,
+    selectContact,
+    saveContact,
+    editContact,
+    removeContact,
+    hasContactSession,
+    clearAllContacts,
+    conversation,
+    retentionPolicy,
+    setRetentionPolicy,
+    clearConversation,
+    clearAllConversations,
+    groups,
+    describeMember,
+    handleCreateGroup,
+    handleAddGroupMember,
+    handleRemoveGroupMember,
+    handleShareGroupKey,
+    handleGroupEncrypt,
+    leaveGroup,
+    clearAllGroups
+  } = useCrypto(keypair, incrementNonceCounter, storeKey, ephemeralSeed, signingKeyPair);
 
   const {
     showScanner,
@@ -62,14 +130,35 @@ const App: React.FC = () => {
     videoRef,
     openScanner,
     stopScanner
-  } = useQRScanner((data) => setRecipientPublicKey(data));
+  } = useQRScanner((data) => {
+    if (!isSafetyNumberPayload(data)) {
+      setRecipientPublicKey(data);
+      return;
+    }
+
+    // A safety number from the contact's screen: compare with ours
+    if (!ratchetSession) {
+      alert('No active ratchet session to verify.');
+      return;
+    }
+    const safetyNumber = computeSafetyNumber(
+      ratchetSession.myIdentityKeyPair.publicKey,
+      ratchetSession.theirIdentityPublicKey
+    );
+    if (matchesSafetyNumber(data, safetyNumber)) {
+      setRatchetSessionVerified(true);
+      alert('Safety numbers match. Contact marked as verified.');
+    } else {
+      alert('Safety numbers do NOT match!\n\nThis session may not be with the person you expect. Do not mark it as verified.');
+    }
+  });
 
   const [displayFormat, setDisplayFormat] = useState<DisplayFormat>('base32');
   const [copied, setCopied] = useState(false);
   const [copiedOutput, setCopiedOutput] = useState(false);
   const [isRegenerating, setIsRegenerating] = useState(false);
 
-  // Always use the full 64-byte bundle for display
+  // Always use the full signed bundle for display
   const bundleForDisplay = useMemo(() => {
     const bundle = formatPublicKeyBundle();
     return bundle; // Only return valid bundles, not fallbacks
@@ -92,14 +181,21 @@ const App: React.FC = () => {
   };
 
   const handleDestroy = () => {
-    if (window.confirm('Destroy everything and start fresh?\n\nThis will:\n• Clear all ratchet sessions\n• Reset all controls\n• Clear your keys and master key\n• Return to the lock screen\n\nYou will lose EVERYTHING and start completely fresh.\n\nContinue?')) {
+    if (window.confirm('Destroy everything and start fresh?\n\nThis will:\n• Clear all ratchet sessions\n• Delete all contacts and pinned contact keys\n• Delete all conversation history\n• Delete all groups and their sender keys\n• Reset all controls\n• Clear your keys and master key\n• Return to the lock screen\n\nYou will lose EVERYTHING and start completely fresh.\n\nContinue?')) {
       // Clear all sessions
       clearAllSessions();
+      clearTrustedKeys();
+      clearAllContacts();
+      clearAllConversations();
+      clearAllGroups();
       
       // Reset controls
       setRecipientPublicKey('');
+      setContactName('');
+      setExtraRecipients([]);
       setMessage('');
       setUseRatchet(false);
+      setUseHeaderEncryption(false);
       
       // Clear URL fragment (replaceState to avoid history entry)
       window.history.replaceState(null, '', window.location.pathname + window.location.search);
@@ -131,7 +227,7 @@ const App: React.FC = () => {
 
   const copyOutput = async () => {
     if (output) {
-      const textToCopy = output.replace(/^(Encrypted:|Decrypted:)\n/, '');
+      const textToCopy = output.replace(/^(Encrypted:|Decrypted:|Signed:|Signature:|Verified:)\n/, '');
       await copyTextToClipboard(textToCopy);
       setCopiedOutput(true);
       setTimeout(() => setCopiedOutput(false), 2000);
@@ -150,9 +246,17 @@ const App: React.FC = () => {
         masterKey={masterKey}
         setMasterKey={setMasterKey}
         onUnlock={handleMasterKeySubmit}
+        onRestore={restoreFromRecoveryPhrase}
         waitingForMasterKey={waitingForMasterKey}
         onFreshStart={handleFreshStart}
         isUnlocking={isUnlocking}
+        unlockProgress={unlockProgress}
+        rollbackWarning={rollbackWarning}
+        onOverrideRollback={overrideRollback}
+        onDismissRollback={dismissRollbackWarning}
+        contextMismatch={contextMismatch}
+        onRebindContext={rebindToCurrentContext}
+        onDismissContextMismatch={dismissContextMismatch}
       />
     );
   }
@@ -230,6 +334,14 @@ const App: React.FC = () => {
           masterKey={masterKey} 
           onChangeMasterKey={changeMasterKey}
           isChangingMasterKey={isSavingKeys}
+          slots={fragmentSlots}
+          currentSlotId={currentSlotId}
+          onAddSlot={addPassphraseSlot}
+          onRemoveSlot={removePassphraseSlot}
+          kdf={preferredKdf}
+          onChangeKdf={changeFragmentKdf}
+          contextPolicy={contextPolicy}
+          onChangeContextPolicy={changeContextPolicy}
         />
 
         {masterKeyLocked && (
@@ -246,14 +358,34 @@ const App: React.FC = () => {
             onCopyPublicKey={copyPublicKey}
             isRegenerating={isRegenerating || isSavingKeys}
             onRegenerate={handleRegenerate}
+            recoveryPhrase={recoveryPhrase}
           />
         )}
 
         {keypair && !waitingForMasterKey && (
           <>
+            <ContactBook
+              contacts={contacts}
+              selectedContactId={selectedContact?.id ?? null}
+              currentName={contactName}
+              currentKey={recipientPublicKey}
+              onSelect={selectContact}
+              onAdd={saveContact}
+              onEdit={editContact}
+              onDelete={removeContact}
+              hasSession={hasContactSession}
+            />
+
             <EncryptDecryptCard
               recipientPublicKey={recipientPublicKey}
               setRecipientPublicKey={setRecipientPublicKey}
+              contactName={contactName}
+              setContactName={setContactName}
+              contacts={contacts}
+              selectedContactId={selectedContact?.id ?? null}
+              onSelectContact={selectContact}
+              extraRecipients={extraRecipients}
+              setExtraRecipients={setExtraRecipients}
               message={message}
               setMessage={setMessage}
               isEncrypting={isEncrypting}
@@ -264,7 +396,20 @@ const App: React.FC = () => {
               onOpenScanner={openScanner}
               useRatchet={useRatchet}
               onToggleRatchet={() => setUseRatchet(!useRatchet)}
+              useHeaderEncryption={useHeaderEncryption}
+              onToggleHeaderEncryption={() => setUseHeaderEncryption(!useHeaderEncryption)}
               ratchetInitialized={ratchetInitialized}
+              contactVerified={ratchetSession?.verified ?? false}
+              recipientSeedUnsigned={recipientSeedUnsigned}
+              signMode={signMode}
+              onToggleSignMode={() => setSignMode(!signMode)}
+              detachedSignature={detachedSignature}
+              onToggleDetachedSignature={() => setDetachedSignature(!detachedSignature)}
+              signatureInput={signatureInput}
+              setSignatureInput={setSignatureInput}
+              canSign={canSign}
+              onSign={handleSign}
+              onVerify={handleVerify}
             />
 
             {useRatchet && (
@@ -275,6 +420,33 @@ const App: React.FC = () => {
                 sessionCount={ratchetSessionCount}
                 onReset={handleResetRatchet}
                 onClearAll={clearAllSessions}
+                onSetVerified={setRatchetSessionVerified}
+              />
+            )}
+
+            {useRatchet && (
+              <GroupView
+                groups={groups}
+                contacts={contacts}
+                describeMember={describeMember}
+                hasMessage={message.length > 0}
+                isBusy={isEncrypting || isDecrypting}
+                onCreate={handleCreateGroup}
+                onAddMember={handleAddGroupMember}
+                onRemoveMember={handleRemoveGroupMember}
+                onShareKey={handleShareGroupKey}
+                onEncrypt={handleGroupEncrypt}
+                onLeave={leaveGroup}
+              />
+            )}
+
+            {useRatchet && (
+              <ConversationView
+                entries={conversation}
+                hasSession={ratchetSession !== null}
+                retentionPolicy={retentionPolicy}
+                onChangeRetention={setRetentionPolicy}
+                onClear={clearConversation}
               />
             )}
 
@@ -289,6 +461,14 @@ const App: React.FC = () => {
         {showScanner && (
           <QRScannerModal videoRef={videoRef} onClose={stopScanner} />
         )}
+
+        {pendingKeyChange && (
+          <KeyChangeModal
+            change={pendingKeyChange}
+            onAccept={acceptKeyChange}
+            onReject={rejectKeyChange}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { Contact } from '../types/contact';
+import { filterContacts } from '../utils/contacts';
+import { uint8ArrayToBase32Crockford } from '../utils/encoding';
+
+interface ContactBookProps {
+  contacts: Contact[];
+  selectedContactId: string | null;
+  currentName: string;
+  currentKey: string;
+  onSelect: (id: string) => void;
+  onAdd: (name: string, key: string, notes: string) => void;
+  onEdit: (id: string, name: string, key: string, notes: string) => void;
+  onDelete: (id: string) => void;
+  hasSession: (contact: Contact) => boolean;
+}
+
+interface ContactForm {
+  id: string | null; // null when adding
+  name: string;
+  key: string;
+  notes: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  fontSize: '13px',
+  border: '1px solid #e0e0e0',
+  borderRadius: '6px',
+  boxSizing: 'border-box',
+  marginBottom: '8px'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  fontSize: '11px',
+  backgroundColor: 'white',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+export const ContactBook: React.FC<ContactBookProps> = ({
+  contacts,
+  selectedContactId,
+  currentName,
+  currentKey,
+  onSelect,
+  onAdd,
+  onEdit,
+  onDelete,
+  hasSession
+}) => {
+  const [query, setQuery] = useState('');
+  const [form, setForm] = useState<ContactForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const visibleContacts = filterContacts(contacts, query);
+
+  const openAddForm = () => {
+    // Prefill from the recipient currently entered
+    setForm({ id: null, name: currentName, key: currentKey, notes: '' });
+    setFormError(null);
+  };
+
+  const openEditForm = (contact: Contact) => {
+    setForm({
+      id: contact.id,
+      name: contact.name,
+      key: uint8ArrayToBase32Crockford(contact.bundle),
+      notes: contact.notes
+    });
+    setFormError(null);
+  };
+
+  const submitForm = () => {
+    if (!form) return;
+    try {
+      if (form.id) {
+        onEdit(form.id, form.name, form.key, form.notes);
+      } else {
+        onAdd(form.name, form.key, form.notes);
+      }
+      setForm(null);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDelete = (contact: Contact) => {
+    if (window.confirm(`Delete ${contact.name}?\n\nTheir pinned keys are forgotten. The ratchet session is kept.`)) {
+      onDelete(contact.id);
+    }
+  };
+
+  const formatLastUsed = (lastUsed: number | null): string =>
+    lastUsed ? new Date(lastUsed).toLocaleDateString() : 'Never';
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      borderRadius: '8px',
+      padding: '20px',
+      marginBottom: '20px',
+      boxShadow: '0 2px 4px rgba(0, 0, 0, 0.1)'
+    }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: '15px'
+      }}>
+        <h3 style={{ margin: 0, fontSize: '18px', color: '#333' }}>
+          📇 Contacts ({contacts.length})
+        </h3>
+        {!form && (
+          <button
+            onClick={openAddForm}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: '#2196F3',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '12px',
+              cursor: 'pointer'
+            }}
+          >
+            + Add Contact
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <div style={{
+          padding: '12px',
+          marginBottom: '15px',
+          backgroundColor: '#f8f9fa',
+          borderRadius: '6px'
+        }}>
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Name"
+            style={inputStyle}
+          />
+          <input
+            type="text"
+            value={form.key}
+            onChange={(e) => setForm({ ...form, key: e.target.value })}
+            placeholder="Public key bundle (base32 or words)"
+            style={{ ...inputStyle, fontFamily: 'monospace' }}
+          />
+          <textarea
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            placeholder="Notes"
+            rows={2}
+            style={{ ...inputStyle, resize: 'vertical' }}
+          />
+          {formError && (
+            <div style={{ color: '#c62828', fontSize: '12px', marginBottom: '8px' }}>
+              {formError}
+            </div>
+          )}
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              onClick={submitForm}
+              style={{ ...smallButtonStyle, backgroundColor: '#4CAF50', color: 'white', border: 'none' }}
+            >
+              {form.id ? 'Save Changes' : 'Save Contact'}
+            </button>
+            <button onClick={() => setForm(null)} style={smallButtonStyle}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {contacts.length > 0 && (
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, user ID or notes..."
+          style={inputStyle}
+        />
+      )}
+
+      {contacts.length === 0 && !form && (
+        <div style={{ fontSize: '13px', color: '#999' }}>
+          No contacts yet. Save a recipient to pick them again later.
+        </div>
+      )}
+
+      <div style={{ maxHeight: '320px', overflowY: 'auto' }}>
+        {visibleContacts.map(contact => {
+          const sessionActive = hasSession(contact);
+          return (
+            <div
+              key={contact.id}
+              style={{
+                padding: '10px',
+                marginBottom: '6px',
+                borderRadius: '6px',
+                border: '1px solid ' + (contact.id === selectedContactId ? '#2196F3' : '#eee'),
+                backgroundColor: contact.id === selectedContactId ? '#e3f2fd' : 'white'
+              }}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <div>
+                  <strong style={{ fontSize: '14px' }}>{contact.name}</strong>
+                  <span
+                    title={contact.verified ? 'Safety number verified' : 'Not verified'}
+                    style={{ marginLeft: '6px', fontSize: '12px' }}
+                  >
+                    {contact.verified ? '✅' : '⚠️'}
+                  </span>
+                  <div style={{ fontSize: '11px', color: '#666', fontFamily: 'monospace' }}>
+                    {contact.userId}
+                  </div>
+                </div>
+                <div style={{ display: 'flex', gap: '6px' }}>
+                  <button onClick={() => onSelect(contact.id)} style={smallButtonStyle}>
+                    {sessionActive ? 'Open Session' : 'Use'}
+                  </button>
+                  <button onClick={() => openEditForm(contact)} style={smallButtonStyle}>
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(contact)} style={{ ...smallButtonStyle, color: '#c62828' }}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <div style={{ fontSize: '11px', color: '#999', marginTop: '4px' }}>
+                {sessionActive ? '🔐 Ratchet session' : 'No session yet'} · Last used: {formatLastUsed(contact.lastUsed)}
+              </div>
+              {contact.notes && (
+                <div style={{ fontSize: '12px', color: '#555', marginTop: '4px', whiteSpace: 'pre-line' }}>
+                  {contact.notes}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef } from 'react';
+import { HistoryEntry, RetentionPolicy, RetentionMode } from '../types/history';
+
+interface ConversationViewProps {
+  entries: HistoryEntry[];
+  hasSession: boolean;
+  retentionPolicy: RetentionPolicy;
+  onChangeRetention: (policy: RetentionPolicy) => void;
+  onClear: () => void;
+}
+
+export const ConversationView: React.FC<ConversationViewProps> = ({
+  entries,
+  hasSession,
+  retentionPolicy,
+  onChangeRetention,
+  onClear
+}) => {
+  const endRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView?.({ block: 'nearest' });
+  }, [entries.length]);
+
+  const handleModeChange = (mode: RetentionMode) => {
+    if (mode === 'never' && retentionPolicy.mode !== 'never' &&
+        !window.confirm('Stop storing history?\n\nAll stored conversations will be deleted.')) {
+      return;
+    }
+    onChangeRetention({ ...retentionPolicy, mode });
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Delete the stored history of this conversation?')) {
+      onClear();
+    }
+  };
+
+  const formatTime = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      borderRadius: '8px',
+      padding: '20px',
+      marginBottom: '20px',
+      boxShadow: '0 2px 4px rgba(0, 0, 0, 0.1)'
+    }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        flexWrap: 'wrap',
+        gap: '8px',
+        marginBottom: '15px'
+      }}>
+        <h3 style={{ margin: 0, fontSize: '18px', color: '#333' }}>
+          💬 Conversation
+        </h3>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#666' }}>
+          <label htmlFor="history-retention">History:</label>
+          <select
+            id="history-retention"
+            value={retentionPolicy.mode}
+            onChange={(e) => handleModeChange(e.target.value as RetentionMode)}
+            style={{ padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '4px' }}
+          >
+            <option value="never">Don't store</option>
+            <option value="days">Keep for...</option>
+            <option value="forever">Keep forever</option>
+          </select>
+          {retentionPolicy.mode === 'days' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={retentionPolicy.days}
+                onChange={(e) => {
+                  const days = parseInt(e.target.value, 10);
+                  if (days > 0) {
+                    onChangeRetention({ ...retentionPolicy, days });
+                  }
+                }}
+                style={{ width: '50px', padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '4px' }}
+              />
+              <span>days</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      {retentionPolicy.mode === 'never' ? (
+        <div style={{ fontSize: '13px', color: '#999' }}>
+          Messages are not stored. Choose how long to keep history to see past messages here.
+        </div>
+      ) : !hasSession ? (
+        <div style={{ fontSize: '13px', color: '#999' }}>
+          No active session. Encrypt or decrypt a message to start a conversation.
+        </div>
+      ) : entries.length === 0 ? (
+        <div style={{ fontSize: '13px', color: '#999' }}>
+          No stored messages in this conversation yet.
+        </div>
+      ) : (
+        <>
+          <div style={{
+            maxHeight: '360px',
+            overflowY: 'auto',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '8px',
+            padding: '4px'
+          }}>
+            {entries.map((entry, i) => (
+              <div
+                key={i}
+                style={{
+                  alignSelf: entry.direction === 'sent' ? 'flex-end' : 'flex-start',
+                  maxWidth: '75%',
+                  padding: '8px 12px',
+                  borderRadius: '12px',
+                  backgroundColor: entry.direction === 'sent' ? '#2196F3' : '#f0f0f0',
+                  color: entry.direction === 'sent' ? 'white' : '#333'
+                }}
+              >
+                <div style={{ fontSize: '14px', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {entry.text}
+                </div>
+                <div style={{ fontSize: '10px', opacity: 0.7, marginTop: '4px', textAlign: 'right' }}>
+                  #{entry.counter} · {formatTime(entry.timestamp)}
+                </div>
+              </div>
+            ))}
+            <div ref={endRef} />
+          </div>
+          <button
+            onClick={handleClear}
+            style={{
+              marginTop: '12px',
+              padding: '4px 8px',
+              fontSize: '11px',
+              backgroundColor: 'white',
+              color: '#c62828',
+              border: '1px solid #ddd',
+              borderRadius: '4px',
+              cursor: 'pointer'
+            }}
+          >
+            Clear Conversation
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,19 @@
 import React from 'react';
-import { IconQrcode } from '@tabler/icons-react';
+import { IconQrcode, IconX } from '@tabler/icons-react';
+import { Contact } from '../types/contact';
+import { uint8ArrayToBase32Crockford } from '../utils/encoding';
+import { MAX_RECIPIENTS } from '../utils/crypto';
 
 interface EncryptDecryptCardProps {
   recipientPublicKey: string;
   setRecipientPublicKey: (key: string) => void;
+  contactName: string;
+  setContactName: (name: string) => void;
+  contacts: Contact[];
+  selectedContactId: string | null;
+  onSelectContact: (id: string | null) => void;
+  extraRecipients: string[];
+  setExtraRecipients: (keys: string[]) => void;
   message: string;
   setMessage: (msg: string) => void;
   isEncrypting: boolean;
@@ -14,12 +24,32 @@ interface EncryptDecryptCardProps {
   onOpenScanner: () => void;
   useRatchet: boolean;
   onToggleRatchet: () => void;
+  useHeaderEncryption: boolean;
+  onToggleHeaderEncryption: () => void;
   ratchetInitialized: boolean;
+  contactVerified: boolean;
+  recipientSeedUnsigned: boolean;
+  signMode: boolean;
+  onToggleSignMode: () => void;
+  detachedSignature: boolean;
+  onToggleDetachedSignature: () => void;
+  signatureInput: string;
+  setSignatureInput: (signature: string) => void;
+  canSign: boolean;
+  onSign: () => void;
+  onVerify: () => void;
 }
 
 export const EncryptDecryptCard: React.FC<EncryptDecryptCardProps> = ({
   recipientPublicKey,
   setRecipientPublicKey,
+  contactName,
+  setContactName,
+  contacts,
+  selectedContactId,
+  onSelectContact,
+  extraRecipients,
+  setExtraRecipients,
   message,
   setMessage,
   isEncrypting,
@@ -30,7 +60,20 @@ export const EncryptDecryptCard: React.FC<EncryptDecryptCardProps> = ({
   onOpenScanner,
   useRatchet,
   onToggleRatchet,
-  ratchetInitialized
+  useHeaderEncryption,
+  onToggleHeaderEncryption,
+  ratchetInitialized,
+  contactVerified,
+  recipientSeedUnsigned,
+  signMode,
+  onToggleSignMode,
+  detachedSignature,
+  onToggleDetachedSignature,
+  signatureInput,
+  setSignatureInput,
+  canSign,
+  onSign,
+  onVerify
 }) => {
   return (
     <div style={{
@@ -51,99 +94,301 @@ export const EncryptDecryptCard: React.FC<EncryptDecryptCardProps> = ({
           fontSize: '18px', 
           color: '#333' 
         }}>
-          💬 Encrypt/Decrypt Messages
+          {signMode ? '✍️ Sign/Verify Messages' : '💬 Encrypt/Decrypt Messages'}
         </h3>
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-          {ratchetInitialized && (
-            <span style={{
-              padding: '4px 8px',
-              borderRadius: '12px',
-              backgroundColor: '#4CAF50',
-              color: 'white',
-              fontSize: '11px',
-              fontWeight: 'bold'
-            }}>
-              RATCHET ACTIVE
-            </span>
-          )}
           <button
-            onClick={onToggleRatchet}
+            onClick={onToggleSignMode}
+            title="Sign a public message instead of encrypting it"
             style={{
               padding: '6px 12px',
-              backgroundColor: useRatchet ? '#4CAF50' : '#f0f0f0',
-              color: useRatchet ? 'white' : '#333',
-              border: '1px solid ' + (useRatchet ? '#4CAF50' : '#ddd'),
+              backgroundColor: signMode ? '#673AB7' : '#f0f0f0',
+              color: signMode ? 'white' : '#333',
+              border: '1px solid ' + (signMode ? '#673AB7' : '#ddd'),
               borderRadius: '6px',
               fontSize: '12px',
               cursor: 'pointer',
               transition: 'all 0.2s'
             }}
           >
-            {useRatchet ? '🔐 Ratchet ON' : '🔓 Ratchet OFF'}
+            {signMode ? '✍️ Sign mode' : '🔒 Encrypt mode'}
           </button>
-        </div>
-      </div>
-
-      <div style={{ marginBottom: '20px' }}>
-        <label style={{ 
-          display: 'block', 
-          marginBottom: '8px', 
-          fontSize: '14px', 
-          fontWeight: '500', 
-          color: '#555' 
-        }}>
-          Recipient's Public Key: {useRatchet && !ratchetInitialized && recipientPublicKey && (
-            <span style={{ color: '#ff9800', fontSize: '12px', marginLeft: '8px' }}>
-              (Ratchet will initialize on first message)
+          {!signMode && ratchetInitialized && (
+            <span style={{
+              padding: '4px 8px',
+              borderRadius: '12px',
+              backgroundColor: '#4CAF50',
+              color: 'white',
+              fontSize: '11px',
+              fontWeight: 'bold'
+            }}>
+              RATCHET ACTIVE
             </span>
           )}
-        </label>
-        <div style={{ display: 'flex', gap: '8px' }}>
-          <input
-            type="text"
-            value={recipientPublicKey}
-            onChange={(e) => setRecipientPublicKey(e.target.value)}
-            placeholder="Enter recipient's public key..."
-            style={{
-              flex: 1,
-              padding: '10px',
-              fontFamily: 'monospace',
-              fontSize: '14px',
-              border: '1px solid #e0e0e0',
-              borderRadius: '6px',
-              boxSizing: 'border-box'
-            }}
-          />
-          {hasCamera && (
-            <button 
-              onClick={onOpenScanner} 
-              title="Scan QR code"
+          {!signMode && (
+            <button
+              onClick={onToggleRatchet}
               style={{
-                padding: '10px',
-                backgroundColor: 'white',
-                border: '1px solid #e0e0e0',
+                padding: '6px 12px',
+                backgroundColor: useRatchet ? '#4CAF50' : '#f0f0f0',
+                color: useRatchet ? 'white' : '#333',
+                border: '1px solid ' + (useRatchet ? '#4CAF50' : '#ddd'),
                 borderRadius: '6px',
+                fontSize: '12px',
                 cursor: 'pointer',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
                 transition: 'all 0.2s'
               }}
-              onMouseOver={(e) => {
-                e.currentTarget.style.backgroundColor = '#f5f5f5';
-                e.currentTarget.style.borderColor = '#2196F3';
-              }}
-              onMouseOut={(e) => {
-                e.currentTarget.style.backgroundColor = 'white';
-                e.currentTarget.style.borderColor = '#e0e0e0';
+            >
+              {useRatchet ? '🔐 Ratchet ON' : '🔓 Ratchet OFF'}
+            </button>
+          )}
+          {!signMode && useRatchet && (
+            <button
+              onClick={onToggleHeaderEncryption}
+              title="Encrypt ratchet headers (hides ephemeral keys and counters)"
+              style={{
+                padding: '6px 12px',
+                backgroundColor: useHeaderEncryption ? '#4CAF50' : '#f0f0f0',
+                color: useHeaderEncryption ? 'white' : '#333',
+                border: '1px solid ' + (useHeaderEncryption ? '#4CAF50' : '#ddd'),
+                borderRadius: '6px',
+                fontSize: '12px',
+                cursor: 'pointer',
+                transition: 'all 0.2s'
               }}
             >
-              <IconQrcode size={20} />
+              {useHeaderEncryption ? '🙈 Headers hidden' : '👁 Headers visible'}
             </button>
           )}
         </div>
       </div>
 
+      {!signMode && (
+        <>
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{ 
+              display: 'block', 
+              marginBottom: '8px', 
+              fontSize: '14px', 
+              fontWeight: '500', 
+              color: '#555' 
+            }}>
+              Contact:
+              <span style={{ color: '#999', fontSize: '12px', fontWeight: 'normal', marginLeft: '8px' }}>
+                (optional - warns if this contact's keys change)
+              </span>
+            </label>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              {contacts.length > 0 && (
+                <select
+                  value={selectedContactId ?? ''}
+                  onChange={(e) => onSelectContact(e.target.value || null)}
+                  style={{
+                    flex: 1,
+                    padding: '10px',
+                    fontSize: '14px',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '6px',
+                    backgroundColor: 'white'
+                  }}
+                >
+                  <option value="">New recipient...</option>
+                  {contacts.map(contact => (
+                    <option key={contact.id} value={contact.id}>
+                      {contact.verified ? '✅ ' : ''}{contact.name} ({contact.userId})
+                    </option>
+                  ))}
+                </select>
+              )}
+              {!selectedContactId && (
+                <input
+                  type="text"
+                  value={contactName}
+                  onChange={(e) => setContactName(e.target.value)}
+                  placeholder="Name, e.g. Alice"
+                  style={{
+                    flex: 1,
+                    padding: '10px',
+                    fontSize: '14px',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '6px',
+                    boxSizing: 'border-box'
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div style={{ marginBottom: '20px' }}>
+            <label style={{ 
+              display: 'block', 
+              marginBottom: '8px', 
+              fontSize: '14px', 
+              fontWeight: '500', 
+              color: '#555' 
+            }}>
+              Recipient's Public Key: {useRatchet && !ratchetInitialized && recipientPublicKey && (
+                <span style={{ color: '#ff9800', fontSize: '12px', marginLeft: '8px' }}>
+                  (Ratchet will initialize on first message)
+                </span>
+              )}
+            </label>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <input
+                type="text"
+                value={recipientPublicKey}
+                onChange={(e) => setRecipientPublicKey(e.target.value)}
+                placeholder="Enter recipient's public key..."
+                style={{
+                  flex: 1,
+                  padding: '10px',
+                  fontFamily: 'monospace',
+                  fontSize: '14px',
+                  border: '1px solid #e0e0e0',
+                  borderRadius: '6px',
+                  boxSizing: 'border-box'
+                }}
+              />
+              {hasCamera && (
+                <button 
+                  onClick={onOpenScanner} 
+                  title="Scan QR code"
+                  style={{
+                    padding: '10px',
+                    backgroundColor: 'white',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    transition: 'all 0.2s'
+                  }}
+                  onMouseOver={(e) => {
+                    e.currentTarget.style.backgroundColor = '#f5f5f5';
+                    e.currentTarget.style.borderColor = '#2196F3';
+                  }}
+                  onMouseOut={(e) => {
+                    e.currentTarget.style.backgroundColor = 'white';
+                    e.currentTarget.style.borderColor = '#e0e0e0';
+                  }}
+                >
+                  <IconQrcode size={20} />
+                </button>
+              )}
+            </div>
+
+            {/* Additional recipients share one multi-recipient envelope (standard mode only) */}
+            {!useRatchet && (
+              <div style={{ marginTop: '8px' }}>
+                {extraRecipients.map((key, i) => (
+                  <div key={i} style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+                    <input
+                      type="text"
+                      value={key}
+                      onChange={(e) => setExtraRecipients(extraRecipients.map((k, j) => j === i ? e.target.value : k))}
+                      placeholder="Enter another recipient's public key..."
+                      style={{
+                        flex: 1,
+                        padding: '10px',
+                        fontFamily: 'monospace',
+                        fontSize: '14px',
+                        border: '1px solid #e0e0e0',
+                        borderRadius: '6px',
+                        boxSizing: 'border-box'
+                      }}
+                    />
+                    <button
+                      onClick={() => setExtraRecipients(extraRecipients.filter((_, j) => j !== i))}
+                      title="Remove recipient"
+                      style={{
+                        padding: '10px',
+                        backgroundColor: 'white',
+                        border: '1px solid #e0e0e0',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center'
+                      }}
+                    >
+                      <IconX size={16} />
+                    </button>
+                  </div>
+                ))}
+                {extraRecipients.length + 1 < MAX_RECIPIENTS && (
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                      onClick={() => setExtraRecipients([...extraRecipients, ''])}
+                      style={{
+                        padding: '6px 12px',
+                        backgroundColor: 'white',
+                        border: '1px solid #ddd',
+                        borderRadius: '6px',
+                        fontSize: '12px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      + Add Recipient
+                    </button>
+                    {contacts.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const contact = contacts.find(c => c.id === e.target.value);
+                          if (contact) {
+                            setExtraRecipients([...extraRecipients, uint8ArrayToBase32Crockford(contact.bundle)]);
+                          }
+                        }}
+                        style={{
+                          padding: '6px',
+                          fontSize: '12px',
+                          border: '1px solid #ddd',
+                          borderRadius: '6px',
+                          backgroundColor: 'white'
+                        }}
+                      >
+                        <option value="">+ Add contact...</option>
+                        {contacts.map(contact => (
+                          <option key={contact.id} value={contact.id}>{contact.name}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {useRatchet && ratchetInitialized && !contactVerified && (
+            <div style={{
+              marginBottom: '20px',
+              padding: '10px',
+              backgroundColor: '#fff3e0',
+              border: '1px solid #ffb74d',
+              borderRadius: '6px',
+              fontSize: '13px',
+              color: '#e65100'
+            }}>
+              ⚠️ This contact is unverified. Compare safety numbers in the ratchet panel before sending anything sensitive.
+            </div>
+          )}
+
+          {recipientSeedUnsigned && (
+            <div style={{
+              marginBottom: '20px',
+              padding: '10px',
+              backgroundColor: '#fff3e0',
+              border: '1px solid #ffb74d',
+              borderRadius: '6px',
+              fontSize: '13px',
+              color: '#e65100'
+            }}>
+              ⚠️ This recipient's key bundle is unsigned, so its ephemeral seed is not authenticated. Ask them for a signed bundle, or compare safety numbers before trusting the session.
+            </div>
+          )}
+        </>
+      )}
+
       <div style={{ marginBottom: '20px' }}>
         <label style={{ 
           display: 'block', 
@@ -173,44 +418,126 @@ export const EncryptDecryptCard: React.FC<EncryptDecryptCardProps> = ({
         />
       </div>
 
-      <div style={{ display: 'flex', gap: '10px', marginBottom: '20px' }}>
-        <button 
-          onClick={onEncrypt}
-          disabled={isEncrypting || isDecrypting}
-          style={{
-            flex: 1,
-            padding: '12px',
-            backgroundColor: isEncrypting || isDecrypting ? '#ccc' : '#4CAF50',
-            color: 'white',
-            border: 'none',
-            borderRadius: '6px',
-            fontSize: '16px',
-            fontWeight: '500',
-            cursor: isEncrypting || isDecrypting ? 'not-allowed' : 'pointer',
-            transition: 'background-color 0.2s'
-          }}
-        >
-          {isEncrypting ? 'Encrypting...' : 'Encrypt'}
-        </button>
-        <button 
-          onClick={onDecrypt}
-          disabled={isEncrypting || isDecrypting}
-          style={{
-            flex: 1,
-            padding: '12px',
-            backgroundColor: isEncrypting || isDecrypting ? '#ccc' : '#2196F3',
-            color: 'white',
-            border: 'none',
-            borderRadius: '6px',
-            fontSize: '16px',
+      {signMode && (
+        <div style={{ marginBottom: '20px' }}>
+          <label style={{
+            display: 'block',
+            marginBottom: '8px',
+            fontSize: '14px',
             fontWeight: '500',
-            cursor: isEncrypting || isDecrypting ? 'not-allowed' : 'pointer',
-            transition: 'background-color 0.2s'
-          }}
-        >
-          {isDecrypting ? 'Decrypting...' : 'Decrypt'}
-        </button>
-      </div>
+            color: '#555'
+          }}>
+            Detached signature:
+            <span style={{ color: '#999', fontSize: '12px', fontWeight: 'normal', marginLeft: '8px' }}>
+              (only to verify a message signed separately - clearsigned blocks carry their own)
+            </span>
+          </label>
+          <textarea
+            value={signatureInput}
+            onChange={(e) => setSignatureInput(e.target.value)}
+            placeholder="Paste the signature..."
+            rows={3}
+            style={{
+              width: '100%',
+              padding: '10px',
+              fontFamily: 'monospace',
+              fontSize: '14px',
+              border: '1px solid #e0e0e0',
+              borderRadius: '6px',
+              boxSizing: 'border-box',
+              resize: 'vertical'
+            }}
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '8px', fontSize: '13px', color: '#555', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={detachedSignature}
+              onChange={onToggleDetachedSignature}
+            />
+            Sign with a detached signature instead of a clearsigned block
+          </label>
+        </div>
+      )}
+
+      {signMode ? (
+        <div style={{ display: 'flex', gap: '10px', marginBottom: '20px' }}>
+          <button
+            onClick={onSign}
+            disabled={!canSign}
+            title={canSign ? undefined : 'No signing key loaded'}
+            style={{
+              flex: 1,
+              padding: '12px',
+              backgroundColor: canSign ? '#673AB7' : '#ccc',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '16px',
+              fontWeight: '500',
+              cursor: canSign ? 'pointer' : 'not-allowed',
+              transition: 'background-color 0.2s'
+            }}
+          >
+            Sign
+          </button>
+          <button
+            onClick={onVerify}
+            style={{
+              flex: 1,
+              padding: '12px',
+              backgroundColor: '#2196F3',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '16px',
+              fontWeight: '500',
+              cursor: 'pointer',
+              transition: 'background-color 0.2s'
+            }}
+          >
+            Verify
+          </button>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: '10px', marginBottom: '20px' }}>
+          <button 
+            onClick={onEncrypt}
+            disabled={isEncrypting || isDecrypting}
+            style={{
+              flex: 1,
+              padding: '12px',
+              backgroundColor: isEncrypting || isDecrypting ? '#ccc' : '#4CAF50',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '16px',
+              fontWeight: '500',
+              cursor: isEncrypting || isDecrypting ? 'not-allowed' : 'pointer',
+              transition: 'background-color 0.2s'
+            }}
+          >
+            {isEncrypting ? 'Encrypting...' : 'Encrypt'}
+          </button>
+          <button 
+            onClick={onDecrypt}
+            disabled={isEncrypting || isDecrypting}
+            style={{
+              flex: 1,
+              padding: '12px',
+              backgroundColor: isEncrypting || isDecrypting ? '#ccc' : '#2196F3',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '16px',
+              fontWeight: '500',
+              cursor: isEncrypting || isDecrypting ? 'not-allowed' : 'pointer',
+              transition: 'background-color 0.2s'
+            }}
+          >
+            {isDecrypting ? 'Decrypting...' : 'Decrypt'}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
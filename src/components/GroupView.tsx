@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { GroupState } from '../types/group';
+import { Contact } from '../types/contact';
+import { getGroupIdString, isGroupAdmin, isGroupMember, managesMembership } from '../utils/groups';
+import { getContactIdentityKey } from '../utils/contacts';
+import { uint8ArrayToBase32Crockford } from '../utils/encoding';
+
+interface GroupViewProps {
+  groups: GroupState[];
+  contacts: Contact[];
+  describeMember: (identityKey: Uint8Array) => string;
+  hasMessage: boolean;
+  isBusy: boolean;
+  onCreate: (name: string, contactIds: string[]) => void;
+  onAddMember: (groupId: string, contactId: string) => void;
+  onRemoveMember: (groupId: string, memberKey: Uint8Array) => void;
+  onShareKey: (groupId: string) => void;
+  onEncrypt: (groupId: string) => void;
+  onLeave: (groupId: string) => void;
+}
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  fontSize: '11px',
+  backgroundColor: 'white',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  cursor: 'pointer'
+};
+
+export const GroupView: React.FC<GroupViewProps> = ({
+  groups,
+  contacts,
+  describeMember,
+  hasMessage,
+  isBusy,
+  onCreate,
+  onAddMember,
+  onRemoveMember,
+  onShareKey,
+  onEncrypt,
+  onLeave
+}) => {
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupContacts, setNewGroupContacts] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const selectedGroup = groups.find(g => getGroupIdString(g.groupId) === selectedGroupId) ?? null;
+
+  const toggleNewGroupContact = (id: string) => {
+    setNewGroupContacts(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const submitNewGroup = () => {
+    onCreate(newGroupName, newGroupContacts);
+    setCreating(false);
+    setNewGroupName('');
+    setNewGroupContacts([]);
+  };
+
+  const handleRemove = (groupId: string, member: Uint8Array) => {
+    if (window.confirm(`Remove ${describeMember(member)} from the group?\n\nYour sender key is rotated and shared with the remaining members.`)) {
+      onRemoveMember(groupId, member);
+    }
+  };
+
+  const handleLeave = (group: GroupState) => {
+    if (window.confirm(`Forget the group "${group.name}"?\n\nAll of its sender keys are deleted from this device.`)) {
+      onLeave(getGroupIdString(group.groupId));
+      setSelectedGroupId(null);
+    }
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      borderRadius: '8px',
+      padding: '20px',
+      marginBottom: '20px',
+      boxShadow: '0 2px 4px rgba(0, 0, 0, 0.1)'
+    }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: '15px'
+      }}>
+        <h3 style={{ margin: 0, fontSize: '18px', color: '#333' }}>
+          👥 Groups ({groups.length})
+        </h3>
+        {!creating && (
+          <button
+            onClick={() => setCreating(true)}
+            disabled={contacts.length === 0}
+            title={contacts.length === 0 ? 'Save contacts first' : undefined}
+            style={{
+              padding: '6px 12px',
+              backgroundColor: contacts.length === 0 ? '#ccc' : '#2196F3',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '12px',
+              cursor: contacts.length === 0 ? 'not-allowed' : 'pointer'
+            }}
+          >
+            + New Group
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <div style={{
+          padding: '12px',
+          marginBottom: '15px',
+          backgroundColor: '#f8f9fa',
+          borderRadius: '6px'
+        }}>
+          <input
+            type="text"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            placeholder="Group name"
+            style={{
+              width: '100%',
+              padding: '8px',
+              fontSize: '13px',
+              border: '1px solid #e0e0e0',
+              borderRadius: '6px',
+              boxSizing: 'border-box',
+              marginBottom: '8px'
+            }}
+          />
+          <div style={{ maxHeight: '160px', overflowY: 'auto', marginBottom: '8px' }}>
+            {contacts.map(contact => (
+              <label key={contact.id} style={{ display: 'block', fontSize: '13px', padding: '2px 0', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={newGroupContacts.includes(contact.id)}
+                  onChange={() => toggleNewGroupContact(contact.id)}
+                  style={{ marginRight: '6px' }}
+                />
+                {contact.name}
+              </label>
+            ))}
+          </div>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button
+              onClick={submitNewGroup}
+              disabled={!newGroupName.trim() || newGroupContacts.length === 0 || isBusy}
+              style={{ ...smallButtonStyle, backgroundColor: '#4CAF50', color: 'white', border: 'none' }}
+            >
+              Create & Share Key
+            </button>
+            <button onClick={() => setCreating(false)} style={smallButtonStyle}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {groups.length === 0 && !creating && (
+        <div style={{ fontSize: '13px', color: '#999' }}>
+          No groups yet. Create one from your contacts, or decrypt a group key sent to you.
+        </div>
+      )}
+
+      {groups.length > 0 && (
+        <select
+          value={selectedGroupId ?? ''}
+          onChange={(e) => setSelectedGroupId(e.target.value || null)}
+          style={{
+            width: '100%',
+            padding: '8px',
+            fontSize: '13px',
+            border: '1px solid #e0e0e0',
+            borderRadius: '6px',
+            marginBottom: '12px'
+          }}
+        >
+          <option value="">Select a group...</option>
+          {groups.map(group => (
+            <option key={getGroupIdString(group.groupId)} value={getGroupIdString(group.groupId)}>
+              {group.name} ({group.members.length + 1} members)
+            </option>
+          ))}
+        </select>
+      )}
+
+      {selectedGroup && (() => {
+        const groupId = getGroupIdString(selectedGroup.groupId);
+        const addableContacts = contacts.filter(c => !isGroupMember(selectedGroup, getContactIdentityKey(c)));
+        // Only the admin adds and removes members
+        const isAdmin = managesMembership(selectedGroup);
+        return (
+          <div>
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
+              Epoch {selectedGroup.epoch} · Sent on this chain: {selectedGroup.mySenderKey.counter}
+            </div>
+
+            {selectedGroup.needsKeyShare && (
+              <div style={{
+                padding: '8px 12px',
+                marginBottom: '10px',
+                backgroundColor: '#fff3e0',
+                border: '1px solid #ffb74d',
+                borderRadius: '6px',
+                fontSize: '12px',
+                color: '#e65100'
+              }}>
+                ⚠️ Membership changed or you just joined. Share a new sender key before sending to this group.
+              </div>
+            )}
+
+            {selectedGroup.members.map(member => {
+              const hasKey = selectedGroup.senderKeys.has(uint8ArrayToBase32Crockford(member));
+              return (
+                <div
+                  key={uint8ArrayToBase32Crockford(member)}
+                  style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    padding: '6px 8px',
+                    marginBottom: '4px',
+                    border: '1px solid #eee',
+                    borderRadius: '6px',
+                    fontSize: '13px'
+                  }}
+                >
+                  <span>
+                    {describeMember(member)}
+                    <span style={{ marginLeft: '6px', fontSize: '11px', color: hasKey ? '#2e7d32' : '#999' }}>
+                      {hasKey ? '🔑 key received' : 'waiting for their key'}
+                    </span>
+                  </span>
+                  {isAdmin ? (
+                    <button
+                      onClick={() => handleRemove(groupId, member)}
+                      disabled={isBusy || selectedGroup.members.length === 1}
+                      style={{ ...smallButtonStyle, color: '#c62828' }}
+                    >
+                      Remove
+                    </button>
+                  ) : isGroupAdmin(selectedGroup, member) && (
+                    <span style={{ fontSize: '11px', color: '#666' }}>admin</span>
+                  )}
+                </div>
+              );
+            })}
+
+            {isAdmin && addableContacts.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && onAddMember(groupId, e.target.value)}
+                disabled={isBusy}
+                style={{ marginTop: '6px', padding: '4px', fontSize: '12px', border: '1px solid #ddd', borderRadius: '4px' }}
+              >
+                <option value="">+ Add member...</option>
+                {addableContacts.map(contact => (
+                  <option key={contact.id} value={contact.id}>{contact.name}</option>
+                ))}
+              </select>
+            )}
+
+            <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginTop: '12px' }}>
+              <button
+                onClick={() => onEncrypt(groupId)}
+                disabled={isBusy || !hasMessage || selectedGroup.needsKeyShare}
+                title="Encrypts the message entered above"
+                style={{ ...smallButtonStyle, backgroundColor: '#2196F3', color: 'white', border: 'none' }}
+              >
+                🔐 Encrypt Message for Group
+              </button>
+              <button onClick={() => onShareKey(groupId)} disabled={isBusy} style={smallButtonStyle}>
+                🔄 Share New Sender Key
+              </button>
+              <button onClick={() => handleLeave(selectedGroup)} style={{ ...smallButtonStyle, color: '#c62828' }}>
+                Leave Group
+              </button>
+            </div>
+          </div>
+        );
+      })()}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React from 'react';
+import { KeyChange } from '../utils/trustStore';
+import { uint8ArrayToBase32Crockford, formatInGroups } from '../utils/encoding';
+
+interface KeyChangeModalProps {
+  change: KeyChange;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const keyBoxStyle: React.CSSProperties = {
+  fontFamily: 'monospace',
+  fontSize: '12px',
+  whiteSpace: 'pre-line',
+  padding: '8px',
+  borderRadius: '4px',
+  marginTop: '4px'
+};
+
+export const KeyChangeModal: React.FC<KeyChangeModalProps> = ({ change, onAccept, onReject }) => {
+  const formatKey = (key: Uint8Array | null): string =>
+    key ? formatInGroups(uint8ArrayToBase32Crockford(key), true) : '(not provided)';
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: 'rgba(0, 0, 0, 0.9)',
+      zIndex: 1000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center'
+    }}>
+      <div style={{
+        backgroundColor: 'white',
+        borderRadius: '12px',
+        padding: '20px',
+        maxWidth: '560px',
+        width: '90%',
+        maxHeight: '90vh',
+        overflowY: 'auto'
+      }}>
+        <h3 style={{ margin: '0 0 12px 0', color: '#c62828' }}>
+          🚨 Keys changed for {change.contact}
+        </h3>
+
+        <p style={{ fontSize: '14px', color: '#333', margin: '0 0 16px 0' }}>
+          The {change.identityKeyChanged ? 'identity key' : change.signingKeyChanged ? 'signing key' : 'ephemeral seed'} you entered for this contact
+          differs from the one first seen on {new Date(change.previous.firstSeen).toLocaleString()}.
+          They may have generated new keys, or someone may be impersonating them.
+          Confirm the new key with them over a channel you trust before accepting.
+        </p>
+
+        {change.identityKeyChanged && (
+          <div style={{ marginBottom: '12px', fontSize: '13px' }}>
+            <strong>Identity key</strong>
+            <div style={{ ...keyBoxStyle, backgroundColor: '#ffebee' }}>
+              Previous:{'\n'}{formatKey(change.previous.identityKey)}
+            </div>
+            <div style={{ ...keyBoxStyle, backgroundColor: '#fff3e0' }}>
+              New:{'\n'}{formatKey(change.identityKey)}
+            </div>
+          </div>
+        )}
+
+        {change.signingKeyChanged && (
+          <div style={{ marginBottom: '12px', fontSize: '13px' }}>
+            <strong>Signing key</strong>
+            <div style={{ ...keyBoxStyle, backgroundColor: '#ffebee' }}>
+              Previous:{'\n'}{formatKey(change.previous.signingKey)}
+            </div>
+            <div style={{ ...keyBoxStyle, backgroundColor: '#fff3e0' }}>
+              New:{'\n'}{formatKey(change.signingKey)}
+            </div>
+          </div>
+        )}
+
+        {change.ephemeralSeedChanged && (
+          <div style={{ marginBottom: '12px', fontSize: '13px' }}>
+            <strong>Ephemeral seed</strong>
+            <div style={{ ...keyBoxStyle, backgroundColor: '#ffebee' }}>
+              Previous:{'\n'}{formatKey(change.previous.ephemeralSeed)}
+            </div>
+            <div style={{ ...keyBoxStyle, backgroundColor: '#fff3e0' }}>
+              New:{'\n'}{formatKey(change.ephemeralSeed)}
+            </div>
+          </div>
+        )}
+
+        {change.identityKeyChanged && (
+          <p style={{ fontSize: '12px', color: '#666', margin: '0 0 16px 0' }}>
+            Accepting starts a new, unverified session. Compare safety numbers again afterwards.
+          </p>
+        )}
+
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button
+            onClick={onReject}
+            style={{
+              flex: 1,
+              padding: '12px',
+              backgroundColor: '#4CAF50',
+              color: 'white',
+              border: 'none',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer'
+            }}
+          >
+            Reject
+          </button>
+          <button
+            onClick={onAccept}
+            style={{
+              flex: 1,
+              padding: '12px',
+              backgroundColor: '#f0f0f0',
+              color: '#c62828',
+              border: '1px solid #c62828',
+              borderRadius: '6px',
+              fontSize: '14px',
+              fontWeight: '500',
+              cursor: 'pointer'
+            }}
+          >
+            Accept New Keys
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
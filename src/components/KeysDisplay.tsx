@@ -1,7 +1,11 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { IconRefresh, IconCopy, IconCheck } from '@tabler/icons-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { DisplayFormat, KeyPairDisplay } from '../types';
+import { pickConfirmationIndices } from '../utils/recovery';
+import { RecoverySharesPanel } from './RecoverySharesPanel';
+
+type BackupStep = 'hidden' | 'words' | 'confirm' | 'confirmed' | 'shares';
 
 interface KeysDisplayProps {
   userId: string | null;
@@ -14,6 +18,7 @@ interface KeysDisplayProps {
   isRegenerating: boolean;
   onRegenerate: () => void;
   showPrivateKey?: boolean;
+  recoveryPhrase: string[] | null;
 }
 
 export const KeysDisplay: React.FC<KeysDisplayProps> = ({
@@ -27,7 +32,47 @@ export const KeysDisplay: React.FC<KeysDisplayProps> = ({
   isRegenerating,
   onRegenerate,
   showPrivateKey = false,
+  recoveryPhrase,
 }) => {
+  const [backupStep, setBackupStep] = useState<BackupStep>('hidden');
+  const [confirmIndices, setConfirmIndices] = useState<number[]>([]);
+  const [confirmWords, setConfirmWords] = useState<string[]>([]);
+  const [confirmFailed, setConfirmFailed] = useState(false);
+
+  // New keys mean a new phrase to back up
+  useEffect(() => {
+    setBackupStep('hidden');
+  }, [recoveryPhrase]);
+
+  const startConfirm = () => {
+    const indices = pickConfirmationIndices();
+    setConfirmIndices(indices);
+    setConfirmWords(indices.map(() => ''));
+    setConfirmFailed(false);
+    setBackupStep('confirm');
+  };
+
+  const checkConfirm = () => {
+    if (!recoveryPhrase) return;
+    const matches = confirmIndices.every((wordIndex, i) =>
+      confirmWords[i].trim().toLowerCase() === recoveryPhrase[wordIndex]
+    );
+    if (matches) {
+      setBackupStep('confirmed');
+    } else {
+      setConfirmFailed(true);
+    }
+  };
+
+  const smallButton: React.CSSProperties = {
+    background: 'white',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    padding: '4px 10px',
+    cursor: 'pointer',
+    fontSize: '12px'
+  };
+
   const toggleFormat = () => {
     const formats: DisplayFormat[] = ['base32', 'qr'];
     const currentIndex = formats.indexOf(displayFormat);
@@ -152,6 +197,116 @@ export const KeysDisplay: React.FC<KeysDisplayProps> = ({
           </div>
         )}
       </div>
+
+      <div style={{
+        marginTop: '15px',
+        padding: '12px',
+        backgroundColor: '#fff8e1',
+        border: '1px solid #ffe082',
+        borderRadius: '6px',
+        fontSize: '13px',
+        color: '#333'
+      }}>
+        <strong>Recovery phrase</strong>
+        {!recoveryPhrase ? (
+          <div style={{ marginTop: '6px', color: '#666' }}>
+            These keys were created before recovery phrases and cannot be written down as words.
+            Regenerate your keys to get a recovery phrase (contacts will need your new public key).
+          </div>
+        ) : backupStep === 'hidden' ? (
+          <div style={{ marginTop: '6px', display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '10px' }}>
+            <span style={{ color: '#666' }}>24 words that restore all of your keys on any device.</span>
+            <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+              <button onClick={() => setBackupStep('words')} style={smallButton}>
+                Back up
+              </button>
+              <button onClick={() => setBackupStep('shares')} style={smallButton}>
+                Split into shares
+              </button>
+            </div>
+          </div>
+        ) : backupStep === 'shares' ? (
+          <RecoverySharesPanel recoveryPhrase={recoveryPhrase} onClose={() => setBackupStep('hidden')} />
+        ) : backupStep === 'words' ? (
+          <>
+            <div style={{ margin: '6px 0', color: '#e65100' }}>
+              ⚠️ Write these words down in order and keep them offline. Anyone who has them has your keys.
+            </div>
+            <ol style={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(4, 1fr)',
+              gap: '4px 12px',
+              margin: '0 0 10px 0',
+              paddingLeft: '28px',
+              fontFamily: 'monospace'
+            }}>
+              {recoveryPhrase.map((word, i) => (
+                <li key={i}>{word}</li>
+              ))}
+            </ol>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <button onClick={startConfirm} style={smallButton}>
+                I've written them down
+              </button>
+              <button onClick={() => setBackupStep('hidden')} style={smallButton}>
+                Hide
+              </button>
+            </div>
+          </>
+        ) : backupStep === 'confirm' ? (
+          <>
+            <div style={{ margin: '6px 0', color: '#666' }}>
+              Enter these words from your copy to confirm it is correct.
+            </div>
+            <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+              {confirmIndices.map((wordIndex, i) => (
+                <input
+                  key={wordIndex}
+                  value={confirmWords[i]}
+                  onChange={(e) => {
+                    const updated = [...confirmWords];
+                    updated[i] = e.target.value;
+                    setConfirmWords(updated);
+                    setConfirmFailed(false);
+                  }}
+                  onKeyPress={(e) => e.key === 'Enter' && checkConfirm()}
+                  placeholder={`Word #${wordIndex + 1}`}
+                  autoComplete="off"
+                  spellCheck={false}
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    padding: '6px',
+                    fontFamily: 'monospace',
+                    border: '1px solid #ddd',
+                    borderRadius: '4px'
+                  }}
+                />
+              ))}
+            </div>
+            {confirmFailed && (
+              <div style={{ marginBottom: '8px', color: '#f44336' }}>
+                Those words don't match. Check your copy and try again.
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <button onClick={checkConfirm} style={smallButton}>
+                Confirm
+              </button>
+              <button onClick={() => setBackupStep('words')} style={smallButton}>
+                Show words again
+              </button>
+            </div>
+          </>
+        ) : (
+          <div style={{ marginTop: '6px', display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '10px' }}>
+            <span style={{ color: '#4CAF50' }}>✓ Recovery phrase backed up</span>
+            <button onClick={() => setBackupStep('words')} style={smallButton}>
+              Show again
+            </button>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
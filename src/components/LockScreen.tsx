@@ -1,25 +1,113 @@
 import React, { useState } from 'react';
 import { IconLock, IconLockPassword, IconLockOpen2 } from '@tabler/icons-react';
+import { UnlockProgress, UnlockStage } from '../types';
+import { RecoveryShare } from '../types/shamir';
+import { parseShare, combineShares, formatSetId } from '../utils/shamir';
+import { entropyToRecoveryPhrase } from '../utils/recovery';
+import { RollbackWarning } from '../utils/fragmentSeq';
+import { ContextMismatch, describeContext } from '../utils/contextPolicy';
+
+type RestoreSource = 'phrase' | 'shares';
+
+const STAGE_LABELS: Record<UnlockStage, string> = {
+  unlocking: 'Checking master key...',
+  calibrating: 'Measuring this device...',
+  upgrading: 'Strengthening key protection...',
+  sealing: 'Encrypting keys...'
+};
+
+interface ParsedShareInput {
+  share?: RecoveryShare;
+  error?: string;
+}
+
+function parseShareInput(text: string): ParsedShareInput | null {
+  if (!text.trim()) return null;
+  try {
+    return { share: parseShare(text) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// The recovery phrase the entered shares rebuild, or why they do not (yet)
+function combineShareInputs(parsed: (ParsedShareInput | null)[]): { phrase?: string; error?: string } {
+  const shares = parsed.flatMap(input => input?.share ? [input.share] : []);
+  if (shares.length === 0) return {};
+  try {
+    const entropy = combineShares(shares);
+    const phrase = entropyToRecoveryPhrase(entropy).join(' ');
+    // Clear sensitive data
+    entropy.fill(0);
+    return { phrase };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function describeRollback(warning: RollbackWarning): string {
+  if (warning.reason === 'unverifiable' && warning.recordMissing) {
+    return 'This device has no record of your newest keys, although this link has been updated before or the device holds data for them. ' +
+      'The record may have been deleted to hide that this link is outdated.';
+  }
+  if (warning.reason === 'unverifiable') {
+    return "This device's record of your newest keys cannot be read with the keys in this link. " +
+      'The link may be from before a master key change, or the record was tampered with.';
+  }
+  return `This link holds version ${warning.fragmentSeq} of your keys, but this device has already seen version ${warning.knownSeq}.` +
+    (warning.identityChanged ? ' It also holds a different identity, e.g. from before you regenerated your keys.' : '') +
+    ' It may be an old bookmark, or someone may be replaying an outdated copy.';
+}
 
 interface LockScreenProps {
   masterKey: string;
   setMasterKey: (key: string) => void;
   onUnlock: () => Promise<boolean>;
+  onRestore: (phrase: string) => Promise<boolean>;
   waitingForMasterKey: boolean;
   onFreshStart: () => void;
   isUnlocking: boolean;
+  unlockProgress?: UnlockProgress | null;
+  rollbackWarning?: RollbackWarning | null;
+  onOverrideRollback?: () => Promise<boolean>;
+  onDismissRollback?: () => void;
+  contextMismatch?: ContextMismatch | null;
+  onRebindContext?: () => Promise<boolean>;
+  onDismissContextMismatch?: () => void;
 }
 
 export const LockScreen: React.FC<LockScreenProps> = ({
   masterKey,
   setMasterKey,
   onUnlock,
+  onRestore,
   waitingForMasterKey,
   onFreshStart,
-  isUnlocking
+  isUnlocking,
+  unlockProgress,
+  rollbackWarning,
+  onOverrideRollback,
+  onDismissRollback,
+  contextMismatch,
+  onRebindContext,
+  onDismissContextMismatch
 }) => {
   const [isUnlocked, setIsUnlocked] = useState(false);
   const [masterKeyConfirm, setMasterKeyConfirm] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [recoveryPhrase, setRecoveryPhrase] = useState('');
+  const [restoreSource, setRestoreSource] = useState<RestoreSource>('phrase');
+  const [shareInputs, setShareInputs] = useState<string[]>(['', '']);
+
+  // Restoring seals the keys under a new master key, so it needs confirming like a first start
+  const choosingMasterKey = !waitingForMasterKey || isRestoring;
+  const phraseWordCount = recoveryPhrase.trim() ? recoveryPhrase.trim().split(/\s+/).length : 0;
+  const parsedShares = restoreSource === 'shares' ? shareInputs.map(parseShareInput) : [];
+  const combined = combineShareInputs(parsedShares);
+  const restoreReady = restoreSource === 'shares' ? !!combined.phrase : phraseWordCount === 24;
+  const canSubmit = masterKey.length >= 12 &&
+    (!choosingMasterKey || masterKey === masterKeyConfirm) &&
+    (!isRestoring || restoreReady);
 
   const handleSubmit = async () => {
     if (masterKey.length < 12) {
@@ -28,12 +116,17 @@ export const LockScreen: React.FC<LockScreenProps> = ({
     }
     
     // Check confirmation for new master key (only required when creating new)
-    if (!waitingForMasterKey && masterKey.length >= 12 && masterKey !== masterKeyConfirm) {
+    if (choosingMasterKey && masterKey.length >= 12 && masterKey !== masterKeyConfirm) {
       alert('Master keys do not match. Please confirm your master key.');
       return;
     }
+
+    if (isRestoring && waitingForMasterKey && !window.confirm('Restoring replaces the encrypted key in the URL with the keys from your recovery phrase.\n\nContinue?')) {
+      return;
+    }
     
-    const success = await onUnlock();
+    const phrase = restoreSource === 'shares' ? combined.phrase : recoveryPhrase;
+    const success = isRestoring ? await onRestore(phrase ?? '') : await onUnlock();
     if (success) {
       setIsUnlocked(true);
       // Brief delay to show the unlocked state
@@ -43,12 +136,59 @@ export const LockScreen: React.FC<LockScreenProps> = ({
     }
   };
 
+  const handleOverrideRollback = async () => {
+    if (onOverrideRollback && await onOverrideRollback()) {
+      setIsUnlocked(true);
+    }
+  };
+
+  const handleRebindContext = async () => {
+    if (onRebindContext && await onRebindContext()) {
+      setIsUnlocked(true);
+    }
+  };
+
   const handleFreshStart = () => {
     if (window.confirm('This will clear the encrypted private key from the URL.\n\nYou will get a new keypair and lose access to messages encrypted with the old key.\n\nContinue?')) {
       onFreshStart();
     }
   };
 
+  const toggleRestore = () => {
+    setIsRestoring(!isRestoring);
+    setRestoreSource('phrase');
+    setRecoveryPhrase('');
+    setShareInputs(['', '']);
+    setMasterKeyConfirm('');
+  };
+
+  const updateShareInput = (index: number, value: string) => {
+    const updated = [...shareInputs];
+    updated[index] = value;
+    setShareInputs(updated);
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '12px',
+    fontFamily: 'monospace',
+    fontSize: '14px',
+    border: '2px solid #ddd',
+    borderRadius: '6px',
+    boxSizing: 'border-box',
+    resize: 'vertical'
+  };
+
+  const linkStyle: React.CSSProperties = {
+    background: 'transparent',
+    color: '#2196F3',
+    border: 'none',
+    fontSize: '12px',
+    cursor: 'pointer',
+    textDecoration: 'underline',
+    padding: '4px'
+  };
+
   return (
     <div style={{ 
       height: '100vh',
@@ -91,7 +231,86 @@ export const LockScreen: React.FC<LockScreenProps> = ({
           </h1>
         </div>
         
-        {!waitingForMasterKey ? (
+        {isRestoring && restoreSource === 'phrase' ? (
+          <div style={{ marginBottom: '15px' }}>
+            <p style={{ 
+              textAlign: 'center',
+              color: '#666',
+              marginBottom: '15px',
+              fontSize: '14px'
+            }}>
+              Enter your 24-word recovery phrase and choose a master key
+            </p>
+            <textarea
+              value={recoveryPhrase}
+              onChange={(e) => setRecoveryPhrase(e.target.value)}
+              placeholder="Recovery phrase (24 words)"
+              rows={4}
+              autoFocus
+              disabled={isUnlocking || isUnlocked}
+              spellCheck={false}
+              autoComplete="off"
+              style={inputStyle}
+            />
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px' }}>
+              <button onClick={() => setRestoreSource('shares')} disabled={isUnlocking || isUnlocked} style={linkStyle}>
+                Use recovery shares instead
+              </button>
+              <span style={{ color: phraseWordCount === 24 ? '#4CAF50' : '#666' }}>
+                {phraseWordCount}/24 words
+              </span>
+            </div>
+          </div>
+        ) : isRestoring ? (
+          <div style={{ marginBottom: '15px' }}>
+            <p style={{ 
+              textAlign: 'center',
+              color: '#666',
+              marginBottom: '15px',
+              fontSize: '14px'
+            }}>
+              Enter enough recovery shares (words or base32) and choose a master key
+            </p>
+            {shareInputs.map((text, i) => (
+              <div key={i} style={{ marginBottom: '8px' }}>
+                <textarea
+                  value={text}
+                  onChange={(e) => updateShareInput(i, e.target.value)}
+                  placeholder={`Share ${i + 1}`}
+                  rows={3}
+                  autoFocus={i === 0}
+                  disabled={isUnlocking || isUnlocked}
+                  spellCheck={false}
+                  autoComplete="off"
+                  style={inputStyle}
+                />
+                {parsedShares[i]?.share && (
+                  <div style={{ fontSize: '12px', color: '#4CAF50' }}>
+                    Share {parsedShares[i]!.share!.index} · set {formatSetId(parsedShares[i]!.share!.setId)} · needs {parsedShares[i]!.share!.threshold}
+                  </div>
+                )}
+                {parsedShares[i]?.error && (
+                  <div style={{ fontSize: '12px', color: '#ff9800' }}>
+                    {parsedShares[i]!.error}
+                  </div>
+                )}
+              </div>
+            ))}
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px' }}>
+              <button onClick={() => setShareInputs([...shareInputs, ''])} disabled={isUnlocking || isUnlocked} style={linkStyle}>
+                + Add share
+              </button>
+              <button onClick={() => setRestoreSource('phrase')} disabled={isUnlocking || isUnlocked} style={linkStyle}>
+                Use a recovery phrase instead
+              </button>
+            </div>
+            {(combined.phrase || combined.error) && (
+              <div style={{ fontSize: '12px', textAlign: 'center', marginTop: '6px', color: combined.phrase ? '#4CAF50' : '#ff9800' }}>
+                {combined.phrase ? '✓ Shares combine into your recovery phrase' : combined.error}
+              </div>
+            )}
+          </div>
+        ) : !waitingForMasterKey ? (
           <div style={{
             marginBottom: '25px'
           }}>
@@ -141,9 +360,9 @@ export const LockScreen: React.FC<LockScreenProps> = ({
           type="password"
           value={masterKey}
           onChange={(e) => setMasterKey(e.target.value)}
-          onKeyPress={(e) => e.key === 'Enter' && !isUnlocking && !isUnlocked && (waitingForMasterKey || masterKeyConfirm) && handleSubmit()}
-          placeholder={waitingForMasterKey ? "Enter your master key" : "Choose a strong master key"}
-          autoFocus
+          onKeyPress={(e) => e.key === 'Enter' && !isUnlocking && !isUnlocked && (!choosingMasterKey || masterKeyConfirm) && handleSubmit()}
+          placeholder={choosingMasterKey ? "Choose a strong master key" : "Enter your master key"}
+          autoFocus={!isRestoring}
           disabled={isUnlocking || isUnlocked}
           style={{
             width: '100%',
@@ -152,13 +371,13 @@ export const LockScreen: React.FC<LockScreenProps> = ({
             fontSize: '16px',
             border: '2px solid #ddd',
             borderRadius: '6px',
-            marginBottom: waitingForMasterKey ? '15px' : '10px',
+            marginBottom: choosingMasterKey ? '10px' : '15px',
             boxSizing: 'border-box',
             opacity: isUnlocking || isUnlocked ? 0.6 : 1
           }}
         />
         
-        {!waitingForMasterKey && masterKey.length >= 12 && (
+        {choosingMasterKey && masterKey.length >= 12 && (
           <input
             type="password"
             value={masterKeyConfirm}
@@ -182,26 +401,123 @@ export const LockScreen: React.FC<LockScreenProps> = ({
         
         <button
           onClick={handleSubmit}
-          disabled={!masterKey || masterKey.length < 12 || (!waitingForMasterKey && masterKey.length >= 12 && masterKey !== masterKeyConfirm) || isUnlocking || isUnlocked}
+          disabled={!canSubmit || isUnlocking || isUnlocked}
           style={{
             width: '100%',
             padding: '12px',
-            backgroundColor: isUnlocked ? '#4CAF50' : isUnlocking ? '#FFA500' : (masterKey && masterKey.length >= 12 && (waitingForMasterKey || masterKey === masterKeyConfirm) ? '#4CAF50' : '#ccc'),
+            backgroundColor: isUnlocked ? '#4CAF50' : isUnlocking ? '#FFA500' : (canSubmit ? '#4CAF50' : '#ccc'),
             color: 'white',
             border: 'none',
             borderRadius: '6px',
             fontSize: '16px',
             fontWeight: 'bold',
-            cursor: isUnlocked || isUnlocking ? 'wait' : (masterKey && masterKey.length >= 12 && (waitingForMasterKey || masterKey === masterKeyConfirm) ? 'pointer' : 'not-allowed'),
+            cursor: isUnlocked || isUnlocking ? 'wait' : (canSubmit ? 'pointer' : 'not-allowed'),
             transition: 'background-color 0.2s'
           }}
         >
-          {isUnlocked ? (waitingForMasterKey ? 'Unlocked!' : 'Started!') : 
+          {isRestoring ? (isUnlocked ? 'Restored!' : isUnlocking ? 'Restoring...' : 'Restore Keys') :
+           isUnlocked ? (waitingForMasterKey ? 'Unlocked!' : 'Started!') : 
            isUnlocking ? (waitingForMasterKey ? 'Unlocking...' : 'Starting...') : 
            (waitingForMasterKey ? 'Unlock' : 'Start Secure Session')}
         </button>
 
-        {waitingForMasterKey && (
+        {isUnlocking && unlockProgress && (
+          <div style={{ marginTop: '10px' }}>
+            <div
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(unlockProgress.fraction * 100)}
+              style={{ height: '4px', backgroundColor: '#eee', borderRadius: '2px', overflow: 'hidden' }}
+            >
+              <div style={{
+                width: `${Math.round(unlockProgress.fraction * 100)}%`,
+                height: '100%',
+                backgroundColor: '#FFA500',
+                transition: 'width 0.1s'
+              }} />
+            </div>
+            <p style={{ fontSize: '12px', color: '#666', margin: '6px 0 0 0', textAlign: 'center' }}>
+              {STAGE_LABELS[unlockProgress.stage]} {Math.round(unlockProgress.fraction * 100)}%
+            </p>
+          </div>
+        )}
+
+        {rollbackWarning && !isRestoring && !isUnlocked && (
+          <div role="alert" style={{
+            marginTop: '15px',
+            padding: '12px',
+            backgroundColor: '#fff3e0',
+            border: '1px solid #ffb74d',
+            borderRadius: '6px',
+            fontSize: '13px',
+            color: '#e65100',
+            lineHeight: '1.4'
+          }}>
+            <strong>⚠️ This link is older than expected</strong>
+            <div style={{ margin: '6px 0' }}>{describeRollback(rollbackWarning)}</div>
+            <div style={{ color: '#666', marginBottom: '10px' }}>
+              Opening it anyway makes it the newest version; links saved after it will then show this warning.
+            </div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={handleOverrideRollback}
+                disabled={isUnlocking}
+                style={{ flex: 1, padding: '8px', backgroundColor: '#ff9800', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '13px' }}
+              >
+                Open anyway
+              </button>
+              <button
+                onClick={onDismissRollback}
+                disabled={isUnlocking}
+                style={{ flex: 1, padding: '8px', backgroundColor: 'white', color: '#666', border: '1px solid #e0e0e0', borderRadius: '4px', cursor: 'pointer', fontSize: '13px' }}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {contextMismatch && !isRestoring && !isUnlocked && (
+          <div role="alert" style={{
+            marginTop: '15px',
+            padding: '12px',
+            backgroundColor: '#e3f2fd',
+            border: '1px solid #64b5f6',
+            borderRadius: '6px',
+            fontSize: '13px',
+            color: '#0d47a1',
+            lineHeight: '1.4'
+          }}>
+            <strong>🔗 This link was sealed for another location</strong>
+            <div style={{ margin: '6px 0' }}>
+              Your master key is correct, but the link only opens at {describeContext(contextMismatch.boundTo)} and
+              this page runs at {describeContext(contextMismatch.origin)}.
+            </div>
+            <div style={{ color: '#666', marginBottom: '10px' }}>
+              Re-binding updates the link to your link binding setting, so it opens here from now on.
+              Only do this if you moved the app yourself.
+            </div>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              <button
+                onClick={handleRebindContext}
+                disabled={isUnlocking}
+                style={{ flex: 1, padding: '8px', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer', fontSize: '13px' }}
+              >
+                Re-bind to this location
+              </button>
+              <button
+                onClick={onDismissContextMismatch}
+                disabled={isUnlocking}
+                style={{ flex: 1, padding: '8px', backgroundColor: 'white', color: '#666', border: '1px solid #e0e0e0', borderRadius: '4px', cursor: 'pointer', fontSize: '13px' }}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {waitingForMasterKey && !isRestoring && (
           <>
             <p style={{ 
               fontSize: '12px', 
@@ -235,7 +551,7 @@ export const LockScreen: React.FC<LockScreenProps> = ({
           </>
         )}
         
-        {!waitingForMasterKey && (
+        {choosingMasterKey && (
           <p style={{ 
             fontSize: '12px', 
             color: '#666',
@@ -265,6 +581,14 @@ export const LockScreen: React.FC<LockScreenProps> = ({
             )}
           </p>
         )}
+
+        <button
+          onClick={toggleRestore}
+          disabled={isUnlocking || isUnlocked}
+          style={{ ...linkStyle, display: 'block', margin: '10px auto 0' }}
+        >
+          {isRestoring ? 'Back' : 'Restore from recovery phrase'}
+        </button>
       </div>
     </div>
   );
@@ -1,21 +1,149 @@
 import React, { useState } from 'react';
+import { FragmentSlot, KdfName, KdfParams, MAX_FRAGMENT_SLOTS } from '../utils/seal';
+import { ContextPolicy, parseOriginList } from '../utils/contextPolicy';
 
 interface MasterKeyCardProps {
   masterKey: string;
   onChangeMasterKey?: (newMasterKey: string) => Promise<boolean>;
   isChangingMasterKey?: boolean;
+  slots?: FragmentSlot[];
+  currentSlotId?: string | null;
+  onAddSlot?: (passphrase: string, label: string) => Promise<boolean>;
+  onRemoveSlot?: (id: string) => Promise<boolean>;
+  kdf?: KdfName;
+  onChangeKdf?: (kdf: KdfName) => Promise<boolean>;
+  contextPolicy?: ContextPolicy;
+  onChangeContextPolicy?: (policy: ContextPolicy) => Promise<boolean>;
 }
 
+function formatKdfParams(params: KdfParams): string {
+  return params.kdf === 'argon2id'
+    ? `argon2id m=${params.m / 1024} MiB t=${params.t}`
+    : `scrypt N=${params.N}`;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  fontFamily: 'monospace',
+  fontSize: '14px',
+  border: '1px solid #e0e0e0',
+  borderRadius: '4px',
+  boxSizing: 'border-box'
+};
+
 export const MasterKeyCard: React.FC<MasterKeyCardProps> = ({ 
   masterKey, 
   onChangeMasterKey,
-  isChangingMasterKey = false
+  isChangingMasterKey = false,
+  slots = [],
+  currentSlotId = null,
+  onAddSlot,
+  onRemoveSlot,
+  kdf = 'scrypt',
+  onChangeKdf,
+  contextPolicy = { mode: 'origin' },
+  onChangeContextPolicy
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [currentKeyVerify, setCurrentKeyVerify] = useState('');
   const [newMasterKey, setNewMasterKey] = useState('');
   const [confirmMasterKey, setConfirmMasterKey] = useState('');
   const [error, setError] = useState('');
+  const [isAddingSlot, setIsAddingSlot] = useState(false);
+  const [slotLabel, setSlotLabel] = useState('');
+  const [slotPassphrase, setSlotPassphrase] = useState('');
+  const [slotConfirm, setSlotConfirm] = useState('');
+  const [slotError, setSlotError] = useState('');
+  const [originList, setOriginList] = useState(contextPolicy.mode === 'origins' ? contextPolicy.origins.join(', ') : '');
+  const [isEditingOrigins, setIsEditingOrigins] = useState(false);
+
+  const handleCancelSlot = () => {
+    setIsAddingSlot(false);
+    setSlotLabel('');
+    setSlotPassphrase('');
+    setSlotConfirm('');
+    setSlotError('');
+  };
+
+  const handleAddSlot = async () => {
+    setSlotError('');
+
+    if (!slotLabel.trim()) {
+      setSlotError('Give the passphrase a label, e.g. "Recovery (safe)"');
+      return;
+    }
+    if (slotPassphrase.length < 12) {
+      setSlotError('Passphrase must be at least 12 characters');
+      return;
+    }
+    if (slotPassphrase !== slotConfirm) {
+      setSlotError('Passphrases do not match');
+      return;
+    }
+    if (slotPassphrase === masterKey) {
+      setSlotError('Use a different passphrase from your master key');
+      return;
+    }
+
+    if (onAddSlot) {
+      const success = await onAddSlot(slotPassphrase, slotLabel.trim());
+      if (success) {
+        handleCancelSlot();
+      } else {
+        setSlotError('Failed to add passphrase');
+      }
+    }
+  };
+
+  const handleRemoveSlot = async (slot: FragmentSlot) => {
+    if (!onRemoveSlot || !window.confirm(`Remove the passphrase "${slot.label}"?\n\nIt will no longer unlock your keys.`)) {
+      return;
+    }
+    if (!(await onRemoveSlot(slot.id))) {
+      setSlotError('Failed to remove passphrase');
+    }
+  };
+
+  const handleChangeKdf = async (value: KdfName) => {
+    setSlotError('');
+    if (onChangeKdf && !(await onChangeKdf(value))) {
+      setSlotError('Failed to switch key derivation');
+    }
+  };
+
+  const applyContextPolicy = async (policy: ContextPolicy) => {
+    if (onChangeContextPolicy && !(await onChangeContextPolicy(policy))) {
+      setSlotError('Failed to re-bind the link');
+      return false;
+    }
+    return true;
+  };
+
+  const handleChangeContextMode = async (mode: ContextPolicy['mode']) => {
+    setSlotError('');
+    if (mode === 'origins') {
+      // The list needs entering first; the link is re-bound once it is saved
+      setIsEditingOrigins(true);
+      return;
+    }
+    setIsEditingOrigins(false);
+    await applyContextPolicy({ mode });
+  };
+
+  const handleSaveOrigins = async () => {
+    setSlotError('');
+    let origins: string[];
+    try {
+      origins = parseOriginList(originList);
+    } catch (error) {
+      setSlotError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    if (await applyContextPolicy({ mode: 'origins', origins })) {
+      setIsEditingOrigins(false);
+    }
+  };
 
   const handleStartEdit = () => {
     setIsEditing(true);
@@ -148,15 +276,7 @@ export const MasterKeyCard: React.FC<MasterKeyCardProps> = ({
               value={currentKeyVerify}
               onChange={(e) => setCurrentKeyVerify(e.target.value)}
               placeholder="Enter current master key"
-              style={{
-                width: '100%',
-                padding: '8px',
-                fontFamily: 'monospace',
-                fontSize: '14px',
-                border: '1px solid #e0e0e0',
-                borderRadius: '4px',
-                boxSizing: 'border-box'
-              }}
+              style={inputStyle}
             />
           </div>
           
@@ -174,15 +294,7 @@ export const MasterKeyCard: React.FC<MasterKeyCardProps> = ({
               value={newMasterKey}
               onChange={(e) => setNewMasterKey(e.target.value)}
               placeholder="Enter new master key (min 12 characters)"
-              style={{
-                width: '100%',
-                padding: '8px',
-                fontFamily: 'monospace',
-                fontSize: '14px',
-                border: '1px solid #e0e0e0',
-                borderRadius: '4px',
-                boxSizing: 'border-box'
-              }}
+              style={inputStyle}
             />
           </div>
           
@@ -200,15 +312,7 @@ export const MasterKeyCard: React.FC<MasterKeyCardProps> = ({
               value={confirmMasterKey}
               onChange={(e) => setConfirmMasterKey(e.target.value)}
               placeholder="Confirm new master key"
-              style={{
-                width: '100%',
-                padding: '8px',
-                fontFamily: 'monospace',
-                fontSize: '14px',
-                border: '1px solid #e0e0e0',
-                borderRadius: '4px',
-                boxSizing: 'border-box'
-              }}
+              style={inputStyle}
             />
           </div>
           
@@ -260,6 +364,203 @@ export const MasterKeyCard: React.FC<MasterKeyCardProps> = ({
           {'•'.repeat(masterKey.length)}
         </div>
       )}
+
+      {slots.length > 0 && onAddSlot && (
+        <div style={{ marginTop: '12px', fontSize: '13px' }}>
+          {onChangeKdf && (
+            <label style={{ display: 'block', color: '#666', marginBottom: '8px' }}>
+              Key derivation:{' '}
+              <select
+                value={kdf}
+                onChange={(e) => handleChangeKdf(e.target.value as KdfName)}
+                disabled={isChangingMasterKey}
+                style={{ padding: '2px 4px', border: '1px solid #e0e0e0', borderRadius: '4px', fontSize: '12px' }}
+              >
+                <option value="scrypt">scrypt</option>
+                <option value="argon2id">Argon2id</option>
+              </select>
+            </label>
+          )}
+          {onChangeContextPolicy && (
+            <div style={{ color: '#666', marginBottom: '8px' }}>
+              <label style={{ display: 'block' }}>
+                Link opens at:{' '}
+                <select
+                  value={isEditingOrigins ? 'origins' : contextPolicy.mode}
+                  onChange={(e) => handleChangeContextMode(e.target.value as ContextPolicy['mode'])}
+                  disabled={isChangingMasterKey}
+                  style={{ padding: '2px 4px', border: '1px solid #e0e0e0', borderRadius: '4px', fontSize: '12px' }}
+                >
+                  <option value="origin">This origin only</option>
+                  <option value="app">Any copy of this app</option>
+                  <option value="origins">These origins</option>
+                </select>
+              </label>
+              {(isEditingOrigins || contextPolicy.mode === 'origins') && (
+                <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+                  <input
+                    value={originList}
+                    onChange={(e) => {
+                      setOriginList(e.target.value);
+                      setIsEditingOrigins(true);
+                    }}
+                    placeholder="https://example.org, file://"
+                    style={{ ...inputStyle, fontSize: '12px', padding: '4px 6px' }}
+                  />
+                  {isEditingOrigins && (
+                    <button
+                      onClick={handleSaveOrigins}
+                      disabled={isChangingMasterKey}
+                      style={{
+                        background: 'white',
+                        border: '1px solid #e0e0e0',
+                        borderRadius: '4px',
+                        padding: '2px 8px',
+                        cursor: 'pointer',
+                        fontSize: '12px'
+                      }}
+                    >
+                      Save
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          <div style={{ color: '#666', marginBottom: '6px' }}>
+            Passphrases that unlock your keys:
+          </div>
+          {slots.map(slot => (
+            <div
+              key={slot.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                padding: '6px 8px',
+                border: '1px solid #e0e0e0',
+                borderRadius: '4px',
+                marginBottom: '4px'
+              }}
+            >
+              <span>
+                {slot.label}
+                <span style={{ color: '#999', fontFamily: 'monospace', marginLeft: '6px' }}>
+                  {slot.id} · {formatKdfParams(slot.params)}
+                </span>
+              </span>
+              {slot.id === currentSlotId ? (
+                <span style={{ color: '#4CAF50', fontSize: '12px' }}>in use</span>
+              ) : (
+                <button
+                  onClick={() => handleRemoveSlot(slot)}
+                  disabled={isChangingMasterKey}
+                  style={{
+                    background: 'white',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '4px',
+                    padding: '2px 8px',
+                    cursor: 'pointer',
+                    fontSize: '12px',
+                    color: '#f44336'
+                  }}
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+
+          {slotError && (
+            <div style={{
+              padding: '8px',
+              margin: '6px 0',
+              backgroundColor: '#ffebee',
+              color: '#c62828',
+              borderRadius: '4px',
+              fontSize: '13px'
+            }}>
+              {slotError}
+            </div>
+          )}
+
+          {isAddingSlot ? (
+            <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              <input
+                value={slotLabel}
+                onChange={(e) => setSlotLabel(e.target.value)}
+                placeholder='Label, e.g. "Recovery (safe)"'
+                style={{ ...inputStyle, fontFamily: 'inherit' }}
+              />
+              <input
+                type="password"
+                value={slotPassphrase}
+                onChange={(e) => setSlotPassphrase(e.target.value)}
+                placeholder="Passphrase (min 12 characters)"
+                style={inputStyle}
+              />
+              <input
+                type="password"
+                value={slotConfirm}
+                onChange={(e) => setSlotConfirm(e.target.value)}
+                placeholder="Confirm passphrase"
+                style={inputStyle}
+              />
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button
+                  onClick={handleAddSlot}
+                  disabled={isChangingMasterKey}
+                  style={{
+                    flex: 1,
+                    padding: '8px',
+                    backgroundColor: isChangingMasterKey ? '#ccc' : '#4CAF50',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    cursor: isChangingMasterKey ? 'not-allowed' : 'pointer',
+                    fontSize: '14px'
+                  }}
+                >
+                  {isChangingMasterKey ? 'Adding...' : 'Add Passphrase'}
+                </button>
+                <button
+                  onClick={handleCancelSlot}
+                  disabled={isChangingMasterKey}
+                  style={{
+                    flex: 1,
+                    padding: '8px',
+                    backgroundColor: 'white',
+                    color: '#666',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: '4px',
+                    cursor: 'pointer',
+                    fontSize: '14px'
+                  }}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : slots.length < MAX_FRAGMENT_SLOTS && (
+            <button
+              onClick={() => setIsAddingSlot(true)}
+              disabled={isChangingMasterKey}
+              style={{
+                marginTop: '4px',
+                background: 'white',
+                border: '1px solid #e0e0e0',
+                borderRadius: '6px',
+                padding: '4px 10px',
+                cursor: 'pointer',
+                fontSize: '13px',
+                color: '#666'
+              }}
+            >
+              + Add passphrase
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
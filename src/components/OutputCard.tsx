@@ -15,10 +15,12 @@ export const OutputCard: React.FC<OutputCardProps> = ({
 
   const isEncrypted = output.startsWith('Encrypted:');
   const isDecrypted = output.startsWith('Decrypted:');
+  const isSigned = output.startsWith('Signed:') || output.startsWith('Signature:');
+  const isVerified = output.startsWith('Verified:');
   
   // Remove the prefix from the actual content
-  const displayContent = isEncrypted ? output.replace('Encrypted:\n', '') :
-                        isDecrypted ? output.replace('Decrypted:\n', '') :
+  const displayContent = isEncrypted || isDecrypted || isSigned || isVerified ?
+                        output.slice(output.indexOf('\n') + 1) :
                         output;
   
   return (
@@ -43,7 +45,7 @@ export const OutputCard: React.FC<OutputCardProps> = ({
           alignItems: 'center',
           gap: '8px'
         }}>
-          {isEncrypted ? '🔐' : isDecrypted ? '🔓' : '📄'} Output {isEncrypted ? '(Encrypted)' : isDecrypted ? '(Decrypted)' : ''}
+          {isEncrypted ? '🔐' : isDecrypted ? '🔓' : isSigned ? '✍️' : isVerified ? '✅' : '📄'} Output {isEncrypted ? '(Encrypted)' : isDecrypted ? '(Decrypted)' : isSigned ? '(Signed)' : isVerified ? '(Signature valid)' : ''}
         </h3>
         <button
           onClick={onCopyOutput}
@@ -76,7 +78,7 @@ export const OutputCard: React.FC<OutputCardProps> = ({
         whiteSpace: 'pre-wrap',
         wordBreak: 'break-all',
         lineHeight: '1.5',
-        color: isEncrypted ? '#d73a49' : isDecrypted ? '#22863a' : '#333'
+        color: isEncrypted ? '#d73a49' : isDecrypted || isVerified ? '#22863a' : '#333'
       }}>
         {displayContent}
       </pre>
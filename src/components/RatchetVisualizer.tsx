@@ -2,9 +2,13 @@
  * Visual representation of the Double Ratchet Protocol state
  */
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
 import { RatchetState, RatchetOperation } from '../types/ratchet';
-import { uint8ArrayToBase32Crockford } from '../utils/encoding';
+import { uint8ArrayToBase32Crockford, formatInGroups } from '../utils/encoding';
+import { formatWords } from '../utils/bip39';
+import { computeSafetyNumber } from '../utils/safetyNumber';
+import { getSkippedKeyStats, DEFAULT_SKIPPED_KEY_LIMITS } from '../utils/ratchet';
 
 interface RatchetVisualizerProps {
   currentSession: RatchetState | null;
@@ -13,6 +17,7 @@ interface RatchetVisualizerProps {
   sessionCount: number;
   onReset?: () => void;
   onClearAll?: () => void;
+  onSetVerified?: (verified: boolean) => void;
 }
 
 export const RatchetVisualizer: React.FC<RatchetVisualizerProps> = ({
@@ -21,10 +26,20 @@ export const RatchetVisualizer: React.FC<RatchetVisualizerProps> = ({
   isProcessing,
   sessionCount,
   onReset,
-  onClearAll
+  onClearAll,
+  onSetVerified
 }) => {
   const [showDetails, setShowDetails] = useState(false);
   const [showOperations, setShowOperations] = useState(true);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+
+  // Identity keys are carried over unchanged between ratchet steps, so this only recomputes per session
+  const myIdentityKey = currentSession?.myIdentityKeyPair.publicKey;
+  const theirIdentityKey = currentSession?.theirIdentityPublicKey;
+  const safetyNumber = useMemo(() => {
+    if (!showSafetyNumber || !myIdentityKey || !theirIdentityKey) return null;
+    return computeSafetyNumber(myIdentityKey, theirIdentityKey);
+  }, [showSafetyNumber, myIdentityKey, theirIdentityKey]);
 
   const formatKey = (key: Uint8Array | null): string => {
     if (!key) return 'none';
@@ -37,6 +52,8 @@ export const RatchetVisualizer: React.FC<RatchetVisualizerProps> = ({
     return date.toLocaleTimeString();
   };
 
+  const skippedKeyStats = currentSession ? getSkippedKeyStats(currentSession) : null;
+
   const getOperationIcon = (type: RatchetOperation['type']): string => {
     switch (type) {
       case 'init': return '🔑';
@@ -44,6 +61,9 @@ export const RatchetVisualizer: React.FC<RatchetVisualizerProps> = ({
       case 'decrypt': return '🔓';
       case 'dh-ratchet': return '🔄';
       case 'skip-messages': return '⚠️';
+      case 'verify': return '✅';
+      case 'key-change': return '🚨';
+      case 'group': return '👥';
       case 'error': return '❌';
       default: return '•';
     }
@@ -181,6 +201,79 @@ export const RatchetVisualizer: React.FC<RatchetVisualizerProps> = ({
             <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
               Session with: {formatKey(currentSession.theirIdentityPublicKey)}
             </div>
+
+            {/* Identity Verification */}
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                padding: '8px',
+                borderRadius: '4px',
+                backgroundColor: currentSession.verified ? '#e8f5e9' : '#fff3e0',
+                fontSize: '12px'
+              }}
+            >
+              <span style={{ color: currentSession.verified ? '#2e7d32' : '#e65100' }}>
+                {currentSession.verified
+                  ? '✅ Verified contact'
+                  : '⚠️ Unverified contact - compare safety numbers in person or over a trusted channel'}
+              </span>
+              <button
+                onClick={() => setShowSafetyNumber(!showSafetyNumber)}
+                style={{
+                  padding: '4px 8px',
+                  fontSize: '11px',
+                  backgroundColor: 'white',
+                  border: '1px solid #ddd',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  whiteSpace: 'nowrap'
+                }}
+              >
+                {showSafetyNumber ? 'Hide' : 'Show'} Safety Number
+              </button>
+            </div>
+
+            {safetyNumber && (
+              <div
+                style={{
+                  display: 'flex',
+                  gap: '16px',
+                  alignItems: 'flex-start',
+                  marginTop: '8px',
+                  padding: '8px',
+                  backgroundColor: 'white',
+                  borderRadius: '4px'
+                }}
+              >
+                <QRCodeSVG value={safetyNumber.qrPayload} size={112} />
+                <div style={{ flex: 1 }}>
+                  <div style={{ fontFamily: 'monospace', fontSize: '13px', whiteSpace: 'pre-line', marginBottom: '8px' }}>
+                    {formatInGroups(safetyNumber.digits, true)}
+                  </div>
+                  <div style={{ fontSize: '12px', color: '#555', whiteSpace: 'pre-line', marginBottom: '8px' }}>
+                    {formatWords(safetyNumber.words, 4)}
+                  </div>
+                  {onSetVerified && (
+                    <button
+                      onClick={() => onSetVerified(!currentSession.verified)}
+                      style={{
+                        padding: '4px 8px',
+                        fontSize: '11px',
+                        backgroundColor: currentSession.verified ? '#f0f0f0' : '#4CAF50',
+                        color: currentSession.verified ? '#333' : 'white',
+                        border: 'none',
+                        borderRadius: '4px',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      {currentSession.verified ? 'Clear Verification' : 'Mark as Verified'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
             
             {/* Ephemeral Keys */}
             <div
@@ -248,6 +341,9 @@ export const RatchetVisualizer: React.FC<RatchetVisualizerProps> = ({
             >
               <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#333' }}>
                 {currentSession.skippedMessageKeys.size}
+                <span style={{ fontSize: '11px', fontWeight: 'normal', color: '#999' }}>
+                  /{DEFAULT_SKIPPED_KEY_LIMITS.maxSkippedKeys}
+                </span>
               </div>
               <div style={{ fontSize: '11px', color: '#666' }}>Skipped Keys</div>
             </div>
@@ -281,6 +377,29 @@ export const RatchetVisualizer: React.FC<RatchetVisualizerProps> = ({
               <div>Root Key: {formatKey(currentSession.rootKey)}</div>
               <div>Send Chain: {formatKey(currentSession.sendingChainKey)}</div>
               <div>Recv Chain: {formatKey(currentSession.receivingChainKey)}</div>
+              <div>
+                Header: v{currentSession.messageVersion}
+                {currentSession.messageVersion >= 3
+                  ? ' (encrypted)'
+                  : currentSession.messageVersion >= 2 ? ' (authenticated)' : ' (unauthenticated)'}
+              </div>
+              <div>
+                KDF: v{currentSession.kdfVersion}
+                {currentSession.kdfVersion >= 2 ? ' (HKDF-SHA512)' : ' (legacy SHA-512)'}
+              </div>
+              {skippedKeyStats && (
+                <>
+                  <div>
+                    Stored: {skippedKeyStats.skippedKeys}/{DEFAULT_SKIPPED_KEY_LIMITS.maxSkippedKeys} keys,{' '}
+                    {skippedKeyStats.previousChains}/{DEFAULT_SKIPPED_KEY_LIMITS.maxPreviousChains} old chains
+                  </div>
+                  <div>
+                    Next Expiry: {skippedKeyStats.nextExpiry !== null
+                      ? new Date(skippedKeyStats.nextExpiry).toLocaleString()
+                      : 'none'}
+                  </div>
+                </>
+              )}
             </div>
           )}
 
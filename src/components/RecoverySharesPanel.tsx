@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { RecoveryShare } from '../types/shamir';
+import { wordsToUint8Array, formatWords } from '../utils/bip39';
+import { splitSecret, shareToWords, shareToBase32, formatSetId, MAX_SHARES } from '../utils/shamir';
+
+type ShareFormat = 'words' | 'base32' | 'qr';
+
+interface RecoverySharesPanelProps {
+  recoveryPhrase: string[];
+  onClose: () => void;
+}
+
+export const RecoverySharesPanel: React.FC<RecoverySharesPanelProps> = ({
+  recoveryPhrase,
+  onClose
+}) => {
+  const [threshold, setThreshold] = useState(2);
+  const [count, setCount] = useState(3);
+  const [shares, setShares] = useState<RecoveryShare[] | null>(null);
+  const [format, setFormat] = useState<ShareFormat>('words');
+
+  const handleSplit = () => {
+    const entropy = wordsToUint8Array(recoveryPhrase);
+    setShares(splitSecret(entropy, threshold, count));
+
+    // Clear sensitive data
+    entropy.fill(0);
+  };
+
+  const handleCountChange = (value: number) => {
+    setCount(value);
+    setThreshold(Math.min(threshold, value));
+    setShares(null);
+  };
+
+  const selectStyle: React.CSSProperties = {
+    padding: '2px 4px',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    fontSize: '12px'
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: 'white',
+    border: '1px solid #ddd',
+    borderRadius: '4px',
+    padding: '4px 10px',
+    cursor: 'pointer',
+    fontSize: '12px'
+  };
+
+  return (
+    <div style={{ marginTop: '8px' }}>
+      <div style={{ marginBottom: '8px', color: '#666' }}>
+        Split your recovery phrase so that any {threshold} of {count} holders can restore it together, and fewer learn nothing.
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px', flexWrap: 'wrap' }}>
+        <label>
+          Shares:{' '}
+          <select value={count} onChange={(e) => handleCountChange(Number(e.target.value))} style={selectStyle}>
+            {Array.from({ length: MAX_SHARES - 1 }, (_, i) => i + 2).map(n => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Needed to restore:{' '}
+          <select value={threshold} onChange={(e) => { setThreshold(Number(e.target.value)); setShares(null); }} style={selectStyle}>
+            {Array.from({ length: count - 1 }, (_, i) => i + 2).map(k => (
+              <option key={k} value={k}>{k}</option>
+            ))}
+          </select>
+        </label>
+        <button onClick={handleSplit} style={buttonStyle}>
+          {shares ? 'Split again' : 'Split'}
+        </button>
+        <button onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      {shares && (
+        <>
+          <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+            {(['words', 'base32', 'qr'] as ShareFormat[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setFormat(option)}
+                style={{ ...buttonStyle, fontWeight: format === option ? 'bold' : 'normal' }}
+              >
+                {option === 'words' ? 'Words' : option === 'base32' ? 'Base32' : 'QR'}
+              </button>
+            ))}
+          </div>
+          <div style={{ marginBottom: '8px', color: '#e65100' }}>
+            ⚠️ Give each holder one share. Splitting again makes a new set; shares from different sets cannot be combined.
+          </div>
+          {shares.map(share => (
+            <div
+              key={share.index}
+              style={{
+                backgroundColor: 'white',
+                border: '1px solid #e0e0e0',
+                borderRadius: '6px',
+                padding: '8px',
+                marginBottom: '6px'
+              }}
+            >
+              <strong>Share {share.index} of {shares.length}</strong>
+              <span style={{ color: '#666' }}> · set {formatSetId(share.setId)} · any {share.threshold} restore</span>
+              {format === 'qr' ? (
+                <div style={{ display: 'flex', justifyContent: 'center', paddingTop: '6px' }}>
+                  <QRCodeSVG
+                    value={shareToBase32(share).replace(/\s/g, '')}
+                    size={140}
+                    level="M"
+                    includeMargin={true}
+                  />
+                </div>
+              ) : (
+                <div style={{ fontFamily: 'monospace', whiteSpace: 'pre-wrap', wordBreak: 'break-all', paddingTop: '6px' }}>
+                  {format === 'words' ? formatWords(shareToWords(share), 3) : shareToBase32(share)}
+                </div>
+              )}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
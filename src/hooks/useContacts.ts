@@ -0,0 +1,85 @@
+/**
+ * Hook for the encrypted contact book
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Contact } from '../types/contact';
+import {
+  createContact,
+  updateContactBundle,
+  loadContacts,
+  saveContacts,
+  clearContacts,
+  findContactByName
+} from '../utils/contacts';
+
+export const useContacts = (storeKey: Uint8Array | null) => {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+
+  // Load contacts once the store key is available
+  useEffect(() => {
+    setContacts(storeKey ? loadContacts(storeKey) : []);
+  }, [storeKey]);
+
+  const persist = useCallback((updated: Contact[]) => {
+    setContacts(updated);
+    if (storeKey) {
+      saveContacts(updated, storeKey);
+    }
+  }, [storeKey]);
+
+  // Add a contact; throws on an invalid bundle or a name already in use
+  const addContact = useCallback((name: string, bundle: Uint8Array, notes: string = ''): Contact => {
+    if (findContactByName(contacts, name)) {
+      throw new Error(`A contact named "${name.trim()}" already exists`);
+    }
+    const contact = createContact(name, bundle, notes);
+    persist([...contacts, contact]);
+    return contact;
+  }, [contacts, persist]);
+
+  // Update a contact; new keys go through updateContactBundle (throws on an invalid bundle)
+  const updateContact = useCallback((
+    id: string,
+    changes: Partial<Pick<Contact, 'name' | 'notes' | 'verified' | 'bundle'>>
+  ) => {
+    if (changes.name !== undefined) {
+      if (!changes.name.trim()) {
+        throw new Error('Contact name is required');
+      }
+      const existing = findContactByName(contacts, changes.name);
+      if (existing && existing.id !== id) {
+        throw new Error(`A contact named "${changes.name.trim()}" already exists`);
+      }
+      changes = { ...changes, name: changes.name.trim() };
+    }
+    const { bundle, ...fields } = changes;
+    persist(contacts.map(c => {
+      if (c.id !== id) return c;
+      const updated = { ...c, ...fields };
+      return bundle ? updateContactBundle(updated, bundle) : updated;
+    }));
+  }, [contacts, persist]);
+
+  const deleteContact = useCallback((id: string) => {
+    persist(contacts.filter(c => c.id !== id));
+  }, [contacts, persist]);
+
+  const markContactUsed = useCallback((id: string) => {
+    persist(contacts.map(c => c.id === id ? { ...c, lastUsed: Date.now() } : c));
+  }, [contacts, persist]);
+
+  const clearAllContacts = useCallback(() => {
+    clearContacts();
+    setContacts([]);
+  }, []);
+
+  return {
+    contacts,
+    addContact,
+    updateContact,
+    deleteContact,
+    markContactUsed,
+    clearAllContacts
+  };
+};
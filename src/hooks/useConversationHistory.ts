@@ -0,0 +1,112 @@
+/**
+ * Hook for per-session conversation history and its retention policy
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { HistoryEntry, RetentionPolicy } from '../types/history';
+import {
+  applyRetention,
+  loadRetentionPolicy,
+  saveRetentionPolicy,
+  loadAllConversations,
+  saveConversation,
+  clearConversations
+} from '../utils/history';
+
+export const useConversationHistory = (storeKey: Uint8Array | null) => {
+  const [conversations, setConversations] = useState<Map<string, HistoryEntry[]>>(new Map());
+  const [retentionPolicy, setRetentionPolicyState] = useState<RetentionPolicy>(loadRetentionPolicy);
+
+  // Load histories once the store key is available, dropping expired entries
+  useEffect(() => {
+    if (!storeKey) {
+      setConversations(new Map());
+      return;
+    }
+
+    const policy = loadRetentionPolicy();
+    const loaded = loadAllConversations(storeKey);
+    loaded.forEach((entries, sessionKey) => {
+      const kept = applyRetention(entries, policy);
+      if (kept.length !== entries.length) {
+        saveConversation(sessionKey, kept, storeKey);
+      }
+      if (kept.length > 0) {
+        loaded.set(sessionKey, kept);
+      } else {
+        loaded.delete(sessionKey);
+      }
+    });
+
+    setRetentionPolicyState(policy);
+    setConversations(loaded);
+  }, [storeKey]);
+
+  // Append a sent or received message to a session's history (unless history is off)
+  const recordMessage = useCallback((sessionKey: string, entry: HistoryEntry) => {
+    if (!storeKey || retentionPolicy.mode === 'never') return;
+
+    setConversations(prev => {
+      const entries = applyRetention([...(prev.get(sessionKey) || []), entry], retentionPolicy);
+      saveConversation(sessionKey, entries, storeKey);
+
+      const updated = new Map(prev);
+      updated.set(sessionKey, entries);
+      return updated;
+    });
+  }, [storeKey, retentionPolicy]);
+
+  const getConversation = useCallback((sessionKey: string | null): HistoryEntry[] => {
+    return (sessionKey && conversations.get(sessionKey)) || [];
+  }, [conversations]);
+
+  // Change the policy and apply it to everything stored; 'never' deletes all history
+  const setRetentionPolicy = useCallback((policy: RetentionPolicy) => {
+    saveRetentionPolicy(policy);
+    setRetentionPolicyState(policy);
+
+    if (policy.mode === 'never') {
+      clearConversations();
+      setConversations(new Map());
+      return;
+    }
+
+    if (!storeKey) return;
+    setConversations(prev => {
+      const updated = new Map<string, HistoryEntry[]>();
+      prev.forEach((entries, sessionKey) => {
+        const kept = applyRetention(entries, policy);
+        saveConversation(sessionKey, kept, storeKey);
+        if (kept.length > 0) {
+          updated.set(sessionKey, kept);
+        }
+      });
+      return updated;
+    });
+  }, [storeKey]);
+
+  const clearConversation = useCallback((sessionKey: string) => {
+    if (storeKey) {
+      saveConversation(sessionKey, [], storeKey);
+    }
+    setConversations(prev => {
+      const updated = new Map(prev);
+      updated.delete(sessionKey);
+      return updated;
+    });
+  }, [storeKey]);
+
+  const clearAllConversations = useCallback(() => {
+    clearConversations();
+    setConversations(new Map());
+  }, []);
+
+  return {
+    retentionPolicy,
+    setRetentionPolicy,
+    recordMessage,
+    getConversation,
+    clearConversation,
+    clearAllConversations
+  };
+};
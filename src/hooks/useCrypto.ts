@@ -2,57 +2,476 @@
  * Hook for encryption and decryption operations
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { KeyPair } from '../types';
-import { encryptMessage, decryptMessage } from '../utils/crypto';
-import { base32CrockfordToUint8Array, formatInGroups, uint8ArrayToBase32Crockford } from '../utils/encoding';
+import { Contact } from '../types/contact';
+import { GroupState } from '../types/group';
+import { HistoryEntry } from '../types/history';
+import { SignatureVerification } from '../types/signature';
+import { MessageType, DecodedMessage } from '../types/armor';
+import {
+  encryptMessage,
+  encryptMessageForRecipients,
+  decryptMessage,
+  decryptBoxMessage,
+  decryptMultiRecipientMessage,
+  isMultiRecipientMessage
+} from '../utils/crypto';
+import { armorMessage, decodeMessageText } from '../utils/armor';
+import { base32CrockfordToUint8Array, uint8ArrayToBase32Crockford, generateUserId } from '../utils/encoding';
 import { isBIP39Format, wordsToUint8Array } from '../utils/bip39';
+import { isLadderMessage, isUnsignedBundle, parsePublicKeyBundle } from '../utils/ladder';
+import {
+  TrustStore,
+  KeyChange,
+  loadTrustStore,
+  saveTrustStore,
+  clearTrustStore,
+  checkPinnedIdentity,
+  findPinnedContact,
+  anonymousContactName,
+  normalizeContactName,
+  pinIdentity,
+  renamePinnedIdentity,
+  forgetPinnedIdentity
+} from '../utils/trustStore';
+import {
+  findContactByName,
+  findContactByIdentityKey,
+  findContactBySigningKey,
+  getContactIdentityKey,
+  sortContacts
+} from '../utils/contacts';
+import {
+  createGroup,
+  addGroupMember,
+  removeGroupMember,
+  rotateSenderKey,
+  createSenderKeyDistribution,
+  isSenderKeyDistributionPayload,
+  decodeSenderKeyDistribution,
+  applySenderKeyDistribution,
+  groupEncrypt,
+  groupDecrypt,
+  findGroupById,
+  findGroupForMessage,
+  getGroupIdString
+} from '../utils/groups';
+import {
+  createDetachedSignature,
+  verifyDetachedSignature,
+  createClearsignedMessage,
+  isClearsignedMessage,
+  verifyClearsignedMessage
+} from '../utils/signatures';
 import { useRatchet } from './useRatchet';
+import { useContacts } from './useContacts';
+import { useConversationHistory } from './useConversationHistory';
+import { useGroups } from './useGroups';
+
+// What changed, for the operation history
+function describeKeyChange(change: KeyChange): string {
+  const changed = [
+    change.identityKeyChanged ? 'identity key' : null,
+    change.signingKeyChanged ? 'signing key' : null,
+    change.ephemeralSeedChanged ? 'ephemeral seed' : null
+  ].filter((part): part is string => part !== null);
+  return changed.length > 1 ?
+    `${changed.slice(0, -1).join(', ')} and ${changed[changed.length - 1]}` :
+    changed[0];
+}
 
 export const useCrypto = (
   keypair: KeyPair | null, 
   onNonceUpdate: () => void,
-  masterKey: string
+  storeKey: Uint8Array | null,
+  ephemeralSeed: KeyPair | null = null,
+  signingKeyPair: KeyPair | null = null
 ) => {
   const [recipientPublicKey, setRecipientPublicKey] = useState('');
+  const [contactName, setContactName] = useState('');
+  const [extraRecipients, setExtraRecipients] = useState<string[]>([]); // Non-ratchet mode only
+  const [trustStore, setTrustStore] = useState<TrustStore>(new Map());
+  const [pendingKeyChange, setPendingKeyChange] = useState<KeyChange | null>(null);
   const [message, setMessage] = useState('');
   const [output, setOutput] = useState('');
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [useRatchetProtocol, setUseRatchetProtocol] = useState(true); // Default to ratchet ON
+  const [useHeaderEncryption, setUseHeaderEncryption] = useState(false);
+  const [signMode, setSignMode] = useState(false); // Sign and verify instead of encrypt and decrypt
+  const [detachedSignature, setDetachedSignature] = useState(false);
+  const [signatureInput, setSignatureInput] = useState(''); // Detached signature to verify
+  
+  // Conversation history hook (fed by the ratchet hook)
+  const {
+    retentionPolicy,
+    setRetentionPolicy,
+    recordMessage,
+    getConversation,
+    clearConversation,
+    clearAllConversations
+  } = useConversationHistory(storeKey);
   
+  // Sender key distributions are protocol messages, not conversation
+  const recordChatMessage = useCallback((sessionKey: string, entry: HistoryEntry) => {
+    if (!isSenderKeyDistributionPayload(entry.text)) {
+      recordMessage(sessionKey, entry);
+    }
+  }, [recordMessage]);
+
   // Ratchet protocol hook
   const {
     encryptWithRatchet,
     decryptWithRatchet,
+    encryptWithLadder,
+    decryptWithLadder,
+    hasSession,
     getCurrentSession,
+    selectSession,
+    setCurrentSessionVerified,
+    currentSessionKey,
     resetSession,
     clearAllSessions,
     operations,
+    addOperation,
     isProcessing,
     sessionCount
-  } = useRatchet(keypair, masterKey);
+  } = useRatchet(keypair, storeKey, useHeaderEncryption, recordChatMessage);
+
+  // Contact book hook
+  const {
+    contacts,
+    addContact,
+    updateContact,
+    deleteContact,
+    markContactUsed,
+    clearAllContacts
+  } = useContacts(storeKey);
+
+  // Sender-key groups hook
+  const {
+    groups,
+    saveGroup,
+    deleteGroup,
+    clearAllGroups
+  } = useGroups(storeKey);
+
+  // The contact name field links the recipient to a saved contact
+  const selectedContact = useMemo(
+    () => findContactByName(contacts, contactName),
+    [contacts, contactName]
+  );
+
+  // Load pinned contact keys once the store key is available
+  useEffect(() => {
+    setTrustStore(storeKey ? loadTrustStore(storeKey) : new Map());
+  }, [storeKey]);
+
+  // Trust on first use: pin a recipient's keys and block when they change.
+  // Without a contact name, the pin is found by key or created under a key-derived name.
+  const checkContactKeys = useCallback((
+    identityKey: Uint8Array,
+    ephemeralSeed: Uint8Array | null,
+    signingKey: Uint8Array | null
+  ): boolean => {
+    if (!storeKey) return true;
+    
+    const contact = contactName.trim() ||
+      findPinnedContact(trustStore, identityKey, ephemeralSeed, signingKey) ||
+      anonymousContactName(identityKey);
+    const change = checkPinnedIdentity(trustStore, contact, identityKey, ephemeralSeed, signingKey);
+    if (change) {
+      setPendingKeyChange(change);
+      addOperation('key-change', `Key change detected for ${change.contact}`);
+      return false;
+    }
+    
+    const updated = pinIdentity(trustStore, contact, identityKey, ephemeralSeed, signingKey);
+    if (updated.get(normalizeContactName(contact))?.unsignedSeed &&
+        !trustStore.get(normalizeContactName(contact))?.unsignedSeed) {
+      addOperation('key-change', `Pinned an unsigned bundle for ${contact}; its ephemeral seed is not authenticated`);
+    }
+    setTrustStore(updated);
+    saveTrustStore(updated, storeKey);
+    return true;
+  }, [contactName, storeKey, trustStore, addOperation]);
+
+  // Pin the new keys; the next message uses (or starts) the session for them
+  const acceptKeyChange = useCallback(() => {
+    if (!pendingKeyChange || !storeKey) return;
+    
+    const { contact, identityKey, ephemeralSeed, signingKey } = pendingKeyChange;
+    const updated = pinIdentity(trustStore, contact, identityKey, ephemeralSeed, signingKey);
+    setTrustStore(updated);
+    saveTrustStore(updated, storeKey);
+    
+    addOperation('key-change', `Accepted new ${describeKeyChange(pendingKeyChange)} for ${contact}`);
+    setOutput(`New keys accepted for ${contact}. Repeat the operation to continue.`);
+    setPendingKeyChange(null);
+  }, [pendingKeyChange, storeKey, trustStore, addOperation]);
+
+  const rejectKeyChange = useCallback(() => {
+    if (!pendingKeyChange) return;
+    
+    addOperation('key-change', `Rejected new ${describeKeyChange(pendingKeyChange)} for ${pendingKeyChange.contact}`);
+    setOutput(`Key change for ${pendingKeyChange.contact} rejected. Nothing was encrypted or decrypted.`);
+    setPendingKeyChange(null);
+  }, [pendingKeyChange, addOperation]);
+
+  // Forget all pinned contact keys
+  const clearTrustedKeys = useCallback(() => {
+    clearTrustStore();
+    setTrustStore(new Map());
+    setPendingKeyChange(null);
+  }, []);
 
+  // Decode a pasted or scanned key; signed bundles must verify before they are accepted
   const parsePublicKey = useCallback((keyString: string): Uint8Array => {
+    let keyBytes: Uint8Array;
     if (isBIP39Format(keyString)) {
       const words = keyString.toLowerCase().trim().split(/\s+/);
-      return wordsToUint8Array(words);
+      keyBytes = wordsToUint8Array(words);
     } else {
-      return base32CrockfordToUint8Array(keyString);
+      keyBytes = base32CrockfordToUint8Array(keyString);
     }
+    parsePublicKeyBundle(keyBytes); // Throws on a bad signature or size
+    return keyBytes;
   }, []);
 
+  // Warn while the recipient's seed is unauthenticated: an unsigned bundle, or a bare key pinned from one
+  const recipientSeedUnsigned = useMemo(() => {
+    let bundle;
+    try {
+      bundle = parsePublicKeyBundle(parsePublicKey(recipientPublicKey));
+    } catch {
+      return false;
+    }
+    if (bundle.signingKey) return false;
+    if (isUnsignedBundle(bundle)) return true;
+
+    const contact = contactName.trim() || findPinnedContact(trustStore, bundle.identityKey, null);
+    return contact ? trustStore.get(normalizeContactName(contact))?.unsignedSeed ?? false : false;
+  }, [recipientPublicKey, contactName, trustStore, parsePublicKey]);
+
   // Extract identity key from a bundle (first 32 bytes)
   const extractIdentityKey = useCallback((keyOrBundle: Uint8Array): Uint8Array => {
-    if (keyOrBundle.length === 32) {
-      return keyOrBundle;
-    } else if (keyOrBundle.length === 64) {
-      return keyOrBundle.slice(0, 32);
-    } else {
-      throw new Error(`Invalid key size: ${keyOrBundle.length} bytes`);
-    }
+    return parsePublicKeyBundle(keyOrBundle).identityKey;
   }, []);
 
+  const markSelectedContactUsed = () => {
+    if (selectedContact) {
+      markContactUsed(selectedContact.id);
+    }
+  };
+
+  // Fill in the recipient from a saved contact and show its session (if any)
+  const selectContact = useCallback((id: string | null) => {
+    const contact = contacts.find(c => c.id === id);
+    if (!contact) {
+      setContactName('');
+      setRecipientPublicKey('');
+      selectSession(null);
+      return;
+    }
+    
+    setContactName(contact.name);
+    setRecipientPublicKey(uint8ArrayToBase32Crockford(contact.bundle));
+    selectSession(getContactIdentityKey(contact));
+  }, [contacts, selectSession]);
+
+  // Save a contact from a pasted or scanned key; throws on invalid input
+  const saveContact = useCallback((name: string, keyString: string, notes: string = ''): Contact => {
+    return addContact(name, parsePublicKey(keyString), notes);
+  }, [addContact, parsePublicKey]);
+
+  // Edit a contact; a renamed contact keeps its pinned keys
+  const editContact = useCallback((id: string, name: string, keyString: string, notes: string) => {
+    const contact = contacts.find(c => c.id === id);
+    if (!contact) return;
+    
+    updateContact(id, { name, notes, bundle: parsePublicKey(keyString) });
+    
+    if (contact.name !== name.trim() && storeKey) {
+      const updated = renamePinnedIdentity(trustStore, contact.name, name);
+      setTrustStore(updated);
+      saveTrustStore(updated, storeKey);
+    }
+    if (selectedContact?.id === id) {
+      setContactName(name.trim());
+    }
+  }, [contacts, updateContact, parsePublicKey, storeKey, trustStore, selectedContact]);
+
+  // Delete a contact and its pinned keys; the ratchet session is kept
+  const removeContact = useCallback((id: string) => {
+    const contact = contacts.find(c => c.id === id);
+    if (!contact) return;
+    
+    deleteContact(id);
+    if (storeKey) {
+      const updated = forgetPinnedIdentity(trustStore, contact.name);
+      setTrustStore(updated);
+      saveTrustStore(updated, storeKey);
+    }
+  }, [contacts, deleteContact, storeKey, trustStore]);
+
+  const clearCurrentConversation = useCallback(() => {
+    if (currentSessionKey) {
+      clearConversation(currentSessionKey);
+    }
+  }, [currentSessionKey, clearConversation]);
+
+  const hasContactSession = useCallback((contact: Contact): boolean => {
+    return hasSession(getContactIdentityKey(contact));
+  }, [hasSession]);
+
+  // Verification covers the session and the contact with the same identity key
+  const setSessionVerified = useCallback((verified: boolean) => {
+    setCurrentSessionVerified(verified);
+    
+    const session = getCurrentSession();
+    const contact = session && findContactByIdentityKey(contacts, session.theirIdentityPublicKey);
+    if (contact) {
+      updateContact(contact.id, { verified });
+    }
+  }, [setCurrentSessionVerified, getCurrentSession, contacts, updateContact]);
+
+  // A group member's contact name, or their user ID
+  const describeMember = useCallback((identityKey: Uint8Array): string => {
+    return findContactByIdentityKey(contacts, identityKey)?.name ?? generateUserId(identityKey);
+  }, [contacts]);
+
+  // Encrypt over the pairwise session with a member, starting one the same way handleEncrypt does
+  const encryptForMember = async (text: string, identityKey: Uint8Array): Promise<string | null> => {
+    const contact = findContactByIdentityKey(contacts, identityKey);
+    const theirEphemeralSeed = contact ? parsePublicKeyBundle(contact.bundle).ephemeralSeed : null;
+    if (theirEphemeralSeed && ephemeralSeed && !hasSession(identityKey)) {
+      const encrypted = await encryptWithLadder(text, identityKey, theirEphemeralSeed);
+      return encrypted && armorMessage('ladder', encrypted);
+    }
+    const encrypted = encryptWithRatchet(text, identityKey);
+    return encrypted && armorMessage('ratchet', encrypted);
+  };
+
+  // Send our current sender key to every member over their pairwise sessions
+  const distributeSenderKey = async (group: GroupState) => {
+    if (!keypair) return;
+
+    const payload = createSenderKeyDistribution(group, keypair.publicKey);
+    const shares: string[] = [];
+    for (const member of group.members) {
+      const encrypted = await encryptForMember(payload, member);
+      shares.push(encrypted ?
+        `${describeMember(member)}:\n${encrypted}` :
+        `${describeMember(member)}: Error: Ratchet encryption failed`);
+    }
+
+    saveGroup(group);
+    addOperation('group', `Sender key for ${group.name} shared with ${group.members.length} member(s)`);
+    setOutput(`Group key for "${group.name}" - send each member their message:\n\n${shares.join('\n\n')}`);
+    onNonceUpdate();
+  };
+
+  const runGroupAction = async (action: () => Promise<void>) => {
+    setIsEncrypting(true);
+    try {
+      await action();
+    } catch (error) {
+      setOutput(`Group error: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  // Create a group with saved contacts and share our sender key with them
+  const handleCreateGroup = (name: string, contactIds: string[]) => runGroupAction(async () => {
+    if (!keypair) return;
+
+    const members = contacts.filter(c => contactIds.includes(c.id)).map(getContactIdentityKey);
+    const group = createGroup(name, members, keypair.publicKey);
+    addOperation('group', `Group ${group.name} created with ${group.members.length} member(s)`);
+    await distributeSenderKey(group);
+  });
+
+  const handleAddGroupMember = (groupId: string, contactId: string) => runGroupAction(async () => {
+    const group = groups.find(g => getGroupIdString(g.groupId) === groupId);
+    const contact = contacts.find(c => c.id === contactId);
+    if (!group || !contact) return;
+
+    const updated = addGroupMember(group, getContactIdentityKey(contact));
+    addOperation('group', `${contact.name} added to ${group.name}, sender key rotated`);
+    await distributeSenderKey(updated);
+  });
+
+  const handleRemoveGroupMember = (groupId: string, memberKey: Uint8Array) => runGroupAction(async () => {
+    const group = groups.find(g => getGroupIdString(g.groupId) === groupId);
+    if (!group) return;
+
+    const updated = removeGroupMember(group, memberKey);
+    addOperation('group', `${describeMember(memberKey)} removed from ${group.name}, sender key rotated`);
+    await distributeSenderKey(updated);
+  });
+
+  // Rotate and share our sender key (needed after joining or a membership change)
+  const handleShareGroupKey = (groupId: string) => runGroupAction(async () => {
+    const group = groups.find(g => getGroupIdString(g.groupId) === groupId);
+    if (!group) return;
+
+    await distributeSenderKey(rotateSenderKey(group));
+  });
+
+  // Forget a group and its sender keys
+  const leaveGroup = useCallback((groupId: string) => {
+    deleteGroup(groupId);
+  }, [deleteGroup]);
+
+  const handleGroupEncrypt = (groupId: string) => runGroupAction(async () => {
+    const group = groups.find(g => getGroupIdString(g.groupId) === groupId);
+    if (!group) return;
+    if (!message) {
+      setOutput('Error: Missing message');
+      return;
+    }
+
+    const [encrypted, updated] = groupEncrypt(group, new Uint8Array(new TextEncoder().encode(message)));
+    saveGroup(updated);
+    addOperation('group', `Group message #${updated.mySenderKey.counter} encrypted for ${group.name}`);
+
+    setOutput(`Encrypted for group "${group.name}":\n${armorMessage('group', encrypted)}`);
+    onNonceUpdate();
+  });
+
+  // Store a sender key received over a pairwise session; returns the output text
+  const receiveSenderKey = (payload: string, senderIdentityKey: Uint8Array): string => {
+    if (!keypair) return 'Error: No keypair available';
+
+    const distribution = decodeSenderKeyDistribution(payload);
+    const group = findGroupById(groups, distribution.groupId) ?? null;
+    const updated = applySenderKeyDistribution(group, distribution, senderIdentityKey, keypair.publicKey);
+    saveGroup(updated);
+
+    const sender = describeMember(senderIdentityKey);
+    addOperation('group', `Sender key for ${updated.name} received from ${sender}`);
+    if (!group) {
+      return `You were added to group "${updated.name}" by ${sender}. Share your sender key from the Groups panel.`;
+    }
+    return updated.needsKeyShare ?
+      `Group "${updated.name}" membership changed (key from ${sender}). Share your new sender key from the Groups panel.` :
+      `Sender key for group "${updated.name}" received from ${sender}.`;
+  };
+
+  // Output for a successful pairwise decrypt: sender keys are applied, not shown
+  const decryptedOutput = (text: string, senderIdentityKey: Uint8Array): string => {
+    if (!isSenderKeyDistributionPayload(text)) {
+      return `Decrypted:\n${text}`;
+    }
+    try {
+      return receiveSenderKey(text, senderIdentityKey);
+    } catch (error) {
+      return `Group key rejected: ${error instanceof Error ? error.message : error}`;
+    }
+  };
+
   const handleEncrypt = async () => {
     if (!keypair || !recipientPublicKey || !message) {
       setOutput('Error: Missing keypair, recipient public key, or message');
@@ -66,28 +485,47 @@ export const useCrypto = (
 
     try {
       const recipientKey = parsePublicKey(recipientPublicKey);
+      const { identityKey, ephemeralSeed: theirEphemeralSeed, signingKey } = parsePublicKeyBundle(recipientKey);
+      
+      if (!checkContactKeys(identityKey, theirEphemeralSeed, signingKey)) {
+        setOutput(`Blocked: the keys for ${contactName.trim() || 'this recipient'} have changed. Review the warning before continuing.`);
+        return;
+      }
       
       let encrypted: Uint8Array;
+      let type: MessageType;
       if (useRatchetProtocol) {
-        // Use ratchet protocol - extract identity key from bundle if needed
-        const identityKey = extractIdentityKey(recipientKey);
-        const encryptedData = encryptWithRatchet(message, identityKey);
+        let encryptedData: Uint8Array | null;
+        if (theirEphemeralSeed && ephemeralSeed && !hasSession(identityKey)) {
+          // Full bundle and no session yet - start with a Ladder PreKeyInit
+          encryptedData = await encryptWithLadder(message, identityKey, theirEphemeralSeed);
+          type = 'ladder';
+        } else {
+          // Use ratchet protocol - extract identity key from bundle if needed
+          encryptedData = encryptWithRatchet(message, identityKey);
+          type = 'ratchet';
+        }
         if (!encryptedData) {
           setOutput('Error: Ratchet encryption failed');
           return;
         }
         encrypted = encryptedData;
       } else {
-        // Use standard encryption - extract identity key from bundle if needed
-        const identityKey = extractIdentityKey(recipientKey);
-        encrypted = encryptMessage(message, identityKey, keypair.secretKey);
+        // Use standard encryption with the identity key from each bundle
+        const extraKeys = extraRecipients
+          .filter(key => key.trim())
+          .map(key => extractIdentityKey(parsePublicKey(key)));
+        encrypted = extraKeys.length > 0 ?
+          encryptMessageForRecipients(message, [identityKey, ...extraKeys], keypair.secretKey) :
+          encryptMessage(message, identityKey, keypair.secretKey);
+        type = extraKeys.length > 0 ? 'multi' : 'box';
       }
       
-      const formattedOutput = formatInGroups(uint8ArrayToBase32Crockford(encrypted), true);
-      setOutput(`Encrypted:\n${formattedOutput}`);
+      setOutput(`Encrypted:\n${armorMessage(type, encrypted)}`);
       
       // Re-encrypt private key with new nonce
       onNonceUpdate();
+      markSelectedContactUsed();
     } catch (error) {
       setOutput(`Encryption error: ${error}`);
     } finally {
@@ -95,8 +533,49 @@ export const useCrypto = (
     }
   };
 
+  // The stored group a pasted message is addressed to, if any
+  const findMessageGroup = (decoded: DecodedMessage): GroupState | undefined => {
+    return decoded.type === null || decoded.type === 'group' ?
+      findGroupForMessage(groups, decoded.data) :
+      undefined;
+  };
+
+  // Bare base32 from before armoring carries no type; guess it the way older versions did.
+  // A ratchet guess is not final: handleDecrypt tries box decryption first.
+  const guessMessageType = (encryptedData: Uint8Array): MessageType | null => {
+    // Ratchet messages start with their version byte (0x01-0x03)
+    const isRatchetMessage = encryptedData.length > 0 && encryptedData[0] >= 0x01 && encryptedData[0] <= 0x03;
+    if (useRatchetProtocol && isLadderMessage(encryptedData)) {
+      return 'ladder';
+    }
+    if (!isMultiRecipientMessage(encryptedData) && (isRatchetMessage || useRatchetProtocol)) {
+      return 'ratchet';
+    }
+    return null; // Standard decryption tries both box formats
+  };
+
   const handleDecrypt = async () => {
-    if (!keypair || !recipientPublicKey || !message) {
+    let decoded: DecodedMessage | null = null;
+    if (message) {
+      try {
+        decoded = decodeMessageText(message);
+      } catch (error) {
+        setOutput(`Decryption error: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+
+    // Group messages identify their sender chain, so no sender key is needed
+    const group = decoded ? findMessageGroup(decoded) : undefined;
+    if (decoded?.type === 'group' && !group) {
+      setOutput('Decryption failed: No sender keys for this group. Ask a member to share theirs.');
+      return;
+    }
+    if (decoded?.type === 'signature') {
+      setOutput('This is a detached signature. Switch to sign mode to verify it against its message.');
+      return;
+    }
+    if (!keypair || (!recipientPublicKey && !group) || !decoded) {
       setOutput('Error: Missing keypair, sender public key, or encrypted message');
       return;
     }
@@ -107,32 +586,73 @@ export const useCrypto = (
     await new Promise(resolve => setTimeout(resolve, 300));
 
     try {
+      const encryptedData = decoded.data;
+      if (group) {
+        const [plaintext, updated, senderIdentityKey] = groupDecrypt(group, encryptedData);
+        saveGroup(updated);
+
+        const sender = describeMember(senderIdentityKey);
+        addOperation('group', `Group message from ${sender} decrypted in ${group.name}`);
+        setOutput(`Decrypted (group "${group.name}", from ${sender}):\n${new TextDecoder().decode(plaintext)}`);
+        onNonceUpdate();
+        return;
+      }
+
       const senderKey = parsePublicKey(recipientPublicKey);
-      const encryptedData = base32CrockfordToUint8Array(message);
-      
-      // Check if this is a ratchet message (version byte 0x01)
-      const isRatchetMessage = encryptedData.length > 0 && encryptedData[0] === 0x01;
-      
+      const { identityKey, ephemeralSeed: theirEphemeralSeed, signingKey } = parsePublicKeyBundle(senderKey);
+
+      if (!checkContactKeys(identityKey, theirEphemeralSeed, signingKey)) {
+        setOutput(`Blocked: the keys for ${contactName.trim() || 'this recipient'} have changed. Review the warning before continuing.`);
+        return;
+      }
+
+      // Armored messages name their type, whatever the ratchet toggle says
+      const type = decoded.type ?? guessMessageType(encryptedData);
+
       let decrypted: string | null;
-      if (isRatchetMessage || useRatchetProtocol) {
-        // Use ratchet protocol - extract identity key from bundle if needed
-        const identityKey = extractIdentityKey(senderKey);
-        decrypted = decryptWithRatchet(encryptedData, identityKey);
+      if (type === 'ladder') {
+        if (!ephemeralSeed) {
+          setOutput('Decryption failed: No ephemeral seed available for Ladder message');
+          return;
+        }
+        decrypted = await decryptWithLadder(encryptedData, identityKey, ephemeralSeed);
         if (!decrypted) {
-          setOutput('Decryption failed: Invalid ratchet message or wrong keys');
+          setOutput('Decryption failed: Invalid Ladder message, replay, or wrong keys');
         } else {
-          setOutput(`Decrypted:\n${decrypted}`);
+          setOutput(decryptedOutput(decrypted, identityKey));
+          onNonceUpdate();
+          markSelectedContactUsed();
+        }
+      } else if (type === 'ratchet') {
+        // Bare input is only guessed to be ratchet; a legacy box message can start with a version byte too.
+        // Box decryption has no side effects, so it goes first: a failed ratchet attempt may create a session.
+        const boxed = decoded.type === null ?
+          decryptMessage(encryptedData, identityKey, keypair.secretKey) :
+          null;
+        decrypted = boxed ? null : decryptWithRatchet(encryptedData, identityKey);
+        if (decrypted) {
+          setOutput(decryptedOutput(decrypted, identityKey));
+          onNonceUpdate();
+          markSelectedContactUsed();
+        } else if (boxed) {
+          setOutput(`Decrypted:\n${boxed}`);
           onNonceUpdate();
+          markSelectedContactUsed();
+        } else {
+          setOutput('Decryption failed: Invalid ratchet message or wrong keys');
         }
       } else {
-        // Use standard decryption - extract identity key from bundle if needed
-        const identityKey = extractIdentityKey(senderKey);
-        const decryptedMsg = decryptMessage(encryptedData, identityKey, keypair.secretKey);
+        // Use standard decryption
+        const decryptedMsg =
+          type === 'box' ? decryptBoxMessage(encryptedData, identityKey, keypair.secretKey) :
+          type === 'multi' ? decryptMultiRecipientMessage(encryptedData, identityKey, keypair.secretKey) :
+          decryptMessage(encryptedData, identityKey, keypair.secretKey);
         if (!decryptedMsg) {
           setOutput('Decryption failed: Invalid message or wrong keys');
         } else {
           setOutput(`Decrypted:\n${decryptedMsg}`);
           onNonceUpdate();
+          markSelectedContactUsed();
         }
       }
     } catch (error) {
@@ -142,6 +662,55 @@ export const useCrypto = (
     }
   };
 
+  // Sign the message as a clearsigned block or a detached signature
+  const handleSign = () => {
+    if (!keypair || !ephemeralSeed || !signingKeyPair || !message) {
+      setOutput('Error: Missing signing key or message');
+      return;
+    }
+
+    try {
+      if (detachedSignature) {
+        const signature = createDetachedSignature(message, keypair.publicKey, ephemeralSeed.publicKey, signingKeyPair);
+        setOutput(`Signature:\n${armorMessage('signature', signature)}`);
+      } else {
+        setOutput(`Signed:\n${createClearsignedMessage(message, keypair.publicKey, ephemeralSeed.publicKey, signingKeyPair)}`);
+      }
+    } catch (error) {
+      setOutput(`Signing error: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Who made a valid signature. Only a saved signed bundle with the same signing
+  // key ties it to a contact; the user ID alone comes from the signature itself.
+  const describeSigner = (verification: SignatureVerification): string => {
+    const contact = findContactBySigningKey(contacts, verification.signingKey);
+    if (!contact) {
+      return `⚠️ Signer ${verification.userId} is not a saved contact. Compare the user ID with the signer's own screen before trusting it.`;
+    }
+    return contact.verified ?
+      `✅ Signed by ${contact.name} (${verification.userId}), a verified contact` :
+      `Signed by ${contact.name} (${verification.userId}). This contact is not verified yet.`;
+  };
+
+  // Verify a clearsigned block, or the message against a pasted detached signature
+  const handleVerify = () => {
+    if (!message || (!isClearsignedMessage(message) && !signatureInput.trim())) {
+      setOutput('Error: Paste a clearsigned message, or a message and its detached signature');
+      return;
+    }
+
+    try {
+      const verification = isClearsignedMessage(message) ?
+        verifyClearsignedMessage(message) :
+        verifyDetachedSignature(message, decodeMessageText(signatureInput).data);
+      const signedAt = new Date(verification.createdAt).toLocaleString();
+      setOutput(`Verified:\n${describeSigner(verification)}\nSigned at ${signedAt} (as claimed by the signer)\n\n${verification.text}`);
+    } catch (error) {
+      setOutput(`Verification failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
   // Check if ratchet is initialized for current recipient
   const isRatchetInitialized = useCallback((): boolean => {
     if (!recipientPublicKey) return false;
@@ -169,6 +738,10 @@ export const useCrypto = (
   return {
     recipientPublicKey,
     setRecipientPublicKey,
+    contactName,
+    setContactName,
+    extraRecipients,
+    setExtraRecipients,
     message,
     setMessage,
     output,
@@ -177,15 +750,59 @@ export const useCrypto = (
     isDecrypting,
     handleEncrypt,
     handleDecrypt,
+    // Sign-only and verify-only
+    signMode,
+    setSignMode,
+    detachedSignature,
+    setDetachedSignature,
+    signatureInput,
+    setSignatureInput,
+    canSign: signingKeyPair !== null && ephemeralSeed !== null,
+    handleSign,
+    handleVerify,
     // Ratchet specific
     useRatchet: useRatchetProtocol,
     setUseRatchet: setUseRatchetProtocol,
+    useHeaderEncryption,
+    setUseHeaderEncryption,
     ratchetInitialized: isRatchetInitialized(),
     ratchetOperations: operations,
     ratchetSession: getCurrentSession(),
+    setRatchetSessionVerified: setSessionVerified,
     isRatchetProcessing: isProcessing,
     ratchetSessionCount: sessionCount,
     handleResetRatchet,
-    clearAllSessions
+    clearAllSessions,
+    // Trust on first use
+    recipientSeedUnsigned,
+    pendingKeyChange,
+    acceptKeyChange,
+    rejectKeyChange,
+    clearTrustedKeys,
+    // Contact book
+    contacts: sortContacts(contacts),
+    selectedContact,
+    selectContact,
+    saveContact,
+    editContact,
+    removeContact,
+    hasContactSession,
+    clearAllContacts,
+    // Conversation history
+    conversation: getConversation(currentSessionKey),
+    retentionPolicy,
+    setRetentionPolicy,
+    clearConversation: clearCurrentConversation,
+    clearAllConversations,
+    // Sender-key groups
+    groups,
+    describeMember,
+    handleCreateGroup,
+    handleAddGroupMember,
+    handleRemoveGroupMember,
+    handleShareGroupKey,
+    handleGroupEncrypt,
+    leaveGroup,
+    clearAllGroups
   };
 };
@@ -0,0 +1,48 @@
+/**
+ * Hook for sender-key group state, kept encrypted with the store key
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { GroupState } from '../types/group';
+import { getGroupIdString, loadGroups, saveGroups, clearGroups } from '../utils/groups';
+
+export const useGroups = (storeKey: Uint8Array | null) => {
+  const [groups, setGroups] = useState<GroupState[]>([]);
+
+  // Load groups once the store key is available
+  useEffect(() => {
+    setGroups(storeKey ? loadGroups(storeKey) : []);
+  }, [storeKey]);
+
+  const persist = useCallback((updated: GroupState[]) => {
+    setGroups(updated);
+    if (storeKey) {
+      saveGroups(updated, storeKey);
+    }
+  }, [storeKey]);
+
+  // Insert or replace a group (matched by group ID)
+  const saveGroup = useCallback((group: GroupState) => {
+    const id = getGroupIdString(group.groupId);
+    const exists = groups.some(g => getGroupIdString(g.groupId) === id);
+    persist(exists ?
+      groups.map(g => getGroupIdString(g.groupId) === id ? group : g) :
+      [...groups, group]);
+  }, [groups, persist]);
+
+  const deleteGroup = useCallback((id: string) => {
+    persist(groups.filter(g => getGroupIdString(g.groupId) !== id));
+  }, [groups, persist]);
+
+  const clearAllGroups = useCallback(() => {
+    clearGroups();
+    setGroups([]);
+  }, []);
+
+  return {
+    groups,
+    saveGroup,
+    deleteGroup,
+    clearAllGroups
+  };
+};
@@ -3,11 +3,12 @@
  */
 
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import { ExtendedKeyPair, KeyPair, KeyPairDisplay } from '../types';
+import { ExtendedKeyPair, IdentityKeys, KeyPair, KeyPairDisplay, UnlockProgress, UnlockStage } from '../types';
 import {
   generateKeyPair,
   generateKeyPairFromSecretKey,
-  encryptSecretKey,
+  generateSigningKeyPair,
+  generateSigningKeyPairFromSecretKey,
   decryptSecretKey
 } from '../utils/crypto';
 import {
@@ -16,117 +17,261 @@ import {
   formatInGroups,
   generateUserId
 } from '../utils/encoding';
-import { encryptToFragment, decryptFromFragment, PlainPayload } from '../utils/seal';
+import {
+  encryptToFragment,
+  decryptFromFragment,
+  isSealedFragment,
+  readContext,
+  readFragmentSlots,
+  FragmentSlot,
+  KdfName,
+  KdfProgress,
+  OpenedFragment,
+  PlainPayload
+} from '../utils/seal';
+import { calibrateKdf, meetsKdfPolicy, loadPreferredKdf, savePreferredKdf } from '../utils/kdfPolicy';
+import { ContextMismatch, ContextPolicy, contextForPolicy, loadContextPolicy, saveContextPolicy } from '../utils/contextPolicy';
+import { checkFragmentSeq, knownFragmentSeq, saveFragmentSeq, RollbackWarning } from '../utils/fragmentSeq';
+import { unlockStoreKey, changeStoreKey, storeKdfParamsLost } from '../utils/storeKey';
+import { createSignedBundle } from '../utils/ladder';
+import {
+  generateRecoveryEntropy,
+  deriveIdentityKeys,
+  entropyToRecoveryPhrase,
+  recoveryPhraseToEntropy
+} from '../utils/recovery';
 
 interface KeyData {
   secretKey: string; // Base32 encoded secret key
   publicKey: string; // Base32 encoded public key
   ephemeralSeedSecret?: string; // Base32 encoded ephemeral seed secret (Ladder)
   ephemeralSeedPublic?: string; // Base32 encoded ephemeral seed public (Ladder)
+  signingSecretKey?: string; // Base32 encoded Ed25519 secret key (signs the bundle)
+  recoveryEntropy?: string; // Base32 encoded recovery phrase entropy (absent for keys made before phrases)
+  storeKey?: string; // Base32 encoded localStorage key, so every passphrase slot opens the same store
   timestamp: number;
 }
 
+function toKeyData(
+  pair: KeyPair,
+  seed: KeyPair | null,
+  signing: KeyPair | null,
+  entropy: Uint8Array | null,
+  store: Uint8Array | null
+): KeyData {
+  return {
+    secretKey: uint8ArrayToBase32Crockford(pair.secretKey),
+    publicKey: uint8ArrayToBase32Crockford(pair.publicKey),
+    ephemeralSeedSecret: seed ? uint8ArrayToBase32Crockford(seed.secretKey) : undefined,
+    ephemeralSeedPublic: seed ? uint8ArrayToBase32Crockford(seed.publicKey) : undefined,
+    signingSecretKey: signing ? uint8ArrayToBase32Crockford(signing.secretKey) : undefined,
+    recoveryEntropy: entropy ? uint8ArrayToBase32Crockford(entropy) : undefined,
+    storeKey: store ? uint8ArrayToBase32Crockford(store) : undefined,
+    timestamp: Date.now()
+  };
+}
+
+type RestoreResult = 'restored' | 'rollback' | 'mismatch' | 'cancelled' | 'failed';
+
+// Data sealed under lost store key parameters cannot be opened again, so starting a new store needs consent.
+// Returns null if the user declines.
+async function unlockStore(passphrase: string): Promise<Uint8Array | null> {
+  if (storeKdfParamsLost() && !window.confirm('The store key parameters are missing from this browser.\n\nSaved sessions, contacts, pinned keys, conversations and groups can no longer be opened. Unlocking starts a new, empty store and leaves the old data in place.\n\nContinue?')) {
+    return null;
+  }
+  return unlockStoreKey(passphrase, { replaceLostParams: true });
+}
+
+// What the user confirmed after a warning on the lock screen
+interface RestoreOptions {
+  allowRollback?: boolean; // open a fragment older than the newest seen
+  rebind?: boolean;        // re-bind a fragment sealed for another context to this one
+}
+
 export const useKeyManagement = () => {
   const [keypair, setKeypair] = useState<KeyPair | null>(null);
   const [keypairDisplay, setKeypairDisplay] = useState<KeyPairDisplay | null>(null);
   const [ephemeralSeed, setEphemeralSeed] = useState<KeyPair | null>(null);
+  const [signingKeyPair, setSigningKeyPair] = useState<KeyPair | null>(null);
+  const [recoveryEntropy, setRecoveryEntropy] = useState<Uint8Array | null>(null);
   const [masterKey, setMasterKey] = useState('');
   const [masterKeyLocked, setMasterKeyLocked] = useState(false);
+  const [storeKey, setStoreKey] = useState<Uint8Array | null>(null); // scrypt key for localStorage, set at unlock
   const [waitingForMasterKey, setWaitingForMasterKey] = useState(false);
   const [nonceCounter, setNonceCounter] = useState(0);
-  const [lastSeenSeq, setLastSeenSeq] = useState(0);
+  const [rollbackWarning, setRollbackWarning] = useState<RollbackWarning | null>(null);
+  const [contextMismatch, setContextMismatch] = useState<ContextMismatch | null>(null);
+  const [fragmentSlots, setFragmentSlots] = useState<FragmentSlot[]>([]);
+  const [currentSlotId, setCurrentSlotId] = useState<string | null>(null);
+  const [preferredKdf, setPreferredKdf] = useState<KdfName>(loadPreferredKdf);
+  const [contextPolicy, setContextPolicy] = useState<ContextPolicy>(loadContextPolicy);
   const [isUnlocking, setIsUnlocking] = useState(false);
   const [isSavingKeys, setIsSavingKeys] = useState(false);
   const [isLocking, setIsLocking] = useState(false);
+  const [unlockProgress, setUnlockProgress] = useState<UnlockProgress | null>(null);
 
-  const saveKeysToUrl = useCallback(async (pair: KeyPair, seed: KeyPair | null, passphrase: string) => {
+  // Progress callback for one stage; skips renders until the percentage changes
+  const reportProgress = useCallback((stage: UnlockStage): KdfProgress => (fraction: number) => {
+    setUnlockProgress(prev =>
+      prev && prev.stage === stage && Math.floor(prev.fraction * 100) === Math.floor(fraction * 100)
+        ? prev
+        : { stage, fraction }
+    );
+  }, []);
+
+  const saveKeysToUrl = useCallback(async (
+    pair: KeyPair,
+    seed: KeyPair | null,
+    signing: KeyPair | null,
+    entropy: Uint8Array | null,
+    store: Uint8Array | null,
+    passphrase: string,
+    newPassphrase?: string
+  ): Promise<boolean> => {
     setIsSavingKeys(true);
     try {
-      const keyData: KeyData = {
-        secretKey: uint8ArrayToBase32Crockford(pair.secretKey),
-        publicKey: uint8ArrayToBase32Crockford(pair.publicKey),
-        ephemeralSeedSecret: seed ? uint8ArrayToBase32Crockford(seed.secretKey) : undefined,
-        ephemeralSeedPublic: seed ? uint8ArrayToBase32Crockford(seed.publicKey) : undefined,
-        timestamp: Date.now()
-      };
+      const keyData = toKeyData(pair, seed, signing, entropy, store);
 
-      // Get existing params if we have a fragment
-      let existingParams = undefined;
-      let seq = 1;
-      
+      // Rewrite the existing fragment if we can open it, keeping its other slots
       const currentHash = window.location.hash.slice(1);
-      if (currentHash && currentHash.startsWith('v1.scrypt')) {
+      if (currentHash && isSealedFragment(currentHash)) {
         try {
-          const { params, payload } = await decryptFromFragment<KeyData>(passphrase, currentHash);
-          existingParams = params;
-          seq = (payload.seq || 0) + 1;
+          const opened = await decryptFromFragment<KeyData>(passphrase, currentHash, {
+            onProgress: reportProgress('unlocking')
+          });
+          if (newPassphrase) {
+            await opened.changePassphrase(newPassphrase);
+          }
+          const fragment = await opened.reseal(keyData);
+
+          // Replace the URL without adding to history
+          history.replaceState(null, '', location.pathname + location.search + '#' + fragment);
+          if (store) {
+            saveFragmentSeq(opened.payload.seq, pair.publicKey, store);
+          }
+          setFragmentSlots(opened.listSlots());
+          setCurrentSlotId(opened.slot.id);
+          return true;
         } catch {
           // If decryption fails, start fresh
         }
       }
 
-      const fragment = await encryptToFragment(passphrase, keyData, {
-        N: 16384, // Lower for mobile/browser performance
-        r: 8,
-        p: 1,
-        salt: existingParams?.salt, // Reuse salt if we have one
+      // New fragments get the strongest cost this device unlocks in the target time
+      // Continue from the newest sequence number seen, so links sealed before a fresh start read as older
+      const seq = store ? knownFragmentSeq(store) + 1 : 1;
+      const cost = await calibrateKdf(loadPreferredKdf(), undefined, reportProgress('calibrating'));
+      const fragment = await encryptToFragment(newPassphrase ?? passphrase, keyData, {
+        ...cost,
         seq,
-        context: location.origin
+        context: contextForPolicy(loadContextPolicy()),
+        onProgress: reportProgress('sealing')
       });
 
       // Replace the URL without adding to history
       history.replaceState(null, '', location.pathname + location.search + '#' + fragment);
-      setLastSeenSeq(seq);
+      if (store) {
+        saveFragmentSeq(seq, pair.publicKey, store);
+      }
+
+      const [slot] = readFragmentSlots(fragment);
+      setFragmentSlots([slot]);
+      setCurrentSlotId(slot.id);
+      return true;
     } catch (error) {
       console.error('Failed to save keys to URL:', error);
+      return false;
     } finally {
       setIsSavingKeys(false);
     }
-  }, []);
+  }, [reportProgress]);
+
+  // Put keys derived from a recovery phrase in state
+  const applyIdentityKeys = useCallback((keys: IdentityKeys, entropy: Uint8Array) => {
+    setKeypair(keys.identity);
+    setEphemeralSeed(keys.ephemeralSeed);
+    setSigningKeyPair(keys.signing);
+    setRecoveryEntropy(entropy);
 
-  const generateNewKeypair = useCallback(async (): Promise<KeyPair> => {
-    const pair = generateKeyPair();
-    const seed = generateKeyPair(); // Generate ephemeral seed for Ladder
-    
-    setKeypair(pair);
-    setEphemeralSeed(seed);
-    
-    const publicKeyBase32 = formatInGroups(uint8ArrayToBase32Crockford(pair.publicKey));
-    const secretKeyBase32 = formatInGroups(uint8ArrayToBase32Crockford(pair.secretKey));
-    
     setKeypairDisplay({
-      publicKey: publicKeyBase32,
-      secretKey: secretKeyBase32
+      publicKey: formatInGroups(uint8ArrayToBase32Crockford(keys.identity.publicKey)),
+      secretKey: formatInGroups(uint8ArrayToBase32Crockford(keys.identity.secretKey))
     });
+  }, []);
+
+  const generateNewKeypair = useCallback(async (): Promise<KeyPair> => {
+    // Every key comes from one recovery phrase, so the phrase alone restores them
+    const entropy = generateRecoveryEntropy();
+    const keys = deriveIdentityKeys(entropy);
+    applyIdentityKeys(keys, entropy);
     
     // Save to URL if we have a master key (regeneration case)
     if (masterKey && masterKeyLocked) {
-      await saveKeysToUrl(pair, seed, masterKey);
+      await saveKeysToUrl(keys.identity, keys.ephemeralSeed, keys.signing, entropy, storeKey, masterKey);
     }
     
-    return pair;
-  }, [masterKey, masterKeyLocked, saveKeysToUrl]);
+    return keys.identity;
+  }, [masterKey, masterKeyLocked, storeKey, saveKeysToUrl, applyIdentityKeys]);
 
-  const tryRestoreFromFragment = useCallback(async (passphrase: string): Promise<boolean> => {
+  const tryRestoreFromFragment = useCallback(async (
+    passphrase: string,
+    { allowRollback = false, rebind = false }: RestoreOptions
+  ): Promise<RestoreResult> => {
     try {
       const hash = window.location.hash.slice(1);
-      if (!hash || !hash.startsWith('v1.scrypt')) {
-        return false;
+      if (!hash || !isSealedFragment(hash)) {
+        return 'failed';
       }
 
-      const { payload, rotate } = await decryptFromFragment<KeyData>(passphrase, hash, {
-        lastSeenSeq
+      const opened = await decryptFromFragment<KeyData>(passphrase, hash, {
+        onProgress: reportProgress('unlocking'),
+        allowContextMismatch: true
       });
+      const { payload } = opened;
+
+      // The passphrase is right but the link is bound elsewhere; offer to re-bind it instead of failing
+      if (!opened.contextMatches && !rebind) {
+        setContextMismatch({ boundTo: readContext(payload.context), origin: location.origin });
+        return 'mismatch';
+      }
+      setContextMismatch(null);
+      const pair = generateKeyPairFromSecretKey(base32CrockfordToUint8Array(payload.data.secretKey));
+
+      // The store key travels in the payload so any slot opens the store; older
+      // payloads derive it from the passphrase once and save it
+      let needsUpdate = false;
+      let store: Uint8Array;
+      if (payload.data.storeKey) {
+        store = base32CrockfordToUint8Array(payload.data.storeKey);
+      } else {
+        const unlocked = await unlockStore(passphrase);
+        if (!unlocked) {
+          return 'cancelled';
+        }
+        store = unlocked;
+        needsUpdate = true;
+      }
+
+      // Refuse a fragment older than the newest this device has seen, unless the user overrides
+      const warning = checkFragmentSeq(payload.seq, pair.publicKey, store);
+      if (warning && !allowRollback) {
+        // Clear sensitive data
+        store.fill(0);
+        setRollbackWarning(warning);
+        return 'rollback';
+      }
+      if (warning?.knownSeq) {
+        // The accepted link becomes the newest, so links sealed after it now read as older
+        payload.seq = Math.max(payload.seq, warning.knownSeq);
+      }
+      setRollbackWarning(null);
 
       // Restore the keypair
-      const secretKeyBytes = base32CrockfordToUint8Array(payload.data.secretKey);
-      const pair = generateKeyPairFromSecretKey(secretKeyBytes);
-      
       setKeypair(pair);
+      setStoreKey(store);
       
       // Restore ephemeral seed if present, or generate new one
       let ephemeralSeed: KeyPair;
-      let needsUpdate = false;
       if (payload.data.ephemeralSeedSecret) {
         const seedSecretBytes = base32CrockfordToUint8Array(payload.data.ephemeralSeedSecret);
         ephemeralSeed = generateKeyPairFromSecretKey(seedSecretBytes);
@@ -138,6 +283,20 @@ export const useKeyManagement = () => {
         needsUpdate = true; // Need to save the new ephemeral seed
       }
       
+      // Restore the signing key, or add one to keys saved before bundles were signed
+      let signing: KeyPair;
+      if (payload.data.signingSecretKey) {
+        signing = generateSigningKeyPairFromSecretKey(base32CrockfordToUint8Array(payload.data.signingSecretKey));
+      } else {
+        signing = generateSigningKeyPair();
+        needsUpdate = true;
+      }
+      setSigningKeyPair(signing);
+
+      // Keys saved before recovery phrases have no entropy; they keep working without a phrase
+      const entropy = payload.data.recoveryEntropy ? base32CrockfordToUint8Array(payload.data.recoveryEntropy) : null;
+      setRecoveryEntropy(entropy);
+      
       const publicKeyBase32 = formatInGroups(uint8ArrayToBase32Crockford(pair.publicKey));
       const secretKeyBase32 = formatInGroups(uint8ArrayToBase32Crockford(pair.secretKey));
       
@@ -146,41 +305,58 @@ export const useKeyManagement = () => {
         secretKey: secretKeyBase32
       });
 
-      setLastSeenSeq(payload.seq);
+      // Re-wrap a slot sealed below the policy floor with this device's calibrated cost
+      if (!meetsKdfPolicy(opened.params)) {
+        try {
+          const cost = await calibrateKdf(opened.params.kdf ?? 'scrypt', undefined, reportProgress('calibrating'));
+          await opened.changePassphrase(passphrase, { cost, onProgress: reportProgress('upgrading') });
+        } catch (error) {
+          console.error('Failed to upgrade fragment KDF parameters:', error);
+        }
+      }
 
-      if (needsUpdate) {
-        // Save with the new ephemeral seed
-        await saveKeysToUrl(pair, ephemeralSeed, passphrase);
-      } else {
-        // Rotate the fragment with a fresh nonce
-        const rotated = await rotate(true);
-        history.replaceState(null, '', location.pathname + location.search + '#' + rotated);
+      if (!opened.contextMatches) {
+        await opened.rebind(contextForPolicy(loadContextPolicy()));
       }
+
+      // Save the new ephemeral seed, signing key or store key, or just rotate with a fresh nonce
+      const fragment = needsUpdate
+        ? await opened.reseal(toKeyData(pair, ephemeralSeed, signing, entropy, store))
+        : await opened.rotate(true);
+      history.replaceState(null, '', location.pathname + location.search + '#' + fragment);
+      saveFragmentSeq(opened.payload.seq, pair.publicKey, store);
+      setFragmentSlots(opened.listSlots());
+      setCurrentSlotId(opened.slot.id);
       
-      return true;
+      return 'restored';
     } catch (error) {
       console.error('Failed to restore from fragment:', error);
-      return false;
+      return 'failed';
     }
-  }, [lastSeenSeq, saveKeysToUrl]);
+  }, [reportProgress]);
 
-  const handleMasterKeySubmit = useCallback(async (): Promise<boolean> => {
+  const handleMasterKeySubmit = useCallback(async (options: RestoreOptions = {}): Promise<boolean> => {
     if (!masterKey || masterKey.length < 12) {
       return false;
     }
     
     setIsUnlocking(true);
+    setUnlockProgress(null);
     const hash = window.location.hash.slice(1);
     
     // Check for new seal format
-    if (hash && hash.startsWith('v1.scrypt')) {
+    if (hash && isSealedFragment(hash)) {
       // Try to decrypt existing sealed data
-      const restored = await tryRestoreFromFragment(masterKey);
-      if (restored) {
+      const restored = await tryRestoreFromFragment(masterKey, options);
+      if (restored === 'restored') {
         setWaitingForMasterKey(false);
         setMasterKeyLocked(true);
         setIsUnlocking(false);
         return true;
+      } else if (restored === 'rollback' || restored === 'mismatch' || restored === 'cancelled') {
+        // The lock screen explains and offers an explicit override; a declined new store needs no alert
+        setIsUnlocking(false);
+        return false;
       } else {
         alert('Invalid master key for the encrypted data in URL');
         setIsUnlocking(false);
@@ -194,6 +370,11 @@ export const useKeyManagement = () => {
         const decrypted = decryptSecretKey(encryptedData, masterKey);
         
         if (decrypted && decrypted.length === 32) {
+          const store = await unlockStore(masterKey);
+          if (!store) {
+            setIsUnlocking(false);
+            return false;
+          }
           const pair = generateKeyPairFromSecretKey(decrypted);
           
           setKeypair(pair);
@@ -206,10 +387,14 @@ export const useKeyManagement = () => {
             secretKey: secretKeyBase32
           });
           
-          // Migrate to new format (generate ephemeral seed for Ladder)
+          // Migrate to new format (generate ephemeral seed for Ladder and a signing key)
           const seed = generateKeyPair();
+          const signing = generateSigningKeyPair();
           setEphemeralSeed(seed);
-          await saveKeysToUrl(pair, seed, masterKey);
+          setSigningKeyPair(signing);
+          setRecoveryEntropy(null);
+          setStoreKey(store);
+          await saveKeysToUrl(pair, seed, signing, null, store, masterKey);
           setWaitingForMasterKey(false);
           setMasterKeyLocked(true);
           setIsUnlocking(false);
@@ -228,15 +413,76 @@ export const useKeyManagement = () => {
     }
     // No existing hash, generate new
     else {
-      const pair = await generateNewKeypair();
-      const seed = generateKeyPair(); // Generate ephemeral seed
-      setEphemeralSeed(seed);
-      await saveKeysToUrl(pair, seed, masterKey);
+      const store = await unlockStore(masterKey);
+      if (!store) {
+        setIsUnlocking(false);
+        return false;
+      }
+      const entropy = generateRecoveryEntropy();
+      const keys = deriveIdentityKeys(entropy);
+      applyIdentityKeys(keys, entropy);
+      setStoreKey(store);
+      await saveKeysToUrl(keys.identity, keys.ephemeralSeed, keys.signing, entropy, store, masterKey);
       setMasterKeyLocked(true);
       setIsUnlocking(false);
       return true;
     }
-  }, [masterKey, tryRestoreFromFragment, saveKeysToUrl, generateNewKeypair]);
+  }, [masterKey, tryRestoreFromFragment, saveKeysToUrl, applyIdentityKeys]);
+
+  // Open the older fragment the user was warned about. The context check runs
+  // first, so reaching this warning means the context matched or was re-bound.
+  const overrideRollback = useCallback(
+    () => handleMasterKeySubmit({ allowRollback: true, rebind: true }),
+    [handleMasterKeySubmit]
+  );
+
+  const dismissRollbackWarning = useCallback(() => {
+    setRollbackWarning(null);
+  }, []);
+
+  // Re-bind the fragment the user was warned about to where the app runs now
+  const rebindToCurrentContext = useCallback(() => handleMasterKeySubmit({ rebind: true }), [handleMasterKeySubmit]);
+
+  const dismissContextMismatch = useCallback(() => {
+    setContextMismatch(null);
+  }, []);
+
+  // Rebuild every key from a recovery phrase and seal them under the entered master key
+  const restoreFromRecoveryPhrase = useCallback(async (phrase: string): Promise<boolean> => {
+    if (!masterKey || masterKey.length < 12) {
+      return false;
+    }
+
+    let entropy: Uint8Array;
+    try {
+      entropy = recoveryPhraseToEntropy(phrase);
+    } catch (error) {
+      alert(`Invalid recovery phrase: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+
+    setIsUnlocking(true);
+    setUnlockProgress(null);
+    try {
+      const store = await unlockStore(masterKey);
+      if (!store) {
+        return false;
+      }
+      const keys = deriveIdentityKeys(entropy);
+      applyIdentityKeys(keys, entropy);
+      setStoreKey(store);
+      await saveKeysToUrl(keys.identity, keys.ephemeralSeed, keys.signing, entropy, store, masterKey);
+      setWaitingForMasterKey(false);
+      setMasterKeyLocked(true);
+      return true;
+    } catch (error) {
+      console.error('Failed to restore from recovery phrase:', error);
+      alert('Failed to restore keys from the recovery phrase');
+      return false;
+    } finally {
+      setIsUnlocking(false);
+    }
+  }, [masterKey, saveKeysToUrl, applyIdentityKeys]);
 
   const lockApp = useCallback(async () => {
     setIsLocking(true);
@@ -244,10 +490,10 @@ export const useKeyManagement = () => {
       // Rotate the fragment with a fresh nonce before locking
       if (keypair && masterKey && window.location.hash) {
         const hash = window.location.hash.slice(1);
-        if (hash && hash.startsWith('v1.scrypt')) {
+        if (hash && isSealedFragment(hash)) {
           try {
             const { rotate } = await decryptFromFragment<KeyData>(masterKey, hash, {
-              lastSeenSeq  
+              lastSeenSeq: storeKey ? knownFragmentSeq(storeKey) : undefined
             });
             // Just rotate with fresh nonce, don't bump sequence when locking
             const rotated = await rotate(false);
@@ -262,28 +508,37 @@ export const useKeyManagement = () => {
       
       // Only clear the master key and show locked screen AFTER fragment is rotated
       setMasterKey('');
+      // Clear sensitive data
+      storeKey?.fill(0);
+      setStoreKey(null);
+      setRecoveryEntropy(null);
+      setFragmentSlots([]);
+      setCurrentSlotId(null);
       setMasterKeyLocked(false);
-      // Reset lastSeenSeq when locking so next unlock doesn't fail anti-rollback
-      setLastSeenSeq(0);
       if (window.location.hash) {
         setWaitingForMasterKey(true);
       }
     } finally {
       setIsLocking(false);
     }
-  }, [keypair, masterKey, lastSeenSeq]);
+  }, [keypair, masterKey, storeKey]);
 
   const encryptedPrivateKey = useMemo(() => {
     // This is now handled by the seal in the URL
     // Return a placeholder or the fragment itself for display
     const hash = window.location.hash.slice(1);
-    if (hash && hash.startsWith('v1.scrypt')) {
+    if (hash && isSealedFragment(hash)) {
       // Just show a truncated version for UI display
       return hash.slice(0, 20) + '...';
     }
     return null;
   }, [nonceCounter]); // Still respond to nonce updates
 
+  // The words to back up, or null for keys made before recovery phrases
+  const recoveryPhrase = useMemo(() => {
+    return recoveryEntropy ? entropyToRecoveryPhrase(recoveryEntropy) : null;
+  }, [recoveryEntropy]);
+
   const userId = useMemo(() => {
     if (!keypair) return null;
     return generateUserId(keypair.publicKey);
@@ -292,7 +547,7 @@ export const useKeyManagement = () => {
   // Check for encrypted key in URL on mount
   useEffect(() => {
     const hash = window.location.hash.slice(1);
-    if (hash && hash.startsWith('v1.scrypt')) {
+    if (hash && isSealedFragment(hash)) {
       setWaitingForMasterKey(true);
     }
   }, []);
@@ -308,14 +563,11 @@ export const useKeyManagement = () => {
     setNonceCounter(prev => prev + 1);
   };
 
-  // Format 64-byte bundle for Ladder protocol (IK_dh_pub || ES_pub)
+  // Format the signed bundle for Ladder protocol (version || IK_dh_pub || ES_pub || IK_sig_pub || signature)
   const formatPublicKeyBundle = useCallback((): Uint8Array | null => {
-    if (!keypair || !ephemeralSeed) return null;
-    const bundle = new Uint8Array(64);
-    bundle.set(keypair.publicKey, 0);
-    bundle.set(ephemeralSeed.publicKey, 32);
-    return bundle;
-  }, [keypair, ephemeralSeed]);
+    if (!keypair || !ephemeralSeed || !signingKeyPair) return null;
+    return createSignedBundle(keypair.publicKey, ephemeralSeed.publicKey, signingKeyPair);
+  }, [keypair, ephemeralSeed, signingKeyPair]);
 
   // Check if we have Ladder-compatible keys
   const hasLadderKeys = useCallback((): boolean => {
@@ -328,8 +580,20 @@ export const useKeyManagement = () => {
     }
 
     try {
-      // Save keys with new master key
-      await saveKeysToUrl(keypair, ephemeralSeed, newMasterKey);
+      // Replace this slot's passphrase; the other slots keep theirs
+      const writeFragment = async (store: Uint8Array | null) => {
+        if (!await saveKeysToUrl(keypair, ephemeralSeed, signingKeyPair, recoveryEntropy, store, masterKey, newMasterKey)) {
+          throw new Error('Failed to write the URL fragment');
+        }
+      };
+
+      // Re-encrypt stored sessions under a store key derived from the new master key,
+      // only once the fragment holding that key has been written
+      if (storeKey) {
+        setStoreKey(await changeStoreKey(newMasterKey, storeKey, writeFragment));
+      } else {
+        await writeFragment(null);
+      }
       
       // Update the master key in state
       setMasterKey(newMasterKey);
@@ -339,27 +603,101 @@ export const useKeyManagement = () => {
       console.error('Failed to change master key:', error);
       return false;
     }
-  }, [keypair, masterKey, saveKeysToUrl]);
+  }, [keypair, ephemeralSeed, signingKeyPair, recoveryEntropy, masterKey, storeKey, saveKeysToUrl]);
+
+  // Open the fragment with the current master key, apply a slot change and write it back
+  const updateFragmentSlots = useCallback(async (
+    change: (opened: OpenedFragment<KeyData>) => Promise<string>
+  ): Promise<boolean> => {
+    const hash = window.location.hash.slice(1);
+    if (!masterKey || !isSealedFragment(hash)) {
+      return false;
+    }
+
+    setIsSavingKeys(true);
+    try {
+      const opened = await decryptFromFragment<KeyData>(masterKey, hash, {
+        lastSeenSeq: storeKey ? knownFragmentSeq(storeKey) : undefined
+      });
+      const fragment = await change(opened);
+      history.replaceState(null, '', location.pathname + location.search + '#' + fragment);
+      if (storeKey && keypair) {
+        saveFragmentSeq(opened.payload.seq, keypair.publicKey, storeKey);
+      }
+      setFragmentSlots(opened.listSlots());
+      return true;
+    } catch (error) {
+      console.error('Failed to update passphrase slots:', error);
+      return false;
+    } finally {
+      setIsSavingKeys(false);
+    }
+  }, [masterKey, storeKey, keypair]);
+
+  // Let a second passphrase (e.g. a long one kept in a safe) unlock the same keys
+  const addPassphraseSlot = useCallback(async (passphrase: string, label: string): Promise<boolean> => {
+    if (passphrase.length < 12 || passphrase === masterKey) {
+      return false;
+    }
+    return updateFragmentSlots(opened => opened.addSlot(passphrase, label));
+  }, [masterKey, updateFragmentSlots]);
+
+  const removePassphraseSlot = useCallback(async (id: string): Promise<boolean> => {
+    return updateFragmentSlots(opened => opened.removeSlot(id));
+  }, [updateFragmentSlots]);
+
+  // Re-wrap the slot in use under another KDF; new fragments use it from now on
+  const changeFragmentKdf = useCallback(async (kdf: KdfName): Promise<boolean> => {
+    savePreferredKdf(kdf);
+    setPreferredKdf(kdf);
+    return updateFragmentSlots(async opened => opened.changePassphrase(masterKey, { cost: await calibrateKdf(kdf) }));
+  }, [masterKey, updateFragmentSlots]);
+
+  // Re-bind the current fragment under another context policy; new fragments use it from now on
+  const changeContextPolicy = useCallback(async (policy: ContextPolicy): Promise<boolean> => {
+    saveContextPolicy(policy);
+    setContextPolicy(policy);
+    return updateFragmentSlots(opened => opened.rebind(contextForPolicy(policy)));
+  }, [updateFragmentSlots]);
 
   return {
     keypair,
     keypairDisplay,
     ephemeralSeed,
+    signingKeyPair,
     masterKey,
     setMasterKey,
     masterKeyLocked,
+    storeKey,
     waitingForMasterKey,
     encryptedPrivateKey,
     userId,
     generateNewKeypair,
     handleMasterKeySubmit,
+    restoreFromRecoveryPhrase,
+    recoveryPhrase,
     lockApp,
     incrementNonceCounter,
     setWaitingForMasterKey,
     isUnlocking,
+    unlockProgress,
+    rollbackWarning,
+    overrideRollback,
+    dismissRollbackWarning,
+    contextMismatch,
+    rebindToCurrentContext,
+    dismissContextMismatch,
     isSavingKeys,
     isLocking,
     changeMasterKey,
+    fragmentSlots,
+    currentSlotId,
+    addPassphraseSlot,
+    removePassphraseSlot,
+    preferredKdf,
+    changeFragmentKdf,
+    contextPolicy,
+    changeContextPolicy,
     formatPublicKeyBundle,
     hasLadderKeys
   };
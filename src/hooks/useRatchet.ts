@@ -4,6 +4,7 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { RatchetState, RatchetOperation } from '../types/ratchet';
+import { HistoryEntry } from '../types/history';
 import { KeyPair } from '../types';
 import {
   initializeRatchet,
@@ -11,14 +12,27 @@ import {
   ratchetDecrypt,
   serializeRatchetState,
   deserializeRatchetState,
-  getRatchetStorageKey
+  pruneSkippedKeys,
+  getRatchetStorageKey,
+  RATCHET_VERSION_AUTH,
+  RATCHET_VERSION_HEADER_ENCRYPTED
 } from '../utils/ratchet';
+import {
+  createLadderMessage,
+  processLadderMessage,
+  encodeLadderMessage,
+  decodeLadderMessage
+} from '../utils/ladder';
+import { getNextIndex, checkAndUpdateMaxSpent } from '../utils/ladderState';
+import { uint8ArrayToBase32Crockford } from '../utils/encoding';
 
 const MAX_OPERATIONS = 20; // Maximum operations to keep in history
 
 export const useRatchet = (
   keypair: KeyPair | null,
-  masterKey: string
+  storeKey: Uint8Array | null,
+  headerEncryption: boolean = false,
+  onMessage?: (sessionKey: string, entry: HistoryEntry) => void
 ) => {
   const [ratchetSessions, setRatchetSessions] = useState<Map<string, RatchetState>>(new Map());
   const [currentSessionKey, setCurrentSessionKey] = useState<string | null>(null);
@@ -42,43 +56,53 @@ export const useRatchet = (
 
   // Load sessions from localStorage on mount
   useEffect(() => {
-    if (!keypair || !masterKey) return;
+    if (!keypair || !storeKey) return;
 
     const loadedSessions = new Map<string, RatchetState>();
     
-    // Try to load existing sessions
+    // Collect keys first: sessions are rewritten below, which may reorder storage
+    const sessionKeys: string[] = [];
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
       if (key?.startsWith('ratchet_')) {
-        try {
-          const serialized = localStorage.getItem(key);
-          if (serialized) {
-            const state = deserializeRatchetState(serialized, masterKey);
-            if (state) {
-              loadedSessions.set(key, state);
-            }
+        sessionKeys.push(key);
+      }
+    }
+    
+    // Try to load existing sessions
+    for (const key of sessionKeys) {
+      try {
+        const serialized = localStorage.getItem(key);
+        if (serialized) {
+          const state = deserializeRatchetState(serialized, storeKey);
+          if (state) {
+            // Drop skipped keys that expired while the app was closed
+            const pruned = pruneSkippedKeys(state);
+            loadedSessions.set(key, pruned);
+            // Rewrite in the current storage format (migrates JSON-era sessions)
+            localStorage.setItem(key, serializeRatchetState(pruned, storeKey));
           }
-        } catch (error) {
-          console.error(`Failed to load session ${key}:`, error);
         }
+      } catch (error) {
+        console.error(`Failed to load session ${key}:`, error);
       }
     }
     
     setRatchetSessions(loadedSessions);
-  }, [keypair, masterKey]);
+  }, [keypair, storeKey]);
 
   // Save session to localStorage
   const saveSession = useCallback((sessionKey: string, state: RatchetState) => {
-    if (!masterKey) return;
+    if (!storeKey) return;
     
     try {
-      const serialized = serializeRatchetState(state, masterKey);
+      const serialized = serializeRatchetState(state, storeKey);
       localStorage.setItem(sessionKey, serialized);
     } catch (error) {
       console.error('Failed to save ratchet session:', error);
       addOperation('error', 'Failed to save session');
     }
-  }, [masterKey, addOperation]);
+  }, [storeKey, addOperation]);
 
   // Initialize a new ratchet session
   const initializeSession = useCallback((theirPublicKey: Uint8Array): RatchetState | null => {
@@ -90,7 +114,8 @@ export const useRatchet = (
     setIsProcessing(true);
     
     try {
-      const state = initializeRatchet(keypair, theirPublicKey);
+      const messageVersion = headerEncryption ? RATCHET_VERSION_HEADER_ENCRYPTED : RATCHET_VERSION_AUTH;
+      const state = initializeRatchet(keypair, theirPublicKey, { messageVersion });
       const sessionKey = getRatchetStorageKey(keypair.publicKey, theirPublicKey);
       
       setRatchetSessions(prev => {
@@ -112,7 +137,7 @@ export const useRatchet = (
     } finally {
       setIsProcessing(false);
     }
-  }, [keypair, saveSession, addOperation]);
+  }, [keypair, headerEncryption, saveSession, addOperation]);
 
   // Get or create session for a recipient
   const getOrCreateSession = useCallback((theirPublicKey: Uint8Array): RatchetState | null => {
@@ -148,6 +173,11 @@ export const useRatchet = (
         return null;
       }
       
+      // Upgrade to encrypted headers when enabled (never downgrade)
+      if (headerEncryption && state.headerKeys && state.messageVersion < RATCHET_VERSION_HEADER_ENCRYPTED) {
+        state = { ...state, messageVersion: RATCHET_VERSION_HEADER_ENCRYPTED };
+      }
+      
       const plaintext = new TextEncoder().encode(message);
       const [encrypted, newState] = ratchetEncrypt(state, plaintext);
       
@@ -160,6 +190,12 @@ export const useRatchet = (
       });
       
       saveSession(sessionKey, newState);
+      onMessage?.(sessionKey, {
+        direction: 'sent',
+        text: message,
+        timestamp: Date.now(),
+        counter: newState.sendMessageCounter
+      });
       
       // Add operation
       const dhRatcheted = state.theirLatestEphemeralPublicKey !== null;
@@ -176,7 +212,7 @@ export const useRatchet = (
     } finally {
       setIsProcessing(false);
     }
-  }, [keypair, getOrCreateSession, saveSession, addOperation]);
+  }, [keypair, headerEncryption, getOrCreateSession, saveSession, addOperation, onMessage]);
 
   // Decrypt a message with ratchet
   const decryptWithRatchet = useCallback((
@@ -212,6 +248,14 @@ export const useRatchet = (
       
       saveSession(sessionKey, newState);
       
+      const text = new TextDecoder().decode(plaintext);
+      onMessage?.(sessionKey, {
+        direction: 'received',
+        text,
+        timestamp: Date.now(),
+        counter: decryptedMessageNumber(state, newState)
+      });
+      
       // Add operations
       const dhRatcheted = !oldEphemeral || 
         !newState.theirLatestEphemeralPublicKey ||
@@ -227,7 +271,7 @@ export const useRatchet = (
       
       addOperation('decrypt', `Message #${newState.receiveMessageCounter} decrypted`);
       
-      return new TextDecoder().decode(plaintext);
+      return text;
     } catch (error) {
       console.error('Decryption failed:', error);
       addOperation('error', `Decryption failed: ${error}`);
@@ -235,7 +279,145 @@ export const useRatchet = (
     } finally {
       setIsProcessing(false);
     }
-  }, [keypair, getOrCreateSession, saveSession, addOperation]);
+  }, [keypair, getOrCreateSession, saveSession, addOperation, onMessage]);
+
+  // Check whether a session already exists for a recipient
+  const hasSession = useCallback((theirPublicKey: Uint8Array): boolean => {
+    if (!keypair) return false;
+    const sessionKey = getRatchetStorageKey(keypair.publicKey, theirPublicKey);
+    return ratchetSessions.has(sessionKey);
+  }, [keypair, ratchetSessions]);
+
+  // Start a new session with a Ladder PreKeyInit message
+  const encryptWithLadder = useCallback(async (
+    message: string,
+    theirIdentityKey: Uint8Array,
+    theirEphemeralSeed: Uint8Array
+  ): Promise<Uint8Array | null> => {
+    if (!keypair || !storeKey) {
+      addOperation('error', 'No keypair available');
+      return null;
+    }
+
+    setIsProcessing(true);
+    
+    try {
+      const peerId = uint8ArrayToBase32Crockford(theirIdentityKey);
+      const index = getNextIndex(peerId, storeKey);
+      
+      const plaintext = new TextEncoder().encode(message);
+      const [ladderMessage, newState] = await createLadderMessage(
+        keypair,
+        theirIdentityKey,
+        theirEphemeralSeed,
+        index,
+        plaintext
+      );
+      
+      // Update session
+      const sessionKey = getRatchetStorageKey(keypair.publicKey, theirIdentityKey);
+      setRatchetSessions(prev => {
+        const newSessions = new Map(prev);
+        newSessions.set(sessionKey, newState);
+        return newSessions;
+      });
+      
+      setCurrentSessionKey(sessionKey);
+      saveSession(sessionKey, newState);
+      onMessage?.(sessionKey, {
+        direction: 'sent',
+        text: message,
+        timestamp: Date.now(),
+        counter: newState.sendMessageCounter
+      });
+      
+      addOperation('init', `Ladder session started with OPK #${index}`);
+      addOperation('encrypt', `Message #${newState.sendMessageCounter} encrypted`);
+      
+      return encodeLadderMessage(ladderMessage);
+    } catch (error) {
+      console.error('Ladder encryption failed:', error);
+      addOperation('error', `Ladder encryption failed: ${error}`);
+      return null;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [keypair, storeKey, saveSession, addOperation, onMessage]);
+
+  // Accept a Ladder PreKeyInit message, replacing any existing session with the sender
+  const decryptWithLadder = useCallback(async (
+    encrypted: Uint8Array,
+    theirPublicKey: Uint8Array,
+    myEphemeralSeed: KeyPair
+  ): Promise<string | null> => {
+    if (!keypair || !storeKey) {
+      addOperation('error', 'No keypair available');
+      return null;
+    }
+
+    setIsProcessing(true);
+    
+    try {
+      const ladderMessage = decodeLadderMessage(encrypted);
+      if (!ladderMessage) {
+        addOperation('error', 'Not a Ladder message');
+        return null;
+      }
+      
+      if (!constantTimeEqual(ladderMessage.senderIdentityKey, theirPublicKey)) {
+        addOperation('error', 'Ladder sender does not match the expected public key');
+        return null;
+      }
+      
+      const [plaintext, newState] = await processLadderMessage(
+        keypair,
+        myEphemeralSeed,
+        ladderMessage
+      );
+      
+      // Only spend the index once the message has authenticated
+      const peerId = uint8ArrayToBase32Crockford(ladderMessage.senderIdentityKey);
+      if (!checkAndUpdateMaxSpent(peerId, ladderMessage.opkIndex, storeKey)) {
+        addOperation('error', `Replay detected: OPK #${ladderMessage.opkIndex} already used`);
+        return null;
+      }
+      
+      // Update session; a new Ladder session from a known contact replaces the existing one
+      const sessionKey = getRatchetStorageKey(keypair.publicKey, ladderMessage.senderIdentityKey);
+      const replacedSession = ratchetSessions.get(sessionKey);
+      setRatchetSessions(prev => {
+        const newSessions = new Map(prev);
+        newSessions.set(sessionKey, newState);
+        return newSessions;
+      });
+      
+      setCurrentSessionKey(sessionKey);
+      saveSession(sessionKey, newState);
+      
+      if (replacedSession) {
+        addOperation('key-change', `Ladder message replaced the existing session${replacedSession.verified ? '; safety number verification cleared' : ''}`);
+      }
+      
+      const text = new TextDecoder().decode(plaintext);
+      onMessage?.(sessionKey, {
+        direction: 'received',
+        text,
+        timestamp: Date.now(),
+        counter: newState.receiveMessageCounter
+      });
+      
+      addOperation('init', `Ladder session accepted with OPK #${ladderMessage.opkIndex}`);
+      addOperation('decrypt', `Message #${newState.receiveMessageCounter} decrypted`);
+      
+      return text;
+    } catch (error) {
+      console.error('Ladder decryption failed:', error);
+      addOperation('error', `Ladder decryption failed: ${error}`);
+      return null;
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [keypair, storeKey, ratchetSessions, saveSession, addOperation, onMessage]);
 
   // Reset a session
   const resetSession = useCallback((theirPublicKey: Uint8Array) => {
@@ -261,6 +443,35 @@ export const useRatchet = (
     addOperation('init', 'Session reset');
   }, [keypair, currentSessionKey, addOperation]);
 
+  // Mark the current session's identity keys as verified (or not) after comparing safety numbers
+  const setCurrentSessionVerified = useCallback((verified: boolean) => {
+    if (!currentSessionKey) return;
+    
+    const state = ratchetSessions.get(currentSessionKey);
+    if (!state) return;
+    
+    const newState = { ...state, verified };
+    setRatchetSessions(prev => {
+      const newSessions = new Map(prev);
+      newSessions.set(currentSessionKey, newState);
+      return newSessions;
+    });
+    saveSession(currentSessionKey, newState);
+    
+    addOperation('verify', verified ? 'Safety number verified' : 'Verification cleared');
+  }, [currentSessionKey, ratchetSessions, saveSession, addOperation]);
+
+  // Show the existing session with a recipient (or none) without starting one
+  const selectSession = useCallback((theirPublicKey: Uint8Array | null) => {
+    if (!keypair || !theirPublicKey) {
+      setCurrentSessionKey(null);
+      return;
+    }
+    
+    const sessionKey = getRatchetStorageKey(keypair.publicKey, theirPublicKey);
+    setCurrentSessionKey(ratchetSessions.has(sessionKey) ? sessionKey : null);
+  }, [keypair, ratchetSessions]);
+
   // Get current session state
   const getCurrentSession = useCallback((): RatchetState | null => {
     if (!currentSessionKey) return null;
@@ -297,18 +508,39 @@ export const useRatchet = (
     // Encryption/Decryption
     encryptWithRatchet,
     decryptWithRatchet,
+    encryptWithLadder,
+    decryptWithLadder,
+    hasSession,
     
     // State access
     getCurrentSession,
+    selectSession,
+    setCurrentSessionVerified,
     currentSessionKey,
     sessionCount: ratchetSessions.size,
     
     // UI state
     operations,
+    addOperation,
     isProcessing
   };
 };
 
+// Number of the message just decrypted: the receive counter, unless it was a late
+// message opened with a stored skipped key (ids are `${ephemeral}-${index}`)
+function decryptedMessageNumber(before: RatchetState, after: RatchetState): number {
+  const sameChain = before.theirLatestEphemeralPublicKey !== null &&
+    after.theirLatestEphemeralPublicKey !== null &&
+    constantTimeEqual(before.theirLatestEphemeralPublicKey, after.theirLatestEphemeralPublicKey);
+  
+  if (!sameChain || after.receiveMessageCounter !== before.receiveMessageCounter) {
+    return after.receiveMessageCounter;
+  }
+  
+  const usedKey = Array.from(before.skippedMessageKeys.keys()).find(id => !after.skippedMessageKeys.has(id));
+  return usedKey ? Number(usedKey.slice(usedKey.lastIndexOf('-') + 1)) + 1 : after.receiveMessageCounter;
+}
+
 // Helper function for constant-time comparison
 function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
   if (a.length !== b.length) return false;
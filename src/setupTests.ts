@@ -27,9 +27,9 @@ Object.assign(navigator, {
   },
 });
 
-// Mock window.location.hash
+// Mock window.location (hash and origin)
 delete (window as any).location;
-window.location = { hash: '' } as any;
+window.location = { hash: '', origin: 'http://localhost' } as any;
 
 // Mock window.confirm
 window.confirm = jest.fn(() => true);
@@ -0,0 +1,17 @@
+/**
+ * Armored message container type definitions
+ */
+
+// What an armored block holds, named in its Type header
+export type MessageType =
+  | 'box'        // Single-recipient nacl.box message
+  | 'multi'      // Multi-recipient envelope
+  | 'ratchet'    // Double Ratchet message
+  | 'ladder'     // Ladder PreKeyInit envelope
+  | 'group'      // Sender-key group message
+  | 'signature'; // Detached signature
+
+export interface DecodedMessage {
+  type: MessageType | null; // null for bare base32 from before armoring
+  data: Uint8Array;
+}
@@ -0,0 +1,14 @@
+/**
+ * Contact book type definitions
+ */
+
+export interface Contact {
+  id: string;           // Random, stays the same when the contact's keys change
+  name: string;
+  bundle: Uint8Array;   // Signed 161-byte or unsigned 64-byte bundle, or a bare 32-byte identity key
+  userId: string;       // Derived from the identity key, as shown on the contact's own screen
+  verified: boolean;    // Safety number confirmed out of band
+  notes: string;
+  createdAt: number;
+  lastUsed: number | null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Sender-key group messaging type definitions
+ */
+
+// One member's sending chain, as held by its owner or by the other members
+export interface SenderKey {
+  chainKey: Uint8Array;                 // Chain key for message number `counter`
+  counter: number;                      // Next message number
+  signingPublicKey: Uint8Array;         // Ed25519, signs every message on this chain
+  signingSecretKey: Uint8Array | null;  // Only kept for our own chain
+  skippedMessageKeys: Map<number, Uint8Array>; // Keys of messages not yet received, by number
+}
+
+export interface GroupState {
+  groupId: Uint8Array;      // 16 random bytes, sent with every message
+  name: string;
+  members: Uint8Array[];    // Identity keys of the other members
+  admin: Uint8Array;        // Identity key of the creator, the only member who changes the membership
+  epoch: number;            // Bumped on every membership change
+  mySenderKey: SenderKey;
+  senderKeys: Map<string, SenderKey>; // Other members' chains, by base32 identity key
+  needsKeyShare: boolean;   // Our sender key must be rotated and shared before sending
+  createdAt: number;
+}
+
+// Sent to each member over the pairwise ratchet, signed with the chain's signing key
+export interface SenderKeyDistribution {
+  groupId: Uint8Array;
+  name: string;
+  epoch: number;
+  roster: Uint8Array[];     // Identity keys of all members, sender included
+  admin: Uint8Array;        // Identity key of the group admin, one of the roster
+  chainKey: Uint8Array;
+  counter: number;
+  signingPublicKey: Uint8Array;
+}
+
+export interface GroupMessage {
+  groupId: Uint8Array;
+  keyId: Uint8Array;        // Identifies the sender chain (hash of its signing key)
+  counter: number;
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+  signature: Uint8Array;    // Over everything before it
+}
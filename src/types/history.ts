@@ -0,0 +1,17 @@
+/**
+ * Conversation history type definitions
+ */
+
+export interface HistoryEntry {
+  direction: 'sent' | 'received';
+  text: string;
+  timestamp: number;
+  counter: number; // Message number within its ratchet chain, as in the operation log
+}
+
+export type RetentionMode = 'never' | 'days' | 'forever';
+
+export interface RetentionPolicy {
+  mode: RetentionMode;
+  days: number; // Used when mode is 'days'
+}
@@ -17,6 +17,19 @@ export interface ExtendedKeyPair {
   ephemeralSeed: KeyPair;
 }
 
+// Everything derived from a recovery phrase
+export interface IdentityKeys extends ExtendedKeyPair {
+  signing: KeyPair; // Ed25519, signs the key bundle
+}
+
+// What the lock screen is waiting on while a master key is checked or keys are sealed
+export type UnlockStage = 'unlocking' | 'calibrating' | 'upgrading' | 'sealing';
+
+export interface UnlockProgress {
+  stage: UnlockStage;
+  fraction: number; // 0..1 through the current stage
+}
+
 export type DisplayFormat = 'base32' | 'qr';
 
 export interface CryptoState {
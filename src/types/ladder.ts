@@ -0,0 +1,38 @@
+/**
+ * Ladder Protocol Types
+ */
+
+export interface LadderState {
+  // Stored keys (per peer)
+  theirIdentityKey: Uint8Array;
+  theirEphemeralSeed: Uint8Array;
+
+  // Counters (persistent)
+  nextIndex?: number;      // Alice's next i to use (sender)
+  maxSpentIndex?: number;  // Bob's highest accepted i (receiver)
+}
+
+// LadderMessage combines PreKeyInit header with encrypted payload
+export interface LadderMessage {
+  // PreKeyInit header (only for new sessions/resets)
+  version: 1;
+  opkIndex: number;                // Counter i
+  senderIdentityKey: Uint8Array;   // IK_A_pub (X25519)
+  senderEphemeralKey: Uint8Array;  // EK_A_pub (fresh per session)
+
+  // The encrypted message payload
+  encryptedPayload: Uint8Array;    // Ratchet message under the initiator's sending chain
+}
+
+export interface LadderSession {
+  sharedSecret: Uint8Array;
+  rootKey: Uint8Array;
+  chainKey: Uint8Array;
+}
+
+// Peer bundle as shared out-of-band (IK_dh_pub || ES_pub, optionally signed)
+export interface PublicKeyBundle {
+  identityKey: Uint8Array;          // IK_dh_pub (32 bytes)
+  ephemeralSeed: Uint8Array | null; // ES_pub (32 bytes), null for legacy 32-byte keys
+  signingKey: Uint8Array | null;    // IK_sig_pub (Ed25519, 32 bytes), null for unsigned bundles
+}
@@ -24,20 +24,57 @@ export interface RatchetState {
   receiveMessageCounter: number;
   previousSendCounter: number;
   
-  // Skipped message keys (for out-of-order delivery)
-  skippedMessageKeys: Map<string, Uint8Array>;
+  // Skipped message keys (for out-of-order delivery), bounded by SkippedKeyLimits
+  skippedMessageKeys: Map<string, SkippedMessageKey>;
   
   // Previous receiving chains (for out-of-order messages across chain boundaries)
   // Map from ephemeral public key string to chain state
   previousReceivingChains: Map<string, {
     chainKey: Uint8Array;
     messageCounter: number;
+    headerKey?: Uint8Array;  // Receiving header key of that chain (header encryption)
+    storedAt: number;        // When the chain was retired (ms since epoch)
   }>;
   
+  // Header keys, derived alongside root and chain keys (null for legacy sessions)
+  headerKeys: HeaderKeys | null;
+  
+  // Wire format this session sends (0x01 legacy, 0x02 authenticated header, 0x03 encrypted header)
+  messageVersion: number;
+  
+  // Key derivation for root, chain, message and header keys (1 legacy SHA-512, 2 labeled HKDF)
+  kdfVersion: number;
+  
+  // Identity keys confirmed out of band by comparing safety numbers
+  verified: boolean;
+  
   // Session state
   isInitialized: boolean;
 }
 
+export interface HeaderKeys {
+  sending: Uint8Array;        // HKs - 32 bytes
+  receiving: Uint8Array;      // HKr - 32 bytes
+  nextSending: Uint8Array;    // NHKs - becomes HKs at our next DH ratchet
+  nextReceiving: Uint8Array;  // NHKr - becomes HKr at their next DH ratchet
+}
+
+export interface SkippedMessageKey {
+  messageKey: Uint8Array;  // 32 bytes
+  storedAt: number;        // When the key was derived and stored (ms since epoch)
+}
+
+export interface SkippedKeyLimits {
+  maxSkippedKeys: number;     // Total message keys held across all chains
+  maxPreviousChains: number;  // Retired receiving chains kept for late messages
+  maxAge: number;             // Milliseconds before a stored key or chain expires
+}
+
+export interface RatchetOptions {
+  messageVersion?: number;
+  kdfVersion?: number;
+}
+
 export interface RatchetMessage {
   version: number;
   ephemeralPublicKey: Uint8Array;
@@ -49,7 +86,7 @@ export interface RatchetMessage {
 
 export interface RatchetOperation {
   timestamp: number;
-  type: 'init' | 'encrypt' | 'decrypt' | 'dh-ratchet' | 'skip-messages' | 'error';
+  type: 'init' | 'encrypt' | 'decrypt' | 'dh-ratchet' | 'skip-messages' | 'verify' | 'key-change' | 'group' | 'error';
   details: string;
 }
 
@@ -0,0 +1,11 @@
+/**
+ * Shamir recovery share type definitions
+ */
+
+// One share of a k-of-n split of the recovery entropy
+export interface RecoveryShare {
+  setId: Uint8Array;  // Random 4-byte ID shared by every share of one split
+  threshold: number;  // Shares needed to rebuild (k)
+  index: number;      // x-coordinate of this share (1-255)
+  value: Uint8Array;  // Polynomial values at x, one byte per secret byte
+}
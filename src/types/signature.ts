@@ -0,0 +1,12 @@
+/**
+ * Detached and clearsigned message signature type definitions
+ */
+
+// A signature that checked out, and who made it
+export interface SignatureVerification {
+  text: string;             // The signed text, canonicalized
+  identityKey: Uint8Array;  // Signer's X25519 identity key, from their signed bundle
+  signingKey: Uint8Array;   // Signer's Ed25519 key that made the signature
+  userId: string;           // Derived from the identity key
+  createdAt: number;        // Signing time claimed by the signer (ms)
+}
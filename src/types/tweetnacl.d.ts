@@ -32,7 +32,19 @@ declare module 'tweetnacl' {
   export function secretbox(message: Uint8Array, nonce: Uint8Array, key: Uint8Array): Uint8Array;
 
   export namespace sign {
+    const publicKeyLength: number;
+    const secretKeyLength: number;
+    const signatureLength: number;
+    
     function keyPair(): KeyPair;
+    namespace keyPair {
+      function fromSecretKey(secretKey: Uint8Array): KeyPair;
+      function fromSeed(seed: Uint8Array): KeyPair;
+    }
+    function detached(message: Uint8Array, secretKey: Uint8Array): Uint8Array;
+    namespace detached {
+      function verify(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): boolean;
+    }
   }
   
   export function randomBytes(n: number): Uint8Array;
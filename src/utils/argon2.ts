@@ -0,0 +1,354 @@
+/**
+ * Argon2 (RFC 9106) in plain TypeScript: Argon2d, Argon2i and Argon2id, version 0x13.
+ * Used as a memory-hard alternative to scrypt for the URL fragment seal.
+ *
+ * Memory is one Uint32Array of 1 KiB blocks; each 64-bit word is a (low, high)
+ * pair of 32-bit halves, as in the BLAKE2b code in hash.ts.
+ */
+
+import { blake2b } from './hash';
+
+export const ARGON2D = 0;
+export const ARGON2I = 1;
+export const ARGON2ID = 2;
+export type Argon2Type = typeof ARGON2D | typeof ARGON2I | typeof ARGON2ID;
+
+const ARGON2_VERSION = 0x13;
+const SYNC_POINTS = 4;
+const BLOCK_WORDS = 256; // 1024 bytes as 32-bit halves
+const ADDRESSES_PER_BLOCK = 128;
+
+// Hand the event loop back this often so the page stays responsive
+const YIELD_INTERVAL_MS = 40;
+
+export interface Argon2Options {
+  type: Argon2Type;
+  password: Uint8Array;
+  salt: Uint8Array;
+  memory: number;      // KiB
+  passes: number;
+  parallelism: number;
+  tagLength: number;
+  secret?: Uint8Array;
+  associatedData?: Uint8Array;
+  onProgress?: (fraction: number) => void;
+}
+
+function le32(value: number): Uint8Array {
+  return new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// H' from RFC 9106 section 3.3: BLAKE2b stretched to any output length
+function hashLong(input: Uint8Array, outLength: number): Uint8Array {
+  const prefixed = concat(le32(outLength), input);
+  if (outLength <= 64) {
+    return blake2b(prefixed, outLength);
+  }
+
+  const out = new Uint8Array(outLength);
+  let v = blake2b(prefixed, 64);
+  let offset = 0;
+  while (outLength - offset > 64) {
+    out.set(v.subarray(0, 32), offset);
+    offset += 32;
+    v = blake2b(v, Math.min(64, outLength - offset));
+  }
+  out.set(v, offset);
+  return out;
+}
+
+// High 32 bits of the 64-bit product of two 32-bit values
+function mulHi(a: number, b: number): number {
+  const al = a & 0xffff, ah = a >>> 16, bl = b & 0xffff, bh = b >>> 16;
+  const lh = al * bh, hl = ah * bl;
+  const mid = ((al * bl) >>> 16) + (lh & 0xffff) + (hl & 0xffff);
+  return (ah * bh + (lh >>> 16) + (hl >>> 16) + (mid >>> 16)) >>> 0;
+}
+
+// v[a] = v[a] + v[b] + 2 * lo(v[a]) * lo(v[b]), the BlaMka multiply-add
+function fBlaMka(v: Uint32Array, a: number, b: number): void {
+  const x = v[a], y = v[b];
+  const xl = x & 0xffff, xh = x >>> 16, yl = y & 0xffff, yh = y >>> 16;
+  const lh = xl * yh, hl = xh * yl;
+  const mid = ((xl * yl) >>> 16) + (lh & 0xffff) + (hl & 0xffff);
+  const productLo = (((mid & 0xffff) << 16) | ((xl * yl) & 0xffff)) >>> 0;
+  const productHi = xh * yh + (lh >>> 16) + (hl >>> 16) + (mid >>> 16);
+
+  const low = x + y + ((productLo << 1) >>> 0);
+  v[a + 1] = v[a + 1] + v[b + 1] + ((productHi << 1) | (productLo >>> 31)) + Math.floor(low / 0x100000000);
+  v[a] = low;
+}
+
+// BLAKE2b's G without message words, with additions replaced by fBlaMka
+function mixBlaMka(v: Uint32Array, a: number, b: number, c: number, d: number): void {
+  fBlaMka(v, a, b);
+  let lo = v[d] ^ v[a];
+  let hi = v[d + 1] ^ v[a + 1];
+  v[d] = hi; // rotate right 32
+  v[d + 1] = lo;
+
+  fBlaMka(v, c, d);
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = (lo >>> 24) | (hi << 8); // rotate right 24
+  v[b + 1] = (hi >>> 24) | (lo << 8);
+
+  fBlaMka(v, a, b);
+  lo = v[d] ^ v[a];
+  hi = v[d + 1] ^ v[a + 1];
+  v[d] = (lo >>> 16) | (hi << 16); // rotate right 16
+  v[d + 1] = (hi >>> 16) | (lo << 16);
+
+  fBlaMka(v, c, d);
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = (hi >>> 31) | (lo << 1); // rotate right 63
+  v[b + 1] = (lo >>> 31) | (hi << 1);
+}
+
+// Offsets (in 32-bit halves) of the 16 words the permutation P takes, for each row then each column
+const PERMUTATION_INPUTS: number[][] = [
+  ...Array.from({ length: 8 }, (_, row) => Array.from({ length: 16 }, (_, k) => 32 * row + 2 * k)),
+  ...Array.from({ length: 8 }, (_, col) => Array.from({ length: 16 }, (_, k) => 32 * (k >> 1) + 4 * col + 2 * (k & 1)))
+];
+
+function permute(v: Uint32Array, o: number[]): void {
+  mixBlaMka(v, o[0], o[4], o[8], o[12]);
+  mixBlaMka(v, o[1], o[5], o[9], o[13]);
+  mixBlaMka(v, o[2], o[6], o[10], o[14]);
+  mixBlaMka(v, o[3], o[7], o[11], o[15]);
+  mixBlaMka(v, o[0], o[5], o[10], o[15]);
+  mixBlaMka(v, o[1], o[6], o[11], o[12]);
+  mixBlaMka(v, o[2], o[7], o[8], o[13]);
+  mixBlaMka(v, o[3], o[4], o[9], o[14]);
+}
+
+const scratchR = new Uint32Array(BLOCK_WORDS);
+const scratchZ = new Uint32Array(BLOCK_WORDS);
+
+/**
+ * The compression function G: out = P(x ^ y) ^ x ^ y, XORed into out's old
+ * value when `withXor` (passes after the first, version 0x13)
+ */
+function compress(
+  x: Uint32Array, xOffset: number,
+  y: Uint32Array, yOffset: number,
+  out: Uint32Array, outOffset: number,
+  withXor: boolean
+): void {
+  for (let k = 0; k < BLOCK_WORDS; k++) {
+    scratchR[k] = x[xOffset + k] ^ y[yOffset + k];
+  }
+  scratchZ.set(scratchR);
+  if (withXor) {
+    for (let k = 0; k < BLOCK_WORDS; k++) {
+      scratchZ[k] ^= out[outOffset + k];
+    }
+  }
+  for (const inputs of PERMUTATION_INPUTS) {
+    permute(scratchR, inputs);
+  }
+  for (let k = 0; k < BLOCK_WORDS; k++) {
+    out[outOffset + k] = scratchZ[k] ^ scratchR[k];
+  }
+}
+
+function loadBlock(memory: Uint32Array, index: number, bytes: Uint8Array): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let k = 0; k < BLOCK_WORDS; k++) {
+    memory[index * BLOCK_WORDS + k] = view.getUint32(k * 4, true);
+  }
+}
+
+function storeBlock(block: Uint32Array): Uint8Array {
+  const bytes = new Uint8Array(BLOCK_WORDS * 4);
+  const view = new DataView(bytes.buffer);
+  for (let k = 0; k < BLOCK_WORDS; k++) {
+    view.setUint32(k * 4, block[k], true);
+  }
+  return bytes;
+}
+
+/**
+ * Compute an Argon2 tag. Async because large memory sizes take seconds;
+ * it yields to the event loop and reports progress between blocks.
+ */
+export async function argon2({
+  type,
+  password,
+  salt,
+  memory,
+  passes,
+  parallelism: lanes,
+  tagLength,
+  secret = new Uint8Array(0),
+  associatedData = new Uint8Array(0),
+  onProgress
+}: Argon2Options): Promise<Uint8Array> {
+  if (lanes < 1 || lanes > 0xffffff) {
+    throw new Error('Argon2 parallelism must be between 1 and 2^24 - 1');
+  }
+  if (memory < 8 * lanes) {
+    throw new Error('Argon2 memory must be at least 8 KiB per lane');
+  }
+  if (passes < 1) {
+    throw new Error('Argon2 needs at least one pass');
+  }
+  if (salt.length < 8) {
+    throw new Error('Argon2 salt must be at least 8 bytes');
+  }
+  if (tagLength < 4) {
+    throw new Error('Argon2 tag must be at least 4 bytes');
+  }
+
+  const segmentLength = Math.floor(memory / (SYNC_POINTS * lanes));
+  const laneLength = segmentLength * SYNC_POINTS;
+  const blockCount = laneLength * lanes;
+
+  const h0 = blake2b(concat(
+    le32(lanes), le32(tagLength), le32(memory), le32(passes), le32(ARGON2_VERSION), le32(type),
+    le32(password.length), password,
+    le32(salt.length), salt,
+    le32(secret.length), secret,
+    le32(associatedData.length), associatedData
+  ), 64);
+
+  const blocks = new Uint32Array(blockCount * BLOCK_WORDS);
+  for (let lane = 0; lane < lanes; lane++) {
+    loadBlock(blocks, lane * laneLength, hashLong(concat(h0, le32(0), le32(lane)), 1024));
+    loadBlock(blocks, lane * laneLength + 1, hashLong(concat(h0, le32(1), le32(lane)), 1024));
+  }
+  h0.fill(0);
+
+  const zeroBlock = new Uint32Array(BLOCK_WORDS);
+  const inputBlock = new Uint32Array(BLOCK_WORDS);
+  const addressBlock = new Uint32Array(BLOCK_WORDS);
+  const totalBlocks = passes * blockCount;
+  let filled = 0;
+  let lastYield = performance.now();
+
+  for (let pass = 0; pass < passes; pass++) {
+    for (let slice = 0; slice < SYNC_POINTS; slice++) {
+      // Argon2id uses data-independent addressing for the first half of the first pass
+      const independent = type === ARGON2I || (type === ARGON2ID && pass === 0 && slice < SYNC_POINTS / 2);
+
+      for (let lane = 0; lane < lanes; lane++) {
+        const nextAddresses = () => {
+          inputBlock[12]++; // counter, word 6
+          compress(zeroBlock, 0, inputBlock, 0, addressBlock, 0, false);
+          compress(zeroBlock, 0, addressBlock, 0, addressBlock, 0, false);
+        };
+        if (independent) {
+          inputBlock.fill(0);
+          inputBlock[0] = pass;
+          inputBlock[2] = lane;
+          inputBlock[4] = slice;
+          inputBlock[6] = blockCount;
+          inputBlock[8] = passes;
+          inputBlock[10] = type;
+        }
+
+        // The first two blocks of each lane come from H0
+        const startIndex = pass === 0 && slice === 0 ? 2 : 0;
+        if (startIndex === 2 && independent) {
+          nextAddresses();
+        }
+
+        let current = lane * laneLength + slice * segmentLength + startIndex;
+        let previous = current % laneLength === 0 ? current + laneLength - 1 : current - 1;
+
+        for (let index = startIndex; index < segmentLength; index++, current++, previous++) {
+          if (current % laneLength === 1) {
+            previous = current - 1;
+          }
+
+          let j1: number, j2: number;
+          if (independent) {
+            if (index % ADDRESSES_PER_BLOCK === 0) {
+              nextAddresses();
+            }
+            j1 = addressBlock[2 * (index % ADDRESSES_PER_BLOCK)];
+            j2 = addressBlock[2 * (index % ADDRESSES_PER_BLOCK) + 1];
+          } else {
+            j1 = blocks[previous * BLOCK_WORDS];
+            j2 = blocks[previous * BLOCK_WORDS + 1];
+          }
+
+          const refLane = pass === 0 && slice === 0 ? lane : j2 % lanes;
+          const sameLane = refLane === lane;
+
+          // Blocks this one may reference (RFC 9106 section 3.4.1.2)
+          let areaSize: number;
+          if (pass === 0) {
+            areaSize = slice * segmentLength + (sameLane ? index - 1 : (index === 0 ? -1 : 0));
+          } else {
+            areaSize = laneLength - segmentLength + (sameLane ? index - 1 : (index === 0 ? -1 : 0));
+          }
+          const x = mulHi(j1, j1);
+          const relative = areaSize - 1 - mulHi(areaSize, x);
+          const start = pass === 0 || slice === SYNC_POINTS - 1 ? 0 : (slice + 1) * segmentLength;
+          const reference = refLane * laneLength + (start + relative) % laneLength;
+
+          compress(
+            blocks, previous * BLOCK_WORDS,
+            blocks, reference * BLOCK_WORDS,
+            blocks, current * BLOCK_WORDS,
+            pass > 0
+          );
+
+          filled++;
+          if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+            onProgress?.(filled / totalBlocks);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = performance.now();
+          }
+        }
+      }
+    }
+  }
+
+  // XOR the last block of every lane and stretch it to the tag
+  const final = blocks.slice((laneLength - 1) * BLOCK_WORDS, laneLength * BLOCK_WORDS);
+  for (let lane = 1; lane < lanes; lane++) {
+    const offset = (lane * laneLength + laneLength - 1) * BLOCK_WORDS;
+    for (let k = 0; k < BLOCK_WORDS; k++) {
+      final[k] ^= blocks[offset + k];
+    }
+  }
+  const finalBytes = storeBlock(final);
+  const tag = hashLong(finalBytes, tagLength);
+
+  // Clear sensitive data
+  blocks.fill(0);
+  final.fill(0);
+  finalBytes.fill(0);
+  scratchR.fill(0);
+  scratchZ.fill(0);
+  addressBlock.fill(0);
+
+  onProgress?.(1);
+  return tag;
+}
+
+/**
+ * Argon2id with the memory in KiB, as used for fragment slots
+ */
+export function argon2id(
+  password: Uint8Array,
+  salt: Uint8Array,
+  { m, t, p }: { m: number; t: number; p: number },
+  tagLength: number = 32,
+  onProgress?: (fraction: number) => void
+): Promise<Uint8Array> {
+  return argon2({ type: ARGON2ID, password, salt, memory: m, passes: t, parallelism: p, tagLength, onProgress });
+}
@@ -0,0 +1,140 @@
+/**
+ * ASCII armor for encrypted output: BEGIN/END lines, a Type and Version header,
+ * the payload in Crockford base32 groups and a CRC-24 checksum line.
+ *
+ * -----BEGIN E2EE MESSAGE-----
+ * Type: ratchet
+ * Version: 1
+ *
+ * 0A1B2 C3D4E ...
+ * =F5G6H
+ * -----END E2EE MESSAGE-----
+ */
+
+import { MessageType, DecodedMessage } from '../types/armor';
+import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array, formatInGroups } from './encoding';
+import { isMultiRecipientMessage } from './crypto';
+import { isLadderMessage } from './ladder';
+import { isGroupMessage } from './groups';
+import { isDetachedSignature } from './signatures';
+import { RATCHET_VERSION, RATCHET_VERSION_HEADER_ENCRYPTED } from './ratchet';
+
+export const ARMOR_BEGIN = '-----BEGIN E2EE MESSAGE-----';
+export const ARMOR_END = '-----END E2EE MESSAGE-----';
+export const ARMOR_VERSION = 1;
+
+const MESSAGE_TYPES: MessageType[] = ['box', 'multi', 'ratchet', 'ladder', 'group', 'signature'];
+
+// nonce(24) + Poly1305 tag(16)
+const MIN_BOX_LENGTH = 40;
+
+// CRC-24 as in OpenPGP armor (RFC 4880 section 6.1)
+const CRC24_INIT = 0xb704ce;
+const CRC24_POLY = 0x1864cfb;
+
+export function crc24(data: Uint8Array): number {
+  let crc = CRC24_INIT;
+  for (const byte of data) {
+    crc ^= byte << 16;
+    for (let i = 0; i < 8; i++) {
+      crc <<= 1;
+      if (crc & 0x1000000) {
+        crc ^= CRC24_POLY;
+      }
+    }
+  }
+  return crc & 0xffffff;
+}
+
+function encodeChecksum(data: Uint8Array): string {
+  const crc = crc24(data);
+  return uint8ArrayToBase32Crockford(new Uint8Array([crc >>> 16, (crc >>> 8) & 0xff, crc & 0xff]));
+}
+
+/**
+ * Whether a payload has the framing its type promises
+ */
+function matchesType(type: MessageType, data: Uint8Array): boolean {
+  switch (type) {
+    case 'box':
+      return data.length >= MIN_BOX_LENGTH;
+    case 'multi':
+      return isMultiRecipientMessage(data);
+    case 'ratchet':
+      return data.length > 0 && data[0] >= RATCHET_VERSION && data[0] <= RATCHET_VERSION_HEADER_ENCRYPTED;
+    case 'ladder':
+      return isLadderMessage(data);
+    case 'group':
+      return isGroupMessage(data);
+    case 'signature':
+      return isDetachedSignature(data);
+  }
+}
+
+export function armorMessage(type: MessageType, data: Uint8Array): string {
+  return [
+    ARMOR_BEGIN,
+    `Type: ${type}`,
+    `Version: ${ARMOR_VERSION}`,
+    '',
+    formatInGroups(uint8ArrayToBase32Crockford(data), true),
+    `=${encodeChecksum(data)}`,
+    ARMOR_END
+  ].join('\n');
+}
+
+export function isArmoredMessage(text: string): boolean {
+  return text.trim().startsWith(ARMOR_BEGIN);
+}
+
+/**
+ * Parse an armored block. Throws on a damaged or unknown message rather than
+ * guessing what it holds.
+ */
+export function dearmorMessage(text: string): DecodedMessage & { type: MessageType } {
+  const lines = text.trim().replace(/\r\n?/g, '\n').split('\n').map(line => line.trim());
+  const blank = lines.indexOf('');
+  const end = lines.lastIndexOf(ARMOR_END);
+  if (lines[0] !== ARMOR_BEGIN || blank < 1 || end < blank + 2 || !lines[end - 1].startsWith('=')) {
+    throw new Error('Malformed armored message');
+  }
+
+  const headers = new Map<string, string>();
+  for (const line of lines.slice(1, blank)) {
+    const colon = line.indexOf(':');
+    if (colon < 1) {
+      throw new Error('Malformed armored message');
+    }
+    headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+
+  const version = Number(headers.get('version'));
+  if (version !== ARMOR_VERSION) {
+    throw new Error(`Unsupported message version: ${headers.get('version') ?? 'missing'}`);
+  }
+  const type = headers.get('type') as MessageType;
+  if (!MESSAGE_TYPES.includes(type)) {
+    throw new Error(`Unknown message type: ${headers.get('type') ?? 'missing'}`);
+  }
+
+  const data = base32CrockfordToUint8Array(lines.slice(blank + 1, end - 1).join(''));
+  if (uint8ArrayToBase32Crockford(base32CrockfordToUint8Array(lines[end - 1].slice(1))) !== encodeChecksum(data)) {
+    throw new Error('Checksum mismatch: the message was damaged in transit');
+  }
+  if (!matchesType(type, data)) {
+    throw new Error(`Message does not look like a ${type} message`);
+  }
+
+  return { type, data };
+}
+
+/**
+ * Decode pasted input: an armored block, or bare base32 from older versions
+ * (type null, so the caller falls back to guessing)
+ */
+export function decodeMessageText(text: string): DecodedMessage {
+  if (isArmoredMessage(text)) {
+    return dearmorMessage(text);
+  }
+  return { type: null, data: base32CrockfordToUint8Array(text) };
+}
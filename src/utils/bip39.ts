@@ -1,3 +1,5 @@
+import { sha256Sync } from './hash';
+
 export const BIP39_WORDLIST = [
 "abandon",
 "ability",
@@ -2049,11 +2051,72 @@ export const BIP39_WORDLIST = [
 "zoo"
 ];
 
+// Checksum bits (BIP39: the first ENT/32 bits of SHA-256 over the entropy)
+function checksumBits(bytes: Uint8Array): string {
+  const checksumBitLength = bytes.length / 4; // 8 bits for 32 bytes, 16 bits for 64 bytes
+  let bits = '';
+  for (const byte of sha256Sync(bytes).slice(0, Math.ceil(checksumBitLength / 8))) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+  return bits.slice(0, checksumBitLength);
+}
+
+// Edit distance between two words (insertions, deletions and substitutions)
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Wordlist entries closest to a misspelled word. Every BIP39 word is unique in
+// its first four letters, so a matching prefix ranks first.
+export function suggestBIP39Words(word: string, limit: number = 3): string[] {
+  const input = word.toLowerCase();
+  const prefix = input.slice(0, 4);
+  return BIP39_WORDLIST
+    .map(candidate => ({
+      candidate,
+      distance: prefix.length === 4 && candidate.startsWith(prefix) ? 0 : levenshtein(input, candidate)
+    }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
 // Convert a Uint8Array to BIP39 words (32 bytes = 24 words, 64 bytes = 48 words)
 export function uint8ArrayToWords(bytes: Uint8Array): string[] {
   if (bytes.length !== 32 && bytes.length !== 64) {
     throw new Error('Expected 32 or 64 bytes for BIP39 encoding');
   }
+  return encodeBIP39Words(bytes);
+}
+
+// Convert BIP39 words back to Uint8Array (24 words = 32 bytes, 48 words = 64 bytes).
+// Throws on unknown words (with suggestions) and on a checksum mismatch.
+export function wordsToUint8Array(words: string[]): Uint8Array {
+  if (words.length !== 24 && words.length !== 48) {
+    throw new Error('Expected 24 or 48 words for BIP39 decoding');
+  }
+  return decodeBIP39Words(words);
+}
+
+// BIP39 words for any payload that is a multiple of 4 bytes (3 words per 4 bytes),
+// for fixed-size payloads other than keys, such as recovery shares
+export function encodeBIP39Words(bytes: Uint8Array): string[] {
+  if (bytes.length === 0 || bytes.length % 4 !== 0) {
+    throw new Error('BIP39 encoding needs a multiple of 4 bytes');
+  }
 
   // Convert bytes to binary string
   let binaryStr = '';
@@ -2061,20 +2124,8 @@ export function uint8ArrayToWords(bytes: Uint8Array): string[] {
     binaryStr += bytes[i].toString(2).padStart(8, '0');
   }
 
-  // Calculate checksum bits needed (1 bit per 32 bits of data)
-  const checksumBitLength = bytes.length / 4; // 8 bits for 32 bytes, 16 bits for 64 bytes
-  
-  // Calculate checksum (first N bits of hash)
-  // For simplicity, we'll use a basic checksum approach
-  // In production, you'd use proper SHA256
-  let checksum = 0;
-  for (let i = 0; i < bytes.length; i++) {
-    checksum = (checksum + bytes[i]) % (1 << checksumBitLength);
-  }
-  const checksumBits = checksum.toString(2).padStart(checksumBitLength, '0');
-  
   // Append checksum to create total bits
-  binaryStr += checksumBits;
+  binaryStr += checksumBits(bytes);
 
   // Split into groups of 11 bits each (24 words for 32 bytes, 48 words for 64 bytes)
   const totalBits = binaryStr.length;
@@ -2088,24 +2139,29 @@ export function uint8ArrayToWords(bytes: Uint8Array): string[] {
   return words;
 }
 
-// Convert BIP39 words back to Uint8Array (24 words = 32 bytes, 48 words = 64 bytes)
-export function wordsToUint8Array(words: string[]): Uint8Array {
-  if (words.length !== 24 && words.length !== 48) {
-    throw new Error('Expected 24 or 48 words for BIP39 decoding');
+export function decodeBIP39Words(words: string[]): Uint8Array {
+  if (words.length === 0 || words.length % 3 !== 0) {
+    throw new Error('BIP39 decoding needs a multiple of 3 words');
+  }
+
+  // Report every misspelled word at once
+  const invalid = words.filter(word => !BIP39_WORDLIST.includes(word.toLowerCase()));
+  if (invalid.length > 0) {
+    const described = invalid.map(word => {
+      const suggestions = suggestBIP39Words(word);
+      return suggestions.length > 0 ? `${word} (did you mean ${suggestions.join(', ')}?)` : word;
+    });
+    throw new Error(`Invalid BIP39 word${invalid.length > 1 ? 's' : ''}: ${described.join(', ')}`);
   }
 
   // Convert words to indices
   let binaryStr = '';
   for (const word of words) {
-    const index = BIP39_WORDLIST.indexOf(word.toLowerCase());
-    if (index === -1) {
-      throw new Error(`Invalid BIP39 word: ${word}`);
-    }
-    binaryStr += index.toString(2).padStart(11, '0');
+    binaryStr += BIP39_WORDLIST.indexOf(word.toLowerCase()).toString(2).padStart(11, '0');
   }
 
-  // Extract the data bits (ignore checksum)
-  const byteCount = words.length === 24 ? 32 : 64;
+  // Split off the data bits
+  const byteCount = words.length * 4 / 3;
   const dataBitCount = byteCount * 8;
   const dataStr = binaryStr.substr(0, dataBitCount);
   
@@ -2116,14 +2172,8 @@ export function wordsToUint8Array(words: string[]): Uint8Array {
   }
 
   // Verify checksum
-  const checksumBitLength = byteCount / 4;
-  let checksum = 0;
-  for (let i = 0; i < bytes.length; i++) {
-    checksum = (checksum + bytes[i]) % (1 << checksumBitLength);
-  }
-  const expectedChecksum = parseInt(binaryStr.substr(dataBitCount, checksumBitLength), 2);
-  if (checksum !== expectedChecksum) {
-    console.warn('BIP39 checksum mismatch');
+  if (binaryStr.substr(dataBitCount) !== checksumBits(bytes)) {
+    throw new Error('BIP39 checksum mismatch: a word is wrong or out of order');
   }
 
   return bytes;
@@ -2138,15 +2188,13 @@ export function formatWords(words: string[], groupSize: number = 3): string {
   return groups.join('\n');
 }
 
-// Check if a string looks like BIP39 words
+// Check if a string looks like BIP39 words: 24 or 48 words of letters, most of
+// them in the wordlist, so a few typos still reach wordsToUint8Array's suggestions
 export function isBIP39Format(input: string): boolean {
   const words = input.toLowerCase().trim().split(/\s+/);
-  if (words.length !== 24) return false;
+  if (words.length !== 24 && words.length !== 48) return false;
+  if (!words.every(word => /^[a-z]+$/.test(word))) return false;
   
-  for (const word of words) {
-    if (!BIP39_WORDLIST.includes(word)) {
-      return false;
-    }
-  }
-  return true;
+  const known = words.filter(word => BIP39_WORDLIST.includes(word)).length;
+  return known >= words.length * 3 / 4;
 }
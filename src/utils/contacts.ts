@@ -0,0 +1,144 @@
+/**
+ * Contact book: named correspondents with their key bundles, kept encrypted
+ * with the store key
+ */
+
+import * as nacl from 'tweetnacl';
+import { Contact } from '../types/contact';
+import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array, generateUserId } from './encoding';
+import { parsePublicKeyBundle } from './ladder';
+import { getRatchetStorageKey } from './ratchet';
+import { normalizeContactName } from './trustStore';
+import { saveSealedItem, loadSealedItem, rekeySealedItem } from './storeBox';
+
+const CONTACTS_STORAGE_KEY = 'contacts';
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a[i] ^ b[i];
+  }
+  return result === 0;
+}
+
+/**
+ * Create a contact. Throws on an empty name or a bundle of the wrong size.
+ */
+export function createContact(
+  name: string,
+  bundle: Uint8Array,
+  notes: string = '',
+  now: number = Date.now()
+): Contact {
+  if (!name.trim()) {
+    throw new Error('Contact name is required');
+  }
+  const { identityKey } = parsePublicKeyBundle(bundle);
+
+  return {
+    id: uint8ArrayToBase32Crockford(nacl.randomBytes(10)),
+    name: name.trim(),
+    bundle,
+    userId: generateUserId(identityKey),
+    verified: false,
+    notes,
+    createdAt: now,
+    lastUsed: null
+  };
+}
+
+/**
+ * Replace a contact's keys. A new identity key clears verification.
+ */
+export function updateContactBundle(contact: Contact, bundle: Uint8Array): Contact {
+  const { identityKey } = parsePublicKeyBundle(bundle);
+  const sameIdentity = bytesEqual(identityKey, getContactIdentityKey(contact));
+
+  return {
+    ...contact,
+    bundle,
+    userId: generateUserId(identityKey),
+    verified: sameIdentity && contact.verified
+  };
+}
+
+export function getContactIdentityKey(contact: Contact): Uint8Array {
+  return parsePublicKeyBundle(contact.bundle).identityKey;
+}
+
+/**
+ * The localStorage key of the ratchet session with a contact
+ */
+export function getContactSessionKey(myPublicKey: Uint8Array, contact: Contact): string {
+  return getRatchetStorageKey(myPublicKey, getContactIdentityKey(contact));
+}
+
+export function findContactByName(contacts: Contact[], name: string): Contact | undefined {
+  const normalized = normalizeContactName(name);
+  return normalized ? contacts.find(c => normalizeContactName(c.name) === normalized) : undefined;
+}
+
+export function findContactByIdentityKey(contacts: Contact[], identityKey: Uint8Array): Contact | undefined {
+  return contacts.find(c => bytesEqual(getContactIdentityKey(c), identityKey));
+}
+
+/**
+ * The contact whose saved signed bundle has this signing key. Contacts saved
+ * from unsigned bundles never match.
+ */
+export function findContactBySigningKey(contacts: Contact[], signingKey: Uint8Array): Contact | undefined {
+  return contacts.find(c => {
+    const contactSigningKey = parsePublicKeyBundle(c.bundle).signingKey;
+    return contactSigningKey !== null && bytesEqual(contactSigningKey, signingKey);
+  });
+}
+
+/**
+ * Recently used contacts first, then by name
+ */
+export function sortContacts(contacts: Contact[]): Contact[] {
+  return [...contacts].sort((a, b) =>
+    (b.lastUsed ?? 0) - (a.lastUsed ?? 0) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Contacts whose name, user ID or notes contain the query (case-insensitive)
+ */
+export function filterContacts(contacts: Contact[], query: string): Contact[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return contacts;
+  return contacts.filter(c =>
+    c.name.toLowerCase().includes(q) ||
+    c.userId.toLowerCase().includes(q) ||
+    c.notes.toLowerCase().includes(q));
+}
+
+export function loadContacts(storeKey: Uint8Array): Contact[] {
+  try {
+    const stored = loadSealedItem<any[]>(CONTACTS_STORAGE_KEY, storeKey) ?? [];
+    return stored.map(c => ({ ...c, bundle: base32CrockfordToUint8Array(c.bundle) }));
+  } catch (error) {
+    console.error('Failed to load contacts:', error);
+    return [];
+  }
+}
+
+export function saveContacts(contacts: Contact[], storeKey: Uint8Array): void {
+  saveSealedItem(
+    CONTACTS_STORAGE_KEY,
+    contacts.map(c => ({ ...c, bundle: uint8ArrayToBase32Crockford(c.bundle) })),
+    storeKey
+  );
+}
+
+/**
+ * Re-encrypt the contact book from one store key to another (master key change)
+ */
+export function rekeyContacts(oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  rekeySealedItem(CONTACTS_STORAGE_KEY, oldStoreKey, newStoreKey);
+}
+
+export function clearContacts(): void {
+  localStorage.removeItem(CONTACTS_STORAGE_KEY);
+}
@@ -0,0 +1,97 @@
+/**
+ * Context policy for the sealed URL fragment: where a link may be opened.
+ * Strict origin suits a hosted copy; the application ID lets the standalone
+ * build move between file:// paths, a data URI and a host; an origin list
+ * allows a few known places only.
+ */
+
+import { APP_ID, FragmentContext, readContext } from './seal';
+
+export type ContextPolicy =
+  | { mode: 'origin' }
+  | { mode: 'app' }
+  | { mode: 'origins'; origins: string[] };
+
+/** A fragment that opened with the passphrase but is bound to somewhere else. */
+export interface ContextMismatch {
+  boundTo: FragmentContext;
+  origin: string; // where the app is running now
+}
+
+const CONTEXT_POLICY_STORAGE_KEY = 'fragment_context';
+
+/**
+ * The binding for new and re-bound fragments. It always admits the current
+ * origin, so the link keeps opening where it was sealed.
+ */
+export function contextForPolicy(policy: ContextPolicy, origin: string = location.origin): FragmentContext {
+  switch (policy.mode) {
+    case 'app':
+      return { kind: 'app', appId: APP_ID };
+    case 'origins':
+      return { kind: 'origins', origins: Array.from(new Set([origin, ...policy.origins])) };
+    default:
+      return { kind: 'origin', origin };
+  }
+}
+
+// file:// pages, data URIs and sandboxed frames all report the opaque origin "null"
+function describeOrigin(origin: string): string {
+  return origin === 'null' || origin === 'file://' ? 'a local file or data URI' : origin;
+}
+
+export function describeContext(context: string | FragmentContext): string {
+  const bound = readContext(context);
+  switch (bound.kind) {
+    case 'app':
+      return bound.appId === APP_ID ? 'any copy of this app' : `the app "${bound.appId}"`;
+    case 'origins':
+      return bound.origins.map(describeOrigin).join(', ');
+    default:
+      return describeOrigin(bound.origin);
+  }
+}
+
+/**
+ * The policy for new fragments; strict origin unless another was chosen
+ */
+export function loadContextPolicy(): ContextPolicy {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONTEXT_POLICY_STORAGE_KEY) ?? 'null');
+    if (stored?.mode === 'app') {
+      return { mode: 'app' };
+    }
+    if (stored?.mode === 'origins' && Array.isArray(stored.origins)) {
+      return { mode: 'origins', origins: stored.origins.filter((origin: unknown) => typeof origin === 'string') };
+    }
+  } catch {
+    // Fall back to the default
+  }
+  return { mode: 'origin' };
+}
+
+export function saveContextPolicy(policy: ContextPolicy): void {
+  localStorage.setItem(CONTEXT_POLICY_STORAGE_KEY, JSON.stringify(policy));
+}
+
+/**
+ * Parse a user-entered list of origins, one per line or comma separated
+ */
+export function parseOriginList(text: string): string[] {
+  const origins: string[] = [];
+  for (const entry of text.split(/[\s,]+/).filter(Boolean)) {
+    if (entry === 'null') {
+      origins.push(entry);
+      continue;
+    }
+    let url: URL;
+    try {
+      url = new URL(entry);
+    } catch {
+      throw new Error(`Not an origin: ${entry}`);
+    }
+    // URL.origin is "null" for file:, so keep the scheme-only form browsers report there
+    origins.push(url.protocol === 'file:' ? 'file://' : url.origin);
+  }
+  return Array.from(new Set(origins));
+}
@@ -17,6 +17,17 @@ export const generateKeyPairFromSecretKey = (secretKey: Uint8Array): KeyPair =>
   return nacl.box.keyPair.fromSecretKey(secretKey);
 };
 
+// Ed25519 signing identity (signs key bundles)
+export const generateSigningKeyPair = (): KeyPair => {
+  return nacl.sign.keyPair();
+};
+
+export const generateSigningKeyPairFromSecretKey = (secretKey: Uint8Array): KeyPair => {
+  return nacl.sign.keyPair.fromSecretKey(secretKey);
+};
+
+// Legacy: unsalted SHA-512 of the master key. Only reads data stored before the
+// scrypt store key (storeKey.ts) and the scrypt URL seal (seal.ts).
 export const deriveKeyFromMasterKey = (masterKey: string): Uint8Array => {
   const masterKeyBytes = new TextEncoder().encode(masterKey);
   // Ensure it's a real Uint8Array (not a Node Buffer)
@@ -24,6 +35,7 @@ export const deriveKeyFromMasterKey = (masterKey: string): Uint8Array => {
   return nacl.hash(bytes).slice(0, nacl.secretbox.keyLength);
 };
 
+/** @deprecated Pre-seal URL format; keys are now sealed with scrypt (seal.ts) */
 export const encryptSecretKey = (secretKey: Uint8Array, masterKey: string): Uint8Array => {
   const hashedKey = deriveKeyFromMasterKey(masterKey);
   const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
@@ -67,6 +79,25 @@ export const decryptMessage = (
   encryptedData: Uint8Array,
   senderPublicKey: Uint8Array,
   recipientSecretKey: Uint8Array
+): string | null => {
+  // A single-recipient nonce can start with the envelope type byte, so fall through if it does not open
+  if (isMultiRecipientMessage(encryptedData)) {
+    const decrypted = decryptMultiRecipientMessage(encryptedData, senderPublicKey, recipientSecretKey);
+    if (decrypted !== null) {
+      return decrypted;
+    }
+  }
+  
+  return decryptBoxMessage(encryptedData, senderPublicKey, recipientSecretKey);
+};
+
+/**
+ * Decrypt a single-recipient message (nonce || box), for callers that know the type
+ */
+export const decryptBoxMessage = (
+  encryptedData: Uint8Array,
+  senderPublicKey: Uint8Array,
+  recipientSecretKey: Uint8Array
 ): string | null => {
   const nonce = encryptedData.slice(0, nacl.box.nonceLength);
   const encrypted = encryptedData.slice(nacl.box.nonceLength);
@@ -78,4 +109,146 @@ export const decryptMessage = (
   }
   
   return new TextDecoder().decode(decrypted);
-};
\ No newline at end of file
+};
+
+// Multi-recipient envelope (non-ratchet mode): one content key, wrapped per recipient.
+// Type byte is distinct from the ratchet versions (0x01-0x03) and Ladder (0x4c).
+export const MULTI_RECIPIENT_MESSAGE_TYPE = 0x4d; // 'M'
+const MULTI_RECIPIENT_VERSION = 1;
+export const MAX_RECIPIENTS = 32;
+const HINT_LENGTH = 4;
+const CIPHERTEXT_HASH_LENGTH = 32;
+// hint(4) + nonce(24) + box(content key(32) + ciphertext hash(32))
+const SLOT_LENGTH = HINT_LENGTH + nacl.box.nonceLength +
+  nacl.secretbox.keyLength + CIPHERTEXT_HASH_LENGTH + nacl.box.overheadLength;
+// type(1) + version(1) + count(1) + content nonce(24)
+const MULTI_RECIPIENT_HEADER_LENGTH = 3 + nacl.secretbox.nonceLength;
+
+// Lets a recipient find their slot; salted per message so hints differ between messages
+const recipientHint = (contentNonce: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array => {
+  const input = new Uint8Array(contentNonce.length + recipientPublicKey.length);
+  input.set(contentNonce);
+  input.set(recipientPublicKey, contentNonce.length);
+  return nacl.hash(input).slice(0, HINT_LENGTH);
+};
+
+const ciphertextHash = (ciphertext: Uint8Array): Uint8Array => {
+  return nacl.hash(ciphertext).slice(0, CIPHERTEXT_HASH_LENGTH);
+};
+
+export const isMultiRecipientMessage = (encryptedData: Uint8Array): boolean => {
+  return encryptedData.length >= MULTI_RECIPIENT_HEADER_LENGTH &&
+    encryptedData[0] === MULTI_RECIPIENT_MESSAGE_TYPE &&
+    encryptedData[1] === MULTI_RECIPIENT_VERSION;
+};
+
+/**
+ * Encrypt one message for several recipients.
+ * Format: [type(1)] [version(1)] [count(1)] [content nonce(24)]
+ *         [hint(4), nonce(24), box(content key || ciphertext hash)]... [secretbox(message)]
+ * Each slot also carries a hash of the ciphertext, so one recipient cannot
+ * swap the content the others see.
+ */
+export const encryptMessageForRecipients = (
+  message: string,
+  recipientPublicKeys: Uint8Array[],
+  senderSecretKey: Uint8Array
+): Uint8Array => {
+  // Drop duplicate recipients
+  const recipients = recipientPublicKeys.filter((key, i) =>
+    recipientPublicKeys.findIndex(other => other.length === key.length && other.every((b, j) => b === key[j])) === i);
+  
+  if (recipients.length === 0) {
+    throw new Error('No recipients');
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw new Error(`Too many recipients (maximum ${MAX_RECIPIENTS})`);
+  }
+  
+  const contentKey = nacl.randomBytes(nacl.secretbox.keyLength);
+  const contentNonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const messageUint8 = new Uint8Array(new TextEncoder().encode(message));
+  const ciphertext = nacl.secretbox(messageUint8, contentNonce, contentKey);
+  
+  const slotPayload = new Uint8Array(nacl.secretbox.keyLength + CIPHERTEXT_HASH_LENGTH);
+  slotPayload.set(contentKey);
+  slotPayload.set(ciphertextHash(ciphertext), nacl.secretbox.keyLength);
+  
+  const fullMessage = new Uint8Array(
+    MULTI_RECIPIENT_HEADER_LENGTH + recipients.length * SLOT_LENGTH + ciphertext.length
+  );
+  fullMessage[0] = MULTI_RECIPIENT_MESSAGE_TYPE;
+  fullMessage[1] = MULTI_RECIPIENT_VERSION;
+  fullMessage[2] = recipients.length;
+  fullMessage.set(contentNonce, 3);
+  
+  let offset = MULTI_RECIPIENT_HEADER_LENGTH;
+  for (const recipientPublicKey of recipients) {
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    fullMessage.set(recipientHint(contentNonce, recipientPublicKey), offset);
+    fullMessage.set(nonce, offset + HINT_LENGTH);
+    fullMessage.set(nacl.box(slotPayload, nonce, recipientPublicKey, senderSecretKey), offset + HINT_LENGTH + nonce.length);
+    offset += SLOT_LENGTH;
+  }
+  fullMessage.set(ciphertext, offset);
+  
+  // Clear sensitive data
+  contentKey.fill(0);
+  slotPayload.fill(0);
+  
+  return fullMessage;
+};
+
+/**
+ * Find our slot in a multi-recipient envelope and decrypt the message
+ */
+export const decryptMultiRecipientMessage = (
+  encryptedData: Uint8Array,
+  senderPublicKey: Uint8Array,
+  recipientSecretKey: Uint8Array
+): string | null => {
+  const count = encryptedData[2];
+  const contentStart = MULTI_RECIPIENT_HEADER_LENGTH + count * SLOT_LENGTH;
+  if (count === 0 || encryptedData.length < contentStart + nacl.secretbox.overheadLength) {
+    return null;
+  }
+  
+  const contentNonce = encryptedData.slice(3, MULTI_RECIPIENT_HEADER_LENGTH);
+  const ciphertext = encryptedData.slice(contentStart);
+  const myPublicKey = nacl.box.keyPair.fromSecretKey(recipientSecretKey).publicKey;
+  const myHint = recipientHint(contentNonce, myPublicKey);
+  
+  for (let i = 0; i < count; i++) {
+    const offset = MULTI_RECIPIENT_HEADER_LENGTH + i * SLOT_LENGTH;
+    const hint = encryptedData.subarray(offset, offset + HINT_LENGTH);
+    if (!hint.every((b, j) => b === myHint[j])) {
+      continue;
+    }
+    
+    // Hints can collide, so keep looking if this slot does not open
+    const nonce = encryptedData.slice(offset + HINT_LENGTH, offset + HINT_LENGTH + nacl.box.nonceLength);
+    const wrapped = encryptedData.slice(offset + HINT_LENGTH + nacl.box.nonceLength, offset + SLOT_LENGTH);
+    const slotPayload = nacl.box.open(wrapped, nonce, senderPublicKey, recipientSecretKey);
+    if (!slotPayload) {
+      continue;
+    }
+    
+    const contentKey = slotPayload.slice(0, nacl.secretbox.keyLength);
+    const expectedHash = slotPayload.slice(nacl.secretbox.keyLength);
+    const actualHash = ciphertextHash(ciphertext);
+    let diff = 0;
+    for (let j = 0; j < CIPHERTEXT_HASH_LENGTH; j++) {
+      diff |= expectedHash[j] ^ actualHash[j];
+    }
+    
+    const decrypted = diff === 0 ? nacl.secretbox.open(ciphertext, contentNonce, contentKey) : null;
+    
+    // Clear sensitive data
+    contentKey.fill(0);
+    slotPayload.fill(0);
+    
+    return decrypted ? new TextDecoder().decode(decrypted) : null;
+  }
+  
+  return null;
+};
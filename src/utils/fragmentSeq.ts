@@ -0,0 +1,96 @@
+/**
+ * Anti-rollback record for the URL fragment: the newest sequence number this
+ * device has seen, sealed under the store key so it cannot be edited unnoticed.
+ * It names the identity key it was seen with, so a link from before a key
+ * regeneration is reported as holding an older identity.
+ */
+
+import { uint8ArrayToBase32Crockford } from './encoding';
+import { saveSealedItem, loadSealedItem, rekeySealedItem, findSealedStorageKeys } from './storeBox';
+
+const FRAGMENT_SEQ_STORAGE_KEY = 'fragment_seq';
+
+export interface FragmentSeqRecord {
+  seq: number;
+  identity: string; // Base32 identity public key
+  seenAt: number;
+}
+
+export interface RollbackWarning {
+  reason: 'older' | 'unverifiable';
+  fragmentSeq: number;
+  knownSeq?: number;         // set for 'older'
+  identityChanged?: boolean; // set for 'older'
+  recordMissing?: boolean;   // set for 'unverifiable' when no record is stored
+}
+
+/**
+ * Load the record: null if none is stored, throws if it does not open with this key
+ */
+export function loadFragmentSeq(storeKey: Uint8Array): FragmentSeqRecord | null {
+  return loadSealedItem<FragmentSeqRecord>(FRAGMENT_SEQ_STORAGE_KEY, storeKey);
+}
+
+export function saveFragmentSeq(seq: number, identityKey: Uint8Array, storeKey: Uint8Array): void {
+  const record: FragmentSeqRecord = {
+    seq,
+    identity: uint8ArrayToBase32Crockford(identityKey),
+    seenAt: Date.now()
+  };
+  saveSealedItem(FRAGMENT_SEQ_STORAGE_KEY, record, storeKey);
+}
+
+/**
+ * The newest sequence number seen, or 0 if there is no readable record
+ */
+export function knownFragmentSeq(storeKey: Uint8Array): number {
+  try {
+    return loadFragmentSeq(storeKey)?.seq ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Compare an unlocked fragment with the record. A record that does not open
+ * with the fragment's store key is reported too: the link may predate a
+ * master key change, or the record was tampered with. So is a missing record
+ * when the fragment has been rewritten before or other stores exist, since
+ * deleting it would otherwise switch the check off.
+ */
+export function checkFragmentSeq(seq: number, identityKey: Uint8Array, storeKey: Uint8Array): RollbackWarning | null {
+  let record: FragmentSeqRecord | null;
+  try {
+    record = loadFragmentSeq(storeKey);
+  } catch {
+    return { reason: 'unverifiable', fragmentSeq: seq };
+  }
+
+  if (!record) {
+    // Any other store means a record should exist too
+    return seq > 1 || findSealedStorageKeys().length > 0
+      ? { reason: 'unverifiable', fragmentSeq: seq, recordMissing: true }
+      : null;
+  }
+  if (seq >= record.seq) {
+    return null;
+  }
+  return {
+    reason: 'older',
+    fragmentSeq: seq,
+    knownSeq: record.seq,
+    identityChanged: record.identity !== uint8ArrayToBase32Crockford(identityKey)
+  };
+}
+
+/**
+ * Re-encrypt the record from one store key to another (master key change)
+ */
+export function rekeyFragmentSeq(oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  try {
+    rekeySealedItem(FRAGMENT_SEQ_STORAGE_KEY, oldStoreKey, newStoreKey);
+  } catch (error) {
+    // Sealed under another store key; the next fragment write replaces it
+    console.error('Failed to re-key fragment sequence record:', error);
+  }
+}
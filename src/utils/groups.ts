@@ -0,0 +1,684 @@
+/**
+ * Sender-key group messaging on top of the pairwise ratchet.
+ * Each member has a symmetric sending chain and an Ed25519 signing key per group.
+ * The chain key is shared with the other members as a distribution message sent
+ * over the pairwise ratchet, which authenticates the sender. Group messages are
+ * encrypted once under the sender's chain and signed, so every member can decrypt
+ * and authenticate them. Only the creator (the group admin) changes the membership.
+ */
+
+import * as nacl from 'tweetnacl';
+import { GroupState, GroupMessage, SenderKey, SenderKeyDistribution } from '../types/group';
+import { hkdfSha512 } from './hkdf';
+import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array } from './encoding';
+import { saveSealedItem, loadSealedItem, rekeySealedItem } from './storeBox';
+
+// Envelope type byte, distinct from the ratchet, Ladder and multi-recipient formats
+export const GROUP_MESSAGE_TYPE = 0x47; // 'G'
+const GROUP_MESSAGE_VERSION = 1;
+
+// Distribution messages travel as text inside pairwise ratchet messages
+export const SENDER_KEY_PAYLOAD_PREFIX = 'group-key:v1:';
+const SENDER_KEY_DISTRIBUTION_VERSION = 2; // 2 adds the group admin
+
+export const MAX_GROUP_MEMBERS = 32; // Including ourselves
+const MAX_GROUP_NAME_LENGTH = 255;   // UTF-8 bytes
+const MAX_SKIP = 100;                // Messages a single group message may skip over
+const MAX_SKIPPED_KEYS = 200;        // Stored keys per sender chain
+
+const GROUP_ID_LENGTH = 16;
+const KEY_ID_LENGTH = 4;
+const SIGNATURE_LENGTH = 64;
+// type(1) + version(1) + groupId(16) + keyId(4) + counter(4) + nonce(24)
+const GROUP_HEADER_LENGTH = 50;
+
+const GROUPS_STORAGE_KEY = 'groups';
+
+// HKDF info labels - must remain constant for protocol compatibility
+const KDF_LABEL_CHAIN = new Uint8Array(new TextEncoder().encode('group-chain-v1'));
+const KDF_LABEL_MESSAGE = new Uint8Array(new TextEncoder().encode('group-message-v1'));
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a[i] ^ b[i];
+  }
+  return result === 0;
+}
+
+function memberId(identityKey: Uint8Array): string {
+  return uint8ArrayToBase32Crockford(identityKey);
+}
+
+/**
+ * Chain KDF - derives the next chain key and the message key
+ */
+function kdfSenderChain(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+  const nextChainKey = hkdfSha512(new Uint8Array(0), chainKey, KDF_LABEL_CHAIN, 32);
+  const messageKey = hkdfSha512(new Uint8Array(0), chainKey, KDF_LABEL_MESSAGE, 32);
+  return [nextChainKey, messageKey];
+}
+
+/**
+ * Short identifier of a sender chain: SHA-512(signing key)[0..4]
+ */
+function senderKeyId(signingPublicKey: Uint8Array): Uint8Array {
+  return nacl.hash(signingPublicKey).slice(0, KEY_ID_LENGTH);
+}
+
+function cloneSenderKey(senderKey: SenderKey): SenderKey {
+  return { ...senderKey, skippedMessageKeys: new Map(senderKey.skippedMessageKeys) };
+}
+
+/**
+ * A fresh sending chain with its own signing key
+ */
+export function createSenderKey(): SenderKey {
+  const signing = nacl.sign.keyPair();
+  return {
+    chainKey: nacl.randomBytes(32),
+    counter: 0,
+    signingPublicKey: signing.publicKey,
+    signingSecretKey: signing.secretKey,
+    skippedMessageKeys: new Map()
+  };
+}
+
+export function getGroupIdString(groupId: Uint8Array): string {
+  return uint8ArrayToBase32Crockford(groupId);
+}
+
+export function isGroupMember(group: GroupState, identityKey: Uint8Array): boolean {
+  return group.members.some(m => bytesEqual(m, identityKey));
+}
+
+export function isGroupAdmin(group: GroupState, identityKey: Uint8Array): boolean {
+  return bytesEqual(group.admin, identityKey);
+}
+
+/**
+ * Whether we are the admin. Our own key is never in the member list, so finding
+ * the admin there means someone else is.
+ */
+export function managesMembership(group: GroupState): boolean {
+  return !isGroupMember(group, group.admin);
+}
+
+function assertWeAreAdmin(group: GroupState): void {
+  if (!managesMembership(group)) {
+    throw new Error('Only the group admin can change the membership');
+  }
+}
+
+/**
+ * Create a group with the given members (our own key and duplicates are dropped).
+ * Throws on an empty name, no members or too many members.
+ */
+export function createGroup(
+  name: string,
+  members: Uint8Array[],
+  myIdentityKey: Uint8Array,
+  now: number = Date.now()
+): GroupState {
+  if (!name.trim()) {
+    throw new Error('Group name is required');
+  }
+  if (new TextEncoder().encode(name.trim()).length > MAX_GROUP_NAME_LENGTH) {
+    throw new Error('Group name is too long');
+  }
+
+  const others: Uint8Array[] = [];
+  for (const member of members) {
+    if (member.length !== 32) {
+      throw new Error(`Invalid member key size: ${member.length} bytes`);
+    }
+    if (!bytesEqual(member, myIdentityKey) && !others.some(m => bytesEqual(m, member))) {
+      others.push(member);
+    }
+  }
+  if (others.length === 0) {
+    throw new Error('A group needs at least one other member');
+  }
+  if (others.length + 1 > MAX_GROUP_MEMBERS) {
+    throw new Error(`Too many members (max ${MAX_GROUP_MEMBERS})`);
+  }
+
+  return {
+    groupId: nacl.randomBytes(GROUP_ID_LENGTH),
+    name: name.trim(),
+    members: others,
+    admin: myIdentityKey,
+    epoch: 0,
+    mySenderKey: createSenderKey(),
+    senderKeys: new Map(),
+    needsKeyShare: false,
+    createdAt: now
+  };
+}
+
+/**
+ * Replace our sending chain; the new one must be shared before it is used
+ */
+export function rotateSenderKey(group: GroupState): GroupState {
+  return { ...group, mySenderKey: createSenderKey(), needsKeyShare: false };
+}
+
+/**
+ * Add a member: new epoch and a fresh sending chain, so the new member cannot
+ * read earlier messages. Share the new key with every member afterwards.
+ */
+export function addGroupMember(group: GroupState, identityKey: Uint8Array): GroupState {
+  assertWeAreAdmin(group);
+  if (identityKey.length !== 32) {
+    throw new Error(`Invalid member key size: ${identityKey.length} bytes`);
+  }
+  if (isGroupMember(group, identityKey)) {
+    throw new Error('Already a member of this group');
+  }
+  if (group.members.length + 2 > MAX_GROUP_MEMBERS) {
+    throw new Error(`Too many members (max ${MAX_GROUP_MEMBERS})`);
+  }
+
+  return rotateSenderKey({
+    ...group,
+    members: [...group.members, identityKey],
+    epoch: group.epoch + 1
+  });
+}
+
+/**
+ * Remove a member: new epoch, their chain is dropped and ours is replaced, so
+ * they cannot read later messages. Share the new key with the remaining members.
+ */
+export function removeGroupMember(group: GroupState, identityKey: Uint8Array): GroupState {
+  assertWeAreAdmin(group);
+  if (!isGroupMember(group, identityKey)) {
+    throw new Error('Not a member of this group');
+  }
+  if (group.members.length === 1) {
+    throw new Error('A group needs at least one other member');
+  }
+
+  const senderKeys = new Map(group.senderKeys);
+  senderKeys.delete(memberId(identityKey));
+
+  return rotateSenderKey({
+    ...group,
+    members: group.members.filter(m => !bytesEqual(m, identityKey)),
+    epoch: group.epoch + 1,
+    senderKeys
+  });
+}
+
+/**
+ * Encode our current sender key for the other members, signed with the chain's
+ * signing key to prove we hold it. The signature does not identify the sender:
+ * that comes from the pairwise session the payload is sent over.
+ * Returns the text payload to send over each pairwise session.
+ * Format: [version(1)] [groupId(16)] [epoch(4)] [counter(4)] [chainKey(32)] [signingKey(32)]
+ *         [admin(32)] [memberCount(1)] [members(32 each)] [nameLength(1)] [name] [signature(64)]
+ */
+export function createSenderKeyDistribution(group: GroupState, myIdentityKey: Uint8Array): string {
+  const { mySenderKey } = group;
+  if (!mySenderKey.signingSecretKey) {
+    throw new Error('Missing signing key for our sender chain');
+  }
+
+  const roster = [myIdentityKey, ...group.members];
+  const name = new Uint8Array(new TextEncoder().encode(group.name));
+  const body = new Uint8Array(1 + GROUP_ID_LENGTH + 4 + 4 + 32 + 32 + 32 + 1 + roster.length * 32 + 1 + name.length);
+  const view = new DataView(body.buffer);
+  let offset = 0;
+
+  body[offset++] = SENDER_KEY_DISTRIBUTION_VERSION;
+  body.set(group.groupId, offset);
+  offset += GROUP_ID_LENGTH;
+  view.setUint32(offset, group.epoch, true);
+  offset += 4;
+  view.setUint32(offset, mySenderKey.counter, true);
+  offset += 4;
+  body.set(mySenderKey.chainKey, offset);
+  offset += 32;
+  body.set(mySenderKey.signingPublicKey, offset);
+  offset += 32;
+  body.set(group.admin, offset);
+  offset += 32;
+
+  body[offset++] = roster.length;
+  for (const member of roster) {
+    body.set(member, offset);
+    offset += 32;
+  }
+  body[offset++] = name.length;
+  body.set(name, offset);
+
+  const signature = nacl.sign.detached(body, mySenderKey.signingSecretKey);
+  const signed = new Uint8Array(body.length + SIGNATURE_LENGTH);
+  signed.set(body, 0);
+  signed.set(signature, body.length);
+
+  const payload = SENDER_KEY_PAYLOAD_PREFIX + uint8ArrayToBase32Crockford(signed);
+
+  // Clear sensitive data
+  body.fill(0);
+  signed.fill(0);
+
+  return payload;
+}
+
+export function isSenderKeyDistributionPayload(text: string): boolean {
+  return text.startsWith(SENDER_KEY_PAYLOAD_PREFIX);
+}
+
+/**
+ * Decode a distribution payload and check its signature against the signing key
+ * it carries. Throws if it is malformed or the signature does not verify.
+ */
+export function decodeSenderKeyDistribution(payload: string): SenderKeyDistribution {
+  if (!isSenderKeyDistributionPayload(payload)) {
+    throw new Error('Not a sender key distribution');
+  }
+
+  const signed = base32CrockfordToUint8Array(payload.slice(SENDER_KEY_PAYLOAD_PREFIX.length));
+  const fixedLength = 1 + GROUP_ID_LENGTH + 4 + 4 + 32 + 32 + 32 + 1;
+  if (signed.length < fixedLength + 1 + SIGNATURE_LENGTH) {
+    throw new Error('Sender key distribution too short');
+  }
+  if (signed[0] !== SENDER_KEY_DISTRIBUTION_VERSION) {
+    throw new Error(`Unknown sender key distribution version: ${signed[0]}`);
+  }
+
+  const view = new DataView(signed.buffer, signed.byteOffset, signed.byteLength);
+  let offset = 1;
+
+  const groupId = signed.slice(offset, offset + GROUP_ID_LENGTH);
+  offset += GROUP_ID_LENGTH;
+  const epoch = view.getUint32(offset, true);
+  offset += 4;
+  const counter = view.getUint32(offset, true);
+  offset += 4;
+  const chainKey = signed.slice(offset, offset + 32);
+  offset += 32;
+  const signingPublicKey = signed.slice(offset, offset + 32);
+  offset += 32;
+  const admin = signed.slice(offset, offset + 32);
+  offset += 32;
+
+  const memberCount = signed[offset++];
+  if (memberCount < 2 || memberCount > MAX_GROUP_MEMBERS) {
+    throw new Error(`Invalid group member count: ${memberCount}`);
+  }
+  if (signed.length < offset + memberCount * 32 + 1 + SIGNATURE_LENGTH) {
+    throw new Error('Sender key distribution too short');
+  }
+  const roster: Uint8Array[] = [];
+  for (let i = 0; i < memberCount; i++) {
+    roster.push(signed.slice(offset, offset + 32));
+    offset += 32;
+  }
+
+  const nameLength = signed[offset++];
+  if (signed.length !== offset + nameLength + SIGNATURE_LENGTH) {
+    throw new Error('Sender key distribution length mismatch');
+  }
+  const name = new TextDecoder().decode(signed.subarray(offset, offset + nameLength));
+  offset += nameLength;
+
+  const body = signed.subarray(0, offset);
+  const signature = signed.subarray(offset);
+  if (!nacl.sign.detached.verify(body, signature, signingPublicKey)) {
+    throw new Error('Invalid sender key signature');
+  }
+
+  return { groupId, name, epoch, roster, admin, chainKey, counter, signingPublicKey };
+}
+
+/**
+ * Store a member's sender key received over the pairwise session with them.
+ * Creates the group when we are added to it. A newer epoch replaces the member
+ * list, drops chains of removed members and flags our own key for rotation.
+ * Throws if the sender or we are not in the distribution's roster, or if the
+ * sender is not already a member of a group we know, whatever the epoch.
+ * Only the admin may add us or change the roster; other members' keys at the
+ * current epoch are stored without touching it.
+ */
+export function applySenderKeyDistribution(
+  group: GroupState | null,
+  distribution: SenderKeyDistribution,
+  senderIdentityKey: Uint8Array,
+  myIdentityKey: Uint8Array,
+  now: number = Date.now()
+): GroupState {
+  if (group && !bytesEqual(group.groupId, distribution.groupId)) {
+    throw new Error('Sender key is for a different group');
+  }
+  if (!distribution.roster.some(m => bytesEqual(m, senderIdentityKey))) {
+    throw new Error('Sender is not in the group roster');
+  }
+  if (!distribution.roster.some(m => bytesEqual(m, myIdentityKey))) {
+    throw new Error('We are not a member of this group');
+  }
+  if (group && !isGroupMember(group, senderIdentityKey)) {
+    throw new Error('Sender is not a member of this group');
+  }
+  if (!distribution.roster.some(m => bytesEqual(m, distribution.admin))) {
+    throw new Error('Group admin is not in the roster');
+  }
+  if (group && !isGroupAdmin(group, distribution.admin)) {
+    throw new Error('Sender key names a different group admin');
+  }
+
+  const rosterChange = !group || distribution.epoch > group.epoch;
+  if (rosterChange && !bytesEqual(senderIdentityKey, distribution.admin)) {
+    throw new Error(group ?
+      'Only the group admin can change the membership' :
+      'Only the group admin can add us to a group; wait for their sender key');
+  }
+
+  let updated: GroupState;
+  if (rosterChange) {
+    const members = distribution.roster.filter(m => !bytesEqual(m, myIdentityKey));
+    const senderKeys = new Map(group?.senderKeys ?? []);
+    senderKeys.forEach((_, id) => {
+      if (!members.some(m => memberId(m) === id)) {
+        senderKeys.delete(id);
+      }
+    });
+
+    updated = {
+      groupId: distribution.groupId,
+      name: distribution.name,
+      members,
+      admin: distribution.admin,
+      epoch: distribution.epoch,
+      mySenderKey: group?.mySenderKey ?? createSenderKey(),
+      senderKeys,
+      needsKeyShare: true,
+      createdAt: group?.createdAt ?? now
+    };
+  } else {
+    updated = { ...group, senderKeys: new Map(group.senderKeys) };
+  }
+
+  updated.senderKeys.set(memberId(senderIdentityKey), {
+    chainKey: distribution.chainKey,
+    counter: distribution.counter,
+    signingPublicKey: distribution.signingPublicKey,
+    signingSecretKey: null,
+    skippedMessageKeys: new Map()
+  });
+
+  return updated;
+}
+
+export function isGroupMessage(encoded: Uint8Array): boolean {
+  return encoded.length >= GROUP_HEADER_LENGTH + nacl.secretbox.overheadLength + SIGNATURE_LENGTH &&
+    encoded[0] === GROUP_MESSAGE_TYPE;
+}
+
+/**
+ * Decode a group message, returning null if it is not a group envelope
+ * Format: [type(1)] [version(1)] [groupId(16)] [keyId(4)] [counter(4)] [nonce(24)] [ciphertext] [signature(64)]
+ */
+export function decodeGroupMessage(encoded: Uint8Array): GroupMessage | null {
+  if (!isGroupMessage(encoded)) {
+    return null;
+  }
+  if (encoded[1] !== GROUP_MESSAGE_VERSION) {
+    throw new Error(`Unknown group message version: ${encoded[1]}`);
+  }
+
+  const view = new DataView(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+  const signatureStart = encoded.length - SIGNATURE_LENGTH;
+  let offset = 2;
+
+  const groupId = encoded.slice(offset, offset + GROUP_ID_LENGTH);
+  offset += GROUP_ID_LENGTH;
+  const keyId = encoded.slice(offset, offset + KEY_ID_LENGTH);
+  offset += KEY_ID_LENGTH;
+  const counter = view.getUint32(offset, true);
+  offset += 4;
+  const nonce = encoded.slice(offset, offset + nacl.secretbox.nonceLength);
+  offset += nacl.secretbox.nonceLength;
+
+  return {
+    groupId,
+    keyId,
+    counter,
+    nonce,
+    ciphertext: encoded.slice(offset, signatureStart),
+    signature: encoded.slice(signatureStart)
+  };
+}
+
+/**
+ * Encrypt a message for the group under our sending chain and sign it
+ */
+export function groupEncrypt(group: GroupState, plaintext: Uint8Array): [Uint8Array, GroupState] {
+  const senderKey = cloneSenderKey(group.mySenderKey);
+  if (group.needsKeyShare) {
+    throw new Error('Share a new sender key with the group before sending');
+  }
+  if (!senderKey.signingSecretKey) {
+    throw new Error('Missing signing key for our sender chain');
+  }
+
+  const [nextChainKey, messageKey] = kdfSenderChain(senderKey.chainKey);
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const ciphertext = nacl.secretbox(plaintext, nonce, messageKey);
+
+  const encoded = new Uint8Array(GROUP_HEADER_LENGTH + ciphertext.length + SIGNATURE_LENGTH);
+  const view = new DataView(encoded.buffer);
+  let offset = 0;
+
+  encoded[offset++] = GROUP_MESSAGE_TYPE;
+  encoded[offset++] = GROUP_MESSAGE_VERSION;
+  encoded.set(group.groupId, offset);
+  offset += GROUP_ID_LENGTH;
+  encoded.set(senderKeyId(senderKey.signingPublicKey), offset);
+  offset += KEY_ID_LENGTH;
+  view.setUint32(offset, senderKey.counter, true);
+  offset += 4;
+  encoded.set(nonce, offset);
+  offset += nonce.length;
+  encoded.set(ciphertext, offset);
+  offset += ciphertext.length;
+
+  const signature = nacl.sign.detached(encoded.subarray(0, offset), senderKey.signingSecretKey);
+  encoded.set(signature, offset);
+
+  // Clear sensitive data
+  messageKey.fill(0);
+
+  senderKey.chainKey = nextChainKey;
+  senderKey.counter++;
+
+  return [encoded, { ...group, mySenderKey: senderKey }];
+}
+
+/**
+ * Message key for a message number, stepping the chain forward and keeping
+ * keys for the messages skipped over. Mutates the given (cloned) sender key.
+ */
+function takeMessageKey(senderKey: SenderKey, counter: number): Uint8Array {
+  if (counter < senderKey.counter) {
+    const skipped = senderKey.skippedMessageKeys.get(counter);
+    if (!skipped) {
+      throw new Error(`Group message #${counter + 1} was already received or has expired`);
+    }
+    senderKey.skippedMessageKeys.delete(counter);
+    return skipped;
+  }
+  if (counter - senderKey.counter > MAX_SKIP) {
+    throw new Error('Too many skipped group messages');
+  }
+
+  while (senderKey.counter < counter) {
+    const [nextChainKey, skippedKey] = kdfSenderChain(senderKey.chainKey);
+    senderKey.skippedMessageKeys.set(senderKey.counter, skippedKey);
+    senderKey.chainKey = nextChainKey;
+    senderKey.counter++;
+  }
+
+  // Evict the oldest stored keys beyond the cap
+  const excess = senderKey.skippedMessageKeys.size - MAX_SKIPPED_KEYS;
+  Array.from(senderKey.skippedMessageKeys.keys()).slice(0, Math.max(0, excess))
+    .forEach(key => senderKey.skippedMessageKeys.delete(key));
+
+  const [nextChainKey, messageKey] = kdfSenderChain(senderKey.chainKey);
+  senderKey.chainKey = nextChainKey;
+  senderKey.counter++;
+  return messageKey;
+}
+
+/**
+ * Verify and decrypt a group message from another member.
+ * Returns the plaintext, the new group state and the sender's identity key.
+ * Throws on an unknown sender chain, a bad signature, a replay or a failed decrypt.
+ */
+export function groupDecrypt(group: GroupState, encoded: Uint8Array): [Uint8Array, GroupState, Uint8Array] {
+  const message = decodeGroupMessage(encoded);
+  if (!message) {
+    throw new Error('Not a group message');
+  }
+  if (!bytesEqual(message.groupId, group.groupId)) {
+    throw new Error('Message is for a different group');
+  }
+
+  // Key IDs are short, so pick the chain whose signing key verifies the message
+  const signedPart = encoded.subarray(0, encoded.length - SIGNATURE_LENGTH);
+  const sender = Array.from(group.senderKeys.entries()).find(([, senderKey]) =>
+    bytesEqual(senderKeyId(senderKey.signingPublicKey), message.keyId) &&
+    nacl.sign.detached.verify(signedPart, message.signature, senderKey.signingPublicKey));
+  if (!sender) {
+    if (bytesEqual(senderKeyId(group.mySenderKey.signingPublicKey), message.keyId)) {
+      throw new Error('This group message was sent by us');
+    }
+    throw new Error('Unknown sender key or invalid signature');
+  }
+
+  const [senderId, storedKey] = sender;
+  const senderKey = cloneSenderKey(storedKey);
+  const messageKey = takeMessageKey(senderKey, message.counter);
+  const plaintext = nacl.secretbox.open(message.ciphertext, message.nonce, messageKey);
+
+  // Clear sensitive data
+  messageKey.fill(0);
+
+  if (!plaintext) {
+    throw new Error('Group message failed to decrypt');
+  }
+
+  const senderKeys = new Map(group.senderKeys);
+  senderKeys.set(senderId, senderKey);
+
+  return [plaintext, { ...group, senderKeys }, base32CrockfordToUint8Array(senderId)];
+}
+
+export function findGroupById(groups: GroupState[], groupId: Uint8Array): GroupState | undefined {
+  return groups.find(g => bytesEqual(g.groupId, groupId));
+}
+
+/**
+ * Find the group a message is addressed to. Standard messages start with a random
+ * nonce, so a matching type byte alone does not make a message a group message.
+ */
+export function findGroupForMessage(groups: GroupState[], encoded: Uint8Array): GroupState | undefined {
+  if (!isGroupMessage(encoded) || encoded[1] !== GROUP_MESSAGE_VERSION) {
+    return undefined;
+  }
+  return findGroupById(groups, encoded.subarray(2, 2 + GROUP_ID_LENGTH));
+}
+
+// Sender keys and groups as stored: JSON with keys in base32
+interface StoredSenderKey {
+  chainKey: string;
+  counter: number;
+  signingPublicKey: string;
+  signingSecretKey: string | null;
+  skippedMessageKeys: [number, string][];
+}
+
+interface StoredGroup {
+  groupId: string;
+  name: string;
+  members: string[];
+  admin: string;
+  epoch: number;
+  mySenderKey: StoredSenderKey;
+  senderKeys: [string, StoredSenderKey][];
+  needsKeyShare: boolean;
+  createdAt: number;
+}
+
+function serializeSenderKey(senderKey: SenderKey): StoredSenderKey {
+  return {
+    chainKey: uint8ArrayToBase32Crockford(senderKey.chainKey),
+    counter: senderKey.counter,
+    signingPublicKey: uint8ArrayToBase32Crockford(senderKey.signingPublicKey),
+    signingSecretKey: senderKey.signingSecretKey ? uint8ArrayToBase32Crockford(senderKey.signingSecretKey) : null,
+    skippedMessageKeys: Array.from(senderKey.skippedMessageKeys.entries())
+      .map(([counter, key]) => [counter, uint8ArrayToBase32Crockford(key)])
+  };
+}
+
+function deserializeSenderKey(stored: StoredSenderKey): SenderKey {
+  return {
+    chainKey: base32CrockfordToUint8Array(stored.chainKey),
+    counter: stored.counter,
+    signingPublicKey: base32CrockfordToUint8Array(stored.signingPublicKey),
+    signingSecretKey: stored.signingSecretKey ? base32CrockfordToUint8Array(stored.signingSecretKey) : null,
+    skippedMessageKeys: new Map(stored.skippedMessageKeys.map(
+      ([counter, key]) => [counter, base32CrockfordToUint8Array(key)]))
+  };
+}
+
+export function loadGroups(storeKey: Uint8Array): GroupState[] {
+  try {
+    const stored = loadSealedItem<StoredGroup[]>(GROUPS_STORAGE_KEY, storeKey) ?? [];
+    return stored.map(g => ({
+      groupId: base32CrockfordToUint8Array(g.groupId),
+      name: g.name,
+      members: g.members.map(m => base32CrockfordToUint8Array(m)),
+      admin: base32CrockfordToUint8Array(g.admin),
+      epoch: g.epoch,
+      mySenderKey: deserializeSenderKey(g.mySenderKey),
+      senderKeys: new Map(g.senderKeys.map(([id, k]) => [id, deserializeSenderKey(k)])),
+      needsKeyShare: g.needsKeyShare,
+      createdAt: g.createdAt
+    }));
+  } catch (error) {
+    console.error('Failed to load groups:', error);
+    return [];
+  }
+}
+
+export function saveGroups(groups: GroupState[], storeKey: Uint8Array): void {
+  saveSealedItem(
+    GROUPS_STORAGE_KEY,
+    groups.map((g): StoredGroup => ({
+      groupId: uint8ArrayToBase32Crockford(g.groupId),
+      name: g.name,
+      members: g.members.map(m => uint8ArrayToBase32Crockford(m)),
+      admin: uint8ArrayToBase32Crockford(g.admin),
+      epoch: g.epoch,
+      mySenderKey: serializeSenderKey(g.mySenderKey),
+      senderKeys: Array.from(g.senderKeys.entries()).map(([id, k]) => [id, serializeSenderKey(k)]),
+      needsKeyShare: g.needsKeyShare,
+      createdAt: g.createdAt
+    })),
+    storeKey
+  );
+}
+
+/**
+ * Re-encrypt the stored groups from one store key to another (master key change)
+ */
+export function rekeyGroups(oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  rekeySealedItem(GROUPS_STORAGE_KEY, oldStoreKey, newStoreKey);
+}
+
+export function clearGroups(): void {
+  localStorage.removeItem(GROUPS_STORAGE_KEY);
+}
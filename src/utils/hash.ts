@@ -8,6 +8,72 @@ export async function sha256(data: Uint8Array): Promise<Uint8Array> {
   return new Uint8Array(hash);
 }
 
+// SHA-256 round constants (FIPS 180-4 section 4.2.2)
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/**
+ * Synchronous SHA-256, for callers that cannot await WebCrypto (e.g. BIP39 checksums)
+ */
+export function sha256Sync(data: Uint8Array): Uint8Array {
+  // Pad: 0x80, zeros, then the bit length as a 64-bit big-endian integer
+  const paddedLength = Math.ceil((data.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(data.length / 0x20000000), false);
+  view.setUint32(paddedLength - 4, (data.length << 3) >>> 0, false);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let block = 0; block < paddedLength; block += 64) {
+    for (let t = 0; t < 16; t++) {
+      w[t] = view.getUint32(block + t * 4, false);
+    }
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let t = 0; t < 64; t++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[t] + w[t];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  h.forEach((word, i) => digestView.setUint32(i * 4, word, false));
+  return digest;
+}
+
 /**
  * Clamp a scalar for X25519 operations
  */
@@ -18,3 +84,117 @@ export function clamp25519(scalar: Uint8Array): Uint8Array {
   clamped[31] |= 64;
   return clamped;
 }
+
+// BLAKE2b IV (the SHA-512 IV), as little-endian 32-bit halves: low word first
+const BLAKE2B_IV = new Uint32Array([
+  0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372, 0x5f1d36f1, 0xa54ff53a,
+  0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c, 0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19
+]);
+
+// Message word schedule (RFC 7693 section 2.7); rounds 10 and 11 reuse rows 0 and 1
+const BLAKE2B_SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0]
+];
+
+// 64-bit words are stored as (low, high) pairs of 32-bit halves; v[a] += v[b] + (hi:lo)
+function add64(v: Uint32Array, a: number, b: number, lo: number, hi: number): void {
+  const low = v[a] + v[b] + lo;
+  v[a + 1] = v[a + 1] + v[b + 1] + hi + Math.floor(low / 0x100000000);
+  v[a] = low;
+}
+
+// BLAKE2b mixing function G on word pairs a, b, c, d with message words x and y
+function blake2bMix(v: Uint32Array, m: Uint32Array, a: number, b: number, c: number, d: number, x: number, y: number): void {
+  add64(v, a, b, m[x], m[x + 1]);
+  let lo = v[d] ^ v[a];
+  let hi = v[d + 1] ^ v[a + 1];
+  v[d] = hi; // rotate right 32
+  v[d + 1] = lo;
+
+  add64(v, c, d, 0, 0);
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = (lo >>> 24) | (hi << 8); // rotate right 24
+  v[b + 1] = (hi >>> 24) | (lo << 8);
+
+  add64(v, a, b, m[y], m[y + 1]);
+  lo = v[d] ^ v[a];
+  hi = v[d + 1] ^ v[a + 1];
+  v[d] = (lo >>> 16) | (hi << 16); // rotate right 16
+  v[d + 1] = (hi >>> 16) | (lo << 16);
+
+  add64(v, c, d, 0, 0);
+  lo = v[b] ^ v[c];
+  hi = v[b + 1] ^ v[c + 1];
+  v[b] = (hi >>> 31) | (lo << 1); // rotate right 63
+  v[b + 1] = (lo >>> 31) | (hi << 1);
+}
+
+function blake2bCompress(h: Uint32Array, block: Uint8Array, counter: number, last: boolean): void {
+  const v = new Uint32Array(32);
+  const m = new Uint32Array(32);
+  v.set(h);
+  v.set(BLAKE2B_IV, 16);
+  v[24] ^= counter >>> 0;
+  v[25] ^= Math.floor(counter / 0x100000000);
+  if (last) {
+    v[28] = ~v[28];
+    v[29] = ~v[29];
+  }
+  for (let i = 0; i < 32; i++) {
+    m[i] = block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24);
+  }
+
+  for (let round = 0; round < 12; round++) {
+    const s = BLAKE2B_SIGMA[round % 10];
+    blake2bMix(v, m, 0, 8, 16, 24, s[0] * 2, s[1] * 2);
+    blake2bMix(v, m, 2, 10, 18, 26, s[2] * 2, s[3] * 2);
+    blake2bMix(v, m, 4, 12, 20, 28, s[4] * 2, s[5] * 2);
+    blake2bMix(v, m, 6, 14, 22, 30, s[6] * 2, s[7] * 2);
+    blake2bMix(v, m, 0, 10, 20, 30, s[8] * 2, s[9] * 2);
+    blake2bMix(v, m, 2, 12, 22, 24, s[10] * 2, s[11] * 2);
+    blake2bMix(v, m, 4, 14, 16, 26, s[12] * 2, s[13] * 2);
+    blake2bMix(v, m, 6, 8, 18, 28, s[14] * 2, s[15] * 2);
+  }
+
+  for (let i = 0; i < 32; i++) {
+    h[i] ^= v[i] ^ v[i + 16];
+  }
+}
+
+/**
+ * Unkeyed BLAKE2b (RFC 7693) with a 1-64 byte digest, as used by Argon2
+ */
+export function blake2b(data: Uint8Array, outLength: number = 64): Uint8Array {
+  if (outLength < 1 || outLength > 64) {
+    throw new Error('BLAKE2b digest length must be between 1 and 64 bytes');
+  }
+
+  const h = new Uint32Array(BLAKE2B_IV);
+  h[0] ^= 0x01010000 ^ outLength; // parameter block: digest length, no key, fanout 1, depth 1
+
+  // Every block but the last is compressed as it fills; an empty input is one zero block
+  const block = new Uint8Array(128);
+  let offset = 0;
+  while (data.length - offset > 128) {
+    blake2bCompress(h, data.subarray(offset, offset + 128), offset + 128, false);
+    offset += 128;
+  }
+  block.set(data.subarray(offset));
+  blake2bCompress(h, block, data.length, true);
+
+  const out = new Uint8Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    out[i] = h[i >> 2] >>> (8 * (i & 3));
+  }
+  return out;
+}
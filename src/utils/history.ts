@@ -0,0 +1,115 @@
+/**
+ * Conversation history: an optional plaintext log per ratchet session,
+ * encrypted with the store key and trimmed by a retention policy
+ */
+
+import { HistoryEntry, RetentionPolicy } from '../types/history';
+import { saveSealedItem, loadSealedItem, rekeySealedItem } from './storeBox';
+
+const HISTORY_PREFIX = 'conversation_';
+const SESSION_PREFIX = 'ratchet_';
+const RETENTION_STORAGE_KEY = 'history_retention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Nothing is stored until the user opts in
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = { mode: 'never', days: 30 };
+
+/**
+ * The localStorage key of a session's history (from its getRatchetStorageKey key)
+ */
+export function getHistoryStorageKey(sessionKey: string): string {
+  return HISTORY_PREFIX + sessionKey.slice(SESSION_PREFIX.length);
+}
+
+/**
+ * Drop entries the policy no longer keeps
+ */
+export function applyRetention(
+  entries: HistoryEntry[],
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): HistoryEntry[] {
+  switch (policy.mode) {
+    case 'never':
+      return [];
+    case 'days':
+      return entries.filter(entry => now - entry.timestamp < policy.days * DAY_MS);
+    default:
+      return entries;
+  }
+}
+
+export function loadRetentionPolicy(): RetentionPolicy {
+  try {
+    const stored = localStorage.getItem(RETENTION_STORAGE_KEY);
+    return stored ? { ...DEFAULT_RETENTION_POLICY, ...JSON.parse(stored) } : DEFAULT_RETENTION_POLICY;
+  } catch (error) {
+    console.error('Failed to load history retention policy:', error);
+    return DEFAULT_RETENTION_POLICY;
+  }
+}
+
+export function saveRetentionPolicy(policy: RetentionPolicy): void {
+  localStorage.setItem(RETENTION_STORAGE_KEY, JSON.stringify(policy));
+}
+
+function getHistoryKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(HISTORY_PREFIX)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+export function loadConversation(sessionKey: string, storeKey: Uint8Array): HistoryEntry[] {
+  try {
+    return loadSealedItem<HistoryEntry[]>(getHistoryStorageKey(sessionKey), storeKey) ?? [];
+  } catch (error) {
+    console.error('Failed to load conversation history:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a session's history; an empty history removes the stored entry
+ */
+export function saveConversation(sessionKey: string, entries: HistoryEntry[], storeKey: Uint8Array): void {
+  const storageKey = getHistoryStorageKey(sessionKey);
+  if (entries.length === 0) {
+    localStorage.removeItem(storageKey);
+    return;
+  }
+  saveSealedItem(storageKey, entries, storeKey);
+}
+
+/**
+ * Load every stored history, keyed by session key
+ */
+export function loadAllConversations(storeKey: Uint8Array): Map<string, HistoryEntry[]> {
+  const conversations = new Map<string, HistoryEntry[]>();
+  for (const key of getHistoryKeys()) {
+    const sessionKey = SESSION_PREFIX + key.slice(HISTORY_PREFIX.length);
+    conversations.set(sessionKey, loadConversation(sessionKey, storeKey));
+  }
+  return conversations;
+}
+
+/**
+ * Re-encrypt all histories from one store key to another (master key change)
+ */
+export function rekeyConversations(oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  for (const key of getHistoryKeys()) {
+    try {
+      rekeySealedItem(key, oldStoreKey, newStoreKey);
+    } catch (error) {
+      console.error(`Failed to re-encrypt ${key}:`, error);
+    }
+  }
+}
+
+export function clearConversations(): void {
+  getHistoryKeys().forEach(key => localStorage.removeItem(key));
+}
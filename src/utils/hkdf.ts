@@ -1,8 +1,10 @@
 /**
- * HKDF (HMAC-based Key Derivation Function) implementation using Web Crypto API
+ * HKDF (HMAC-based Key Derivation Function) implementations: SHA-256 via Web Crypto API, SHA-512 via tweetnacl
  * RFC 5869: https://tools.ietf.org/html/rfc5869
  */
 
+import * as nacl from 'tweetnacl';
+
 /**
  * HKDF-Extract: Extract a pseudorandom key from input keying material
  * @param salt - Salt value (can be empty)
@@ -102,4 +104,87 @@ export async function hkdf(
 ): Promise<Uint8Array> {
   const prk = await hkdfExtract(salt, ikm);
   return hkdfExpand(prk, info, length);
-}
\ No newline at end of file
+}
+
+const SHA512_BLOCK_LENGTH = 128;
+const SHA512_HASH_LENGTH = 64;
+
+/**
+ * HMAC-SHA512 (RFC 2104), synchronous via nacl.hash
+ * @param key - HMAC key
+ * @param data - Message to authenticate
+ * @returns 64-byte MAC
+ */
+export function hmacSha512(key: Uint8Array, data: Uint8Array): Uint8Array {
+  // Keys longer than the block size are hashed first
+  const blockKey = new Uint8Array(SHA512_BLOCK_LENGTH);
+  blockKey.set(key.length > SHA512_BLOCK_LENGTH ? nacl.hash(key) : key);
+
+  const inner = new Uint8Array(SHA512_BLOCK_LENGTH + data.length);
+  const outer = new Uint8Array(SHA512_BLOCK_LENGTH + SHA512_HASH_LENGTH);
+  for (let i = 0; i < SHA512_BLOCK_LENGTH; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+  inner.set(data, SHA512_BLOCK_LENGTH);
+  outer.set(nacl.hash(inner), SHA512_BLOCK_LENGTH);
+
+  const mac = nacl.hash(outer);
+
+  // Clear sensitive data
+  blockKey.fill(0);
+  inner.fill(0);
+  outer.fill(0);
+
+  return mac;
+}
+
+/**
+ * Synchronous HKDF with SHA-512 (Extract + Expand)
+ * Used where WebCrypto's async API cannot be awaited, e.g. the ratchet KDFs
+ * @param salt - Salt value (empty means HashLen zero bytes)
+ * @param ikm - Input keying material
+ * @param info - Context information
+ * @param length - Desired output length
+ * @returns Output keying material
+ */
+export function hkdfSha512(
+  salt: Uint8Array,
+  ikm: Uint8Array,
+  info: Uint8Array,
+  length: number
+): Uint8Array {
+  if (length > 255 * SHA512_HASH_LENGTH) {
+    throw new Error('Output length exceeds maximum (255 * HashLen)');
+  }
+
+  // PRK = HMAC-Hash(salt, IKM)
+  const prk = hmacSha512(salt.length === 0 ? new Uint8Array(SHA512_HASH_LENGTH) : salt, ikm);
+
+  const okm = new Uint8Array(length);
+  let offset = 0;
+  let counter = 1;
+  let previousBlock: Uint8Array = new Uint8Array(0);
+
+  while (offset < length) {
+    // T(i) = HMAC(PRK, T(i-1) || info || counter)
+    const input = new Uint8Array(previousBlock.length + info.length + 1);
+    input.set(previousBlock, 0);
+    input.set(info, previousBlock.length);
+    input[previousBlock.length + info.length] = counter;
+
+    const block = hmacSha512(prk, input);
+    const bytesToCopy = Math.min(SHA512_HASH_LENGTH, length - offset);
+    okm.set(block.slice(0, bytesToCopy), offset);
+
+    previousBlock = block;
+    offset += bytesToCopy;
+    counter++;
+  }
+
+  // Clear sensitive data
+  prk.fill(0);
+  previousBlock.fill(0);
+
+  return okm;
+}
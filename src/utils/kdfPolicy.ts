@@ -0,0 +1,116 @@
+/**
+ * KDF cost policy for the sealed URL fragment: a floor that every slot must
+ * meet, a per-device calibration that picks the cost from a target unlock
+ * time, and the KDF chosen for new seals.
+ */
+
+import { scrypt } from 'scrypt-js';
+import { argon2id } from './argon2';
+import { Argon2idCost, KdfCost, KdfName, KdfProgress, ScryptCost } from './seal';
+
+// Slots sealed below these are re-sealed after their next successful unlock
+export const SCRYPT_POLICY_MIN_N = 32768;
+export const ARGON2_POLICY_MIN_M = 16384; // KiB, at ARGON2_PASSES passes
+// 128 MiB; more runs mobile browsers out of memory
+export const SCRYPT_MAX_N = 131072;
+export const ARGON2_MAX_M = 131072;
+// Upper bound for scrypt r and p and Argon2id passes and lanes read from a fragment
+export const KDF_MAX_FACTOR = 16;
+export const DEFAULT_UNLOCK_TARGET_MS = 1000;
+
+const PREFERRED_KDF_STORAGE_KEY = 'fragment_kdf';
+
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const ARGON2_PASSES = 3;
+const ARGON2_LANES = 1; // lanes run one after another in JavaScript, so more only add overhead
+const SCRYPT_PROBE_N = 8192;
+const ARGON2_PROBE_M = 4096;
+
+// Milliseconds per unit of cost on this device (N for scrypt, KiB per pass for Argon2id), measured once per session
+const measured: Partial<Record<KdfName, number>> = {};
+
+export function meetsKdfPolicy(cost: KdfCost): boolean {
+  if (cost.kdf === 'argon2id') {
+    return cost.m >= ARGON2_POLICY_MIN_M && cost.t >= ARGON2_PASSES;
+  }
+  return cost.N >= SCRYPT_POLICY_MIN_N && cost.r >= SCRYPT_R && cost.p >= SCRYPT_P;
+}
+
+// The largest power-of-two multiple of `min` whose estimated time fits the target, capped at `max`
+function chooseCost(msPerUnit: number, targetMs: number, min: number, max: number): number {
+  let cost = min;
+  while (cost < max && cost * 2 * msPerUnit <= targetMs) {
+    cost *= 2;
+  }
+  return cost;
+}
+
+/**
+ * The largest power-of-two N whose estimated time fits the target, never below
+ * the policy floor or above the memory cap
+ */
+export function chooseScryptN(msPerN: number, targetMs: number = DEFAULT_UNLOCK_TARGET_MS): number {
+  return chooseCost(msPerN, targetMs, SCRYPT_POLICY_MIN_N, SCRYPT_MAX_N);
+}
+
+/**
+ * The same for Argon2id memory in KiB, given the time per KiB of one pass
+ */
+export function chooseArgon2Memory(msPerKiB: number, targetMs: number = DEFAULT_UNLOCK_TARGET_MS): number {
+  return chooseCost(msPerKiB * ARGON2_PASSES, targetMs, ARGON2_POLICY_MIN_M, ARGON2_MAX_M);
+}
+
+/**
+ * Benchmark scrypt on this device and pick the cost for new seals. Scrypt time
+ * grows linearly in N, so one small probe run is enough to extrapolate.
+ */
+export async function calibrateScrypt(
+  targetMs: number = DEFAULT_UNLOCK_TARGET_MS,
+  onProgress?: KdfProgress
+): Promise<ScryptCost> {
+  if (measured.scrypt === undefined) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const start = performance.now();
+    await scrypt(new Uint8Array(32), salt, SCRYPT_PROBE_N, SCRYPT_R, SCRYPT_P, 32, progress => { onProgress?.(progress); });
+    measured.scrypt = (performance.now() - start) / SCRYPT_PROBE_N;
+  }
+  onProgress?.(1);
+  return { kdf: 'scrypt', N: chooseScryptN(measured.scrypt, targetMs), r: SCRYPT_R, p: SCRYPT_P };
+}
+
+/**
+ * Benchmark Argon2id the same way: time grows linearly in memory times passes
+ */
+export async function calibrateArgon2id(
+  targetMs: number = DEFAULT_UNLOCK_TARGET_MS,
+  onProgress?: KdfProgress
+): Promise<Argon2idCost> {
+  if (measured.argon2id === undefined) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const start = performance.now();
+    await argon2id(new Uint8Array(32), salt, { m: ARGON2_PROBE_M, t: 1, p: ARGON2_LANES }, 32, onProgress);
+    measured.argon2id = (performance.now() - start) / ARGON2_PROBE_M;
+  }
+  onProgress?.(1);
+  return { kdf: 'argon2id', m: chooseArgon2Memory(measured.argon2id, targetMs), t: ARGON2_PASSES, p: ARGON2_LANES };
+}
+
+export function calibrateKdf(
+  kdf: KdfName,
+  targetMs: number = DEFAULT_UNLOCK_TARGET_MS,
+  onProgress?: KdfProgress
+): Promise<KdfCost> {
+  return kdf === 'argon2id' ? calibrateArgon2id(targetMs, onProgress) : calibrateScrypt(targetMs, onProgress);
+}
+
+/**
+ * The KDF for new fragments and re-wrapped slots; scrypt unless Argon2id was chosen
+ */
+export function loadPreferredKdf(): KdfName {
+  return localStorage.getItem(PREFERRED_KDF_STORAGE_KEY) === 'argon2id' ? 'argon2id' : 'scrypt';
+}
+
+export function savePreferredKdf(kdf: KdfName): void {
+  localStorage.setItem(PREFERRED_KDF_STORAGE_KEY, kdf);
+}
@@ -0,0 +1,384 @@
+/**
+ * Ladder Protocol Implementation
+ * Lightweight Asynchronous Deterministic Double-Ratchet (see docs/LADDER_IMPLEMENTATION.md)
+ */
+
+import * as nacl from 'tweetnacl';
+import { KeyPair } from '../types';
+import { RatchetState } from '../types/ratchet';
+import { LadderMessage, LadderSession, PublicKeyBundle } from '../types/ladder';
+import { hkdfExtract, hkdfExpand } from './hkdf';
+import { sha256, clamp25519 } from './hash';
+import { initializeRatchetFromLadder, ratchetEncrypt, ratchetDecrypt } from './ratchet';
+
+const te = new TextEncoder();
+
+// Stable labels (ASCII exact) - must remain constant for protocol compatibility
+const LABEL_SEED = 'ladder-seed-v1';
+const LABEL_OPK = 'ladder-opk';
+const LABEL_HANDSHAKE = 'ladder-v1';
+const LABEL_DR_INIT = 'dr-init-v1';
+const LABEL_BUNDLE = 'ladder-bundle-v1';
+
+// Envelope type byte, distinct from the ratchet message version bytes
+export const LADDER_MESSAGE_TYPE = 0x4c; // 'L'
+const LADDER_VERSION = 1;
+
+// type(1) + version(1) + index(4) + identity(32) + ephemeral(32) + payload_len(4)
+const LADDER_HEADER_LENGTH = 74;
+
+// Signed bundle: version(1) + IK_dh_pub(32) + ES_pub(32) + IK_sig_pub(32) + signature(64)
+export const SIGNED_BUNDLE_VERSION = 0x01;
+export const SIGNED_BUNDLE_LENGTH = 161;
+
+/**
+ * Encode a string label as bytes
+ */
+function label(value: string): Uint8Array {
+  return new Uint8Array(te.encode(value));
+}
+
+/**
+ * Build the OPK info string: "ladder-opk" || SHA256(IK_A_pub) || LE32(i)
+ */
+async function opkInfo(identityPublicKey: Uint8Array, i: number): Promise<Uint8Array> {
+  const prefix = label(LABEL_OPK);
+  const fpr = await sha256(identityPublicKey);
+  const info = new Uint8Array(prefix.length + fpr.length + 4);
+  info.set(prefix, 0);
+  info.set(fpr, prefix.length);
+  new DataView(info.buffer).setUint32(prefix.length + fpr.length, i, true);
+  return info;
+}
+
+/**
+ * Derive the OPK secret for index i from the shared ladder seed
+ */
+async function deriveOPKSecretFromSeed(
+  seed: Uint8Array,
+  identityPublicKey: Uint8Array,
+  i: number
+): Promise<Uint8Array> {
+  if (!Number.isInteger(i) || i < 1 || i > 0xffffffff) {
+    throw new Error(`Invalid OPK index: ${i}`);
+  }
+
+  // PRK = HKDF-Extract("ladder-seed-v1", seed)
+  const prk = await hkdfExtract(label(LABEL_SEED), seed);
+  const info = await opkInfo(identityPublicKey, i);
+  const secret = clamp25519(await hkdfExpand(prk, info, 32));
+
+  // Clear sensitive data
+  prk.fill(0);
+
+  return secret;
+}
+
+/**
+ * Initiator (Alice) computes peer OPK PUBLIC for index i
+ */
+export async function deriveOPKPublic_Initiator(
+  ES_B_pub: Uint8Array,    // Peer's ephemeral seed public
+  IK_A_sk: Uint8Array,     // My identity secret (X25519)
+  i: number                // Counter value
+): Promise<Uint8Array> {
+  // seed = X25519(IK_A_sk, ES_B_pub)
+  const seed = nacl.scalarMult(IK_A_sk, ES_B_pub);
+  // OPKs are audience-bound to the initiator's identity
+  const IK_A_pub = nacl.scalarMult.base(IK_A_sk);
+  const SK_i = await deriveOPKSecretFromSeed(seed, IK_A_pub, i);
+  const PK_i = nacl.scalarMult.base(SK_i); // PK_i = X25519(SK_i, BasePoint)
+
+  // Clear sensitive data
+  seed.fill(0);
+  SK_i.fill(0);
+
+  return PK_i;
+}
+
+/**
+ * Responder (Bob) computes OPK SECRET for index i
+ */
+export async function deriveOPKSecret_Responder(
+  ES_B_sk: Uint8Array,     // My ephemeral seed secret
+  IK_A_pub: Uint8Array,    // Peer's identity public
+  i: number                // Counter value
+): Promise<Uint8Array> {
+  // seed = X25519(ES_B_sk, IK_A_pub) - same seed as Alice
+  const seed = nacl.scalarMult(ES_B_sk, IK_A_pub);
+  const SK_i = await deriveOPKSecretFromSeed(seed, IK_A_pub, i);
+
+  // Clear sensitive data
+  seed.fill(0);
+
+  return SK_i;
+}
+
+/**
+ * Derive RK0 || CKs0 from the three handshake DH outputs
+ */
+async function deriveLadderSession(
+  dh1: Uint8Array,
+  dh2: Uint8Array,
+  dh3: Uint8Array
+): Promise<LadderSession> {
+  // DH_concat = DH1 || DH2 || DH3
+  const dhConcat = new Uint8Array(96);
+  dhConcat.set(dh1, 0);
+  dhConcat.set(dh2, 32);
+  dhConcat.set(dh3, 64);
+
+  // SK = HKDF-Extract("ladder-v1", DH_concat)
+  const sharedSecret = await hkdfExtract(label(LABEL_HANDSHAKE), dhConcat);
+
+  // RK0 || CKs0 = HKDF-Expand(SK, "dr-init-v1", 64)
+  const keys = await hkdfExpand(sharedSecret, label(LABEL_DR_INIT), 64);
+
+  // Clear sensitive data
+  dhConcat.fill(0);
+
+  return {
+    sharedSecret,
+    rootKey: keys.slice(0, 32),
+    chainKey: keys.slice(32, 64)
+  };
+}
+
+/**
+ * Start a new session with a PreKeyInit header (one-way start, Alice → Bob)
+ */
+export async function createLadderMessage(
+  myIdentity: KeyPair,
+  theirIdentityKey: Uint8Array,
+  theirEphemeralSeed: Uint8Array,
+  index: number,
+  plaintext: Uint8Array
+): Promise<[LadderMessage, RatchetState]> {
+  // Generate fresh ephemeral for this session
+  const sessionEphemeral = nacl.box.keyPair();
+
+  // Derive their OPK public key for this index
+  const OPK_B_i_pub = await deriveOPKPublic_Initiator(
+    theirEphemeralSeed,         // ES_B_pub
+    myIdentity.secretKey,       // IK_A_sk
+    index
+  );
+
+  // Compute 3DH operations (fixed order)
+  const dh1 = nacl.box.before(theirIdentityKey, myIdentity.secretKey);
+  const dh2 = nacl.box.before(theirIdentityKey, sessionEphemeral.secretKey);
+  const dh3 = nacl.box.before(OPK_B_i_pub, sessionEphemeral.secretKey);
+
+  const session = await deriveLadderSession(dh1, dh2, dh3);
+
+  // Initialize ratchet as initiator and encrypt
+  const ratchetState = initializeRatchetFromLadder(myIdentity, theirIdentityKey, session, true);
+  const [encryptedPayload, newState] = ratchetEncrypt(ratchetState, plaintext);
+
+  // Clear sensitive data
+  dh1.fill(0);
+  dh2.fill(0);
+  dh3.fill(0);
+  session.sharedSecret.fill(0);
+  sessionEphemeral.secretKey.fill(0);
+
+  return [
+    {
+      version: LADDER_VERSION,
+      opkIndex: index,
+      senderIdentityKey: new Uint8Array(myIdentity.publicKey),
+      senderEphemeralKey: sessionEphemeral.publicKey,
+      encryptedPayload
+    },
+    newState
+  ];
+}
+
+/**
+ * Accept a PreKeyInit message and decrypt its payload (Bob)
+ *
+ * Replay checks on the OPK index are the caller's responsibility (see ladderState.ts).
+ */
+export async function processLadderMessage(
+  myIdentity: KeyPair,
+  myEphemeralSeed: KeyPair,
+  message: LadderMessage
+): Promise<[Uint8Array, RatchetState]> {
+  // Derive my OPK secret for this index
+  const SK_i = await deriveOPKSecret_Responder(
+    myEphemeralSeed.secretKey,     // ES_B_sk
+    message.senderIdentityKey,     // IK_A_pub
+    message.opkIndex
+  );
+
+  // Compute same 3DH operations (from Bob's perspective)
+  const dh1 = nacl.box.before(message.senderIdentityKey, myIdentity.secretKey);
+  const dh2 = nacl.box.before(message.senderEphemeralKey, myIdentity.secretKey);
+  const dh3 = nacl.box.before(message.senderEphemeralKey, SK_i);
+
+  const session = await deriveLadderSession(dh1, dh2, dh3);
+
+  // Clear sensitive data
+  dh1.fill(0);
+  dh2.fill(0);
+  dh3.fill(0);
+  SK_i.fill(0);
+  session.sharedSecret.fill(0);
+
+  // Initialize ratchet as responder and decrypt
+  const ratchetState = initializeRatchetFromLadder(
+    myIdentity,
+    message.senderIdentityKey,
+    session,
+    false
+  );
+
+  return ratchetDecrypt(ratchetState, message.encryptedPayload);
+}
+
+/**
+ * Check whether a message starts with the Ladder envelope type byte
+ */
+export function isLadderMessage(encoded: Uint8Array): boolean {
+  return encoded.length >= LADDER_HEADER_LENGTH && encoded[0] === LADDER_MESSAGE_TYPE;
+}
+
+/**
+ * Encode a Ladder message
+ * Format: [type(1)] [version(1)] [index(4)] [identity(32)] [ephemeral(32)] [payload_len(4)] [payload]
+ */
+export function encodeLadderMessage(message: LadderMessage): Uint8Array {
+  const encoded = new Uint8Array(LADDER_HEADER_LENGTH + message.encryptedPayload.length);
+  const view = new DataView(encoded.buffer);
+  let offset = 0;
+
+  encoded[offset++] = LADDER_MESSAGE_TYPE;
+  encoded[offset++] = message.version;
+
+  // Index (little-endian)
+  view.setUint32(offset, message.opkIndex, true);
+  offset += 4;
+
+  // Keys
+  encoded.set(message.senderIdentityKey, offset);
+  offset += 32;
+  encoded.set(message.senderEphemeralKey, offset);
+  offset += 32;
+
+  // Payload length and data
+  view.setUint32(offset, message.encryptedPayload.length, true);
+  offset += 4;
+  encoded.set(message.encryptedPayload, offset);
+
+  return encoded;
+}
+
+/**
+ * Decode a Ladder message, returning null if it is not a Ladder envelope
+ */
+export function decodeLadderMessage(encoded: Uint8Array): LadderMessage | null {
+  if (!isLadderMessage(encoded)) {
+    return null;
+  }
+  if (encoded[1] !== LADDER_VERSION) {
+    throw new Error(`Unknown Ladder version: ${encoded[1]}`);
+  }
+
+  const view = new DataView(encoded.buffer, encoded.byteOffset, encoded.byteLength);
+  let offset = 2;
+
+  const opkIndex = view.getUint32(offset, true);
+  offset += 4;
+
+  const senderIdentityKey = encoded.slice(offset, offset + 32);
+  offset += 32;
+
+  const senderEphemeralKey = encoded.slice(offset, offset + 32);
+  offset += 32;
+
+  const payloadLength = view.getUint32(offset, true);
+  offset += 4;
+
+  if (encoded.length - offset !== payloadLength) {
+    throw new Error('Ladder payload length mismatch');
+  }
+
+  const encryptedPayload = encoded.slice(offset, offset + payloadLength);
+
+  return {
+    version: LADDER_VERSION,
+    opkIndex,
+    senderIdentityKey,
+    senderEphemeralKey,
+    encryptedPayload
+  };
+}
+
+/**
+ * Signed part of a bundle: "ladder-bundle-v1" || version || IK_dh_pub || ES_pub || IK_sig_pub
+ */
+function bundleSignatureMessage(bundle: Uint8Array): Uint8Array {
+  const prefix = label(LABEL_BUNDLE);
+  const signed = bundle.subarray(0, SIGNED_BUNDLE_LENGTH - nacl.sign.signatureLength);
+  const message = new Uint8Array(prefix.length + signed.length);
+  message.set(prefix, 0);
+  message.set(signed, prefix.length);
+  return message;
+}
+
+/**
+ * Build our signed bundle; the signature binds the ephemeral seed to the identity key
+ * Format: [version(1)] [IK_dh_pub(32)] [ES_pub(32)] [IK_sig_pub(32)] [signature(64)]
+ */
+export function createSignedBundle(
+  identityKey: Uint8Array,
+  ephemeralSeed: Uint8Array,
+  signingKeyPair: KeyPair
+): Uint8Array {
+  const bundle = new Uint8Array(SIGNED_BUNDLE_LENGTH);
+  bundle[0] = SIGNED_BUNDLE_VERSION;
+  bundle.set(identityKey, 1);
+  bundle.set(ephemeralSeed, 33);
+  bundle.set(signingKeyPair.publicKey, 65);
+  bundle.set(nacl.sign.detached(bundleSignatureMessage(bundle), signingKeyPair.secretKey), 97);
+  return bundle;
+}
+
+/**
+ * Parse a received key or bundle. Signed bundles are verified and throw if the
+ * signature does not match; unsigned ones rely on out-of-band trust.
+ */
+export function parsePublicKeyBundle(keyOrBundle: Uint8Array): PublicKeyBundle {
+  if (keyOrBundle.length === 32) {
+    return { identityKey: keyOrBundle, ephemeralSeed: null, signingKey: null };
+  } else if (keyOrBundle.length === 64) {
+    return {
+      identityKey: keyOrBundle.slice(0, 32),    // IK_dh_pub
+      ephemeralSeed: keyOrBundle.slice(32, 64), // ES_pub
+      signingKey: null
+    };
+  } else if (keyOrBundle.length === SIGNED_BUNDLE_LENGTH) {
+    if (keyOrBundle[0] !== SIGNED_BUNDLE_VERSION) {
+      throw new Error(`Unknown bundle version: ${keyOrBundle[0]}`);
+    }
+    const signingKey = keyOrBundle.slice(65, 97);
+    if (!nacl.sign.detached.verify(bundleSignatureMessage(keyOrBundle), keyOrBundle.slice(97), signingKey)) {
+      throw new Error('Invalid bundle signature');
+    }
+    return {
+      identityKey: keyOrBundle.slice(1, 33),    // IK_dh_pub
+      ephemeralSeed: keyOrBundle.slice(33, 65), // ES_pub
+      signingKey                                // IK_sig_pub
+    };
+  } else {
+    throw new Error(`Invalid key size: ${keyOrBundle.length} bytes`);
+  }
+}
+
+/**
+ * An unsigned 64-byte bundle: its ephemeral seed is not bound to the identity
+ * key, so a relay could have swapped it
+ */
+export function isUnsignedBundle(bundle: PublicKeyBundle): boolean {
+  return bundle.ephemeralSeed !== null && bundle.signingKey === null;
+}
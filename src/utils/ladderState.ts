@@ -0,0 +1,91 @@
+/**
+ * Ladder counter storage (persistent OPK indices per peer), sealed under the
+ * store key so the replay bound cannot be edited unnoticed
+ */
+
+import { saveSealedItem, loadSealedItem, rekeySealedItem } from './storeBox';
+
+const COUNTER_STORAGE_KEY = 'ladder_counters';
+
+interface CounterState {
+  [peerId: string]: {
+    nextIndex?: number;
+    maxSpentIndex?: number;
+  };
+}
+
+/**
+ * Load the counters: empty if none are stored, throws if they do not open with
+ * this key so a bad record never silently resets the replay bound
+ */
+export function loadCounters(storeKey: Uint8Array): CounterState {
+  return loadSealedItem<CounterState>(COUNTER_STORAGE_KEY, storeKey) ?? {};
+}
+
+export function saveCounters(state: CounterState, storeKey: Uint8Array): void {
+  saveSealedItem(COUNTER_STORAGE_KEY, state, storeKey);
+}
+
+/**
+ * Seal counters stored as plain JSON before the store key existed.
+ * Returns true if a plaintext record was migrated.
+ */
+export function migrateCounters(storeKey: Uint8Array): boolean {
+  const stored = localStorage.getItem(COUNTER_STORAGE_KEY);
+  // Sealed records are Base32, which never starts with '{'
+  if (!stored?.startsWith('{')) {
+    return false;
+  }
+
+  try {
+    saveCounters(JSON.parse(stored), storeKey);
+    return true;
+  } catch (error) {
+    console.error('Failed to migrate ladder counters:', error);
+    return false;
+  }
+}
+
+/**
+ * Re-encrypt the counters from one store key to another (master key change)
+ */
+export function rekeyCounters(oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  rekeySealedItem(COUNTER_STORAGE_KEY, oldStoreKey, newStoreKey);
+}
+
+/**
+ * Reserve the next OPK index to use towards a peer (sender side)
+ */
+export function getNextIndex(peerId: string, storeKey: Uint8Array): number {
+  const counters = loadCounters(storeKey);
+  const current = counters[peerId]?.nextIndex || 1;
+
+  // Update and save
+  counters[peerId] = { ...counters[peerId], nextIndex: current + 1 };
+  saveCounters(counters, storeKey);
+
+  return current;
+}
+
+/**
+ * Accept an OPK index from a peer (receiver side), rejecting replays
+ */
+export function checkAndUpdateMaxSpent(
+  peerId: string,
+  index: number,
+  storeKey: Uint8Array
+): boolean {
+  const counters = loadCounters(storeKey);
+  const maxSpent = counters[peerId]?.maxSpentIndex || 0;
+
+  // Reject if replay
+  if (index <= maxSpent) {
+    return false;
+  }
+
+  // Update and save
+  counters[peerId] = { ...counters[peerId], maxSpentIndex: index };
+  saveCounters(counters, storeKey);
+
+  return true;
+}
@@ -3,12 +3,47 @@
  */
 
 import * as nacl from 'tweetnacl';
-import { RatchetState, RatchetMessage, SerializedRatchetState } from '../types/ratchet';
+import { RatchetState, RatchetMessage, RatchetOptions, HeaderKeys, SkippedKeyLimits, SerializedRatchetState } from '../types/ratchet';
 import { KeyPair } from '../types';
+import { LadderSession } from '../types/ladder';
 import { deriveKeyFromMasterKey } from './crypto';
+import { hkdfSha512 } from './hkdf';
+import { encodeRatchetState, decodeRatchetState, RATCHET_STATE_FORMAT_JSON } from './ratchetSerialization';
 
 const MAX_SKIP = 100; // Maximum number of messages that can be skipped
 
+// Sessions encrypted under the scrypt store key; unprefixed entries used the master key hash
+export const RATCHET_STORE_PREFIX = 'sk1.';
+
+// Bounds on stored out-of-order state, applied after every decrypt
+export const DEFAULT_SKIPPED_KEY_LIMITS: SkippedKeyLimits = {
+  maxSkippedKeys: 1000,
+  maxPreviousChains: 5,
+  maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
+};
+
+export const RATCHET_VERSION = 0x01;      // Header sent in the clear, not bound to the ciphertext
+export const RATCHET_VERSION_AUTH = 0x02; // Header and identity keys authenticated as associated data
+export const RATCHET_VERSION_HEADER_ENCRYPTED = 0x03; // Header encrypted under header keys, authenticated as AD
+
+const HEADER_LENGTH = 41; // version(1) + ephemeral(32) + previous counter(4) + counter(4)
+const HEADER_FIELDS_LENGTH = HEADER_LENGTH - 1;
+// version(1) + header nonce(24) + secretbox(header fields)
+const ENCRYPTED_HEADER_LENGTH = 1 + 24 + HEADER_FIELDS_LENGTH + 16;
+export const KDF_VERSION_LEGACY = 1; // Raw SHA-512 over concatenations
+export const KDF_VERSION_HKDF = 2;   // Labeled HKDF-SHA512
+
+const AD_KEY_LABEL = new Uint8Array(new TextEncoder().encode('ratchet-ad'));
+const HEADER_KEY_LABEL = new Uint8Array(new TextEncoder().encode('ratchet-header'));
+
+// HKDF info labels (KDF version 2) - must remain constant for protocol compatibility
+const KDF_LABEL_INIT = new Uint8Array(new TextEncoder().encode('ratchet-init-v2'));
+const KDF_LABEL_ROOT = new Uint8Array(new TextEncoder().encode('ratchet-root-v2'));
+const KDF_LABEL_CHAIN = new Uint8Array(new TextEncoder().encode('ratchet-chain-v2'));
+const KDF_LABEL_MESSAGE = new Uint8Array(new TextEncoder().encode('ratchet-message-v2'));
+const KDF_LABEL_HEADER_INIT = new Uint8Array(new TextEncoder().encode('ratchet-header-init-v2'));
+const KDF_LABEL_HEADER = new Uint8Array(new TextEncoder().encode('ratchet-header-v2'));
+
 /**
  * Concatenate two Uint8Arrays
  */
@@ -31,6 +66,42 @@ function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
   return result === 0;
 }
 
+/**
+ * Associated data for authenticated headers: IK_sender || IK_receiver || header
+ */
+function buildAssociatedData(
+  senderIdentityKey: Uint8Array,
+  receiverIdentityKey: Uint8Array,
+  header: Uint8Array
+): Uint8Array {
+  const ad = new Uint8Array(senderIdentityKey.length + receiverIdentityKey.length + header.length);
+  ad.set(senderIdentityKey, 0);
+  ad.set(receiverIdentityKey, senderIdentityKey.length);
+  ad.set(header, senderIdentityKey.length + receiverIdentityKey.length);
+  return ad;
+}
+
+/**
+ * Bind associated data into the message key.
+ * secretbox has no AD input, so the AD is folded into the key:
+ * K_ad = SHA-512("ratchet-ad" || messageKey || SHA-512(AD))[0..32]
+ * Any change to the header or identities yields a different key and
+ * the Poly1305 tag no longer verifies.
+ */
+function bindAssociatedData(messageKey: Uint8Array, ad: Uint8Array): Uint8Array {
+  const adHash = nacl.hash(ad);
+  const input = new Uint8Array(AD_KEY_LABEL.length + messageKey.length + adHash.length);
+  input.set(AD_KEY_LABEL, 0);
+  input.set(messageKey, AD_KEY_LABEL.length);
+  input.set(adHash, AD_KEY_LABEL.length + messageKey.length);
+  const boundKey = nacl.hash(input).slice(0, 32);
+  
+  // Clear sensitive data
+  input.fill(0);
+  
+  return boundKey;
+}
+
 /**
  * Diffie-Hellman key exchange using Curve25519
  */
@@ -43,7 +114,13 @@ function dh(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array {
 /**
  * Root KDF - derives new root key and chain key
  */
-function kdfRootKey(rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uint8Array] {
+function kdfRootKey(rootKey: Uint8Array, dhOutput: Uint8Array, kdfVersion: number): [Uint8Array, Uint8Array] {
+  if (kdfVersion === KDF_VERSION_HKDF) {
+    // RK' || CK = HKDF(salt = RK, ikm = DH, "ratchet-root-v2")
+    const output = hkdfSha512(rootKey, dhOutput, KDF_LABEL_ROOT, 64);
+    return [output.slice(0, 32), output.slice(32, 64)];
+  }
+  
   const input = concat(rootKey, dhOutput);
   const output = nacl.hash(input); // SHA-512
   const newRootKey = output.slice(0, 32);
@@ -55,10 +132,187 @@ function kdfRootKey(rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uin
   return [newRootKey, newChainKey];
 }
 
+/**
+ * Header KDF - derives the next header key alongside a root KDF step
+ */
+function kdfHeaderKey(rootKey: Uint8Array, dhOutput: Uint8Array, kdfVersion: number): Uint8Array {
+  if (kdfVersion === KDF_VERSION_HKDF) {
+    return hkdfSha512(rootKey, dhOutput, KDF_LABEL_HEADER, 32);
+  }
+  
+  const input = concat(concat(rootKey, dhOutput), HEADER_KEY_LABEL);
+  const headerKey = nacl.hash(input).slice(0, 32);
+  
+  // Clear sensitive data
+  input.fill(0);
+  
+  return headerKey;
+}
+
+/**
+ * Derive the initial header keys (HK0, NHK0) for a Ladder session.
+ * Both parties start from the same pair; HK0 covers the initiator's handshake
+ * chain and NHK0 the first ratcheted chain in either direction.
+ */
+function deriveInitialHeaderKeys(secret: Uint8Array, kdfVersion: number): HeaderKeys {
+  let output: Uint8Array;
+  if (kdfVersion === KDF_VERSION_HKDF) {
+    output = hkdfSha512(new Uint8Array(0), secret, KDF_LABEL_HEADER_INIT, 64);
+  } else {
+    const input = concat(secret, HEADER_KEY_LABEL);
+    output = nacl.hash(input);
+    
+    // Clear sensitive data
+    input.fill(0);
+  }
+  const headerKey = output.slice(0, 32);
+  const nextHeaderKey = output.slice(32, 64);
+  
+  return {
+    sending: new Uint8Array(headerKey),
+    receiving: new Uint8Array(headerKey),
+    nextSending: new Uint8Array(nextHeaderKey),
+    nextReceiving: new Uint8Array(nextHeaderKey)
+  };
+}
+
+/**
+ * Clone state to avoid mutations, including deep copy of Maps
+ */
+function cloneState(state: RatchetState): RatchetState {
+  return {
+    ...state,
+    skippedMessageKeys: new Map(state.skippedMessageKeys),
+    previousReceivingChains: new Map(
+      Array.from(state.previousReceivingChains.entries()).map(([k, v]) => [k, {
+        chainKey: new Uint8Array(v.chainKey),
+        messageCounter: v.messageCounter,
+        headerKey: v.headerKey ? new Uint8Array(v.headerKey) : undefined,
+        storedAt: v.storedAt
+      }])
+    ),
+    headerKeys: state.headerKeys ? { ...state.headerKeys } : null
+  };
+}
+
+/**
+ * Drop entries older than maxAge, then evict the oldest until at most maxEntries remain
+ */
+function evictStoredEntries<T extends { storedAt: number }>(
+  entries: Map<string, T>,
+  maxEntries: number,
+  maxAge: number,
+  now: number
+): void {
+  entries.forEach((entry, key) => {
+    if (now - entry.storedAt >= maxAge) {
+      entries.delete(key);
+    }
+  });
+  
+  if (entries.size <= maxEntries) {
+    return;
+  }
+  
+  // Stable sort keeps insertion order among entries stored in the same millisecond
+  const oldestFirst = Array.from(entries.entries()).sort((a, b) => a[1].storedAt - b[1].storedAt);
+  for (let i = 0; i < oldestFirst.length - maxEntries; i++) {
+    entries.delete(oldestFirst[i][0]);
+  }
+}
+
+/**
+ * Apply skipped key limits in place
+ */
+function applySkippedKeyLimits(state: RatchetState, limits: SkippedKeyLimits, now: number): void {
+  const chainsBefore = Array.from(state.previousReceivingChains.entries());
+  evictStoredEntries(state.previousReceivingChains, limits.maxPreviousChains, limits.maxAge, now);
+  
+  // With encrypted headers an evicted chain's header key is gone, so its skipped keys can never be used
+  chainsBefore.forEach(([ephemeralKeyStr, chain]) => {
+    if (chain.headerKey && !state.previousReceivingChains.has(ephemeralKeyStr)) {
+      state.skippedMessageKeys.forEach((_, key) => {
+        if (key.startsWith(`${ephemeralKeyStr}-`)) {
+          state.skippedMessageKeys.delete(key);
+        }
+      });
+    }
+  });
+  
+  evictStoredEntries(state.skippedMessageKeys, limits.maxSkippedKeys, limits.maxAge, now);
+}
+
+/**
+ * Expire old skipped keys and previous chains, and evict the oldest beyond the caps
+ */
+export function pruneSkippedKeys(
+  state: RatchetState,
+  limits: SkippedKeyLimits = DEFAULT_SKIPPED_KEY_LIMITS,
+  now: number = Date.now()
+): RatchetState {
+  const newState = cloneState(state);
+  applySkippedKeyLimits(newState, limits, now);
+  return newState;
+}
+
+/**
+ * Count stored skipped keys and previous chains, and when the oldest of them expires
+ */
+export function getSkippedKeyStats(
+  state: RatchetState,
+  limits: SkippedKeyLimits = DEFAULT_SKIPPED_KEY_LIMITS
+): { skippedKeys: number; previousChains: number; nextExpiry: number | null } {
+  let oldest = Infinity;
+  state.skippedMessageKeys.forEach(entry => { oldest = Math.min(oldest, entry.storedAt); });
+  state.previousReceivingChains.forEach(chain => { oldest = Math.min(oldest, chain.storedAt); });
+  
+  return {
+    skippedKeys: state.skippedMessageKeys.size,
+    previousChains: state.previousReceivingChains.size,
+    nextExpiry: oldest === Infinity ? null : oldest + limits.maxAge
+  };
+}
+
+/**
+ * Find the header key that opens an encrypted header.
+ * Tries the current receiving header key, the next one (their DH ratchet),
+ * then header keys of previous chains (late out-of-order messages).
+ */
+function decryptHeader(state: RatchetState, encryptedHeader: Uint8Array): Uint8Array {
+  if (!state.headerKeys) {
+    throw new Error('Header encryption not available for this session');
+  }
+  
+  const headerNonce = encryptedHeader.slice(1, 25);
+  const headerBox = encryptedHeader.slice(25);
+  
+  const candidates = [state.headerKeys.receiving, state.headerKeys.nextReceiving];
+  state.previousReceivingChains.forEach(chain => {
+    if (chain.headerKey) candidates.push(chain.headerKey);
+  });
+  
+  for (const headerKey of candidates) {
+    const headerFields = nacl.secretbox.open(headerBox, headerNonce, headerKey);
+    if (headerFields && headerFields.length === HEADER_FIELDS_LENGTH) {
+      return headerFields;
+    }
+  }
+  
+  throw new Error('Header decryption failed');
+}
+
 /**
  * Chain KDF - derives message key and next chain key
  */
-function kdfChainKey(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+function kdfChainKey(chainKey: Uint8Array, kdfVersion: number): [Uint8Array, Uint8Array] {
+  if (kdfVersion === KDF_VERSION_HKDF) {
+    const salt = new Uint8Array(0);
+    return [
+      hkdfSha512(salt, chainKey, KDF_LABEL_MESSAGE, 32),
+      hkdfSha512(salt, chainKey, KDF_LABEL_CHAIN, 32)
+    ];
+  }
+  
   const messageKeyInput = concat(chainKey, new Uint8Array([0x01]));
   const chainKeyInput = concat(chainKey, new Uint8Array([0x02]));
   
@@ -72,30 +326,143 @@ function kdfChainKey(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
   return [messageKey, nextChainKey];
 }
 
+/**
+ * Compare two public keys byte-wise (lexicographic order)
+ */
+function compareKeys(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
 /**
  * Initialize a new ratchet session
+ *
+ * Roles are fixed by identity key order: the party with the lower key is the
+ * initiator. As in X3DH with the responder's identity key standing in for its
+ * signed prekey, the initiator treats IK_r as the responder's first ratchet key,
+ * so its first message already mixes a fresh ephemeral into the root chain.
+ * The responder can send before hearing back, on a chain of its own.
+ * Sessions authenticate headers (0x02) unless the caller asks for legacy 0x01.
  */
 export function initializeRatchet(
   myIdentityKeyPair: KeyPair,
-  theirIdentityPublicKey: Uint8Array
+  theirIdentityPublicKey: Uint8Array,
+  { messageVersion = RATCHET_VERSION_AUTH, kdfVersion = KDF_VERSION_HKDF }: RatchetOptions = {}
 ): RatchetState {
-  // Generate initial ephemeral key
-  const ephemeralKeyPair = nacl.box.keyPair();
+  const order = compareKeys(myIdentityKeyPair.publicKey, theirIdentityPublicKey);
+  if (order === 0) {
+    throw new Error('Cannot initialize a ratchet session with own identity key');
+  }
+  const isInitiator = order < 0;
   
   // Compute initial shared secret
   const sharedSecret = dh(myIdentityKeyPair.secretKey, theirIdentityPublicKey);
   
-  // Initialize root key and chain keys from shared secret
-  const hashedSecret = nacl.hash(sharedSecret);
-  const rootKey = hashedSecret.slice(0, 32);
-  // Initially, both chains use the same key
-  // The actual chain separation happens after the first DH ratchet
-  const initialChainKey = hashedSecret.slice(32, 64);
-  const sendingChainKey = new Uint8Array(initialChainKey);
-  const receivingChainKey = new Uint8Array(initialChainKey);
+  // RK0 || CK_r = HKDF(DH(IK_a, IK_b), "ratchet-init-v2")
+  const initKeys = kdfVersion === KDF_VERSION_HKDF
+    ? hkdfSha512(new Uint8Array(0), sharedSecret, KDF_LABEL_INIT, 64)
+    : nacl.hash(sharedSecret);
+  const rootKey = initKeys.slice(0, 32);
+  // Responder -> initiator chain, used until the responder's first DH ratchet
+  const responderChainKey = initKeys.slice(32, 64);
+  // The initiator -> responder chain comes from the initiator's first DH ratchet;
+  // the unused direction gets a random key that is never shared
+  const unusedChainKey = nacl.randomBytes(32);
+  
+  // Directional header keys: A (initiator), B and C (responder, before and after its first ratchet)
+  const headerKeyMaterial = hkdfSha512(new Uint8Array(0), sharedSecret, KDF_LABEL_HEADER_INIT, 96);
+  const initiatorHeaderKey = headerKeyMaterial.slice(0, 32);
+  const responderHeaderKey = headerKeyMaterial.slice(32, 64);
+  const responderNextHeaderKey = headerKeyMaterial.slice(64, 96);
   
   // Clear sensitive data
   sharedSecret.fill(0);
+  initKeys.fill(0);
+  headerKeyMaterial.fill(0);
+  
+  if (isInitiator) {
+    return {
+      myIdentityKeyPair,
+      theirIdentityPublicKey,
+      myCurrentEphemeralKeyPair: nacl.box.keyPair(),
+      // Their identity key acts as their initial ratchet key
+      theirLatestEphemeralPublicKey: new Uint8Array(theirIdentityPublicKey),
+      hasRatchetedForTheirEphemeral: false,
+      rootKey,
+      sendingChainKey: unusedChainKey,
+      receivingChainKey: responderChainKey,
+      sendMessageCounter: 0,
+      receiveMessageCounter: 0,
+      previousSendCounter: 0,
+      skippedMessageKeys: new Map(),
+      previousReceivingChains: new Map(),
+      headerKeys: {
+        sending: new Uint8Array(initiatorHeaderKey),
+        receiving: responderHeaderKey,
+        nextSending: initiatorHeaderKey,
+        nextReceiving: responderNextHeaderKey
+      },
+      messageVersion,
+      kdfVersion,
+      verified: false,
+      isInitialized: true
+    };
+  }
+  
+  return {
+    myIdentityKeyPair,
+    theirIdentityPublicKey,
+    // Our identity key is our initial ratchet key, replaced at our first DH ratchet
+    myCurrentEphemeralKeyPair: {
+      publicKey: new Uint8Array(myIdentityKeyPair.publicKey),
+      secretKey: new Uint8Array(myIdentityKeyPair.secretKey)
+    },
+    // Stand-in for their first ratchet key; any real one differs and triggers a DH ratchet
+    theirLatestEphemeralPublicKey: new Uint8Array(theirIdentityPublicKey),
+    // Do not ratchet against the stand-in when sending first
+    hasRatchetedForTheirEphemeral: true,
+    rootKey,
+    sendingChainKey: responderChainKey,
+    receivingChainKey: unusedChainKey,
+    sendMessageCounter: 0,
+    receiveMessageCounter: 0,
+    previousSendCounter: 0,
+    skippedMessageKeys: new Map(),
+    previousReceivingChains: new Map(),
+    headerKeys: {
+      sending: responderHeaderKey,
+      receiving: new Uint8Array(initiatorHeaderKey),
+      nextSending: responderNextHeaderKey,
+      nextReceiving: initiatorHeaderKey
+    },
+    messageVersion,
+    kdfVersion,
+    verified: false,
+    isInitialized: true
+  };
+}
+
+/**
+ * Initialize a ratchet session from a Ladder handshake (RK0 || CKs0)
+ */
+export function initializeRatchetFromLadder(
+  myIdentityKeyPair: KeyPair,
+  theirIdentityPublicKey: Uint8Array,
+  ladderSession: LadderSession,
+  isInitiator: boolean,
+  { messageVersion = RATCHET_VERSION_AUTH, kdfVersion = KDF_VERSION_HKDF }: RatchetOptions = {}
+): RatchetState {
+  // Use Ladder-derived keys as initial state
+  const ephemeralKeyPair = nacl.box.keyPair();
+  
+  // Asymmetric chain initialization:
+  // Initiator has the sending chain, responder has the receiving chain.
+  // The unused direction gets a random key that is never shared; the responder
+  // always performs a DH ratchet before its first send.
+  const chainKey = new Uint8Array(ladderSession.chainKey);
+  const unusedChainKey = nacl.randomBytes(32);
   
   return {
     myIdentityKeyPair,
@@ -103,14 +470,18 @@ export function initializeRatchet(
     myCurrentEphemeralKeyPair: ephemeralKeyPair,
     theirLatestEphemeralPublicKey: null,
     hasRatchetedForTheirEphemeral: false,
-    rootKey,
-    sendingChainKey,
-    receivingChainKey,
+    rootKey: new Uint8Array(ladderSession.rootKey),
+    sendingChainKey: isInitiator ? chainKey : unusedChainKey,
+    receivingChainKey: isInitiator ? unusedChainKey : chainKey,
     sendMessageCounter: 0,
     receiveMessageCounter: 0,
     previousSendCounter: 0,
     skippedMessageKeys: new Map(),
     previousReceivingChains: new Map(),
+    headerKeys: deriveInitialHeaderKeys(ladderSession.rootKey, kdfVersion),
+    messageVersion,
+    kdfVersion,
+    verified: false,
     isInitialized: true
   };
 }
@@ -134,13 +505,14 @@ function skipMessageKeys(
   
   // Use provided ephemeral key or current ephemeral key for key naming
   const ephemeralForKey = ephemeralKey || state.theirLatestEphemeralPublicKey;
+  const storedAt = Date.now();
   
   for (let i = from; i < to; i++) {
-    const [messageKey, nextChainKey] = kdfChainKey(currentChainKey);
+    const [messageKey, nextChainKey] = kdfChainKey(currentChainKey, state.kdfVersion);
     const key = ephemeralForKey ? 
       `${Array.from(ephemeralForKey).join(',')}-${i}` : 
       `null-${i}`;
-    state.skippedMessageKeys.set(key, messageKey);
+    state.skippedMessageKeys.set(key, { messageKey, storedAt });
     currentChainKey = nextChainKey;
   }
   
@@ -154,17 +526,11 @@ function skipMessageKeys(
  * Encrypt a message using the ratchet
  */
 export function ratchetEncrypt(state: RatchetState, plaintext: Uint8Array): [Uint8Array, RatchetState] {
-  // Clone state to avoid mutations, including deep copy of Maps
-  const newState = { 
-    ...state,
-    skippedMessageKeys: new Map(state.skippedMessageKeys),
-    previousReceivingChains: new Map(
-      Array.from(state.previousReceivingChains.entries()).map(([k, v]) => [k, {
-        chainKey: new Uint8Array(v.chainKey),
-        messageCounter: v.messageCounter
-      }])
-    )
-  };
+  if (state.messageVersion === RATCHET_VERSION_HEADER_ENCRYPTED && !state.headerKeys) {
+    throw new Error('Header encryption not available for this session');
+  }
+  
+  const newState = cloneState(state);
   
   // Perform DH ratchet if we have their ephemeral key AND haven't ratcheted for it yet
   // This means we're sending AFTER having received at least one message from them
@@ -185,8 +551,14 @@ export function ratchetEncrypt(state: RatchetState, plaintext: Uint8Array): [Uin
       newState.theirLatestEphemeralPublicKey
     );
     
+    // Advance header keys: HKs = NHKs, NHKs = KDF_HK(RK, DH)
+    if (newState.headerKeys) {
+      newState.headerKeys.sending = newState.headerKeys.nextSending;
+      newState.headerKeys.nextSending = kdfHeaderKey(newState.rootKey, dhOutput, newState.kdfVersion);
+    }
+    
     // Update root key via KDF
-    const [newRootKey, newSendingChainKey] = kdfRootKey(newState.rootKey, dhOutput);
+    const [newRootKey, newSendingChainKey] = kdfRootKey(newState.rootKey, dhOutput, newState.kdfVersion);
     
     
     // Update state with new ephemeral, root key, and reset sending chain
@@ -201,14 +573,14 @@ export function ratchetEncrypt(state: RatchetState, plaintext: Uint8Array): [Uin
   // If we don't have their ephemeral yet (first message), just use our initial ephemeral
   
   // Derive message key from chain
-  const [messageKey, nextChainKey] = kdfChainKey(newState.sendingChainKey);
+  const [messageKey, nextChainKey] = kdfChainKey(newState.sendingChainKey, newState.kdfVersion);
   
   // Update chain key (don't clear the old one as it's part of newState)
   newState.sendingChainKey = nextChainKey;
   
   // Create header
-  const header = new Uint8Array(41);
-  header[0] = 0x01; // version
+  const header = new Uint8Array(HEADER_LENGTH);
+  header[0] = newState.messageVersion;
   header.set(newState.myCurrentEphemeralKeyPair.publicKey, 1);
   const previousCounterBytes = new Uint8Array(4);
   new DataView(previousCounterBytes.buffer).setUint32(0, newState.previousSendCounter, false);
@@ -217,26 +589,43 @@ export function ratchetEncrypt(state: RatchetState, plaintext: Uint8Array): [Uin
   new DataView(counterBytes.buffer).setUint32(0, newState.sendMessageCounter, false);
   header.set(counterBytes, 37);
   
+  // Encrypt the header fields under the sending header key
+  let wireHeader = header;
+  if (newState.messageVersion === RATCHET_VERSION_HEADER_ENCRYPTED) {
+    const headerNonce = nacl.randomBytes(24);
+    const encryptedHeader = nacl.secretbox(header.slice(1), headerNonce, newState.headerKeys!.sending);
+    wireHeader = new Uint8Array(ENCRYPTED_HEADER_LENGTH);
+    wireHeader[0] = RATCHET_VERSION_HEADER_ENCRYPTED;
+    wireHeader.set(headerNonce, 1);
+    wireHeader.set(encryptedHeader, 25);
+  }
+  
   // Encrypt message
   const nonce = nacl.randomBytes(24);
   
   // Create fresh copies to ensure proper Uint8Array type
-  const messageKeyCopy = new Uint8Array(messageKey);
+  const messageKeyCopy = newState.messageVersion >= RATCHET_VERSION_AUTH
+    ? bindAssociatedData(
+        messageKey,
+        buildAssociatedData(newState.myIdentityKeyPair.publicKey, newState.theirIdentityPublicKey, wireHeader)
+      )
+    : new Uint8Array(messageKey);
   const plaintextCopy = new Uint8Array(plaintext);
   
   const encrypted = nacl.secretbox(plaintextCopy, nonce, messageKeyCopy);
   
   // Combine header + nonce + encrypted
-  const message = new Uint8Array(header.length + nonce.length + encrypted.length);
-  message.set(header);
-  message.set(nonce, header.length);
-  message.set(encrypted, header.length + nonce.length);
+  const message = new Uint8Array(wireHeader.length + nonce.length + encrypted.length);
+  message.set(wireHeader);
+  message.set(nonce, wireHeader.length);
+  message.set(encrypted, wireHeader.length + nonce.length);
   
   // Update state
   newState.sendMessageCounter++;
   
   // Clear sensitive material
   messageKey.fill(0);
+  messageKeyCopy.fill(0);
   
   return [message, newState];
 }
@@ -244,33 +633,51 @@ export function ratchetEncrypt(state: RatchetState, plaintext: Uint8Array): [Uin
 /**
  * Decrypt a message using the ratchet
  */
-export function ratchetDecrypt(state: RatchetState, message: Uint8Array): [Uint8Array, RatchetState] {
-  // Clone state to avoid mutations, including deep copy of Maps
-  const newState = { 
-    ...state,
-    skippedMessageKeys: new Map(state.skippedMessageKeys),
-    previousReceivingChains: new Map(
-      Array.from(state.previousReceivingChains.entries()).map(([k, v]) => [k, {
-        chainKey: new Uint8Array(v.chainKey),
-        messageCounter: v.messageCounter
-      }])
-    )
-  };
+export function ratchetDecrypt(
+  state: RatchetState,
+  message: Uint8Array,
+  limits: SkippedKeyLimits = DEFAULT_SKIPPED_KEY_LIMITS
+): [Uint8Array, RatchetState] {
+  const newState = cloneState(state);
   // Parse header
   if (message.length < 65) {
     throw new Error('Message too short');
   }
   
   const version = message[0];
-  if (version !== 0x01) {
+  if (
+    version !== RATCHET_VERSION &&
+    version !== RATCHET_VERSION_AUTH &&
+    version !== RATCHET_VERSION_HEADER_ENCRYPTED
+  ) {
     throw new Error(`Unknown protocol version: ${version}`);
   }
+  // Unauthenticated headers carry no identity binding, so a session that uses AD never accepts them again.
+  // 0x02 stays accepted after 0x03: our version can come from our own setting, so the peer may not
+  // encrypt headers yet, and a relabelled 0x03 message fails authentication as 0x02.
+  if (version < RATCHET_VERSION_AUTH && newState.messageVersion >= RATCHET_VERSION_AUTH) {
+    throw new Error(`Version downgrade rejected: ${version}`);
+  }
+  
+  // Recover the plain header fields: ephemeral(32) + previous counter(4) + counter(4)
+  let header: Uint8Array;
+  let headerFields: Uint8Array;
+  if (version === RATCHET_VERSION_HEADER_ENCRYPTED) {
+    if (message.length < ENCRYPTED_HEADER_LENGTH + 24 + nacl.secretbox.overheadLength) {
+      throw new Error('Message too short');
+    }
+    header = message.slice(0, ENCRYPTED_HEADER_LENGTH);
+    headerFields = decryptHeader(newState, header);
+  } else {
+    header = message.slice(0, HEADER_LENGTH);
+    headerFields = message.slice(1, HEADER_LENGTH);
+  }
   
-  const theirEphemeralPublicKey = message.slice(1, 33);
-  const previousCounter = new DataView(message.buffer, message.byteOffset + 33, 4).getUint32(0, false);
-  const messageCounter = new DataView(message.buffer, message.byteOffset + 37, 4).getUint32(0, false);
-  const nonce = message.slice(41, 65);
-  const encrypted = message.slice(65);
+  const theirEphemeralPublicKey = headerFields.slice(0, 32);
+  const previousCounter = new DataView(headerFields.buffer, headerFields.byteOffset + 32, 4).getUint32(0, false);
+  const messageCounter = new DataView(headerFields.buffer, headerFields.byteOffset + 36, 4).getUint32(0, false);
+  const nonce = message.slice(header.length, header.length + 24);
+  const encrypted = message.slice(header.length + 24);
   
   // Check if we have a new ephemeral key from them
   const hasNewEphemeral = !newState.theirLatestEphemeralPublicKey || 
@@ -288,13 +695,18 @@ export function ratchetDecrypt(state: RatchetState, message: Uint8Array): [Uint8
       const currentChainKey = new Uint8Array(newState.receivingChainKey);
       const currentCounter = newState.receiveMessageCounter;
       
+      if (previousCounter - currentCounter > MAX_SKIP) {
+        throw new Error(`Too many messages skipped (${previousCounter - currentCounter} > ${MAX_SKIP})`);
+      }
+      
       // Skip any remaining messages in the old chain
       // Use a copy of the chain key so we don't modify the original
       let tempChainKey = new Uint8Array(currentChainKey);
+      const storedAt = Date.now();
       for (let i = currentCounter; i < previousCounter; i++) {
-        const [messageKey, nextChainKey] = kdfChainKey(tempChainKey);
+        const [messageKey, nextChainKey] = kdfChainKey(tempChainKey, newState.kdfVersion);
         const key = `${oldEphemeralKeyStr}-${i}`;
-        newState.skippedMessageKeys.set(key, messageKey);
+        newState.skippedMessageKeys.set(key, { messageKey, storedAt });
         tempChainKey = new Uint8Array(nextChainKey);
       }
       
@@ -302,7 +714,9 @@ export function ratchetDecrypt(state: RatchetState, message: Uint8Array): [Uint8
       // This allows us to derive keys for any messages we haven't seen yet
       newState.previousReceivingChains.set(oldEphemeralKeyStr, {
         chainKey: currentChainKey,
-        messageCounter: currentCounter
+        messageCounter: currentCounter,
+        headerKey: newState.headerKeys ? new Uint8Array(newState.headerKeys.receiving) : undefined,
+        storedAt
       });
     }
     
@@ -333,8 +747,14 @@ export function ratchetDecrypt(state: RatchetState, message: Uint8Array): [Uint8
         theirEphemeralPublicKey
       );
       
+      // Advance header keys: HKr = NHKr, NHKr = KDF_HK(RK, DH)
+      if (newState.headerKeys) {
+        newState.headerKeys.receiving = newState.headerKeys.nextReceiving;
+        newState.headerKeys.nextReceiving = kdfHeaderKey(newState.rootKey, dhOutput, newState.kdfVersion);
+      }
+      
       // Update root key via KDF - this gives us the new receiving chain
-      const [newRootKey, newReceivingChainKey] = kdfRootKey(newState.rootKey, dhOutput);
+      const [newRootKey, newReceivingChainKey] = kdfRootKey(newState.rootKey, dhOutput, newState.kdfVersion);
       
       // Update state
       newState.rootKey = newRootKey;
@@ -358,15 +778,15 @@ export function ratchetDecrypt(state: RatchetState, message: Uint8Array): [Uint8
   
   let messageKey: Uint8Array;
   if (newState.skippedMessageKeys.has(skippedKey)) {
-    // Use previously skipped key
-    messageKey = newState.skippedMessageKeys.get(skippedKey)!;
+    // Use previously skipped key (copy, the stored array is shared with the caller's state)
+    messageKey = new Uint8Array(newState.skippedMessageKeys.get(skippedKey)!.messageKey);
     newState.skippedMessageKeys.delete(skippedKey);
   } else if (isCurrentChain) {
     // Message is from current chain - skip any missing messages and derive key
     skipMessageKeys(newState, newState.receiveMessageCounter, messageCounter);
     
     // Derive message key from current receiving chain
-    const [derivedKey, nextChainKey] = kdfChainKey(newState.receivingChainKey);
+    const [derivedKey, nextChainKey] = kdfChainKey(newState.receivingChainKey, newState.kdfVersion);
     messageKey = derivedKey;
     newState.receivingChainKey = nextChainKey;
     newState.receiveMessageCounter = messageCounter + 1;
@@ -387,28 +807,40 @@ export function ratchetDecrypt(state: RatchetState, message: Uint8Array): [Uint8
     // We need to derive keys from where we left off to the target message
     let chainKey = previousChain.chainKey;
     let currentCounter = previousChain.messageCounter;
+    const storedAt = Date.now();
     
     // First, skip any messages between last known counter and target
     for (let i = currentCounter; i < messageCounter; i++) {
-      const [msgKey, nextChainKey] = kdfChainKey(chainKey);
+      const [msgKey, nextChainKey] = kdfChainKey(chainKey, newState.kdfVersion);
       const skipKey = `${ephemeralKeyStr}-${i}`;
       if (!newState.skippedMessageKeys.has(skipKey)) {
-        newState.skippedMessageKeys.set(skipKey, msgKey);
+        newState.skippedMessageKeys.set(skipKey, { messageKey: msgKey, storedAt });
       }
       chainKey = new Uint8Array(nextChainKey);
     }
     
     // Now derive the actual message key
-    const [derivedKey, nextChainKey] = kdfChainKey(chainKey);
+    const [derivedKey, nextChainKey] = kdfChainKey(chainKey, newState.kdfVersion);
     messageKey = derivedKey;
     
     // Update the stored chain state
     newState.previousReceivingChains.set(ephemeralKeyStr, {
       chainKey: new Uint8Array(nextChainKey),
-      messageCounter: messageCounter + 1
+      messageCounter: messageCounter + 1,
+      headerKey: previousChain.headerKey,
+      // Expiry counts from when the chain was retired, not its last use
+      storedAt: previousChain.storedAt
     });
   }
   
+  // Authenticated headers: bind header and both identities into the key
+  if (version >= RATCHET_VERSION_AUTH) {
+    const ad = buildAssociatedData(newState.theirIdentityPublicKey, newState.myIdentityKeyPair.publicKey, header);
+    const boundKey = bindAssociatedData(messageKey, ad);
+    messageKey.fill(0);
+    messageKey = boundKey;
+  }
+  
   // Decrypt
   const plaintext = nacl.secretbox.open(encrypted, nonce, messageKey);
   if (!plaintext) {
@@ -420,50 +852,37 @@ export function ratchetDecrypt(state: RatchetState, message: Uint8Array): [Uint8
   // Clear sensitive material
   messageKey.fill(0);
   
+  // Negotiate up: once the peer sends authenticated headers, so do we
+  if (version > newState.messageVersion) {
+    newState.messageVersion = version;
+  }
+  
+  // Keep stored out-of-order state bounded
+  applySkippedKeyLimits(newState, limits, Date.now());
+  
   return [plaintext, newState];
 }
 
 /**
- * Serialize ratchet state for storage
+ * Encode bytes as base64 in chunks (spreading a large state into one call overflows the stack)
  */
-export function serializeRatchetState(state: RatchetState, masterKey: string): string {
-  // Create a serializable version of the state
-  const stateObj = {
-    myIdentityKeyPair: {
-      publicKey: Array.from(state.myIdentityKeyPair.publicKey),
-      secretKey: Array.from(state.myIdentityKeyPair.secretKey)
-    },
-    theirIdentityPublicKey: Array.from(state.theirIdentityPublicKey),
-    myCurrentEphemeralKeyPair: {
-      publicKey: Array.from(state.myCurrentEphemeralKeyPair.publicKey),
-      secretKey: Array.from(state.myCurrentEphemeralKeyPair.secretKey)
-    },
-    theirLatestEphemeralPublicKey: state.theirLatestEphemeralPublicKey ? 
-      Array.from(state.theirLatestEphemeralPublicKey) : null,
-    hasRatchetedForTheirEphemeral: state.hasRatchetedForTheirEphemeral,
-    rootKey: Array.from(state.rootKey),
-    sendingChainKey: Array.from(state.sendingChainKey),
-    receivingChainKey: Array.from(state.receivingChainKey),
-    sendMessageCounter: state.sendMessageCounter,
-    receiveMessageCounter: state.receiveMessageCounter,
-    previousSendCounter: state.previousSendCounter,
-    skippedMessageKeys: Array.from(state.skippedMessageKeys.entries()).map(([k, v]) => [k, Array.from(v)]),
-    previousReceivingChains: Array.from(state.previousReceivingChains.entries()).map(([k, v]) => [k, {
-      chainKey: Array.from(v.chainKey),
-      messageCounter: v.messageCounter
-    }]),
-    isInitialized: state.isInitialized
-  };
-  
-  const stateJson = JSON.stringify(stateObj);
-  const stateBytes = new TextEncoder().encode(stateJson);
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Serialize ratchet state for storage (binary format, encrypted with the store key)
+ */
+export function serializeRatchetState(state: RatchetState, storeKey: Uint8Array): string {
+  const stateBytes = encodeRatchetState(state);
   
-  // Encrypt with master key
-  const derivedKey = deriveKeyFromMasterKey(masterKey);
+  // Encrypt with store key
   const nonce = nacl.randomBytes(24);
-  // Ensure stateBytes is a proper Uint8Array
-  const stateBytesArray = new Uint8Array(stateBytes);
-  const encrypted = nacl.secretbox(stateBytesArray, nonce, derivedKey);
+  const encrypted = nacl.secretbox(stateBytes, nonce, storeKey);
   
   // Combine nonce + encrypted
   const combined = new Uint8Array(nonce.length + encrypted.length);
@@ -471,19 +890,115 @@ export function serializeRatchetState(state: RatchetState, masterKey: string): s
   combined.set(encrypted, nonce.length);
   
   // Clear sensitive data
-  derivedKey.fill(0);
+  stateBytes.fill(0);
   
-  // Return base64 encoded
-  return btoa(String.fromCharCode(...combined));
+  // Return prefixed base64
+  return RATCHET_STORE_PREFIX + bytesToBase64(combined);
+}
+
+// A key pair in the original JSON storage format
+interface StoredJsonKeyPair {
+  publicKey: number[];
+  secretKey: number[];
+}
+
+// A skipped key is a bare number list in the oldest sessions
+type StoredJsonSkippedKey = number[] | { messageKey: number[]; storedAt?: number };
+
+interface StoredJsonChain {
+  chainKey: number[];
+  messageCounter: number;
+  headerKey?: number[];
+  storedAt?: number;
+}
+
+// The original JSON storage format; fields added later are optional
+interface StoredJsonRatchetState {
+  myIdentityKeyPair: StoredJsonKeyPair;
+  theirIdentityPublicKey: number[];
+  myCurrentEphemeralKeyPair: StoredJsonKeyPair;
+  theirLatestEphemeralPublicKey: number[] | null;
+  hasRatchetedForTheirEphemeral?: boolean;
+  rootKey: number[];
+  sendingChainKey: number[];
+  receivingChainKey: number[];
+  sendMessageCounter: number;
+  receiveMessageCounter: number;
+  previousSendCounter: number;
+  skippedMessageKeys: [string, StoredJsonSkippedKey][];
+  previousReceivingChains?: [string, StoredJsonChain][];
+  headerKeys?: {
+    sending: number[];
+    receiving: number[];
+    nextSending: number[];
+    nextReceiving: number[];
+  } | null;
+  messageVersion?: number;
+  kdfVersion?: number;
+  isInitialized: boolean;
+}
+
+/**
+ * Rebuild state from the original JSON storage format (byte arrays as number lists)
+ */
+function parseJsonRatchetState(stateObj: StoredJsonRatchetState): RatchetState {
+  // Entries stored before timestamps existed start their expiry clock at load
+  const loadedAt = Date.now();
+  
+  return {
+    myIdentityKeyPair: {
+      publicKey: new Uint8Array(stateObj.myIdentityKeyPair.publicKey),
+      secretKey: new Uint8Array(stateObj.myIdentityKeyPair.secretKey)
+    },
+    theirIdentityPublicKey: new Uint8Array(stateObj.theirIdentityPublicKey),
+    myCurrentEphemeralKeyPair: {
+      publicKey: new Uint8Array(stateObj.myCurrentEphemeralKeyPair.publicKey),
+      secretKey: new Uint8Array(stateObj.myCurrentEphemeralKeyPair.secretKey)
+    },
+    theirLatestEphemeralPublicKey: stateObj.theirLatestEphemeralPublicKey ? 
+      new Uint8Array(stateObj.theirLatestEphemeralPublicKey) : null,
+    hasRatchetedForTheirEphemeral: stateObj.hasRatchetedForTheirEphemeral || false,
+    rootKey: new Uint8Array(stateObj.rootKey),
+    sendingChainKey: new Uint8Array(stateObj.sendingChainKey),
+    receivingChainKey: new Uint8Array(stateObj.receivingChainKey),
+    sendMessageCounter: stateObj.sendMessageCounter,
+    receiveMessageCounter: stateObj.receiveMessageCounter,
+    previousSendCounter: stateObj.previousSendCounter,
+    skippedMessageKeys: new Map(stateObj.skippedMessageKeys.map(([k, v]) => 
+      [k, Array.isArray(v) ?
+        { messageKey: new Uint8Array(v), storedAt: loadedAt } :
+        { messageKey: new Uint8Array(v.messageKey), storedAt: v.storedAt ?? loadedAt }])),
+    previousReceivingChains: new Map(
+      (stateObj.previousReceivingChains || []).map(([k, v]) => 
+        [k, {
+          chainKey: new Uint8Array(v.chainKey),
+          messageCounter: v.messageCounter,
+          headerKey: v.headerKey ? new Uint8Array(v.headerKey) : undefined,
+          storedAt: v.storedAt ?? loadedAt
+        }]
+      )
+    ),
+    headerKeys: stateObj.headerKeys ? {
+      sending: new Uint8Array(stateObj.headerKeys.sending),
+      receiving: new Uint8Array(stateObj.headerKeys.receiving),
+      nextSending: new Uint8Array(stateObj.headerKeys.nextSending),
+      nextReceiving: new Uint8Array(stateObj.headerKeys.nextReceiving)
+    } : null,
+    messageVersion: stateObj.messageVersion || RATCHET_VERSION,
+    // Sessions stored before KDF versioning use the legacy derivation
+    kdfVersion: stateObj.kdfVersion || KDF_VERSION_LEGACY,
+    verified: false,
+    isInitialized: stateObj.isInitialized
+  };
 }
 
 /**
- * Deserialize ratchet state from storage
+ * Decrypt and parse a stored session: base64(nonce(24) || secretbox(state))
  */
-export function deserializeRatchetState(serialized: string, masterKey: string): RatchetState | null {
+function openStoredState(encoded: string, key: Uint8Array): RatchetState | null {
   try {
     // Decode from base64
-    const combined = new Uint8Array(atob(serialized).split('').map(c => c.charCodeAt(0)));
+    const combined = new Uint8Array(atob(encoded).split('').map(c => c.charCodeAt(0)));
     
     if (combined.length < 24) {
       return null;
@@ -491,59 +1006,62 @@ export function deserializeRatchetState(serialized: string, masterKey: string):
     
     const nonce = combined.slice(0, 24);
     const encrypted = combined.slice(24);
+    const decrypted = nacl.secretbox.open(encrypted, nonce, key);
     
-    // Decrypt with master key
-    const derivedKey = deriveKeyFromMasterKey(masterKey);
-    const decrypted = nacl.secretbox.open(encrypted, nonce, derivedKey);
+    if (!decrypted || decrypted.length === 0) {
+      return null;
+    }
+    
+    // The original format is JSON; every later format starts with its version byte
+    const state = decrypted[0] === RATCHET_STATE_FORMAT_JSON ?
+      parseJsonRatchetState(JSON.parse(new TextDecoder().decode(decrypted))) :
+      decodeRatchetState(decrypted);
     
     // Clear sensitive data
-    derivedKey.fill(0);
+    decrypted.fill(0);
     
-    if (!decrypted) {
-      return null;
+    if (state.kdfVersion !== KDF_VERSION_LEGACY && state.kdfVersion !== KDF_VERSION_HKDF) {
+      throw new Error(`Unknown KDF version: ${state.kdfVersion}`);
     }
     
-    const stateJson = new TextDecoder().decode(decrypted);
-    const stateObj = JSON.parse(stateJson);
-    
-    // Reconstruct the state
-    return {
-      myIdentityKeyPair: {
-        publicKey: new Uint8Array(stateObj.myIdentityKeyPair.publicKey),
-        secretKey: new Uint8Array(stateObj.myIdentityKeyPair.secretKey)
-      },
-      theirIdentityPublicKey: new Uint8Array(stateObj.theirIdentityPublicKey),
-      myCurrentEphemeralKeyPair: {
-        publicKey: new Uint8Array(stateObj.myCurrentEphemeralKeyPair.publicKey),
-        secretKey: new Uint8Array(stateObj.myCurrentEphemeralKeyPair.secretKey)
-      },
-      theirLatestEphemeralPublicKey: stateObj.theirLatestEphemeralPublicKey ? 
-        new Uint8Array(stateObj.theirLatestEphemeralPublicKey) : null,
-      hasRatchetedForTheirEphemeral: stateObj.hasRatchetedForTheirEphemeral || false,
-      rootKey: new Uint8Array(stateObj.rootKey),
-      sendingChainKey: new Uint8Array(stateObj.sendingChainKey),
-      receivingChainKey: new Uint8Array(stateObj.receivingChainKey),
-      sendMessageCounter: stateObj.sendMessageCounter,
-      receiveMessageCounter: stateObj.receiveMessageCounter,
-      previousSendCounter: stateObj.previousSendCounter,
-      skippedMessageKeys: new Map(stateObj.skippedMessageKeys.map(([k, v]: [string, number[]]) => 
-        [k, new Uint8Array(v)])),
-      previousReceivingChains: new Map(
-        (stateObj.previousReceivingChains || []).map(([k, v]: [string, any]) => 
-          [k, {
-            chainKey: new Uint8Array(v.chainKey),
-            messageCounter: v.messageCounter
-          }]
-        )
-      ),
-      isInitialized: stateObj.isInitialized
-    };
+    return state;
   } catch (error) {
     console.error('Failed to deserialize ratchet state:', error);
     return null;
   }
 }
 
+/**
+ * Whether a stored session predates the store key (encrypted under the master key hash)
+ */
+export function isLegacyRatchetState(serialized: string): boolean {
+  return !serialized.startsWith(RATCHET_STORE_PREFIX);
+}
+
+/**
+ * Deserialize ratchet state from storage.
+ * Reads the binary format and migrates the original JSON format.
+ */
+export function deserializeRatchetState(serialized: string, storeKey: Uint8Array): RatchetState | null {
+  if (isLegacyRatchetState(serialized)) {
+    return null;
+  }
+  return openStoredState(serialized.slice(RATCHET_STORE_PREFIX.length), storeKey);
+}
+
+/**
+ * Deserialize a session stored before the store key, for re-encryption
+ */
+export function deserializeLegacyRatchetState(serialized: string, masterKey: string): RatchetState | null {
+  const derivedKey = deriveKeyFromMasterKey(masterKey);
+  const state = openStoredState(serialized, derivedKey);
+  
+  // Clear sensitive data
+  derivedKey.fill(0);
+  
+  return state;
+}
+
 /**
  * Create a storage key for a ratchet session
  */
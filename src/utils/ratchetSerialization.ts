@@ -0,0 +1,301 @@
+/**
+ * Binary encoding of RatchetState for storage
+ */
+
+import { RatchetState } from '../types/ratchet';
+
+export const RATCHET_STATE_FORMAT_JSON = 0x7b;   // '{' - first byte of the original JSON format
+export const RATCHET_STATE_FORMAT_BINARY = 0x01; // Length-prefixed binary, version 1
+
+// Flag bits (format version 1)
+const FLAG_THEIR_EPHEMERAL = 0x01;
+const FLAG_HAS_RATCHETED = 0x02;
+const FLAG_INITIALIZED = 0x04;
+const FLAG_HEADER_KEYS = 0x08;
+const FLAG_VERIFIED = 0x10;
+
+// Ephemeral key id tags. Skipped keys and previous chains are indexed by
+// `${ephemeral bytes joined with ','}` (or 'null' before the first message).
+const ID_NULL = 0x00;
+const ID_BYTES = 0x01;
+
+/**
+ * Growable little-endian byte writer
+ */
+class StateWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private reserve(length: number): void {
+    if (this.offset + length <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.offset + length) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.offset));
+    // Clear sensitive data
+    this.buffer.fill(0);
+    this.buffer = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  // Timestamps exceed 32 bits; doubles hold integer milliseconds exactly
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  // Length-prefixed (u16) bytes
+  bytes(value: Uint8Array): void {
+    if (value.length > 0xffff) {
+      throw new Error('Field too long for ratchet state encoding');
+    }
+    this.reserve(2 + value.length);
+    this.view.setUint16(this.offset, value.length, true);
+    this.offset += 2;
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  finish(): Uint8Array {
+    const result = this.buffer.slice(0, this.offset);
+    // Clear sensitive data
+    this.buffer.fill(0);
+    return result;
+  }
+}
+
+/**
+ * Bounds-checked little-endian byte reader
+ */
+class StateReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private need(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Truncated ratchet state');
+    }
+  }
+
+  u8(): number {
+    this.need(1);
+    return this.data[this.offset++];
+  }
+
+  u32(): number {
+    this.need(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.need(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(): Uint8Array {
+    this.need(2);
+    const length = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    this.need(length);
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  end(): void {
+    if (this.offset !== this.data.length) {
+      throw new Error('Trailing bytes in ratchet state');
+    }
+  }
+}
+
+function writeEphemeralId(writer: StateWriter, id: string): void {
+  if (id === 'null') {
+    writer.u8(ID_NULL);
+    return;
+  }
+  const values = id.split(',').map(Number);
+  if (!values.every(v => Number.isInteger(v) && v >= 0 && v <= 255)) {
+    throw new Error(`Unsupported ephemeral key id in ratchet state: ${id}`);
+  }
+  writer.u8(ID_BYTES);
+  writer.bytes(new Uint8Array(values));
+}
+
+function readEphemeralId(reader: StateReader): string {
+  const tag = reader.u8();
+  if (tag === ID_NULL) {
+    return 'null';
+  }
+  if (tag === ID_BYTES) {
+    return Array.from(reader.bytes()).join(',');
+  }
+  throw new Error(`Unknown ephemeral key id tag: ${tag}`);
+}
+
+/**
+ * Encode ratchet state (format version 1)
+ * Format: [format(1)] [flags(1)] [messageVersion(1)] [kdfVersion(1)]
+ *         [keys...] [counters 3x u32] [header keys?]
+ *         [skipped count(4)] [id, counter(4), key, storedAt(8)]...
+ *         [chain count(4)] [id, chainKey, counter(4), hasHeaderKey(1), headerKey?, storedAt(8)]...
+ * Byte fields carry a u16 length prefix; integers are little-endian.
+ */
+export function encodeRatchetState(state: RatchetState): Uint8Array {
+  const writer = new StateWriter();
+
+  let flags = 0;
+  if (state.theirLatestEphemeralPublicKey) flags |= FLAG_THEIR_EPHEMERAL;
+  if (state.hasRatchetedForTheirEphemeral) flags |= FLAG_HAS_RATCHETED;
+  if (state.isInitialized) flags |= FLAG_INITIALIZED;
+  if (state.headerKeys) flags |= FLAG_HEADER_KEYS;
+  if (state.verified) flags |= FLAG_VERIFIED;
+
+  writer.u8(RATCHET_STATE_FORMAT_BINARY);
+  writer.u8(flags);
+  writer.u8(state.messageVersion);
+  writer.u8(state.kdfVersion);
+
+  writer.bytes(state.myIdentityKeyPair.publicKey);
+  writer.bytes(state.myIdentityKeyPair.secretKey);
+  writer.bytes(state.theirIdentityPublicKey);
+  writer.bytes(state.myCurrentEphemeralKeyPair.publicKey);
+  writer.bytes(state.myCurrentEphemeralKeyPair.secretKey);
+  if (state.theirLatestEphemeralPublicKey) {
+    writer.bytes(state.theirLatestEphemeralPublicKey);
+  }
+  writer.bytes(state.rootKey);
+  writer.bytes(state.sendingChainKey);
+  writer.bytes(state.receivingChainKey);
+
+  writer.u32(state.sendMessageCounter);
+  writer.u32(state.receiveMessageCounter);
+  writer.u32(state.previousSendCounter);
+
+  if (state.headerKeys) {
+    writer.bytes(state.headerKeys.sending);
+    writer.bytes(state.headerKeys.receiving);
+    writer.bytes(state.headerKeys.nextSending);
+    writer.bytes(state.headerKeys.nextReceiving);
+  }
+
+  writer.u32(state.skippedMessageKeys.size);
+  state.skippedMessageKeys.forEach((entry, id) => {
+    // Ids are `${ephemeral id}-${counter}`
+    const split = id.lastIndexOf('-');
+    writeEphemeralId(writer, id.slice(0, split));
+    writer.u32(Number(id.slice(split + 1)));
+    writer.bytes(entry.messageKey);
+    writer.f64(entry.storedAt);
+  });
+
+  writer.u32(state.previousReceivingChains.size);
+  state.previousReceivingChains.forEach((chain, id) => {
+    writeEphemeralId(writer, id);
+    writer.bytes(chain.chainKey);
+    writer.u32(chain.messageCounter);
+    writer.u8(chain.headerKey ? 1 : 0);
+    if (chain.headerKey) {
+      writer.bytes(chain.headerKey);
+    }
+    writer.f64(chain.storedAt);
+  });
+
+  return writer.finish();
+}
+
+/**
+ * Decode ratchet state written by encodeRatchetState
+ */
+export function decodeRatchetState(data: Uint8Array): RatchetState {
+  const reader = new StateReader(data);
+
+  const format = reader.u8();
+  if (format !== RATCHET_STATE_FORMAT_BINARY) {
+    throw new Error(`Unknown ratchet state format: ${format}`);
+  }
+
+  const flags = reader.u8();
+  const messageVersion = reader.u8();
+  const kdfVersion = reader.u8();
+
+  const myIdentityKeyPair = { publicKey: reader.bytes(), secretKey: reader.bytes() };
+  const theirIdentityPublicKey = reader.bytes();
+  const myCurrentEphemeralKeyPair = { publicKey: reader.bytes(), secretKey: reader.bytes() };
+  const theirLatestEphemeralPublicKey = flags & FLAG_THEIR_EPHEMERAL ? reader.bytes() : null;
+  const rootKey = reader.bytes();
+  const sendingChainKey = reader.bytes();
+  const receivingChainKey = reader.bytes();
+
+  const sendMessageCounter = reader.u32();
+  const receiveMessageCounter = reader.u32();
+  const previousSendCounter = reader.u32();
+
+  const headerKeys = flags & FLAG_HEADER_KEYS ? {
+    sending: reader.bytes(),
+    receiving: reader.bytes(),
+    nextSending: reader.bytes(),
+    nextReceiving: reader.bytes()
+  } : null;
+
+  const skippedMessageKeys: RatchetState['skippedMessageKeys'] = new Map();
+  const skippedCount = reader.u32();
+  for (let i = 0; i < skippedCount; i++) {
+    const id = `${readEphemeralId(reader)}-${reader.u32()}`;
+    skippedMessageKeys.set(id, { messageKey: reader.bytes(), storedAt: reader.f64() });
+  }
+
+  const previousReceivingChains: RatchetState['previousReceivingChains'] = new Map();
+  const chainCount = reader.u32();
+  for (let i = 0; i < chainCount; i++) {
+    const id = readEphemeralId(reader);
+    const chainKey = reader.bytes();
+    const messageCounter = reader.u32();
+    const headerKey = reader.u8() ? reader.bytes() : undefined;
+    previousReceivingChains.set(id, { chainKey, messageCounter, headerKey, storedAt: reader.f64() });
+  }
+
+  reader.end();
+
+  return {
+    myIdentityKeyPair,
+    theirIdentityPublicKey,
+    myCurrentEphemeralKeyPair,
+    theirLatestEphemeralPublicKey,
+    hasRatchetedForTheirEphemeral: (flags & FLAG_HAS_RATCHETED) !== 0,
+    rootKey,
+    sendingChainKey,
+    receivingChainKey,
+    sendMessageCounter,
+    receiveMessageCounter,
+    previousSendCounter,
+    skippedMessageKeys,
+    previousReceivingChains,
+    headerKeys,
+    messageVersion,
+    kdfVersion,
+    verified: (flags & FLAG_VERIFIED) !== 0,
+    isInitialized: (flags & FLAG_INITIALIZED) !== 0
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Recovery phrases: 24 BIP39 words encoding 32 bytes of entropy, from which the
+ * identity keypair, the ephemeral seed and the signing key are derived
+ */
+
+import * as nacl from 'tweetnacl';
+import { IdentityKeys } from '../types';
+import { hkdfSha512 } from './hkdf';
+import { uint8ArrayToWords, wordsToUint8Array } from './bip39';
+import { generateKeyPairFromSecretKey } from './crypto';
+
+export const RECOVERY_ENTROPY_LENGTH = 32;
+export const RECOVERY_WORD_COUNT = 24;
+
+// Stable labels (ASCII exact) - changing them changes every recovered identity
+const LABEL_RECOVERY = 'recovery-v1';
+const LABEL_IDENTITY = 'identity-dh';
+const LABEL_EPHEMERAL_SEED = 'ephemeral-seed';
+const LABEL_SIGNING = 'identity-sig';
+
+const te = new TextEncoder();
+
+function label(value: string): Uint8Array {
+  return new Uint8Array(te.encode(value));
+}
+
+export function generateRecoveryEntropy(): Uint8Array {
+  return nacl.randomBytes(RECOVERY_ENTROPY_LENGTH);
+}
+
+/**
+ * Derive all identity keys from recovery entropy (HKDF-SHA512, one label per key)
+ */
+export function deriveIdentityKeys(entropy: Uint8Array): IdentityKeys {
+  if (entropy.length !== RECOVERY_ENTROPY_LENGTH) {
+    throw new Error(`Recovery entropy must be ${RECOVERY_ENTROPY_LENGTH} bytes`);
+  }
+
+  const salt = label(LABEL_RECOVERY);
+  const identitySecret = hkdfSha512(salt, entropy, label(LABEL_IDENTITY), 32);
+  const seedSecret = hkdfSha512(salt, entropy, label(LABEL_EPHEMERAL_SEED), 32);
+  const signingSeed = hkdfSha512(salt, entropy, label(LABEL_SIGNING), 32);
+
+  const keys: IdentityKeys = {
+    identity: generateKeyPairFromSecretKey(identitySecret),
+    ephemeralSeed: generateKeyPairFromSecretKey(seedSecret),
+    signing: nacl.sign.keyPair.fromSeed(signingSeed)
+  };
+
+  // Clear sensitive data (the keypairs keep their own copies)
+  signingSeed.fill(0);
+
+  return keys;
+}
+
+export function entropyToRecoveryPhrase(entropy: Uint8Array): string[] {
+  return uint8ArrayToWords(entropy);
+}
+
+/**
+ * Parse a typed or pasted phrase. Throws on the wrong word count, unknown
+ * words (with suggestions) or a bad checksum.
+ */
+export function recoveryPhraseToEntropy(phrase: string): Uint8Array {
+  const words = phrase.toLowerCase().trim().split(/\s+/).filter(word => word.length > 0);
+  if (words.length !== RECOVERY_WORD_COUNT) {
+    throw new Error(`A recovery phrase has ${RECOVERY_WORD_COUNT} words, got ${words.length}`);
+  }
+  return wordsToUint8Array(words);
+}
+
+/**
+ * Distinct random word positions (0-based, ascending) to ask for when confirming a backup
+ */
+export function pickConfirmationIndices(count: number = 3, wordCount: number = RECOVERY_WORD_COUNT): number[] {
+  const indices = new Set<number>();
+  while (indices.size < Math.min(count, wordCount)) {
+    const [random] = nacl.randomBytes(1);
+    if (random < 256 - (256 % wordCount)) { // Reject to avoid modulo bias
+      indices.add(random % wordCount);
+    }
+  }
+  return [...indices].sort((a, b) => a - b);
+}
@@ -0,0 +1,96 @@
+/**
+ * Safety numbers: a fingerprint of both identity keys in a session, compared
+ * out of band (read aloud, side by side, or by scanning a QR code)
+ */
+
+import * as nacl from 'tweetnacl';
+import { BIP39_WORDLIST } from './bip39';
+
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200; // Makes searching for a key with a matching fingerprint costly
+const FINGERPRINT_BYTES = 30;        // Six 5-byte chunks, 5 digits each
+const SAFETY_WORD_COUNT = 12;        // 132 bits
+export const SAFETY_NUMBER_QR_PREFIX = 'safety-number:v1:';
+
+export interface SafetyNumber {
+  digits: string;    // 60 digits, identical for both parties
+  words: string[];   // BIP39 words derived from the digits
+  qrPayload: string; // Scanned by the other party to compare
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * Iterated SHA-512 fingerprint of a single identity key
+ */
+function fingerprint(identityKey: Uint8Array): Uint8Array {
+  let hash = nacl.hash(concat(new Uint8Array([0, FINGERPRINT_VERSION]), identityKey));
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = nacl.hash(concat(hash, identityKey));
+  }
+  return hash.slice(0, FINGERPRINT_BYTES);
+}
+
+/**
+ * 30 decimal digits: each 5-byte chunk as a 40-bit integer, mod 100000
+ */
+function fingerprintDigits(fp: Uint8Array): string {
+  let digits = '';
+  for (let i = 0; i < fp.length; i += 5) {
+    let chunk = 0;
+    for (let j = 0; j < 5; j++) {
+      chunk = chunk * 256 + fp[i + j];
+    }
+    digits += (chunk % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+}
+
+function digitsToWords(digits: string): string[] {
+  const hash = nacl.hash(new Uint8Array(new TextEncoder().encode(digits)));
+  let bits = '';
+  for (let i = 0; bits.length < SAFETY_WORD_COUNT * 11; i++) {
+    bits += hash[i].toString(2).padStart(8, '0');
+  }
+
+  const words: string[] = [];
+  for (let i = 0; i < SAFETY_WORD_COUNT; i++) {
+    words.push(BIP39_WORDLIST[parseInt(bits.substr(i * 11, 11), 2)]);
+  }
+  return words;
+}
+
+/**
+ * Compute the safety number for a session. Both parties get the same result:
+ * the two fingerprints are ordered before being joined.
+ */
+export function computeSafetyNumber(myIdentityKey: Uint8Array, theirIdentityKey: Uint8Array): SafetyNumber {
+  const mine = fingerprintDigits(fingerprint(myIdentityKey));
+  const theirs = fingerprintDigits(fingerprint(theirIdentityKey));
+  const digits = mine < theirs ? mine + theirs : theirs + mine;
+
+  return {
+    digits,
+    words: digitsToWords(digits),
+    qrPayload: SAFETY_NUMBER_QR_PREFIX + digits
+  };
+}
+
+/**
+ * Whether scanned text is a safety number QR code (rather than a public key)
+ */
+export function isSafetyNumberPayload(text: string): boolean {
+  return text.trim().startsWith(SAFETY_NUMBER_QR_PREFIX);
+}
+
+/**
+ * Compare a scanned safety number QR code with our own
+ */
+export function matchesSafetyNumber(scanned: string, safetyNumber: SafetyNumber): boolean {
+  return scanned.trim() === safetyNumber.qrPayload;
+}
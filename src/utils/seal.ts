@@ -1,8 +1,10 @@
 // seal.ts — store an encrypted JSON payload (incl. private key) in the URL fragment.
-// Uses TweetNaCl secretbox (XSalsa20-Poly1305) and scrypt-js for a memory-hard KDF.
+// Uses TweetNaCl secretbox (XSalsa20-Poly1305) and a memory-hard KDF: scrypt-js or Argon2id.
 
 import nacl from "tweetnacl";
 import { scrypt } from "scrypt-js";
+import { argon2id } from "./argon2";
+import { ARGON2_MAX_M, KDF_MAX_FACTOR, SCRYPT_MAX_N } from "./kdfPolicy";
 import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array } from "./encoding";
 
 // ---------- helpers ----------
@@ -19,146 +21,471 @@ const b32c = {
 };
 
 // ---------- types ----------
-export type ScryptParams = { N: number; r: number; p: number; salt: Uint8Array };
+export type KdfName = "scrypt" | "argon2id";
+export type ScryptCost = { kdf?: "scrypt"; N: number; r: number; p: number }; // kdf may be omitted: scrypt is the default
+export type Argon2idCost = { kdf: "argon2id"; m: number; t: number; p: number }; // m in KiB
+export type KdfCost = ScryptCost | Argon2idCost;
+export type ScryptParams = ScryptCost & { salt: Uint8Array };
+export type KdfParams = KdfCost & { salt: Uint8Array };
+export type KdfProgress = (fraction: number) => void; // 0..1 through a KDF run
+
+/** Where a fragment may be opened. A bare string in the payload is a strict origin (all fragments before policies). */
+export type FragmentContext =
+  | { kind: "origin"; origin: string }
+  | { kind: "app"; appId: string }       // any copy of the app, wherever it is served from
+  | { kind: "origins"; origins: string[] };
+
+/** Options for a slot (re)wrapped by an opened fragment. */
+export interface SlotOptions {
+  cost?: KdfCost; // defaults to the unlocking slot's cost
+  onProgress?: KdfProgress;
+}
 
 export interface PlainPayload<T = unknown> {
   seq: number;      // anti-rollback counter
   iat: number;      // issued-at (ms since epoch)
-  context: string;  // bind to origin/app id (e.g., location.origin)
+  context: string | FragmentContext; // bind to origin/app id (e.g., location.origin)
   data: T;          // your JSON payload (e.g., includes private key)
+  slots?: Record<string, string>; // v2: slot ID -> label (encrypted, so only an unlocked app can list them)
+}
+
+/** A passphrase slot as listed to the user. */
+export interface FragmentSlot {
+  id: string;          // random 4 bytes, base32 Crockford
+  label: string;       // e.g. "Master key", "Recovery passphrase (safe)"
+  params: KdfParams;
+}
+
+/** An unlocked fragment. Each helper returns the rewritten fragment; later calls build on earlier ones. */
+export interface OpenedFragment<T> {
+  payload: PlainPayload<T>;
+  contextMatches: boolean;  // as opened; false only with allowContextMismatch
+  params: KdfParams;        // the unlocking slot's KDF parameters
+  slot: FragmentSlot;       // the slot the passphrase opened
+  listSlots: () => FragmentSlot[];
+  rotate: (bumpSeq?: boolean) => Promise<string>;
+  reseal: (data: T) => Promise<string>;
+  addSlot: (newPassphrase: string, label: string, options?: SlotOptions) => Promise<string>;
+  removeSlot: (id: string) => Promise<string>;
+  changePassphrase: (newPassphrase: string, options?: SlotOptions) => Promise<string>; // also re-wraps under a new cost
+  rebind: (context: FragmentContext) => Promise<string>;
+}
+
+type SealedSlot = FragmentSlot & {
+  nonce: Uint8Array;   // secretbox nonce for the wrapped data key
+  wrapped: Uint8Array; // secretbox(data key) under the slot's KDF key
+};
+
+export const MAX_FRAGMENT_SLOTS = 8;
+export const DEFAULT_SLOT_LABEL = "Master key";
+export const APP_ID = "e2ee-msg";
+
+// ---------- context ----------
+// Origin bindings stay bare strings, so versions before context policies still read them
+function toPayloadContext(context: string | FragmentContext): string | FragmentContext {
+  return typeof context !== "string" && context.kind === "origin" ? context.origin : context;
+}
+
+export function readContext(context: string | FragmentContext): FragmentContext {
+  return typeof context === "string" ? { kind: "origin", origin: context } : context;
+}
+
+/** Whether a page at `origin` running this app may open a fragment bound to `context`. */
+export function contextAllows(context: string | FragmentContext, origin: string = location.origin): boolean {
+  const bound = readContext(context);
+  switch (bound.kind) {
+    case "origin":
+      return bound.origin === origin;
+    case "app":
+      return bound.appId === APP_ID;
+    case "origins":
+      return bound.origins.includes(origin);
+    default:
+      return false;
+  }
 }
 
 // ---------- KDF ----------
-async function kdfScrypt(passphrase: string, params: ScryptParams): Promise<Uint8Array> {
-  const pw = enc.encode(passphrase);
-  const dk = await scrypt(pw, params.salt, params.N, params.r, params.p, 32);
+async function deriveKey(passphrase: string, params: KdfParams, onProgress?: KdfProgress): Promise<Uint8Array> {
+  const pw = new Uint8Array(enc.encode(passphrase));
+  if (params.kdf === "argon2id") {
+    return argon2id(pw, params.salt, params, 32, onProgress); // 32 bytes for secretbox
+  }
+  // scrypt-js cancels when its callback returns true, so never pass a result through
+  const dk = await scrypt(pw, params.salt, params.N, params.r, params.p, 32, progress => { onProgress?.(progress); });
   return new Uint8Array(dk); // 32 bytes for secretbox
 }
 
+// The cost fields of a slot, in envelope order
+function costFields(params: KdfParams): string[] {
+  return params.kdf === "argon2id"
+    ? ["argon2id", String(params.m), String(params.t), String(params.p)]
+    : ["scrypt", String(params.N), String(params.r), String(params.p)];
+}
+
+function withSalt(cost: KdfCost, salt: Uint8Array): KdfParams {
+  return cost.kdf === "argon2id"
+    ? { kdf: "argon2id", m: cost.m, t: cost.t, p: cost.p, salt }
+    : { kdf: "scrypt", N: cost.N, r: cost.r, p: cost.p, salt };
+}
+
 // ---------- envelope ----------
-// Fragment format (dot-separated, base32 Crockford):
+// v1 fragment format (dot-separated, base32 Crockford), read-only:
 // v1.scrypt.<N>.<r>.<p>.<salt>.<nonce>.<ct>
+// v1.argon2id.<m>.<t>.<p>.<salt>.<nonce>.<ct>   (m in KiB)
 // - salt: constant per secret (random 16–32B); keep the same across rotations
 // - nonce: 24B random per encryption (fresh every read/write)
 // - ct: secretbox(ciphertext)
-// All fields base32 Crockford except N/r/p (decimal strings).
+// All fields base32 Crockford except the KDF name and cost (decimal strings).
+//
+// v2 fragment format (LUKS-style key slots):
+// v2.<slot>[.<slot>...].<nonce>.<ct>
+// slot: <id>~scrypt~<N>~<r>~<p>~<salt>~<nonce>~<wrapped>
+//    or <id>~argon2id~<m>~<t>~<p>~<salt>~<nonce>~<wrapped>
+// - a random 32B data key encrypts the payload (ct = secretbox(payload, nonce, data key))
+// - each slot wraps the data key under its own passphrase, so any one slot unlocks
+// v1 fragments are rewritten as v2 with a single slot on their next write.
+
+type ParsedFragment =
+  | { version: 1; params: KdfParams; nonce: Uint8Array; ct: Uint8Array }
+  | { version: 2; slots: SealedSlot[]; nonce: Uint8Array; ct: Uint8Array };
+
+export function isSealedFragment(fragment: string): boolean {
+  const f = fragment.replace(/^#/, "");
+  return f.startsWith("v1.scrypt.") || f.startsWith("v1.argon2id.") || f.startsWith("v2.");
+}
 
 function buildFragment(
-  params: ScryptParams,
+  slots: SealedSlot[],
   nonce: Uint8Array,
   ct: Uint8Array
 ): string {
   return [
-    "v1",
-    "scrypt",
-    String(params.N),
-    String(params.r),
-    String(params.p),
-    b32c.enc(params.salt),
+    "v2",
+    ...slots.map(slot => [
+      slot.id,
+      ...costFields(slot.params),
+      b32c.enc(slot.params.salt),
+      b32c.enc(slot.nonce),
+      b32c.enc(slot.wrapped),
+    ].join("~")),
     b32c.enc(nonce),
     b32c.enc(ct),
   ].join(".");
 }
 
-function parseFragment(fragment: string): {
-  params: ScryptParams;
-  nonce: Uint8Array;
-  ct: Uint8Array;
-} {
+// A crafted link must not make the KDF allocate or run without bound before the passphrase is even checked
+function inRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+function parseKdfParams(kdf: string, a: string, b: string, p: string, salt: string): KdfParams {
+  // parseInt alone would read "17abc" as 17
+  if (![a, b, p].every(field => /^\d+$/.test(field))) {
+    throw new Error(`Bad ${kdf} parameters`);
+  }
+  const cost = [a, b, p].map(field => parseInt(field, 10));
+  if (kdf === "scrypt") {
+    const [N, r, p] = cost;
+    const powerOfTwo = (N & (N - 1)) === 0;
+    if (!inRange(N, 2, SCRYPT_MAX_N) || !powerOfTwo || !inRange(r, 1, KDF_MAX_FACTOR) || !inRange(p, 1, KDF_MAX_FACTOR)) {
+      throw new Error(`Bad ${kdf} parameters`);
+    }
+    return { kdf, N, r, p, salt: b32c.dec(salt) };
+  }
+  if (kdf === "argon2id") {
+    const [m, t, p] = cost;
+    if (!inRange(m, 1, ARGON2_MAX_M) || !inRange(t, 1, KDF_MAX_FACTOR) || !inRange(p, 1, KDF_MAX_FACTOR)) {
+      throw new Error(`Bad ${kdf} parameters`);
+    }
+    return { kdf, m, t, p, salt: b32c.dec(salt) };
+  }
+  throw new Error(`Unsupported KDF: ${kdf}`);
+}
+
+function parseSlot(part: string): SealedSlot {
+  const fields = part.split("~");
+  if (fields.length !== 8) {
+    throw new Error("Bad fragment slot");
+  }
+  const nonce = b32c.dec(fields[6]);
+  if (nonce.length !== nacl.secretbox.nonceLength) throw new Error("Bad nonce length");
+  return {
+    id: fields[0],
+    label: DEFAULT_SLOT_LABEL,
+    params: parseKdfParams(fields[1], fields[2], fields[3], fields[4], fields[5]),
+    nonce,
+    wrapped: b32c.dec(fields[7]),
+  };
+}
+
+function parseFragment(fragment: string): ParsedFragment {
   const parts = fragment.replace(/^#/, "").split(".");
-  if (parts.length !== 8 || parts[0] !== "v1" || parts[1] !== "scrypt") {
+  let parsed: ParsedFragment;
+  if (parts.length === 8 && parts[0] === "v1") {
+    parsed = {
+      version: 1,
+      params: parseKdfParams(parts[1], parts[2], parts[3], parts[4], parts[5]),
+      nonce: b32c.dec(parts[6]),
+      ct: b32c.dec(parts[7]),
+    };
+  } else if (parts.length >= 4 && parts[0] === "v2") {
+    // Each slot runs its own KDF when unlocking, so a crafted link may not add more than we ever write
+    if (parts.length - 3 > MAX_FRAGMENT_SLOTS) {
+      throw new Error(`A fragment holds at most ${MAX_FRAGMENT_SLOTS} passphrase slots`);
+    }
+    parsed = {
+      version: 2,
+      slots: parts.slice(1, -2).map(parseSlot),
+      nonce: b32c.dec(parts[parts.length - 2]),
+      ct: b32c.dec(parts[parts.length - 1]),
+    };
+  } else {
     throw new Error("Bad fragment envelope");
   }
-  const N = parseInt(parts[2], 10);
-  const r = parseInt(parts[3], 10);
-  const p = parseInt(parts[4], 10);
-  if (!Number.isFinite(N) || !Number.isFinite(r) || !Number.isFinite(p)) {
-    throw new Error("Bad scrypt parameters");
+  if (parsed.nonce.length !== nacl.secretbox.nonceLength) throw new Error("Bad nonce length");
+  return parsed;
+}
+
+/** The slots of a fragment without unlocking it; labels need a passphrase, so they read as the default. */
+export function readFragmentSlots(fragment: string): FragmentSlot[] {
+  const parsed = parseFragment(fragment);
+  if (parsed.version === 1) {
+    return [{ id: "v1", label: DEFAULT_SLOT_LABEL, params: parsed.params }];
+  }
+  return parsed.slots.map(({ id, label, params }) => ({ id, label, params }));
+}
+
+function randomSlotId(): string {
+  return b32c.enc(crypto.getRandomValues(new Uint8Array(4)));
+}
+
+/** Wrap the data key under a passphrase. */
+async function createSlot(
+  passphrase: string,
+  dataKey: Uint8Array,
+  params: KdfParams,
+  id: string,
+  label: string,
+  onProgress?: KdfProgress
+): Promise<SealedSlot> {
+  const kek = await deriveKey(passphrase, params, onProgress);
+  const slot = wrapSlot(kek, dataKey, params, id, label);
+  kek.fill(0);
+  return slot;
+}
+
+/** Wrap the data key under a key already derived with the slot's parameters. */
+function wrapSlot(
+  kek: Uint8Array,
+  dataKey: Uint8Array,
+  params: KdfParams,
+  id: string,
+  label: string
+): SealedSlot {
+  const nonce = crypto.getRandomValues(new Uint8Array(nacl.secretbox.nonceLength));
+  const wrapped = nacl.secretbox(dataKey, nonce, kek);
+  return { id, label, params, nonce, wrapped };
+}
+
+/** Find the slot a passphrase opens and return the unwrapped data key. */
+async function openSlots(
+  passphrase: string,
+  slots: SealedSlot[],
+  onProgress?: KdfProgress
+): Promise<{ slot: SealedSlot; dataKey: Uint8Array }> {
+  for (const [i, slot] of slots.entries()) {
+    const kek = await deriveKey(passphrase, slot.params, onProgress && (fraction => onProgress((i + fraction) / slots.length)));
+    const dataKey = nacl.secretbox.open(slot.wrapped, slot.nonce, kek);
+    kek.fill(0);
+    if (dataKey) return { slot, dataKey };
   }
-  const salt = b32c.dec(parts[5]);
-  const nonce = b32c.dec(parts[6]);
-  const ct = b32c.dec(parts[7]);
-  if (nonce.length !== nacl.secretbox.nonceLength) throw new Error("Bad nonce length");
-  return { params: { N, r, p, salt }, nonce, ct };
+  throw new Error("Decryption/authentication failed");
+}
+
+function freshSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(16));
 }
 
 // ---------- API ----------
 
-/** Create a new fragment for the given payload. */
+/** Create a new fragment for the given payload, with a single passphrase slot. */
 export async function encryptToFragment<T>(
   passphrase: string,
   data: T,
   {
-    // Reasonable starting params: N=2^15 (32768) desktop, 2^14 (16384) mobile; r=8, p=1
+    kdf = "scrypt",
+    // The scrypt policy floor; the app passes a cost calibrated for the device (see kdfPolicy.ts)
     N = 32768,
     r = 8,
+    // Argon2id: m in KiB
+    m = 16384,
+    t = 3,
     p = 1,
     salt,                 // if omitted, a new random salt will be generated
     context = location.origin,
     seq = 1,
-  }: Partial<ScryptParams> & { context?: string; seq?: number } = {}
+    label = DEFAULT_SLOT_LABEL,
+    onProgress,
+  }: {
+    kdf?: KdfName;
+    N?: number;
+    r?: number;
+    m?: number;
+    t?: number;
+    p?: number;
+    salt?: Uint8Array;
+    context?: string | FragmentContext;
+    seq?: number;
+    label?: string;
+    onProgress?: KdfProgress;
+  } = {}
 ): Promise<string> {
-  const kdfParams: ScryptParams = {
-    N, r, p,
-    salt: salt ?? crypto.getRandomValues(new Uint8Array(16)),
-  };
-  const key = await kdfScrypt(passphrase, kdfParams);
+  const kdfParams = withSalt(kdf === "argon2id" ? { kdf, m, t, p } : { kdf, N, r, p }, salt ?? freshSalt());
+  const dataKey = crypto.getRandomValues(new Uint8Array(nacl.secretbox.keyLength));
+  const slot = await createSlot(passphrase, dataKey, kdfParams, randomSlotId(), label, onProgress);
 
-  const payload: PlainPayload<T> = { seq, iat: Date.now(), context, data };
-  const pt = enc.encode(JSON.stringify(payload));
+  const payload: PlainPayload<T> = { seq, iat: Date.now(), context: toPayloadContext(context), data, slots: { [slot.id]: label } };
+  const pt = new Uint8Array(enc.encode(JSON.stringify(payload)));
 
   const nonce = crypto.getRandomValues(new Uint8Array(nacl.secretbox.nonceLength));
-  const ct = nacl.secretbox(pt, nonce, key);
+  const ct = nacl.secretbox(pt, nonce, dataKey);
 
   // optional: zeroize key after use
-  key.fill(0);
+  dataKey.fill(0);
 
-  return buildFragment(kdfParams, nonce, ct);
+  return buildFragment([slot], nonce, ct);
 }
 
-/** Decrypt an existing fragment. Returns payload and a rotate() helper. */
+/** Decrypt an existing fragment, trying each slot in turn. */
 export async function decryptFromFragment<T = unknown>(
   passphrase: string,
   fragment: string,
-  { lastSeenSeq }: { lastSeenSeq?: number } = {}
-): Promise<{
-  payload: PlainPayload<T>;
-  params: ScryptParams;
-  rotate: (bumpSeq?: boolean) => Promise<string>;
-}> {
-  const { params, nonce, ct } = parseFragment(fragment);
-  const key = await kdfScrypt(passphrase, params);
+  {
+    lastSeenSeq,
+    onProgress,
+    allowContextMismatch = false, // return a fragment bound elsewhere so the caller can offer to rebind it
+  }: { lastSeenSeq?: number; onProgress?: KdfProgress; allowContextMismatch?: boolean } = {}
+): Promise<OpenedFragment<T>> {
+  const parsed = parseFragment(fragment);
 
-  const pt = nacl.secretbox.open(ct, nonce, key);
+  let slots: SealedSlot[];
+  let current: SealedSlot;
+  let dataKey: Uint8Array;
+  let pt: Uint8Array | null;
+  if (parsed.version === 1) {
+    const key = await deriveKey(passphrase, parsed.params, onProgress);
+    pt = nacl.secretbox.open(parsed.ct, parsed.nonce, key);
+    if (!pt) {
+      key.fill(0);
+      throw new Error("Decryption/authentication failed");
+    }
+
+    // Upgrade: a fresh data key, wrapped by one slot with the v1 salt and cost, so the v1 key serves as its KEK
+    dataKey = crypto.getRandomValues(new Uint8Array(nacl.secretbox.keyLength));
+    current = wrapSlot(key, dataKey, parsed.params, randomSlotId(), DEFAULT_SLOT_LABEL);
+    key.fill(0);
+    slots = [current];
+  } else {
+    ({ slot: current, dataKey } = await openSlots(passphrase, parsed.slots, onProgress));
+    slots = parsed.slots;
+    pt = nacl.secretbox.open(parsed.ct, parsed.nonce, dataKey);
+  }
   if (!pt) throw new Error("Decryption/authentication failed");
 
   const payload = JSON.parse(dec.decode(pt)) as PlainPayload<T>;
 
   // Context binding: prevent cross-origin reuse
-  const expected = location.origin;
-  if (payload.context !== expected) throw new Error("Context mismatch");
+  const contextMatches = contextAllows(payload.context);
+  if (!contextMatches && !allowContextMismatch) throw new Error("Context mismatch");
 
   // Anti-rollback
   if (typeof lastSeenSeq === "number" && payload.seq < lastSeenSeq) {
     throw new Error("Rollback detected (seq too low)");
   }
 
-  async function rotate(bumpSeq = true): Promise<string> {
-    if (bumpSeq) payload.seq += 1;
+  // Labels live in the encrypted payload
+  for (const slot of slots) {
+    slot.label = payload.slots?.[slot.id] ?? slot.label;
+  }
+
+  // The data key stays in these closures, so rewrites need no KDF run
+  function seal(): string {
     payload.iat = Date.now();
+    payload.slots = Object.fromEntries(slots.map(slot => [slot.id, slot.label]));
     const newNonce = crypto.getRandomValues(new Uint8Array(nacl.secretbox.nonceLength));
-    const newPt = enc.encode(JSON.stringify(payload));
-    // Need to re-derive the key since we zeroed it
-    const rotateKey = await kdfScrypt(passphrase, params);
-    const newCt = nacl.secretbox(newPt, newNonce, rotateKey);
-    rotateKey.fill(0); // Clean up the rotate key
-    return buildFragment(params, newNonce, newCt);
+    const newCt = nacl.secretbox(new Uint8Array(enc.encode(JSON.stringify(payload))), newNonce, dataKey);
+    return buildFragment(slots, newNonce, newCt);
   }
 
-  // optional: zeroize key after use
-  key.fill(0);
+  async function rotate(bumpSeq = true): Promise<string> {
+    if (bumpSeq) payload.seq += 1;
+    return seal();
+  }
+
+  async function reseal(data: T): Promise<string> {
+    payload.data = data;
+    payload.seq += 1;
+    return seal();
+  }
 
-  return { payload, params, rotate };
+  async function addSlot(
+    newPassphrase: string,
+    label: string,
+    { cost = current.params, onProgress }: SlotOptions = {}
+  ): Promise<string> {
+    if (slots.length >= MAX_FRAGMENT_SLOTS) {
+      throw new Error(`A fragment holds at most ${MAX_FRAGMENT_SLOTS} passphrase slots`);
+    }
+    slots = [...slots, await createSlot(newPassphrase, dataKey, withSalt(cost, freshSalt()), randomSlotId(), label, onProgress)];
+    payload.seq += 1;
+    return seal();
+  }
+
+  async function removeSlot(id: string): Promise<string> {
+    if (id === current.id) {
+      throw new Error("Cannot remove the slot that unlocked this fragment");
+    }
+    if (!slots.some(slot => slot.id === id)) {
+      throw new Error("Unknown slot");
+    }
+    slots = slots.filter(slot => slot.id !== id);
+    payload.seq += 1;
+    return seal();
+  }
+
+  async function changePassphrase(
+    newPassphrase: string,
+    { cost = current.params, onProgress }: SlotOptions = {}
+  ): Promise<string> {
+    const replacement = await createSlot(newPassphrase, dataKey, withSalt(cost, freshSalt()), current.id, current.label, onProgress);
+    slots = slots.map(slot => slot.id === current.id ? replacement : slot);
+    current = replacement;
+    payload.seq += 1;
+    return seal();
+  }
+
+  async function rebind(context: FragmentContext): Promise<string> {
+    payload.context = toPayloadContext(context);
+    payload.seq += 1;
+    return seal();
+  }
+
+  const listSlots = (): FragmentSlot[] => slots.map(({ id, label, params }) => ({ id, label, params }));
+
+  return {
+    payload,
+    contextMatches,
+    params: current.params,
+    slot: { id: current.id, label: current.label, params: current.params },
+    listSlots,
+    rotate,
+    reseal,
+    addSlot,
+    removeSlot,
+    changePassphrase,
+    rebind
+  };
 }
 
 /** Convenience: read fragment, decrypt, rotate with fresh nonce, and replace URL without adding history entries. */
@@ -0,0 +1,207 @@
+/**
+ * Shamir secret sharing over GF(256) for k-of-n identity backups.
+ *
+ * Share wire format (44 bytes for a 32-byte secret):
+ * type(0x4b) || version(1) || setId(4) || threshold(1) || index(1) || value(36)
+ *
+ * The shared value is secret || SHA-256(secret)[0..4], so a damaged share is
+ * caught when the shares are combined. Shares travel as 33 BIP39 words or
+ * Crockford base32 (also shown as a QR code).
+ */
+
+import * as nacl from 'tweetnacl';
+import { RecoveryShare } from '../types/shamir';
+import { encodeBIP39Words, decodeBIP39Words } from './bip39';
+import { sha256Sync } from './hash';
+import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array, formatInGroups } from './encoding';
+
+export const SHARE_TYPE = 0x4b; // 'K'
+export const SHARE_VERSION = 1;
+export const SHARE_SET_ID_LENGTH = 4;
+export const MAX_SHARES = 16;
+
+const SHARE_HEADER_LENGTH = 8;
+const DIGEST_LENGTH = 4;
+
+// GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1, generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0); // x * 3
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a secret into `count` shares, any `threshold` of which rebuild it
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, count: number): RecoveryShare[] {
+  if (count < 2 || count > MAX_SHARES) {
+    throw new Error(`Number of shares must be between 2 and ${MAX_SHARES}`);
+  }
+  if (threshold < 2 || threshold > count) {
+    throw new Error('Threshold must be between 2 and the number of shares');
+  }
+
+  const shared = new Uint8Array(secret.length + DIGEST_LENGTH);
+  shared.set(secret);
+  shared.set(sha256Sync(secret).slice(0, DIGEST_LENGTH), secret.length);
+
+  const setId = nacl.randomBytes(SHARE_SET_ID_LENGTH);
+  const shares: RecoveryShare[] = [];
+  for (let index = 1; index <= count; index++) {
+    shares.push({ setId, threshold, index, value: new Uint8Array(shared.length) });
+  }
+
+  // One random polynomial per byte, with the byte as its constant term
+  const coefficients = new Uint8Array(threshold);
+  for (let i = 0; i < shared.length; i++) {
+    coefficients[0] = shared[i];
+    coefficients.set(nacl.randomBytes(threshold - 1), 1);
+    for (const share of shares) {
+      // Horner's rule at x = index
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = gfMul(y, share.index) ^ coefficients[c];
+      }
+      share.value[i] = y;
+    }
+  }
+
+  // Clear sensitive data
+  coefficients.fill(0);
+  shared.fill(0);
+
+  return shares;
+}
+
+/**
+ * Rebuild the secret from at least `threshold` shares of one set. Throws on
+ * shares from different splits rather than combining them into garbage.
+ */
+export function combineShares(shares: RecoveryShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares');
+  }
+
+  const [first] = shares;
+  for (const share of shares) {
+    if (!equalBytes(share.setId, first.setId)) {
+      throw new Error(`Shares come from different backups (set ${formatSetId(first.setId)} and ${formatSetId(share.setId)})`);
+    }
+    if (share.threshold !== first.threshold || share.value.length !== first.value.length) {
+      throw new Error(`Share ${share.index} does not match the other shares`);
+    }
+  }
+
+  const indices = new Set<number>();
+  for (const share of shares) {
+    if (indices.has(share.index)) {
+      throw new Error(`Share ${share.index} was entered twice`);
+    }
+    indices.add(share.index);
+  }
+  if (shares.length < first.threshold) {
+    throw new Error(`Need ${first.threshold} shares, got ${shares.length}`);
+  }
+
+  // Lagrange interpolation at x = 0 over the first `threshold` shares
+  const used = shares.slice(0, first.threshold);
+  const shared = new Uint8Array(first.value.length);
+  for (const share of used) {
+    let basis = 1;
+    for (const other of used) {
+      if (other !== share) {
+        basis = gfMul(basis, gfDiv(other.index, other.index ^ share.index));
+      }
+    }
+    for (let i = 0; i < shared.length; i++) {
+      shared[i] ^= gfMul(share.value[i], basis);
+    }
+  }
+
+  const secret = shared.slice(0, shared.length - DIGEST_LENGTH);
+  const digest = sha256Sync(secret).slice(0, DIGEST_LENGTH);
+  const valid = equalBytes(digest, shared.slice(secret.length));
+
+  // Clear sensitive data
+  shared.fill(0);
+
+  if (!valid) {
+    secret.fill(0);
+    throw new Error('The shares do not rebuild a valid secret: one of them is damaged');
+  }
+  return secret;
+}
+
+export function serializeShare(share: RecoveryShare): Uint8Array {
+  const bytes = new Uint8Array(SHARE_HEADER_LENGTH + share.value.length);
+  bytes[0] = SHARE_TYPE;
+  bytes[1] = SHARE_VERSION;
+  bytes.set(share.setId, 2);
+  bytes[6] = share.threshold;
+  bytes[7] = share.index;
+  bytes.set(share.value, SHARE_HEADER_LENGTH);
+  return bytes;
+}
+
+export function deserializeShare(bytes: Uint8Array): RecoveryShare {
+  if (bytes.length <= SHARE_HEADER_LENGTH + DIGEST_LENGTH || bytes[0] !== SHARE_TYPE) {
+    throw new Error('Not a recovery share');
+  }
+  if (bytes[1] !== SHARE_VERSION) {
+    throw new Error(`Unsupported share version: ${bytes[1]}`);
+  }
+  const threshold = bytes[6];
+  const index = bytes[7];
+  if (threshold < 2 || index === 0) {
+    throw new Error('Not a recovery share');
+  }
+  return {
+    setId: bytes.slice(2, 6),
+    threshold,
+    index,
+    value: bytes.slice(SHARE_HEADER_LENGTH)
+  };
+}
+
+export function shareToWords(share: RecoveryShare): string[] {
+  return encodeBIP39Words(serializeShare(share));
+}
+
+export function shareToBase32(share: RecoveryShare): string {
+  return formatInGroups(uint8ArrayToBase32Crockford(serializeShare(share)), true);
+}
+
+/**
+ * Parse a share typed or pasted as words or base32
+ */
+export function parseShare(text: string): RecoveryShare {
+  const words = text.toLowerCase().trim().split(/\s+/).filter(word => word.length > 0);
+  const isWords = words.length > 1 && words.every(word => /^[a-z]+$/.test(word));
+  const bytes = isWords ? decodeBIP39Words(words) : base32CrockfordToUint8Array(text);
+  return deserializeShare(bytes);
+}
+
+// Short label for a share set, shown next to each share so sets are not mixed up
+export function formatSetId(setId: Uint8Array): string {
+  return uint8ArrayToBase32Crockford(setId);
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
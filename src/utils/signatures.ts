@@ -0,0 +1,165 @@
+/**
+ * Sign-only messages: detached signatures and clearsigned text blocks made
+ * with the Ed25519 signing key. Every signature carries the signer's signed
+ * bundle, so it can be checked without any prior exchange.
+ */
+
+import * as nacl from 'tweetnacl';
+import { KeyPair } from '../types';
+import { SignatureVerification } from '../types/signature';
+import { createSignedBundle, parsePublicKeyBundle, SIGNED_BUNDLE_LENGTH } from './ladder';
+import {
+  uint8ArrayToBase32Crockford,
+  base32CrockfordToUint8Array,
+  formatInGroups,
+  generateUserId
+} from './encoding';
+
+export const SIGNATURE_TYPE = 0x53; // 'S'
+const SIGNATURE_VERSION = 1;
+const LABEL_SIGNATURE = 'message-signature-v1';
+
+// type(1) + version(1) + created(4) + signed bundle(161), then the signature(64)
+const SIGNATURE_HEADER_LENGTH = 6 + SIGNED_BUNDLE_LENGTH;
+export const SIGNATURE_LENGTH = SIGNATURE_HEADER_LENGTH + 64;
+
+export const CLEARSIGN_BEGIN = '-----BEGIN SIGNED MESSAGE-----';
+const CLEARSIGN_SIGNATURE = '-----BEGIN SIGNATURE-----';
+const CLEARSIGN_END = '-----END SIGNATURE-----';
+
+const te = new TextEncoder();
+
+/**
+ * Line endings become \n, trailing whitespace is dropped from each line and
+ * trailing blank lines are removed, so copy and paste does not break a signature
+ */
+export function canonicalizeSignedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n+$/, '');
+}
+
+/**
+ * Signed bytes: label || header || canonical text
+ */
+function signatureMessage(header: Uint8Array, text: string): Uint8Array {
+  const prefix = new Uint8Array(te.encode(LABEL_SIGNATURE));
+  const body = new Uint8Array(te.encode(canonicalizeSignedText(text)));
+  const message = new Uint8Array(prefix.length + header.length + body.length);
+  message.set(prefix, 0);
+  message.set(header, prefix.length);
+  message.set(body, prefix.length + header.length);
+  return message;
+}
+
+export function isDetachedSignature(data: Uint8Array): boolean {
+  return data.length === SIGNATURE_LENGTH && data[0] === SIGNATURE_TYPE;
+}
+
+/**
+ * Sign text with our signing key. The signature embeds our signed bundle
+ * (identity key, ephemeral seed and signing key).
+ */
+export function createDetachedSignature(
+  text: string,
+  identityKey: Uint8Array,
+  ephemeralSeed: Uint8Array,
+  signingKeyPair: KeyPair,
+  now: number = Date.now()
+): Uint8Array {
+  const header = new Uint8Array(SIGNATURE_HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+  let offset = 0;
+  header[offset++] = SIGNATURE_TYPE;
+  header[offset++] = SIGNATURE_VERSION;
+  view.setUint32(offset, Math.floor(now / 1000), true);
+  offset += 4;
+  header.set(createSignedBundle(identityKey, ephemeralSeed, signingKeyPair), offset);
+
+  const signature = new Uint8Array(SIGNATURE_LENGTH);
+  signature.set(header, 0);
+  signature.set(nacl.sign.detached(signatureMessage(header, text), signingKeyPair.secretKey), SIGNATURE_HEADER_LENGTH);
+  return signature;
+}
+
+/**
+ * Check a detached signature over text. Throws if it is malformed or does not match.
+ */
+export function verifyDetachedSignature(text: string, signature: Uint8Array): SignatureVerification {
+  if (signature.length !== SIGNATURE_LENGTH || signature[0] !== SIGNATURE_TYPE) {
+    throw new Error('Not a signature');
+  }
+  if (signature[1] !== SIGNATURE_VERSION) {
+    throw new Error(`Unknown signature version: ${signature[1]}`);
+  }
+
+  const header = signature.slice(0, SIGNATURE_HEADER_LENGTH);
+  const { identityKey, signingKey } = parsePublicKeyBundle(header.slice(6)); // Throws on a bad bundle signature
+  if (!signingKey || !nacl.sign.detached.verify(signatureMessage(header, text), signature.slice(SIGNATURE_HEADER_LENGTH), signingKey)) {
+    throw new Error('Invalid signature');
+  }
+
+  return {
+    text: canonicalizeSignedText(text),
+    identityKey,
+    signingKey,
+    userId: generateUserId(identityKey),
+    createdAt: new DataView(header.buffer).getUint32(2, true) * 1000
+  };
+}
+
+/**
+ * Text block holding the message and its signature. Lines starting with a
+ * dash are escaped with "- " so they cannot be mistaken for the markers.
+ */
+export function createClearsignedMessage(
+  text: string,
+  identityKey: Uint8Array,
+  ephemeralSeed: Uint8Array,
+  signingKeyPair: KeyPair,
+  now: number = Date.now()
+): string {
+  const canonical = canonicalizeSignedText(text);
+  const signature = createDetachedSignature(canonical, identityKey, ephemeralSeed, signingKeyPair, now);
+  const escaped = canonical.split('\n').map(line => line.startsWith('-') ? `- ${line}` : line);
+
+  return [
+    CLEARSIGN_BEGIN,
+    ...escaped,
+    CLEARSIGN_SIGNATURE,
+    formatInGroups(uint8ArrayToBase32Crockford(signature), true),
+    CLEARSIGN_END
+  ].join('\n');
+}
+
+export function isClearsignedMessage(block: string): boolean {
+  return block.trim().startsWith(CLEARSIGN_BEGIN);
+}
+
+/**
+ * Split a clearsigned block into its text and signature bytes
+ */
+export function parseClearsignedMessage(block: string): { text: string; signature: Uint8Array } {
+  const lines = block.trim().replace(/\r\n?/g, '\n').split('\n');
+  const signatureStart = lines.indexOf(CLEARSIGN_SIGNATURE);
+  const end = lines.lastIndexOf(CLEARSIGN_END);
+  if (lines[0] !== CLEARSIGN_BEGIN || signatureStart < 1 || end < signatureStart) {
+    throw new Error('Malformed clearsigned message');
+  }
+
+  const text = lines.slice(1, signatureStart)
+    .map(line => line.startsWith('- ') ? line.slice(2) : line)
+    .join('\n');
+  return {
+    text,
+    signature: base32CrockfordToUint8Array(lines.slice(signatureStart + 1, end).join(''))
+  };
+}
+
+export function verifyClearsignedMessage(block: string): SignatureVerification {
+  const { text, signature } = parseClearsignedMessage(block);
+  return verifyDetachedSignature(text, signature);
+}
@@ -0,0 +1,70 @@
+/**
+ * JSON values kept in localStorage, encrypted with the session store key:
+ * base32(nonce(24) || secretbox(JSON))
+ */
+
+import * as nacl from 'tweetnacl';
+import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array } from './encoding';
+
+// Stores kept under the store key: fixed storage keys, and prefixes for per-session entries
+const SEALED_STORAGE_KEYS = ['trusted_identities', 'contacts', 'groups', 'ladder_counters', 'fragment_seq'];
+const SEALED_STORAGE_PREFIXES = ['ratchet_', 'conversation_'];
+
+/**
+ * Storage keys of the stores kept under the store key, including entries still
+ * in a format from before it (migrated at unlock)
+ */
+export function findSealedStorageKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && (SEALED_STORAGE_KEYS.includes(key) || SEALED_STORAGE_PREFIXES.some(p => key.startsWith(p)))) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+export function saveSealedItem(storageKey: string, value: unknown, storeKey: Uint8Array): void {
+  const plaintext = new Uint8Array(new TextEncoder().encode(JSON.stringify(value)));
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const encrypted = nacl.secretbox(plaintext, nonce, storeKey);
+
+  const combined = new Uint8Array(nonce.length + encrypted.length);
+  combined.set(nonce, 0);
+  combined.set(encrypted, nonce.length);
+
+  // Clear sensitive data
+  plaintext.fill(0);
+
+  localStorage.setItem(storageKey, uint8ArrayToBase32Crockford(combined));
+}
+
+/**
+ * Load a sealed value: null if nothing is stored, throws if it does not open with this key
+ */
+export function loadSealedItem<T>(storageKey: string, storeKey: Uint8Array): T | null {
+  const stored = localStorage.getItem(storageKey);
+  if (!stored) {
+    return null;
+  }
+
+  const combined = base32CrockfordToUint8Array(stored);
+  const nonce = combined.slice(0, nacl.secretbox.nonceLength);
+  const decrypted = nacl.secretbox.open(combined.slice(nacl.secretbox.nonceLength), nonce, storeKey);
+  if (!decrypted) {
+    throw new Error(`Stored ${storageKey} does not open with this key`);
+  }
+
+  return JSON.parse(new TextDecoder().decode(decrypted));
+}
+
+/**
+ * Re-encrypt a sealed value from one store key to another (master key change)
+ */
+export function rekeySealedItem(storageKey: string, oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  const value = loadSealedItem(storageKey, oldStoreKey);
+  if (value !== null) {
+    saveSealedItem(storageKey, value, newStoreKey);
+  }
+}
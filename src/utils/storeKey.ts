@@ -0,0 +1,204 @@
+/**
+ * Session store key: a salted scrypt key for data kept in localStorage.
+ * Derived once at unlock from the master key and held in memory until lock.
+ */
+
+import { scrypt } from 'scrypt-js';
+import * as nacl from 'tweetnacl';
+import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array } from './encoding';
+import {
+  serializeRatchetState,
+  deserializeRatchetState,
+  deserializeLegacyRatchetState,
+  isLegacyRatchetState
+} from './ratchet';
+import { rekeyTrustStore } from './trustStore';
+import { rekeyContacts } from './contacts';
+import { rekeyConversations } from './history';
+import { rekeyGroups } from './groups';
+import { rekeyFragmentSeq } from './fragmentSeq';
+import { migrateCounters, rekeyCounters } from './ladderState';
+import { findSealedStorageKeys } from './storeBox';
+
+const STORE_KDF_STORAGE_KEY = 'store_kdf';
+const SESSION_PREFIX = 'ratchet_';
+
+export interface StoreKdfParams {
+  N: number;
+  r: number;
+  p: number;
+  salt: Uint8Array;
+}
+
+// Default for new stores; once sealed, the store key travels in the URL fragment
+export const DEFAULT_STORE_KDF_PARAMS = { N: 16384, r: 8, p: 1 };
+
+/**
+ * Load the stored scrypt parameters and salt, or null if none are stored yet
+ */
+export function loadStoreKdfParams(): StoreKdfParams | null {
+  try {
+    const stored = localStorage.getItem(STORE_KDF_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+    const { N, r, p, salt } = JSON.parse(stored);
+    return { N, r, p, salt: base32CrockfordToUint8Array(salt) };
+  } catch (error) {
+    console.error('Failed to load store key parameters:', error);
+    return null;
+  }
+}
+
+export function saveStoreKdfParams(params: StoreKdfParams): void {
+  localStorage.setItem(STORE_KDF_STORAGE_KEY, JSON.stringify({
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    salt: uint8ArrayToBase32Crockford(params.salt)
+  }));
+}
+
+/**
+ * Fresh parameters with a random salt
+ */
+export function createStoreKdfParams(cost: Omit<StoreKdfParams, 'salt'> = DEFAULT_STORE_KDF_PARAMS): StoreKdfParams {
+  return { ...cost, salt: nacl.randomBytes(16) };
+}
+
+/**
+ * Derive the 32-byte store key from the master key
+ */
+export async function deriveStoreKey(masterKey: string, params: StoreKdfParams): Promise<Uint8Array> {
+  const passphrase = new Uint8Array(new TextEncoder().encode(masterKey));
+  const key = await scrypt(passphrase, params.salt, params.N, params.r, params.p, nacl.secretbox.keyLength);
+
+  // Clear sensitive data
+  passphrase.fill(0);
+
+  return new Uint8Array(key);
+}
+
+function getSessionKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(SESSION_PREFIX)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Re-encrypt sessions stored under the master key hash with the store key.
+ * Entries that do not open with this master key are left untouched.
+ * Returns the number of sessions migrated.
+ */
+export function migrateRatchetSessions(masterKey: string, storeKey: Uint8Array): number {
+  let migrated = 0;
+
+  for (const key of getSessionKeys()) {
+    const serialized = localStorage.getItem(key);
+    if (!serialized || !isLegacyRatchetState(serialized)) {
+      continue;
+    }
+
+    const state = deserializeLegacyRatchetState(serialized, masterKey);
+    if (state) {
+      localStorage.setItem(key, serializeRatchetState(state, storeKey));
+      migrated++;
+    }
+  }
+
+  return migrated;
+}
+
+/**
+ * Re-encrypt all sessions from one store key to another (master key change)
+ */
+export function rekeyRatchetSessions(oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  for (const key of getSessionKeys()) {
+    const serialized = localStorage.getItem(key);
+    const state = serialized ? deserializeRatchetState(serialized, oldStoreKey) : null;
+    if (state) {
+      localStorage.setItem(key, serializeRatchetState(state, newStoreKey));
+    }
+  }
+}
+
+/**
+ * Whether data sealed under a store key exists but its parameters are missing
+ * or unreadable. New parameters would leave all of it unopenable. Sessions and
+ * Ladder counters from before the store key do not count: they are migrated.
+ */
+export function storeKdfParamsLost(): boolean {
+  if (loadStoreKdfParams()) {
+    return false;
+  }
+  return findSealedStorageKeys().some(key => {
+    const stored = localStorage.getItem(key) ?? '';
+    if (key.startsWith(SESSION_PREFIX)) {
+      return !isLegacyRatchetState(stored);
+    }
+    return !stored.startsWith('{'); // Plain JSON counters predate the store key
+  });
+}
+
+/**
+ * Derive the store key at unlock, creating parameters on first use and
+ * migrating sessions and Ladder counters stored before the store key existed.
+ * Throws if the parameters were lost, unless the caller confirmed starting a
+ * new store (the old entries are left in place).
+ */
+export async function unlockStoreKey(
+  masterKey: string,
+  { replaceLostParams = false }: { replaceLostParams?: boolean } = {}
+): Promise<Uint8Array> {
+  let params = loadStoreKdfParams();
+  if (!params) {
+    if (!replaceLostParams && storeKdfParamsLost()) {
+      throw new Error('Store key parameters are missing; stored data sealed under them cannot be opened');
+    }
+    params = createStoreKdfParams();
+    saveStoreKdfParams(params);
+  }
+
+  const storeKey = await deriveStoreKey(masterKey, params);
+  migrateRatchetSessions(masterKey, storeKey);
+  migrateCounters(storeKey);
+  return storeKey;
+}
+
+/**
+ * Switch the store to a new master key: fresh salt, sessions re-encrypted.
+ * `commit` runs with the new key before anything else is re-keyed (e.g. to seal
+ * it into the URL fragment); if it throws, the store stays under the old key.
+ */
+export async function changeStoreKey(
+  newMasterKey: string,
+  oldStoreKey: Uint8Array,
+  commit?: (newStoreKey: Uint8Array) => Promise<void>
+): Promise<Uint8Array> {
+  const params = createStoreKdfParams(loadStoreKdfParams() ?? DEFAULT_STORE_KDF_PARAMS);
+  const newStoreKey = await deriveStoreKey(newMasterKey, params);
+
+  // A fragment write reads and updates the sequence record, so it moves first
+  rekeyFragmentSeq(oldStoreKey, newStoreKey);
+  try {
+    await commit?.(newStoreKey);
+  } catch (error) {
+    rekeyFragmentSeq(newStoreKey, oldStoreKey);
+    throw error;
+  }
+
+  rekeyRatchetSessions(oldStoreKey, newStoreKey);
+  rekeyTrustStore(oldStoreKey, newStoreKey);
+  rekeyContacts(oldStoreKey, newStoreKey);
+  rekeyConversations(oldStoreKey, newStoreKey);
+  rekeyGroups(oldStoreKey, newStoreKey);
+  rekeyCounters(oldStoreKey, newStoreKey);
+  saveStoreKdfParams(params);
+
+  return newStoreKey;
+}
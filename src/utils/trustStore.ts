@@ -0,0 +1,237 @@
+/**
+ * Trust-on-first-use pinning of contact keys.
+ * The first bundle seen for a contact is pinned; a different identity key,
+ * signing key or ephemeral seed later must be accepted by the user before it
+ * is used. A new seed signed by the pinned signing key is accepted as a rotation.
+ * A seed first seen in an unsigned bundle is pinned but marked unsigned, so the
+ * app can warn that a relay may have swapped it.
+ * Recipients entered without a name are pinned under a name derived from their
+ * identity key.
+ */
+
+import * as nacl from 'tweetnacl';
+import { uint8ArrayToBase32Crockford, base32CrockfordToUint8Array } from './encoding';
+import { saveSealedItem, loadSealedItem, rekeySealedItem } from './storeBox';
+
+const TRUST_STORAGE_KEY = 'trusted_identities';
+
+export interface PinnedIdentity {
+  identityKey: Uint8Array;
+  ephemeralSeed: Uint8Array | null; // Null until a full bundle is seen
+  signingKey: Uint8Array | null;    // Null until a signed bundle is seen
+  unsignedSeed: boolean;            // The pinned seed came from an unsigned bundle
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export type TrustStore = Map<string, PinnedIdentity>;
+
+export interface KeyChange {
+  contact: string;
+  previous: PinnedIdentity;
+  identityKey: Uint8Array;
+  ephemeralSeed: Uint8Array | null;
+  signingKey: Uint8Array | null;
+  identityKeyChanged: boolean;
+  ephemeralSeedChanged: boolean;
+  signingKeyChanged: boolean;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a[i] ^ b[i];
+  }
+  return result === 0;
+}
+
+/**
+ * Contacts are matched by name, ignoring case and surrounding whitespace
+ */
+export function normalizeContactName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Pin name for a recipient entered without a contact name
+ */
+export function anonymousContactName(identityKey: Uint8Array): string {
+  const fingerprint = uint8ArrayToBase32Crockford(nacl.hash(identityKey)).slice(0, 16);
+  return normalizeContactName(`key:${fingerprint}`);
+}
+
+/**
+ * Find the pin for keys entered without a contact name: first by identity key,
+ * then by ephemeral seed or signing key, so a recipient whose identity key
+ * changed is still matched. Returns the pinned name, or null if none matches.
+ */
+export function findPinnedContact(
+  store: TrustStore,
+  identityKey: Uint8Array,
+  ephemeralSeed: Uint8Array | null,
+  signingKey: Uint8Array | null = null
+): string | null {
+  for (const [name, pinned] of store) {
+    if (bytesEqual(pinned.identityKey, identityKey)) {
+      return name;
+    }
+  }
+
+  for (const [name, pinned] of store) {
+    const sameSeed = ephemeralSeed !== null && pinned.ephemeralSeed !== null &&
+      bytesEqual(pinned.ephemeralSeed, ephemeralSeed);
+    const sameSigningKey = signingKey !== null && pinned.signingKey !== null &&
+      bytesEqual(pinned.signingKey, signingKey);
+    if (sameSeed || sameSigningKey) {
+      return name;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compare a contact's keys with the pinned ones.
+ * Returns null for an unknown contact or matching keys. Keys missing from the
+ * bundle are not checked. The signing key must come from a verified bundle:
+ * a seed signed by the pinned signing key is not reported as a change.
+ */
+export function checkPinnedIdentity(
+  store: TrustStore,
+  contact: string,
+  identityKey: Uint8Array,
+  ephemeralSeed: Uint8Array | null,
+  signingKey: Uint8Array | null = null
+): KeyChange | null {
+  const previous = store.get(normalizeContactName(contact));
+  if (!previous) {
+    return null;
+  }
+
+  const identityKeyChanged = !bytesEqual(previous.identityKey, identityKey);
+  const signingKeyChanged = previous.signingKey !== null && signingKey !== null &&
+    !bytesEqual(previous.signingKey, signingKey);
+  const signedByPinnedKey = previous.signingKey !== null && signingKey !== null && !signingKeyChanged;
+  const ephemeralSeedChanged = previous.ephemeralSeed !== null && ephemeralSeed !== null &&
+    !bytesEqual(previous.ephemeralSeed, ephemeralSeed) && !signedByPinnedKey;
+
+  if (!identityKeyChanged && !ephemeralSeedChanged && !signingKeyChanged) {
+    return null;
+  }
+
+  return {
+    contact,
+    previous,
+    identityKey,
+    ephemeralSeed,
+    signingKey,
+    identityKeyChanged,
+    ephemeralSeedChanged,
+    signingKeyChanged
+  };
+}
+
+/**
+ * Pin (or re-pin after an accepted change) a contact's keys.
+ * The first-seen time is kept while the identity key stays the same.
+ */
+export function pinIdentity(
+  store: TrustStore,
+  contact: string,
+  identityKey: Uint8Array,
+  ephemeralSeed: Uint8Array | null,
+  signingKey: Uint8Array | null = null,
+  now: number = Date.now()
+): TrustStore {
+  const name = normalizeContactName(contact);
+  const previous = store.get(name);
+  const sameIdentity = previous !== undefined && bytesEqual(previous.identityKey, identityKey);
+  const pinnedSeed = sameIdentity ? previous.ephemeralSeed : null;
+  // An unsigned bundle repeating the pinned seed keeps that seed's status
+  const keptSeed = pinnedSeed !== null && (ephemeralSeed === null || bytesEqual(pinnedSeed, ephemeralSeed));
+
+  const updated = new Map(store);
+  updated.set(name, {
+    identityKey,
+    ephemeralSeed: ephemeralSeed ?? pinnedSeed,
+    signingKey: signingKey ?? (sameIdentity ? previous.signingKey : null),
+    unsignedSeed: signingKey === null && (keptSeed ? previous!.unsignedSeed : ephemeralSeed !== null),
+    firstSeen: sameIdentity ? previous.firstSeen : now,
+    lastSeen: now
+  });
+  return updated;
+}
+
+/**
+ * Move a pin to a contact's new name (contact renamed)
+ */
+export function renamePinnedIdentity(store: TrustStore, oldName: string, newName: string): TrustStore {
+  const pinned = store.get(normalizeContactName(oldName));
+  if (!pinned) {
+    return store;
+  }
+
+  const updated = new Map(store);
+  updated.delete(normalizeContactName(oldName));
+  updated.set(normalizeContactName(newName), pinned);
+  return updated;
+}
+
+/**
+ * Forget a contact's pinned keys (contact deleted)
+ */
+export function forgetPinnedIdentity(store: TrustStore, name: string): TrustStore {
+  const updated = new Map(store);
+  updated.delete(normalizeContactName(name));
+  return updated;
+}
+
+/**
+ * Load the trust store (encrypted with the store key)
+ */
+export function loadTrustStore(storeKey: Uint8Array): TrustStore {
+  const store: TrustStore = new Map();
+
+  try {
+    const entries = loadSealedItem<[string, any][]>(TRUST_STORAGE_KEY, storeKey) ?? [];
+    for (const [name, entry] of entries) {
+      store.set(name, {
+        identityKey: base32CrockfordToUint8Array(entry.identityKey),
+        ephemeralSeed: entry.ephemeralSeed ? base32CrockfordToUint8Array(entry.ephemeralSeed) : null,
+        signingKey: entry.signingKey ? base32CrockfordToUint8Array(entry.signingKey) : null,
+        // Pins saved before this flag: a seed without a signing key is unsigned
+        unsignedSeed: entry.unsignedSeed ?? (entry.ephemeralSeed !== null && entry.signingKey === null),
+        firstSeen: entry.firstSeen,
+        lastSeen: entry.lastSeen
+      });
+    }
+  } catch (error) {
+    console.error('Failed to load trust store:', error);
+  }
+
+  return store;
+}
+
+export function saveTrustStore(store: TrustStore, storeKey: Uint8Array): void {
+  const entries = Array.from(store.entries()).map(([name, entry]) => [name, {
+    identityKey: uint8ArrayToBase32Crockford(entry.identityKey),
+    ephemeralSeed: entry.ephemeralSeed ? uint8ArrayToBase32Crockford(entry.ephemeralSeed) : null,
+    signingKey: entry.signingKey ? uint8ArrayToBase32Crockford(entry.signingKey) : null,
+    unsignedSeed: entry.unsignedSeed,
+    firstSeen: entry.firstSeen,
+    lastSeen: entry.lastSeen
+  }]);
+  saveSealedItem(TRUST_STORAGE_KEY, entries, storeKey);
+}
+
+/**
+ * Re-encrypt the trust store from one store key to another (master key change)
+ */
+export function rekeyTrustStore(oldStoreKey: Uint8Array, newStoreKey: Uint8Array): void {
+  rekeySealedItem(TRUST_STORAGE_KEY, oldStoreKey, newStoreKey);
+}
+
+export function clearTrustStore(): void {
+  localStorage.removeItem(TRUST_STORAGE_KEY);
+}
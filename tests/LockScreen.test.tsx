@@ -2,12 +2,15 @@ import React, { useState } from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { LockScreen } from '../src/components/LockScreen';
+import { splitSecret, shareToWords, shareToBase32 } from '../src/utils/shamir';
+import { entropyToRecoveryPhrase } from '../src/utils/recovery';
 
 describe('LockScreen', () => {
   const mockProps = {
     masterKey: '',
     setMasterKey: jest.fn(),
     onUnlock: jest.fn().mockResolvedValue(true),
+    onRestore: jest.fn().mockResolvedValue(true),
     waitingForMasterKey: false,
     onFreshStart: jest.fn(),
     isUnlocking: false
@@ -210,4 +213,186 @@ describe('LockScreen', () => {
     expect(window.confirm).toHaveBeenCalled();
     expect(mockProps.onFreshStart).not.toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  describe('rollback warning', () => {
+    const olderWarning = { reason: 'older' as const, fragmentSeq: 3, knownSeq: 7, identityChanged: true };
+
+    it('should explain an older link and open it only when overridden', async () => {
+      const onOverrideRollback = jest.fn().mockResolvedValue(true);
+      render(<LockScreen {...mockProps} waitingForMasterKey={true} rollbackWarning={olderWarning} onOverrideRollback={onOverrideRollback} onDismissRollback={jest.fn()} />);
+
+      expect(screen.getByRole('alert')).toHaveTextContent('version 3 of your keys, but this device has already seen version 7');
+      expect(screen.getByRole('alert')).toHaveTextContent('different identity');
+      expect(mockProps.onUnlock).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Open anyway'));
+      await waitFor(() => expect(screen.getByText('Unlocked!')).toBeInTheDocument());
+      expect(onOverrideRollback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dismiss the warning on Cancel', () => {
+      const onDismissRollback = jest.fn();
+      render(<LockScreen {...mockProps} waitingForMasterKey={true} rollbackWarning={olderWarning} onOverrideRollback={jest.fn()} onDismissRollback={onDismissRollback} />);
+
+      fireEvent.click(screen.getByText('Cancel'));
+      expect(onDismissRollback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should explain a record that cannot be verified', () => {
+      render(<LockScreen {...mockProps} waitingForMasterKey={true} rollbackWarning={{ reason: 'unverifiable', fragmentSeq: 4 }} />);
+      expect(screen.getByRole('alert')).toHaveTextContent('before a master key change');
+    });
+
+    it('should explain a missing record', () => {
+      render(<LockScreen {...mockProps} waitingForMasterKey={true} rollbackWarning={{ reason: 'unverifiable', fragmentSeq: 4, recordMissing: true }} />);
+      expect(screen.getByRole('alert')).toHaveTextContent('no record of your newest keys');
+    });
+  });
+
+  describe('context mismatch', () => {
+    const mismatch = { boundTo: { kind: 'origin' as const, origin: 'https://old.example' }, origin: 'null' };
+
+    it('should offer to re-bind a link sealed for another location', async () => {
+      const onRebindContext = jest.fn().mockResolvedValue(true);
+      render(<LockScreen {...mockProps} waitingForMasterKey={true} contextMismatch={mismatch} onRebindContext={onRebindContext} onDismissContextMismatch={jest.fn()} />);
+
+      expect(screen.getByRole('alert')).toHaveTextContent('only opens at https://old.example');
+      expect(screen.getByRole('alert')).toHaveTextContent('runs at a local file or data URI');
+
+      fireEvent.click(screen.getByText('Re-bind to this location'));
+      await waitFor(() => expect(screen.getByText('Unlocked!')).toBeInTheDocument());
+      expect(onRebindContext).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dismiss the mismatch on Cancel', () => {
+      const onDismissContextMismatch = jest.fn();
+      render(<LockScreen {...mockProps} waitingForMasterKey={true} contextMismatch={mismatch} onRebindContext={jest.fn()} onDismissContextMismatch={onDismissContextMismatch} />);
+
+      fireEvent.click(screen.getByText('Cancel'));
+      expect(onDismissContextMismatch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should show key derivation progress while unlocking', () => {
+    const { rerender } = render(
+      <LockScreen {...mockProps} waitingForMasterKey={true} isUnlocking={true} unlockProgress={{ stage: 'upgrading', fraction: 0.42 }} />
+    );
+
+    expect(screen.getByText('Strengthening key protection... 42%')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '42');
+
+    rerender(<LockScreen {...mockProps} waitingForMasterKey={true} isUnlocking={false} unlockProgress={{ stage: 'upgrading', fraction: 1 }} />);
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+  });
+
+  describe('restoring from a recovery phrase', () => {
+    const phrase = Array(24).fill('abandon').join(' ');
+
+    const TestWrapper = (props: Partial<typeof mockProps>) => {
+      const [masterKey, setMasterKey] = useState('');
+      return (
+        <LockScreen
+          {...mockProps}
+          {...props}
+          masterKey={masterKey}
+          setMasterKey={setMasterKey}
+        />
+      );
+    };
+
+    it('should pass the phrase to onRestore once it has 24 words and a confirmed master key', async () => {
+      const user = userEvent.setup();
+      const onRestoreMock = jest.fn().mockResolvedValue(true);
+      render(<TestWrapper onRestore={onRestoreMock} />);
+
+      fireEvent.click(screen.getByText('Restore from recovery phrase'));
+      fireEvent.change(screen.getByPlaceholderText('Recovery phrase (24 words)'), { target: { value: phrase } });
+      expect(screen.getByText('24/24 words')).toBeInTheDocument();
+
+      await user.type(screen.getByPlaceholderText('Choose a strong master key'), 'valid-master-key-12345');
+      await user.type(screen.getByPlaceholderText('Confirm your master key'), 'valid-master-key-12345');
+      fireEvent.click(screen.getByText('Restore Keys'));
+
+      await waitFor(() => {
+        expect(onRestoreMock).toHaveBeenCalledWith(phrase);
+      });
+      expect(mockProps.onUnlock).not.toHaveBeenCalled();
+    });
+
+    it('should keep the restore button disabled until the phrase has 24 words', async () => {
+      const user = userEvent.setup();
+      render(<TestWrapper />);
+
+      fireEvent.click(screen.getByText('Restore from recovery phrase'));
+      fireEvent.change(screen.getByPlaceholderText('Recovery phrase (24 words)'), { target: { value: 'abandon ability able' } });
+      await user.type(screen.getByPlaceholderText('Choose a strong master key'), 'valid-master-key-12345');
+      await user.type(screen.getByPlaceholderText('Confirm your master key'), 'valid-master-key-12345');
+
+      expect(screen.getByText('3/24 words')).toBeInTheDocument();
+      expect(screen.getByText('Restore Keys')).toBeDisabled();
+    });
+
+    it('should ask before replacing an encrypted key found in the URL', async () => {
+      const user = userEvent.setup();
+      const onRestoreMock = jest.fn().mockResolvedValue(true);
+      window.confirm = jest.fn(() => false);
+      render(<TestWrapper waitingForMasterKey={true} onRestore={onRestoreMock} />);
+
+      fireEvent.click(screen.getByText('Restore from recovery phrase'));
+      expect(screen.queryByText('(Need a fresh start?)')).not.toBeInTheDocument();
+      fireEvent.change(screen.getByPlaceholderText('Recovery phrase (24 words)'), { target: { value: phrase } });
+      await user.type(screen.getByPlaceholderText('Choose a strong master key'), 'valid-master-key-12345');
+      await user.type(screen.getByPlaceholderText('Confirm your master key'), 'valid-master-key-12345');
+      fireEvent.click(screen.getByText('Restore Keys'));
+
+      expect(window.confirm).toHaveBeenCalledWith(expect.stringContaining('replaces the encrypted key in the URL'));
+      expect(onRestoreMock).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild the phrase from enough shares and pass it to onRestore', async () => {
+      const user = userEvent.setup();
+      const onRestoreMock = jest.fn().mockResolvedValue(true);
+      const entropy = new Uint8Array(32).fill(9);
+      const shares = splitSecret(entropy, 2, 3);
+      render(<TestWrapper onRestore={onRestoreMock} />);
+
+      fireEvent.click(screen.getByText('Restore from recovery phrase'));
+      fireEvent.click(screen.getByText('Use recovery shares instead'));
+      fireEvent.change(screen.getByPlaceholderText('Share 1'), { target: { value: shareToWords(shares[2]).join(' ') } });
+      expect(screen.getByText('Need 2 shares, got 1')).toBeInTheDocument();
+      fireEvent.change(screen.getByPlaceholderText('Share 2'), { target: { value: shareToBase32(shares[0]) } });
+      expect(screen.getByText('✓ Shares combine into your recovery phrase')).toBeInTheDocument();
+
+      await user.type(screen.getByPlaceholderText('Choose a strong master key'), 'valid-master-key-12345');
+      await user.type(screen.getByPlaceholderText('Confirm your master key'), 'valid-master-key-12345');
+      fireEvent.click(screen.getByText('Restore Keys'));
+
+      await waitFor(() => {
+        expect(onRestoreMock).toHaveBeenCalledWith(entropyToRecoveryPhrase(entropy).join(' '));
+      });
+    });
+
+    it('should refuse shares from different splits', () => {
+      const entropy = new Uint8Array(32).fill(9);
+      render(<TestWrapper />);
+
+      fireEvent.click(screen.getByText('Restore from recovery phrase'));
+      fireEvent.click(screen.getByText('Use recovery shares instead'));
+      fireEvent.change(screen.getByPlaceholderText('Share 1'), { target: { value: shareToBase32(splitSecret(entropy, 2, 3)[0]) } });
+      fireEvent.change(screen.getByPlaceholderText('Share 2'), { target: { value: shareToBase32(splitSecret(entropy, 2, 3)[1]) } });
+
+      expect(screen.getByText(/Shares come from different backups/)).toBeInTheDocument();
+      expect(screen.getByText('Restore Keys')).toBeDisabled();
+    });
+
+    it('should return to unlocking with Back', () => {
+      render(<TestWrapper waitingForMasterKey={true} />);
+
+      fireEvent.click(screen.getByText('Restore from recovery phrase'));
+      fireEvent.click(screen.getByText('Back'));
+
+      expect(screen.getByText('Unlock')).toBeInTheDocument();
+      expect(screen.queryByPlaceholderText('Recovery phrase (24 words)')).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for Argon2 (RFC 9106) and the BLAKE2b it is built on
+ */
+
+import { argon2, argon2id, ARGON2D, ARGON2I, ARGON2ID, Argon2Type } from '../src/utils/argon2';
+import { blake2b } from '../src/utils/hash';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('Argon2', () => {
+  describe('blake2b', () => {
+    it('matches the RFC 7693 "abc" vector', () => {
+      expect(toHex(blake2b(new Uint8Array([0x61, 0x62, 0x63])))).toBe(
+        'ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1' +
+        '7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923'
+      );
+    });
+
+    it('hashes the empty input and multi-block inputs to the requested length', () => {
+      expect(toHex(blake2b(new Uint8Array(0)))).toBe(
+        '786a02f742015903c6c6fd852552d272912f4740e15847618a86e217f71f5419' +
+        'd25e1031afee585313896444934eb04b903a685b1448b755d56f701afe9be2ce'
+      );
+      expect(blake2b(new Uint8Array(300), 32)).toHaveLength(32);
+      expect(() => blake2b(new Uint8Array(1), 65)).toThrow('between 1 and 64 bytes');
+    });
+  });
+
+  // RFC 9106 section 5: m=32 KiB, t=3, p=4, 32-byte tag, with secret and associated data
+  describe('RFC 9106 test vectors', () => {
+    const vector = (type: Argon2Type) => argon2({
+      type,
+      password: new Uint8Array(32).fill(0x01),
+      salt: new Uint8Array(16).fill(0x02),
+      secret: new Uint8Array(8).fill(0x03),
+      associatedData: new Uint8Array(12).fill(0x04),
+      memory: 32,
+      passes: 3,
+      parallelism: 4,
+      tagLength: 32
+    });
+
+    it('Argon2d', async () => {
+      expect(toHex(await vector(ARGON2D))).toBe('512b391b6f1162975371d30919734294f868e3be3984f3c1a13a4db9fabe4acb');
+    });
+
+    it('Argon2i', async () => {
+      expect(toHex(await vector(ARGON2I))).toBe('c814d9d1dc7f37aa13f0d77f2494bda1c8de6b016dd388d29952a4c4672b6ce8');
+    });
+
+    it('Argon2id', async () => {
+      expect(toHex(await vector(ARGON2ID))).toBe('0d640df58d78766c08c037a34a8b53c9d01ef0452d75b65eb52520e96b01e659');
+    });
+  });
+
+  describe('argon2id', () => {
+    const password = new Uint8Array([1, 2, 3, 4]);
+    const salt = new Uint8Array(16).fill(9);
+
+    it('is deterministic and depends on every cost parameter', async () => {
+      const base = await argon2id(password, salt, { m: 64, t: 1, p: 1 });
+
+      expect(await argon2id(password, salt, { m: 64, t: 1, p: 1 })).toEqual(base);
+      expect(await argon2id(password, salt, { m: 128, t: 1, p: 1 })).not.toEqual(base);
+      expect(await argon2id(password, salt, { m: 64, t: 2, p: 1 })).not.toEqual(base);
+      expect(await argon2id(password, salt, { m: 64, t: 1, p: 2 })).not.toEqual(base);
+    });
+
+    it('produces tags of any length from 4 bytes', async () => {
+      expect(await argon2id(password, salt, { m: 64, t: 1, p: 1 }, 100)).toHaveLength(100);
+      await expect(argon2id(password, salt, { m: 64, t: 1, p: 1 }, 3)).rejects.toThrow('at least 4 bytes');
+    });
+
+    it('rejects a short salt or too little memory', async () => {
+      await expect(argon2id(password, new Uint8Array(4), { m: 64, t: 1, p: 1 })).rejects.toThrow('at least 8 bytes');
+      await expect(argon2id(password, salt, { m: 16, t: 1, p: 4 })).rejects.toThrow('at least 8 KiB per lane');
+    });
+
+    it('ends its progress reports at 1', async () => {
+      const fractions: number[] = [];
+      await argon2id(password, salt, { m: 64, t: 1, p: 1 }, 32, fraction => fractions.push(fraction));
+      expect(fractions[fractions.length - 1]).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the armored message container: headers, CRC-24 and type dispatch
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  crc24,
+  armorMessage,
+  dearmorMessage,
+  decodeMessageText,
+  isArmoredMessage,
+  ARMOR_BEGIN,
+  ARMOR_END
+} from '../src/utils/armor';
+import { encryptMessage, encryptMessageForRecipients, decryptBoxMessage } from '../src/utils/crypto';
+import { initializeRatchet, ratchetEncrypt } from '../src/utils/ratchet';
+import { formatInGroups, uint8ArrayToBase32Crockford } from '../src/utils/encoding';
+
+describe('Armored messages', () => {
+  const alice = nacl.box.keyPair();
+  const bob = nacl.box.keyPair();
+
+  // A box message whose nonce starts with the given byte, as a random nonce sometimes does
+  function boxStartingWith(firstByte: number): Uint8Array {
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    nonce[0] = firstByte;
+    const box = nacl.box(new Uint8Array(new TextEncoder().encode('hello')), nonce, bob.publicKey, alice.secretKey);
+    const encrypted = new Uint8Array(nonce.length + box.length);
+    encrypted.set(nonce);
+    encrypted.set(box, nonce.length);
+    return encrypted;
+  }
+
+  describe('crc24', () => {
+    it('matches the OpenPGP check value', () => {
+      expect(crc24(new Uint8Array(new TextEncoder().encode('123456789')))).toBe(0x21cf02);
+      expect(crc24(new Uint8Array(0))).toBe(0xb704ce);
+    });
+  });
+
+  describe('armorMessage', () => {
+    it('writes the markers, type, version and checksum around base32 groups', () => {
+      const encrypted = encryptMessage('hello', bob.publicKey, alice.secretKey);
+      const armored = armorMessage('box', encrypted);
+      const lines = armored.split('\n');
+
+      expect(lines[0]).toBe(ARMOR_BEGIN);
+      expect(lines[1]).toBe('Type: box');
+      expect(lines[2]).toBe('Version: 1');
+      expect(lines[3]).toBe('');
+      expect(lines.slice(4, -2).join('\n')).toBe(formatInGroups(uint8ArrayToBase32Crockford(encrypted), true));
+      expect(lines[lines.length - 2]).toMatch(/^=[0-9A-Z]{5}$/);
+      expect(lines[lines.length - 1]).toBe(ARMOR_END);
+    });
+
+    it('round-trips every type', () => {
+      const box = encryptMessage('hello', bob.publicKey, alice.secretKey);
+      const multi = encryptMessageForRecipients('hello', [bob.publicKey, nacl.box.keyPair().publicKey], alice.secretKey);
+      const [ratchet] = ratchetEncrypt(
+        initializeRatchet(alice, bob.publicKey),
+        new Uint8Array(new TextEncoder().encode('hello'))
+      );
+
+      expect(dearmorMessage(armorMessage('box', box))).toEqual({ type: 'box', data: box });
+      expect(dearmorMessage(armorMessage('multi', multi))).toEqual({ type: 'multi', data: multi });
+      expect(dearmorMessage(armorMessage('ratchet', ratchet))).toEqual({ type: 'ratchet', data: ratchet });
+    });
+  });
+
+  describe('dearmorMessage', () => {
+    it('keeps a box message a box message even when its nonce starts with 0x01', () => {
+      const encrypted = boxStartingWith(0x01);
+      const { type, data } = dearmorMessage(armorMessage('box', encrypted));
+
+      expect(type).toBe('box');
+      expect(decryptBoxMessage(data, alice.publicKey, bob.secretKey)).toBe('hello');
+    });
+
+    it('accepts CRLF line endings, indentation and surrounding whitespace', () => {
+      const encrypted = encryptMessage('hello', bob.publicKey, alice.secretKey);
+      const pasted = `\n\n${armorMessage('box', encrypted).split('\n').map(line => `  ${line}`).join('\r\n')}\r\n`;
+
+      expect(isArmoredMessage(pasted)).toBe(true);
+      expect(dearmorMessage(pasted).data).toEqual(encrypted);
+    });
+
+    it('rejects a damaged payload', () => {
+      const armored = armorMessage('box', encryptMessage('hello', bob.publicKey, alice.secretKey));
+      const lines = armored.split('\n');
+      lines[4] = (lines[4][0] === 'A' ? 'B' : 'A') + lines[4].slice(1);
+
+      expect(() => dearmorMessage(lines.join('\n'))).toThrow('Checksum mismatch');
+    });
+
+    it('rejects unknown types and versions', () => {
+      const armored = armorMessage('box', encryptMessage('hello', bob.publicKey, alice.secretKey));
+
+      expect(() => dearmorMessage(armored.replace('Type: box', 'Type: carrier-pigeon'))).toThrow('Unknown message type: carrier-pigeon');
+      expect(() => dearmorMessage(armored.replace('Version: 1', 'Version: 2'))).toThrow('Unsupported message version: 2');
+      expect(() => dearmorMessage(armored.replace('Type: box\n', ''))).toThrow('Unknown message type: missing');
+    });
+
+    it('rejects a type that does not match the payload', () => {
+      const box = boxStartingWith(0x47);
+      expect(() => dearmorMessage(armorMessage('group', box))).toThrow('does not look like a group message');
+      expect(() => dearmorMessage(armorMessage('ladder', box))).toThrow('does not look like a ladder message');
+    });
+
+    it('rejects a block without its checksum or end line', () => {
+      const armored = armorMessage('box', encryptMessage('hello', bob.publicKey, alice.secretKey));
+      const lines = armored.split('\n');
+
+      expect(() => dearmorMessage(lines.filter(line => !line.startsWith('=')).join('\n'))).toThrow('Malformed armored message');
+      expect(() => dearmorMessage(lines.slice(0, -1).join('\n'))).toThrow('Malformed armored message');
+    });
+  });
+
+  describe('decodeMessageText', () => {
+    it('still accepts bare base32 from older versions, without a type', () => {
+      const encrypted = encryptMessage('hello', bob.publicKey, alice.secretKey);
+      const bare = formatInGroups(uint8ArrayToBase32Crockford(encrypted), true);
+
+      expect(decodeMessageText(bare)).toEqual({ type: null, data: encrypted });
+    });
+
+    it('reads the type of an armored block', () => {
+      const encrypted = encryptMessage('hello', bob.publicKey, alice.secretKey);
+      expect(decodeMessageText(armorMessage('box', encrypted)).type).toBe('box');
+    });
+  });
+});
@@ -2,7 +2,19 @@
  * Tests for BIP39 word encoding/decoding with 32 and 64 byte support
  */
 
-import { uint8ArrayToWords, wordsToUint8Array, formatWords } from '../src/utils/bip39';
+import {
+  uint8ArrayToWords,
+  wordsToUint8Array,
+  formatWords,
+  isBIP39Format,
+  suggestBIP39Words,
+  encodeBIP39Words,
+  decodeBIP39Words,
+  BIP39_WORDLIST
+} from '../src/utils/bip39';
+import { sha256, sha256Sync } from '../src/utils/hash';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
 
 describe('BIP39 Word Encoding', () => {
   describe('32-byte encoding (24 words)', () => {
@@ -79,6 +91,98 @@ describe('BIP39 Word Encoding', () => {
     });
   });
 
+  describe('sha256Sync', () => {
+    it('matches the FIPS 180-2 vectors', () => {
+      expect(hex(sha256Sync(new Uint8Array(0)))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+      expect(hex(sha256Sync(new Uint8Array(new TextEncoder().encode('abc'))))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+
+    it('matches WebCrypto across padding boundaries', async () => {
+      for (const length of [55, 56, 63, 64, 65, 1000]) {
+        const data = new Uint8Array(length).map((_, i) => (i * 31 + length) & 0xff);
+        expect(sha256Sync(data)).toEqual(await sha256(data));
+      }
+    });
+  });
+
+  describe('BIP39 checksums', () => {
+    it('matches the reference vectors for 256-bit entropy', () => {
+      expect(uint8ArrayToWords(new Uint8Array(32)).join(' ')).toBe(`${'abandon '.repeat(23)}art`);
+      expect(uint8ArrayToWords(new Uint8Array(32).fill(0x7f)).join(' ')).toBe(
+        'legal winner thank year wave sausage worth useful legal winner thank year ' +
+        'wave sausage worth useful legal winner thank year wave sausage worth title'
+      );
+      expect(uint8ArrayToWords(new Uint8Array(32).fill(0x80)).join(' ')).toBe(
+        'letter advice cage absurd amount doctor acoustic avoid letter advice cage absurd ' +
+        'amount doctor acoustic avoid letter advice cage absurd amount doctor acoustic bless'
+      );
+      expect(uint8ArrayToWords(new Uint8Array(32).fill(0xff)).join(' ')).toBe(`${'zoo '.repeat(23)}vote`);
+    });
+
+    it('uses the first 16 bits of SHA-256 as the checksum for 64-byte bundles', () => {
+      const bundle = new Uint8Array(64).map((_, i) => i);
+      const bits = uint8ArrayToWords(bundle)
+        .map(word => BIP39_WORDLIST.indexOf(word).toString(2).padStart(11, '0'))
+        .join('');
+      const digest = sha256Sync(bundle);
+
+      expect(bits.length).toBe(64 * 8 + 16);
+      expect(parseInt(bits.slice(-16), 2)).toBe((digest[0] << 8) | digest[1]);
+    });
+
+    it('rejects a wrong or swapped word', () => {
+      const words = uint8ArrayToWords(new Uint8Array(32).fill(0x7f));
+      const changed = [...words];
+      changed[0] = 'abandon';
+      const swapped = [...words];
+      [swapped[1], swapped[2]] = [swapped[2], swapped[1]];
+
+      expect(() => wordsToUint8Array(changed)).toThrow('BIP39 checksum mismatch');
+      expect(() => wordsToUint8Array(swapped)).toThrow('BIP39 checksum mismatch');
+    });
+  });
+
+  describe('typo suggestions', () => {
+    it('suggests the nearest wordlist entries', () => {
+      expect(suggestBIP39Words('abandn')[0]).toBe('abandon');
+      expect(suggestBIP39Words('wiener')).toContain('winner');
+      expect(suggestBIP39Words('xyzzyq')).toEqual([]);
+    });
+
+    it('ranks a matching four-letter prefix first', () => {
+      expect(suggestBIP39Words('sausge')[0]).toBe('sausage');
+      expect(suggestBIP39Words('leter')).toContain('letter');
+    });
+
+    it('names every misspelled word with its suggestions', () => {
+      const words = uint8ArrayToWords(new Uint8Array(32).fill(0x7f));
+      words[0] = 'legl';
+      words[5] = 'sausag';
+
+      expect(() => wordsToUint8Array(words)).toThrow(/^Invalid BIP39 words: legl \(did you mean [a-z, ]*legal/);
+      expect(() => wordsToUint8Array(words)).toThrow('sausag (did you mean sausage');
+    });
+  });
+
+  describe('isBIP39Format', () => {
+    it('recognizes 24- and 48-word phrases', () => {
+      expect(isBIP39Format(uint8ArrayToWords(new Uint8Array(32).fill(1)).join(' '))).toBe(true);
+      expect(isBIP39Format(formatWords(uint8ArrayToWords(new Uint8Array(64).fill(1)), 4))).toBe(true);
+    });
+
+    it('still recognizes a phrase with a few typos, so they can be corrected', () => {
+      const words = uint8ArrayToWords(new Uint8Array(32).fill(0x7f));
+      words[0] = 'legl';
+      expect(isBIP39Format(words.join(' '))).toBe(true);
+    });
+
+    it('rejects other word counts and base32 keys', () => {
+      expect(isBIP39Format(Array(12).fill('abandon').join(' '))).toBe(false);
+      expect(isBIP39Format(Array(24).fill('ABCDE').join(' '))).toBe(false);
+      expect(isBIP39Format(Array(24).fill('A1B2C').join(' '))).toBe(false);
+    });
+  });
+
   describe('formatWords', () => {
     it('should format 24 words in groups of 4', () => {
       const words = Array(24).fill('test');
@@ -95,6 +199,29 @@ describe('BIP39 Word Encoding', () => {
     });
   });
 
+  describe('other payload lengths', () => {
+    it('should match the 16-byte BIP39 reference vectors', () => {
+      expect(encodeBIP39Words(new Uint8Array(16)).join(' ')).toBe(
+        'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+      );
+      expect(encodeBIP39Words(new Uint8Array(16).fill(0x7f)).join(' ')).toBe(
+        'legal winner thank year wave sausage worth useful legal winner thank yellow'
+      );
+    });
+
+    it('should round-trip any multiple of 4 bytes', () => {
+      const bytes44 = new Uint8Array(44).map((_, i) => i * 7);
+      const words = encodeBIP39Words(bytes44);
+      expect(words).toHaveLength(33);
+      expect(decodeBIP39Words(words)).toEqual(bytes44);
+    });
+
+    it('should reject lengths that do not fit whole words', () => {
+      expect(() => encodeBIP39Words(new Uint8Array(30))).toThrow('multiple of 4 bytes');
+      expect(() => decodeBIP39Words(Array(25).fill('abandon'))).toThrow('multiple of 3 words');
+    });
+  });
+
   describe('error handling', () => {
     it('should reject invalid byte lengths', () => {
       const bytes16 = new Uint8Array(16);
@@ -0,0 +1,145 @@
+/**
+ * Tests for the contact book: validation, session links and encrypted storage
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  createContact,
+  updateContactBundle,
+  getContactSessionKey,
+  findContactByName,
+  findContactByIdentityKey,
+  sortContacts,
+  filterContacts,
+  loadContacts,
+  saveContacts,
+  clearContacts
+} from '../src/utils/contacts';
+import { getRatchetStorageKey } from '../src/utils/ratchet';
+import { generateUserId } from '../src/utils/encoding';
+
+function randomBundle(): Uint8Array {
+  return nacl.randomBytes(64);
+}
+
+describe('Contact book', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('createContact', () => {
+    it('derives the user ID from the identity key', () => {
+      const bundle = randomBundle();
+      const contact = createContact('  Alice ', bundle, 'met at the conference', 1_000);
+
+      expect(contact.name).toBe('Alice');
+      expect(contact.userId).toBe(generateUserId(bundle.slice(0, 32)));
+      expect(contact.verified).toBe(false);
+      expect(contact.notes).toBe('met at the conference');
+      expect(contact.createdAt).toBe(1_000);
+      expect(contact.lastUsed).toBeNull();
+    });
+
+    it('accepts a bare identity key', () => {
+      expect(createContact('Bob', nacl.randomBytes(32)).bundle).toHaveLength(32);
+    });
+
+    it('rejects an empty name or a bundle of the wrong size', () => {
+      expect(() => createContact(' ', randomBundle())).toThrow(/name is required/);
+      expect(() => createContact('Carol', nacl.randomBytes(40))).toThrow(/Invalid key size/);
+    });
+
+    it('gives each contact its own id', () => {
+      expect(createContact('Alice', randomBundle()).id).not.toBe(createContact('Alice', randomBundle()).id);
+    });
+  });
+
+  describe('updateContactBundle', () => {
+    it('keeps verification when only the ephemeral seed changes', () => {
+      const bundle = randomBundle();
+      const contact = { ...createContact('Alice', bundle), verified: true };
+      const newSeed = new Uint8Array(64);
+      newSeed.set(bundle.slice(0, 32), 0);
+      newSeed.set(nacl.randomBytes(32), 32);
+
+      expect(updateContactBundle(contact, newSeed).verified).toBe(true);
+    });
+
+    it('clears verification and updates the user ID for a new identity key', () => {
+      const contact = { ...createContact('Alice', randomBundle()), verified: true };
+      const newBundle = randomBundle();
+      const updated = updateContactBundle(contact, newBundle);
+
+      expect(updated.verified).toBe(false);
+      expect(updated.userId).toBe(generateUserId(newBundle.slice(0, 32)));
+      expect(updated.id).toBe(contact.id);
+    });
+  });
+
+  describe('lookup', () => {
+    it('links a contact to its ratchet session', () => {
+      const me = nacl.box.keyPair();
+      const bundle = randomBundle();
+      const contact = createContact('Alice', bundle);
+
+      expect(getContactSessionKey(me.publicKey, contact))
+        .toBe(getRatchetStorageKey(me.publicKey, bundle.slice(0, 32)));
+    });
+
+    it('finds contacts by name or identity key', () => {
+      const alice = createContact('Alice', randomBundle());
+      const bob = createContact('Bob', randomBundle());
+      const contacts = [alice, bob];
+
+      expect(findContactByName(contacts, ' ALICE')).toBe(alice);
+      expect(findContactByName(contacts, '')).toBeUndefined();
+      expect(findContactByIdentityKey(contacts, bob.bundle.slice(0, 32))).toBe(bob);
+      expect(findContactByIdentityKey(contacts, nacl.randomBytes(32))).toBeUndefined();
+    });
+
+    it('sorts recently used contacts first, then by name', () => {
+      const carol = { ...createContact('Carol', randomBundle()), lastUsed: 2_000 };
+      const alice = createContact('Alice', randomBundle());
+      const bob = createContact('Bob', randomBundle());
+
+      expect(sortContacts([bob, alice, carol]).map(c => c.name)).toEqual(['Carol', 'Alice', 'Bob']);
+    });
+
+    it('filters by name, user ID or notes', () => {
+      const alice = createContact('Alice', randomBundle(), 'Work laptop');
+      const bob = createContact('Bob', randomBundle());
+      const contacts = [alice, bob];
+
+      expect(filterContacts(contacts, 'ali')).toEqual([alice]);
+      expect(filterContacts(contacts, 'laptop')).toEqual([alice]);
+      expect(filterContacts(contacts, bob.userId.slice(0, 6).toLowerCase())).toContain(bob);
+      expect(filterContacts(contacts, '  ')).toEqual(contacts);
+    });
+  });
+
+  describe('storage', () => {
+    it('round-trips encrypted with the store key', () => {
+      const storeKey = nacl.randomBytes(32);
+      const contacts = [createContact('Alice', randomBundle(), 'notes'), createContact('Bob', nacl.randomBytes(32))];
+      saveContacts(contacts, storeKey);
+      expect(loadContacts(storeKey)).toEqual(contacts);
+    });
+
+    it('loads nothing with the wrong key', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      saveContacts([createContact('Alice', randomBundle())], nacl.randomBytes(32));
+      expect(loadContacts(nacl.randomBytes(32))).toEqual([]);
+    });
+
+    it('clears the contact book', () => {
+      const storeKey = nacl.randomBytes(32);
+      saveContacts([createContact('Alice', randomBundle())], storeKey);
+      clearContacts();
+      expect(loadContacts(storeKey)).toEqual([]);
+    });
+  });
+});
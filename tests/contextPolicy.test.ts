@@ -0,0 +1,75 @@
+/**
+ * Tests for the fragment context policy: bindings, descriptions and origin lists
+ */
+
+import {
+  contextForPolicy,
+  describeContext,
+  loadContextPolicy,
+  saveContextPolicy,
+  parseOriginList
+} from '../src/utils/contextPolicy';
+import { APP_ID, contextAllows } from '../src/utils/seal';
+
+describe('Fragment context policy', () => {
+  describe('contextForPolicy', () => {
+    it('binds to the current origin by default', () => {
+      const context = contextForPolicy({ mode: 'origin' }, 'https://a.example');
+      expect(context).toEqual({ kind: 'origin', origin: 'https://a.example' });
+      expect(contextAllows(context, 'https://b.example')).toBe(false);
+    });
+
+    it('binds to the application ID', () => {
+      const context = contextForPolicy({ mode: 'app' }, 'https://a.example');
+      expect(context).toEqual({ kind: 'app', appId: APP_ID });
+      expect(contextAllows(context, 'null')).toBe(true);
+    });
+
+    it('always admits the current origin in an origin list', () => {
+      const context = contextForPolicy({ mode: 'origins', origins: ['file://', 'https://a.example'] }, 'https://a.example');
+      expect(context).toEqual({ kind: 'origins', origins: ['https://a.example', 'file://'] });
+      expect(contextAllows(context, 'file://')).toBe(true);
+      expect(contextAllows(context, 'https://b.example')).toBe(false);
+    });
+  });
+
+  it('describes bindings for the lock screen', () => {
+    expect(describeContext('https://a.example')).toBe('https://a.example');
+    expect(describeContext('null')).toBe('a local file or data URI');
+    expect(describeContext({ kind: 'app', appId: APP_ID })).toBe('any copy of this app');
+    expect(describeContext({ kind: 'origins', origins: ['https://a.example', 'file://'] }))
+      .toBe('https://a.example, a local file or data URI');
+  });
+
+  describe('stored policy', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('defaults to strict origin', () => {
+      expect(loadContextPolicy()).toEqual({ mode: 'origin' });
+    });
+
+    it('round-trips the chosen policy', () => {
+      saveContextPolicy({ mode: 'origins', origins: ['https://a.example'] });
+      expect(loadContextPolicy()).toEqual({ mode: 'origins', origins: ['https://a.example'] });
+
+      saveContextPolicy({ mode: 'app' });
+      expect(loadContextPolicy()).toEqual({ mode: 'app' });
+    });
+
+    it('ignores a corrupt entry', () => {
+      localStorage.setItem('fragment_context', '{not json');
+      expect(loadContextPolicy()).toEqual({ mode: 'origin' });
+    });
+  });
+
+  describe('parseOriginList', () => {
+    it('normalises URLs to origins and drops duplicates', () => {
+      expect(parseOriginList('https://a.example/app/, https://a.example\nfile:///home/me/ultra.html null'))
+        .toEqual(['https://a.example', 'file://', 'null']);
+    });
+
+    it('rejects an entry that is not a URL', () => {
+      expect(() => parseOriginList('https://a.example, intranet')).toThrow('Not an origin: intranet');
+    });
+  });
+});
@@ -6,8 +6,12 @@ import {
   encryptSecretKey,
   decryptSecretKey,
   encryptMessage,
-  decryptMessage
+  decryptMessage,
+  encryptMessageForRecipients,
+  isMultiRecipientMessage,
+  MAX_RECIPIENTS
 } from '../src/utils/crypto';
+import { KeyPair } from '../src/types';
 
 describe('crypto utilities', () => {
   describe('generateKeyPair', () => {
@@ -167,4 +171,76 @@ describe('crypto utilities', () => {
       expect(decrypted2).toBe(message);
     });
   });
-});
\ No newline at end of file
+
+  describe('encryptMessageForRecipients', () => {
+    const message = 'Team note: meeting moved to 3pm';
+    let sender: KeyPair;
+    let recipients: KeyPair[];
+
+    beforeEach(() => {
+      sender = nacl.box.keyPair();
+      recipients = [nacl.box.keyPair(), nacl.box.keyPair(), nacl.box.keyPair()];
+    });
+
+    it('should let every recipient decrypt with decryptMessage', () => {
+      const encrypted = encryptMessageForRecipients(message, recipients.map(r => r.publicKey), sender.secretKey);
+
+      expect(isMultiRecipientMessage(encrypted)).toBe(true);
+      recipients.forEach(recipient => {
+        expect(decryptMessage(encrypted, sender.publicKey, recipient.secretKey)).toBe(message);
+      });
+    });
+
+    it('should reject non-recipients and the wrong sender', () => {
+      const encrypted = encryptMessageForRecipients(message, recipients.map(r => r.publicKey), sender.secretKey);
+
+      expect(decryptMessage(encrypted, sender.publicKey, nacl.box.keyPair().secretKey)).toBeNull();
+      expect(decryptMessage(encrypted, nacl.box.keyPair().publicKey, recipients[0].secretKey)).toBeNull();
+    });
+
+    it('should not let one recipient swap the content for the others', () => {
+      const encrypted = encryptMessageForRecipients(message, recipients.map(r => r.publicKey), sender.secretKey);
+      const contentStart = encrypted.length - (new TextEncoder().encode(message).length + nacl.secretbox.overheadLength);
+
+      // A recipient knows the content key and could re-encrypt other content under it;
+      // any change to the ciphertext must be rejected
+      const tampered = new Uint8Array(encrypted);
+      tampered[contentStart] ^= 0x01;
+      expect(decryptMessage(tampered, sender.publicKey, recipients[1].secretKey)).toBeNull();
+    });
+
+    it('should not reveal recipient keys in the envelope', () => {
+      const encrypted = encryptMessageForRecipients(message, recipients.map(r => r.publicKey), sender.secretKey);
+      const hex = Buffer.from(encrypted).toString('hex');
+      recipients.forEach(recipient => {
+        expect(hex).not.toContain(Buffer.from(recipient.publicKey).toString('hex'));
+      });
+    });
+
+    it('should drop duplicate recipients and enforce the maximum', () => {
+      const keys = recipients.map(r => r.publicKey);
+      const once = encryptMessageForRecipients(message, keys, sender.secretKey);
+      const twice = encryptMessageForRecipients(message, [...keys, ...keys], sender.secretKey);
+      expect(twice.length).toBe(once.length);
+
+      const tooMany = Array.from({ length: MAX_RECIPIENTS + 1 }, () => nacl.box.keyPair().publicKey);
+      expect(() => encryptMessageForRecipients(message, tooMany, sender.secretKey)).toThrow(/Too many recipients/);
+      expect(() => encryptMessageForRecipients(message, [], sender.secretKey)).toThrow(/No recipients/);
+    });
+
+    it('should still decrypt single-recipient messages that start with the envelope type byte', () => {
+      const recipient = recipients[0];
+      const nonce = nacl.randomBytes(nacl.box.nonceLength);
+      nonce[0] = 0x4d;
+      nonce[1] = 0x01;
+      const box = nacl.box(new Uint8Array(new TextEncoder().encode(message)), nonce, recipient.publicKey, sender.secretKey);
+      const encrypted = new Uint8Array(nonce.length + box.length);
+      encrypted.set(nonce);
+      encrypted.set(box, nonce.length);
+
+      expect(isMultiRecipientMessage(encrypted)).toBe(true);
+
+      expect(decryptMessage(encrypted, sender.publicKey, recipient.secretKey)).toBe(message);
+    });
+  });
+});
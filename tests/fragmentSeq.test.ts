@@ -0,0 +1,94 @@
+/**
+ * Tests for the persisted anti-rollback record of the URL fragment
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  saveFragmentSeq,
+  loadFragmentSeq,
+  knownFragmentSeq,
+  checkFragmentSeq,
+  rekeyFragmentSeq
+} from '../src/utils/fragmentSeq';
+
+describe('Fragment sequence record', () => {
+  const storeKey = nacl.randomBytes(32);
+  const identity = nacl.box.keyPair().publicKey;
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('accepts a first fragment before a record exists', () => {
+    expect(checkFragmentSeq(1, identity, storeKey)).toBeNull();
+    expect(knownFragmentSeq(storeKey)).toBe(0);
+  });
+
+  it('reports a missing record once the fragment has been rewritten', () => {
+    expect(checkFragmentSeq(4, identity, storeKey)).toEqual({
+      reason: 'unverifiable',
+      fragmentSeq: 4,
+      recordMissing: true
+    });
+  });
+
+  it('reports a deleted record while other sealed stores exist', () => {
+    saveFragmentSeq(5, identity, storeKey);
+    localStorage.setItem('ratchet_session', 'sealed');
+    localStorage.removeItem('fragment_seq');
+
+    expect(checkFragmentSeq(1, identity, storeKey)?.recordMissing).toBe(true);
+  });
+
+  it('accepts the newest fragment and newer ones', () => {
+    saveFragmentSeq(5, identity, storeKey);
+
+    expect(checkFragmentSeq(5, identity, storeKey)).toBeNull();
+    expect(checkFragmentSeq(9, identity, storeKey)).toBeNull();
+    expect(knownFragmentSeq(storeKey)).toBe(5);
+  });
+
+  it('warns about an older fragment of the same identity', () => {
+    saveFragmentSeq(5, identity, storeKey);
+
+    expect(checkFragmentSeq(3, identity, storeKey)).toEqual({
+      reason: 'older',
+      fragmentSeq: 3,
+      knownSeq: 5,
+      identityChanged: false
+    });
+  });
+
+  it('notes when the older fragment holds a different identity', () => {
+    saveFragmentSeq(5, identity, storeKey);
+    const previousIdentity = nacl.box.keyPair().publicKey;
+
+    expect(checkFragmentSeq(2, previousIdentity, storeKey)?.identityChanged).toBe(true);
+  });
+
+  it('reports a record that does not open with the fragment store key', () => {
+    saveFragmentSeq(5, identity, storeKey);
+    const otherKey = nacl.randomBytes(32);
+
+    expect(checkFragmentSeq(8, identity, otherKey)).toEqual({ reason: 'unverifiable', fragmentSeq: 8 });
+    expect(knownFragmentSeq(otherKey)).toBe(0);
+  });
+
+  it('detects a tampered record', () => {
+    saveFragmentSeq(5, identity, storeKey);
+    const stored = localStorage.getItem('fragment_seq')!;
+    const tampered = stored.slice(0, -2) + (stored.endsWith('00') ? '11' : '00');
+    localStorage.setItem('fragment_seq', tampered);
+
+    expect(checkFragmentSeq(5, identity, storeKey)?.reason).toBe('unverifiable');
+  });
+
+  it('follows a store key change', () => {
+    saveFragmentSeq(5, identity, storeKey);
+    const newKey = nacl.randomBytes(32);
+    rekeyFragmentSeq(storeKey, newKey);
+
+    expect(loadFragmentSeq(newKey)?.seq).toBe(5);
+    expect(checkFragmentSeq(4, identity, newKey)?.reason).toBe('older');
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Tests for sender-key groups: distribution, signed group messages and membership changes
+ */
+
+import * as nacl from 'tweetnacl';
+import { GroupState } from '../src/types/group';
+import {
+  createGroup,
+  addGroupMember,
+  removeGroupMember,
+  rotateSenderKey,
+  createSenderKeyDistribution,
+  decodeSenderKeyDistribution,
+  applySenderKeyDistribution,
+  isSenderKeyDistributionPayload,
+  managesMembership,
+  groupEncrypt,
+  groupDecrypt,
+  findGroupForMessage,
+  loadGroups,
+  saveGroups,
+  GROUP_MESSAGE_TYPE,
+  SENDER_KEY_PAYLOAD_PREFIX
+} from '../src/utils/groups';
+import { base32CrockfordToUint8Array, uint8ArrayToBase32Crockford } from '../src/utils/encoding';
+
+const alice = nacl.box.keyPair().publicKey;
+const bob = nacl.box.keyPair().publicKey;
+const carol = nacl.box.keyPair().publicKey;
+
+function encode(text: string): Uint8Array {
+  return new Uint8Array(new TextEncoder().encode(text));
+}
+
+function decode(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+// Deliver a member's sender key to another member's copy of the group
+function deliver(
+  from: GroupState,
+  fromKey: Uint8Array,
+  to: GroupState | null,
+  toKey: Uint8Array
+): GroupState {
+  const payload = createSenderKeyDistribution(from, fromKey);
+  return applySenderKeyDistribution(to, decodeSenderKeyDistribution(payload), fromKey, toKey);
+}
+
+describe('Sender-key groups', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createGroup', () => {
+    it('drops our own key and duplicates', () => {
+      const group = createGroup(' Team ', [bob, alice, bob, carol], alice, 1_000);
+
+      expect(group.name).toBe('Team');
+      expect(group.members).toEqual([bob, carol]);
+      expect(group.groupId.length).toBe(16);
+      expect(group.epoch).toBe(0);
+      expect(group.needsKeyShare).toBe(false);
+    });
+
+    it('rejects an empty name or no other members', () => {
+      expect(() => createGroup('  ', [bob], alice)).toThrow('Group name is required');
+      expect(() => createGroup('Team', [alice], alice)).toThrow('at least one other member');
+      expect(() => createGroup('Team', [new Uint8Array(31)], alice)).toThrow('Invalid member key size');
+    });
+  });
+
+  describe('sender key distribution', () => {
+    it('round-trips through the text payload', () => {
+      const group = createGroup('Team', [bob, carol], alice);
+      const payload = createSenderKeyDistribution(group, alice);
+
+      expect(isSenderKeyDistributionPayload(payload)).toBe(true);
+      const distribution = decodeSenderKeyDistribution(payload);
+      expect(distribution.groupId).toEqual(group.groupId);
+      expect(distribution.name).toBe('Team');
+      expect(distribution.roster).toEqual([alice, bob, carol]);
+      expect(distribution.chainKey).toEqual(group.mySenderKey.chainKey);
+      expect(distribution.signingPublicKey).toEqual(group.mySenderKey.signingPublicKey);
+    });
+
+    it('rejects a tampered distribution', () => {
+      const group = createGroup('Team', [bob], alice);
+      const payload = createSenderKeyDistribution(group, alice);
+      const bytes = base32CrockfordToUint8Array(payload.slice(SENDER_KEY_PAYLOAD_PREFIX.length));
+      bytes[30] ^= 0x01; // Inside the chain key
+      const tampered = SENDER_KEY_PAYLOAD_PREFIX + uint8ArrayToBase32Crockford(bytes);
+
+      expect(() => decodeSenderKeyDistribution(tampered)).toThrow('Invalid sender key signature');
+    });
+
+    it('creates the group for a new member, who must then share their own key', () => {
+      const aliceGroup = createGroup('Team', [bob, carol], alice);
+      const bobGroup = deliver(aliceGroup, alice, null, bob);
+
+      expect(bobGroup.groupId).toEqual(aliceGroup.groupId);
+      expect(bobGroup.members).toEqual([alice, carol]);
+      expect(bobGroup.senderKeys.size).toBe(1);
+      expect(bobGroup.needsKeyShare).toBe(true);
+    });
+
+    it('rejects keys from senders outside the roster or rosters without us', () => {
+      const aliceGroup = createGroup('Team', [bob], alice);
+      const distribution = decodeSenderKeyDistribution(createSenderKeyDistribution(aliceGroup, alice));
+
+      expect(() => applySenderKeyDistribution(null, distribution, carol, bob)).toThrow('Sender is not in the group roster');
+      expect(() => applySenderKeyDistribution(null, distribution, alice, carol)).toThrow('We are not a member of this group');
+    });
+
+    it('rejects a newer roster from a sender who is not a member', () => {
+      const mallory = nacl.box.keyPair().publicKey;
+      const aliceGroup = createGroup('Team', [bob], alice);
+      const bobGroup = deliver(aliceGroup, alice, null, bob);
+
+      // Mallory has seen the group ID and forges a takeover with a higher epoch
+      const takeover = { ...createGroup('Ours now', [bob], mallory), groupId: aliceGroup.groupId, epoch: 5 };
+      expect(() => deliver(takeover, mallory, bobGroup, bob)).toThrow('Sender is not a member of this group');
+    });
+  });
+
+  describe('group messages', () => {
+    let aliceGroup: GroupState;
+    let bobGroup: GroupState;
+    let carolGroup: GroupState;
+
+    beforeEach(() => {
+      aliceGroup = createGroup('Team', [bob, carol], alice);
+      bobGroup = rotateSenderKey(deliver(aliceGroup, alice, null, bob));
+      carolGroup = rotateSenderKey(deliver(aliceGroup, alice, null, carol));
+      aliceGroup = deliver(bobGroup, bob, aliceGroup, alice);
+      aliceGroup = deliver(carolGroup, carol, aliceGroup, alice);
+      carolGroup = deliver(bobGroup, bob, carolGroup, carol);
+      bobGroup = deliver(carolGroup, carol, bobGroup, bob);
+    });
+
+    it('carries the group ID, counter and a signature, and decrypts for every member', () => {
+      const [first, afterFirst] = groupEncrypt(aliceGroup, encode('hello team'));
+      const [second] = groupEncrypt(afterFirst, encode('second'));
+
+      expect(first[0]).toBe(GROUP_MESSAGE_TYPE);
+      expect(first.slice(2, 18)).toEqual(aliceGroup.groupId);
+      expect(first[22]).toBe(0);
+      expect(second[22]).toBe(1);
+
+      const [plaintext, , sender] = groupDecrypt(bobGroup, first);
+      expect(decode(plaintext)).toBe('hello team');
+      expect(sender).toEqual(alice);
+
+      const [carolFirst, carolState] = groupDecrypt(carolGroup, first);
+      expect(decode(carolFirst)).toBe('hello team');
+      expect(decode(groupDecrypt(carolState, second)[0])).toBe('second');
+    });
+
+    it('finds the group a message is addressed to', () => {
+      const [encrypted] = groupEncrypt(aliceGroup, encode('hi'));
+
+      const otherGroup = createGroup('Other', [bob], alice);
+
+      expect(findGroupForMessage([otherGroup, bobGroup], encrypted)).toBe(bobGroup);
+      expect(findGroupForMessage([otherGroup], encrypted)).toBeUndefined();
+    });
+
+    it('handles out-of-order messages and rejects replays', () => {
+      const [m1, s1] = groupEncrypt(aliceGroup, encode('one'));
+      const [m2] = groupEncrypt(s1, encode('two'));
+
+      const [p2, afterTwo] = groupDecrypt(bobGroup, m2);
+      expect(decode(p2)).toBe('two');
+      const [p1, afterOne] = groupDecrypt(afterTwo, m1);
+      expect(decode(p1)).toBe('one');
+
+      expect(() => groupDecrypt(afterOne, m1)).toThrow('already received');
+      expect(() => groupDecrypt(afterOne, m2)).toThrow('already received');
+    });
+
+    it('rejects a message with a broken signature', () => {
+      const [encrypted] = groupEncrypt(aliceGroup, encode('hi'));
+      const tampered = new Uint8Array(encrypted);
+      tampered[60] ^= 0x01;
+
+      expect(() => groupDecrypt(bobGroup, tampered)).toThrow('Unknown sender key or invalid signature');
+    });
+
+    it('refuses to send until a pending key share is done', () => {
+      const joined = deliver(aliceGroup, alice, null, bob);
+      expect(() => groupEncrypt(joined, encode('hi'))).toThrow('Share a new sender key');
+    });
+
+    it('shuts a removed member out after the rekey', () => {
+      const withoutCarol = removeGroupMember(aliceGroup, carol);
+      expect(withoutCarol.epoch).toBe(aliceGroup.epoch + 1);
+      expect(withoutCarol.members).toEqual([bob]);
+      expect(withoutCarol.mySenderKey.chainKey).not.toEqual(aliceGroup.mySenderKey.chainKey);
+
+      // Bob learns the new roster, drops Carol's chain and must rotate his own key
+      const bobUpdated = deliver(withoutCarol, alice, bobGroup, bob);
+      expect(bobUpdated.members).toEqual([alice]);
+      expect(bobUpdated.senderKeys.size).toBe(1);
+      expect(bobUpdated.needsKeyShare).toBe(true);
+
+      const [encrypted] = groupEncrypt(withoutCarol, encode('after removal'));
+      expect(decode(groupDecrypt(bobUpdated, encrypted)[0])).toBe('after removal');
+      expect(() => groupDecrypt(carolGroup, encrypted)).toThrow('Unknown sender key');
+      expect(() => applySenderKeyDistribution(
+        carolGroup,
+        decodeSenderKeyDistribution(createSenderKeyDistribution(withoutCarol, alice)),
+        alice,
+        carol
+      )).toThrow('We are not a member of this group');
+    });
+
+    it('rejects a membership change from a member who is not the admin', () => {
+      const mallory = nacl.box.keyPair().publicKey;
+      const bobTakeover = { ...bobGroup, members: [...bobGroup.members, mallory], epoch: bobGroup.epoch + 1, name: 'Bob rules' };
+
+      expect(() => deliver(bobTakeover, bob, carolGroup, carol)).toThrow('Only the group admin can change the membership');
+      expect(() => deliver({ ...bobTakeover, admin: bob }, bob, carolGroup, carol)).toThrow('Sender key names a different group admin');
+      expect(() => addGroupMember(bobGroup, mallory)).toThrow('Only the group admin can change the membership');
+      expect(() => removeGroupMember(bobGroup, carol)).toThrow('Only the group admin can change the membership');
+      expect(managesMembership(aliceGroup)).toBe(true);
+      expect(managesMembership(bobGroup)).toBe(false);
+    });
+
+    it('only joins a group from the admin', () => {
+      expect(() => deliver(bobGroup, bob, null, carol)).toThrow('Only the group admin can add us to a group');
+    });
+
+    it('does not let a new member read earlier messages', () => {
+      const dave = nacl.box.keyPair().publicKey;
+      const [before] = groupEncrypt(aliceGroup, encode('before dave'));
+
+      const withDave = addGroupMember(aliceGroup, dave);
+      expect(withDave.members).toEqual([bob, carol, dave]);
+      const daveGroup = deliver(withDave, alice, null, dave);
+
+      expect(() => groupDecrypt(daveGroup, before)).toThrow('Unknown sender key');
+      const [after] = groupEncrypt(withDave, encode('welcome dave'));
+      expect(decode(groupDecrypt(daveGroup, after)[0])).toBe('welcome dave');
+      expect(() => addGroupMember(withDave, dave)).toThrow('Already a member');
+    });
+  });
+
+  describe('storage', () => {
+    it('round-trips groups through encrypted storage', () => {
+      const storeKey = nacl.randomBytes(32);
+      const aliceGroup = createGroup('Team', [bob], alice);
+      const bobGroup = deliver(aliceGroup, alice, null, bob);
+      const [m1, s1] = groupEncrypt(aliceGroup, encode('one'));
+      const [m2] = groupEncrypt(s1, encode('two'));
+      const [, bobAfter] = groupDecrypt(bobGroup, m2);
+
+      saveGroups([bobAfter], storeKey);
+
+      const [loaded] = loadGroups(storeKey);
+      expect(loaded.groupId).toEqual(bobAfter.groupId);
+      expect(loaded.members).toEqual([alice]);
+      expect(loaded.admin).toEqual(alice);
+      expect(loaded.mySenderKey.signingSecretKey).toEqual(bobAfter.mySenderKey.signingSecretKey);
+      expect(decode(groupDecrypt(loaded, m1)[0])).toBe('one');
+    });
+
+    it('returns no groups when the store key is wrong', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      saveGroups([createGroup('Team', [bob], alice)], nacl.randomBytes(32));
+
+      expect(loadGroups(nacl.randomBytes(32))).toEqual([]);
+      jest.restoreAllMocks();
+    });
+  });
+});
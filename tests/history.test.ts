@@ -0,0 +1,105 @@
+/**
+ * Tests for conversation history storage and retention
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  applyRetention,
+  getHistoryStorageKey,
+  loadRetentionPolicy,
+  saveRetentionPolicy,
+  loadConversation,
+  saveConversation,
+  loadAllConversations,
+  rekeyConversations,
+  clearConversations,
+  DEFAULT_RETENTION_POLICY
+} from '../src/utils/history';
+import { getRatchetStorageKey } from '../src/utils/ratchet';
+import { HistoryEntry } from '../src/types/history';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_800_000_000_000;
+
+function entry(text: string, age: number, direction: HistoryEntry['direction'] = 'sent'): HistoryEntry {
+  return { direction, text, timestamp: NOW - age, counter: 1 };
+}
+
+describe('Conversation history', () => {
+  const storeKey = nacl.randomBytes(32);
+  let sessionKey: string;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionKey = getRatchetStorageKey(nacl.randomBytes(32), nacl.randomBytes(32));
+  });
+
+  describe('applyRetention', () => {
+    const entries = [entry('old', 10 * DAY), entry('recent', DAY), entry('now', 0, 'received')];
+
+    it('keeps nothing when history is off', () => {
+      expect(applyRetention(entries, { mode: 'never', days: 30 }, NOW)).toEqual([]);
+    });
+
+    it('drops entries older than the configured days', () => {
+      const kept = applyRetention(entries, { mode: 'days', days: 7 }, NOW);
+      expect(kept.map(e => e.text)).toEqual(['recent', 'now']);
+    });
+
+    it('keeps everything forever', () => {
+      expect(applyRetention(entries, { mode: 'forever', days: 1 }, NOW)).toEqual(entries);
+    });
+  });
+
+  describe('retention policy', () => {
+    it('defaults to not storing history', () => {
+      expect(DEFAULT_RETENTION_POLICY.mode).toBe('never');
+      expect(loadRetentionPolicy()).toEqual(DEFAULT_RETENTION_POLICY);
+    });
+
+    it('persists the chosen policy', () => {
+      saveRetentionPolicy({ mode: 'days', days: 14 });
+      expect(loadRetentionPolicy()).toEqual({ mode: 'days', days: 14 });
+    });
+  });
+
+  describe('storage', () => {
+    it('stores history next to the session it belongs to', () => {
+      expect(getHistoryStorageKey(sessionKey)).toBe(`conversation_${sessionKey.slice('ratchet_'.length)}`);
+    });
+
+    it('round-trips encrypted with the store key', () => {
+      const entries = [entry('hello', 0), entry('hi back', 0, 'received')];
+      saveConversation(sessionKey, entries, storeKey);
+
+      expect(loadConversation(sessionKey, storeKey)).toEqual(entries);
+      expect(loadAllConversations(storeKey)).toEqual(new Map([[sessionKey, entries]]));
+    });
+
+    it('removes the stored entry when a history is emptied', () => {
+      saveConversation(sessionKey, [entry('hello', 0)], storeKey);
+      saveConversation(sessionKey, [], storeKey);
+      expect(localStorage.getItem(getHistoryStorageKey(sessionKey))).toBeNull();
+    });
+
+    it('re-encrypts under a new store key', () => {
+      const newKey = nacl.randomBytes(32);
+      const entries = [entry('hello', 0)];
+      saveConversation(sessionKey, entries, storeKey);
+
+      rekeyConversations(storeKey, newKey);
+      expect(loadConversation(sessionKey, newKey)).toEqual(entries);
+    });
+
+    it('clears only history entries', () => {
+      saveConversation(sessionKey, [entry('hello', 0)], storeKey);
+      saveRetentionPolicy({ mode: 'forever', days: 30 });
+      localStorage.setItem(sessionKey, 'session');
+
+      clearConversations();
+      expect(loadAllConversations(storeKey).size).toBe(0);
+      expect(localStorage.getItem(sessionKey)).toBe('session');
+      expect(loadRetentionPolicy().mode).toBe('forever');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the fragment KDF policy and per-device cost calibration
+ */
+
+import {
+  calibrateScrypt,
+  calibrateKdf,
+  chooseScryptN,
+  chooseArgon2Memory,
+  meetsKdfPolicy,
+  loadPreferredKdf,
+  savePreferredKdf,
+  SCRYPT_POLICY_MIN_N,
+  SCRYPT_MAX_N,
+  ARGON2_POLICY_MIN_M,
+  ARGON2_MAX_M
+} from '../src/utils/kdfPolicy';
+
+describe('Fragment KDF policy', () => {
+  describe('meetsKdfPolicy', () => {
+    it('accepts the floor and above', () => {
+      expect(meetsKdfPolicy({ N: SCRYPT_POLICY_MIN_N, r: 8, p: 1 })).toBe(true);
+      expect(meetsKdfPolicy({ N: SCRYPT_POLICY_MIN_N * 4, r: 8, p: 1 })).toBe(true);
+    });
+
+    it('flags the old hardcoded cost and a weak block size', () => {
+      expect(meetsKdfPolicy({ N: 16384, r: 8, p: 1 })).toBe(false);
+      expect(meetsKdfPolicy({ N: SCRYPT_POLICY_MIN_N, r: 4, p: 1 })).toBe(false);
+    });
+
+    it('applies the Argon2id floor to memory and passes', () => {
+      expect(meetsKdfPolicy({ kdf: 'argon2id', m: ARGON2_POLICY_MIN_M, t: 3, p: 1 })).toBe(true);
+      expect(meetsKdfPolicy({ kdf: 'argon2id', m: ARGON2_POLICY_MIN_M / 2, t: 3, p: 1 })).toBe(false);
+      expect(meetsKdfPolicy({ kdf: 'argon2id', m: ARGON2_POLICY_MIN_M, t: 1, p: 1 })).toBe(false);
+    });
+  });
+
+  describe('chooseScryptN', () => {
+    it('picks the largest power of two that fits the target', () => {
+      // 1 second per 2^17 is about 0.0076 ms per unit of N
+      expect(chooseScryptN(1000 / 131072, 1000)).toBe(131072);
+      expect(chooseScryptN(1000 / 131072, 999)).toBe(65536);
+    });
+
+    it('never goes below the floor on a slow device', () => {
+      expect(chooseScryptN(1, 1000)).toBe(SCRYPT_POLICY_MIN_N);
+    });
+
+    it('never goes above the memory cap on a fast device', () => {
+      expect(chooseScryptN(1e-9, 1000)).toBe(SCRYPT_MAX_N);
+    });
+
+    it('budgets Argon2id memory for three passes', () => {
+      // 3 passes over 64 MiB take 1 second
+      expect(chooseArgon2Memory(1000 / (3 * 65536), 1000)).toBe(65536);
+      expect(chooseArgon2Memory(1, 1000)).toBe(ARGON2_POLICY_MIN_M);
+      expect(chooseArgon2Memory(1e-9, 1000)).toBe(ARGON2_MAX_M);
+    });
+  });
+
+  describe('calibrateScrypt', () => {
+    it('benchmarks once and returns a cost within policy', async () => {
+      const fractions: number[] = [];
+      const cost = await calibrateScrypt(1000, fraction => fractions.push(fraction));
+
+      expect(meetsKdfPolicy(cost)).toBe(true);
+      expect(cost.N).toBeLessThanOrEqual(SCRYPT_MAX_N);
+      expect(Math.log2(cost.N) % 1).toBe(0);
+      expect(fractions[fractions.length - 1]).toBe(1);
+
+      // The measurement is cached, so a looser target only changes N
+      const looser = await calibrateScrypt(1e9);
+      expect(looser.N).toBe(SCRYPT_MAX_N);
+    });
+
+    it('calibrates Argon2id within policy', async () => {
+      const cost = await calibrateKdf('argon2id', 1);
+      expect(cost).toEqual({ kdf: 'argon2id', m: ARGON2_POLICY_MIN_M, t: 3, p: 1 });
+    });
+  });
+
+  describe('preferred KDF', () => {
+    beforeEach(() => localStorage.clear());
+
+    it('defaults to scrypt and remembers Argon2id', () => {
+      expect(loadPreferredKdf()).toBe('scrypt');
+      savePreferredKdf('argon2id');
+      expect(loadPreferredKdf()).toBe('argon2id');
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Tests for the Ladder protocol (deterministic OPK ladder session bootstrap)
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  deriveOPKPublic_Initiator,
+  deriveOPKSecret_Responder,
+  createLadderMessage,
+  processLadderMessage,
+  encodeLadderMessage,
+  decodeLadderMessage,
+  isLadderMessage,
+  parsePublicKeyBundle,
+  isUnsignedBundle,
+  createSignedBundle,
+  SIGNED_BUNDLE_LENGTH
+} from '../src/utils/ladder';
+import { getNextIndex, checkAndUpdateMaxSpent } from '../src/utils/ladderState';
+import { ratchetEncrypt, ratchetDecrypt } from '../src/utils/ratchet';
+import { KeyPair } from '../src/types';
+
+const encode = (s: string) => new TextEncoder().encode(s);
+const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+
+describe('Ladder Protocol', () => {
+  let alice: { identity: KeyPair; ephemeralSeed: KeyPair };
+  let bob: { identity: KeyPair; ephemeralSeed: KeyPair };
+
+  beforeEach(() => {
+    localStorage.clear();
+    alice = { identity: nacl.box.keyPair(), ephemeralSeed: nacl.box.keyPair() };
+    bob = { identity: nacl.box.keyPair(), ephemeralSeed: nacl.box.keyPair() };
+  });
+
+  describe('OPK Derivation', () => {
+    it('derives deterministic keys from seed and index', async () => {
+      const opk1 = await deriveOPKPublic_Initiator(bob.ephemeralSeed.publicKey, alice.identity.secretKey, 1);
+      const opk2 = await deriveOPKPublic_Initiator(bob.ephemeralSeed.publicKey, alice.identity.secretKey, 2);
+      const opk1Again = await deriveOPKPublic_Initiator(bob.ephemeralSeed.publicKey, alice.identity.secretKey, 1);
+
+      expect(opk1).toHaveLength(32);
+      expect(opk1).not.toEqual(opk2);
+      expect(opk1).toEqual(opk1Again);
+    });
+
+    it('responder derives the secret matching the initiator public key', async () => {
+      for (const i of [1, 2, 1000]) {
+        const opkPublic = await deriveOPKPublic_Initiator(bob.ephemeralSeed.publicKey, alice.identity.secretKey, i);
+        const opkSecret = await deriveOPKSecret_Responder(bob.ephemeralSeed.secretKey, alice.identity.publicKey, i);
+        expect(nacl.scalarMult.base(opkSecret)).toEqual(opkPublic);
+      }
+    });
+
+    it('binds OPKs to the initiator identity', async () => {
+      const carol = nacl.box.keyPair();
+      const forAlice = await deriveOPKPublic_Initiator(bob.ephemeralSeed.publicKey, alice.identity.secretKey, 1);
+      const forCarol = await deriveOPKPublic_Initiator(bob.ephemeralSeed.publicKey, carol.secretKey, 1);
+      expect(forAlice).not.toEqual(forCarol);
+    });
+
+    it('rejects index zero', async () => {
+      await expect(
+        deriveOPKPublic_Initiator(bob.ephemeralSeed.publicKey, alice.identity.secretKey, 0)
+      ).rejects.toThrow('Invalid OPK index');
+    });
+  });
+
+  describe('Message Exchange', () => {
+    it('Alice and Bob can exchange messages without round trips', async () => {
+      const [ladderMessage] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        1,
+        encode('Hello Bob!')
+      );
+
+      const [decrypted] = await processLadderMessage(bob.identity, bob.ephemeralSeed, ladderMessage);
+      expect(decode(decrypted)).toBe('Hello Bob!');
+    });
+
+    it('continues with the Double Ratchet after the first message', async () => {
+      const [ladderMessage, aliceState] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        1,
+        encode('First')
+      );
+      const [, bobState] = await processLadderMessage(bob.identity, bob.ephemeralSeed, ladderMessage);
+
+      // Alice keeps sending on her initial chain
+      const [enc2, aliceState2] = ratchetEncrypt(aliceState, encode('Second'));
+      const [dec2, bobState2] = ratchetDecrypt(bobState, enc2);
+      expect(decode(dec2)).toBe('Second');
+
+      // Bob replies (DH ratchet) and Alice follows
+      const [encReply, bobState3] = ratchetEncrypt(bobState2, encode('Reply'));
+      const [decReply, aliceState3] = ratchetDecrypt(aliceState2, encReply);
+      expect(decode(decReply)).toBe('Reply');
+
+      const [enc3] = ratchetEncrypt(aliceState3, encode('Third'));
+      const [dec3] = ratchetDecrypt(bobState3, enc3);
+      expect(decode(dec3)).toBe('Third');
+    });
+
+    it('gives each side distinct directional chains', async () => {
+      const [ladderMessage, aliceState] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        1,
+        encode('Hi')
+      );
+      const [, bobState] = await processLadderMessage(bob.identity, bob.ephemeralSeed, ladderMessage);
+
+      expect(aliceState.receivingChainKey).not.toEqual(bobState.sendingChainKey);
+    });
+
+    it('fails with the wrong ephemeral seed', async () => {
+      const [ladderMessage] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        1,
+        encode('Secret')
+      );
+
+      await expect(
+        processLadderMessage(bob.identity, nacl.box.keyPair(), ladderMessage)
+      ).rejects.toThrow('Decryption failed');
+    });
+
+    it('fails if the OPK index is altered in transit', async () => {
+      const [ladderMessage] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        5,
+        encode('Secret')
+      );
+
+      await expect(
+        processLadderMessage(bob.identity, bob.ephemeralSeed, { ...ladderMessage, opkIndex: 6 })
+      ).rejects.toThrow('Decryption failed');
+    });
+  });
+
+  describe('Message Format', () => {
+    it('round-trips through encode and decode', async () => {
+      const [ladderMessage] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        42,
+        encode('Test message')
+      );
+
+      const encoded = encodeLadderMessage(ladderMessage);
+      expect(isLadderMessage(encoded)).toBe(true);
+
+      const decoded = decodeLadderMessage(encoded);
+      expect(decoded).toEqual(ladderMessage);
+      expect(decoded!.opkIndex).toBe(42);
+      expect(decoded!.senderIdentityKey).toEqual(alice.identity.publicKey);
+    });
+
+    it('does not mistake ratchet messages for Ladder messages', async () => {
+      const [, aliceState] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        1,
+        encode('First')
+      );
+      const [ratchetMessage] = ratchetEncrypt(aliceState, encode('Second'));
+
+      expect(isLadderMessage(ratchetMessage)).toBe(false);
+      expect(decodeLadderMessage(ratchetMessage)).toBeNull();
+    });
+
+    it('rejects truncated payloads', async () => {
+      const [ladderMessage] = await createLadderMessage(
+        alice.identity,
+        bob.identity.publicKey,
+        bob.ephemeralSeed.publicKey,
+        1,
+        encode('Test message')
+      );
+      const encoded = encodeLadderMessage(ladderMessage);
+
+      expect(() => decodeLadderMessage(encoded.slice(0, encoded.length - 1))).toThrow('length mismatch');
+    });
+  });
+
+  describe('parsePublicKeyBundle', () => {
+    it('splits a 64-byte bundle', () => {
+      const bundle = new Uint8Array(64);
+      bundle.set(bob.identity.publicKey, 0);
+      bundle.set(bob.ephemeralSeed.publicKey, 32);
+
+      const parsed = parsePublicKeyBundle(bundle);
+      expect(parsed.identityKey).toEqual(bob.identity.publicKey);
+      expect(parsed.ephemeralSeed).toEqual(bob.ephemeralSeed.publicKey);
+    });
+
+    it('accepts legacy 32-byte keys without a seed', () => {
+      const parsed = parsePublicKeyBundle(bob.identity.publicKey);
+      expect(parsed.identityKey).toEqual(bob.identity.publicKey);
+      expect(parsed.ephemeralSeed).toBeNull();
+    });
+
+    it('rejects other sizes', () => {
+      expect(() => parsePublicKeyBundle(new Uint8Array(48))).toThrow('Invalid key size');
+    });
+  });
+
+  describe('Signed bundles', () => {
+    let signing: KeyPair;
+    let bundle: Uint8Array;
+
+    beforeEach(() => {
+      signing = nacl.sign.keyPair();
+      bundle = createSignedBundle(bob.identity.publicKey, bob.ephemeralSeed.publicKey, signing);
+    });
+
+    it('carries a version byte, the keys and a verified signature', () => {
+      expect(bundle.length).toBe(SIGNED_BUNDLE_LENGTH);
+      expect(bundle[0]).toBe(0x01);
+
+      const parsed = parsePublicKeyBundle(bundle);
+      expect(parsed.identityKey).toEqual(bob.identity.publicKey);
+      expect(parsed.ephemeralSeed).toEqual(bob.ephemeralSeed.publicKey);
+      expect(parsed.signingKey).toEqual(signing.publicKey);
+    });
+
+    it('rejects a swapped ephemeral seed', () => {
+      const swapped = new Uint8Array(bundle);
+      swapped.set(nacl.box.keyPair().publicKey, 33);
+
+      expect(() => parsePublicKeyBundle(swapped)).toThrow('Invalid bundle signature');
+    });
+
+    it('rejects a swapped identity key or signing key', () => {
+      const swappedIdentity = new Uint8Array(bundle);
+      swappedIdentity.set(alice.identity.publicKey, 1);
+      const swappedSigner = new Uint8Array(bundle);
+      swappedSigner.set(nacl.sign.keyPair().publicKey, 65);
+
+      expect(() => parsePublicKeyBundle(swappedIdentity)).toThrow('Invalid bundle signature');
+      expect(() => parsePublicKeyBundle(swappedSigner)).toThrow('Invalid bundle signature');
+    });
+
+    it('rejects an unknown version', () => {
+      const future = new Uint8Array(bundle);
+      future[0] = 0x02;
+
+      expect(() => parsePublicKeyBundle(future)).toThrow('Unknown bundle version');
+    });
+
+    it('leaves unsigned bundles without a signing key', () => {
+      expect(parsePublicKeyBundle(bundle.slice(1, 65)).signingKey).toBeNull();
+    });
+
+    it('flags only seeds without a signature as unsigned', () => {
+      expect(isUnsignedBundle(parsePublicKeyBundle(bundle.slice(1, 65)))).toBe(true);
+      expect(isUnsignedBundle(parsePublicKeyBundle(bundle))).toBe(false);
+      expect(isUnsignedBundle(parsePublicKeyBundle(bob.identity.publicKey))).toBe(false);
+    });
+  });
+
+  describe('Counter Management', () => {
+    const storeKey = nacl.randomBytes(32);
+
+    it('rejects replayed indices', () => {
+      const peerId = 'test-peer';
+
+      expect(checkAndUpdateMaxSpent(peerId, 1, storeKey)).toBe(true);
+      expect(checkAndUpdateMaxSpent(peerId, 2, storeKey)).toBe(true);
+      expect(checkAndUpdateMaxSpent(peerId, 1, storeKey)).toBe(false); // Replay
+      expect(checkAndUpdateMaxSpent(peerId, 2, storeKey)).toBe(false); // Replay
+      expect(checkAndUpdateMaxSpent(peerId, 3, storeKey)).toBe(true);
+    });
+
+    it('increments next index', () => {
+      const peerId = 'test-peer';
+
+      expect(getNextIndex(peerId, storeKey)).toBe(1);
+      expect(getNextIndex(peerId, storeKey)).toBe(2);
+      expect(getNextIndex(peerId, storeKey)).toBe(3);
+      expect(getNextIndex('other-peer', storeKey)).toBe(1);
+    });
+
+    it('stores counters sealed under the store key', () => {
+      checkAndUpdateMaxSpent('test-peer', 5, storeKey);
+
+      expect(localStorage.getItem('ladder_counters')).not.toContain('maxSpentIndex');
+      expect(() => checkAndUpdateMaxSpent('test-peer', 1, nacl.randomBytes(32))).toThrow('does not open');
+    });
+
+    it('does not accept a replay after the counters are edited', () => {
+      checkAndUpdateMaxSpent('test-peer', 5, storeKey);
+      localStorage.setItem('ladder_counters', JSON.stringify({ 'test-peer': { maxSpentIndex: 0 } }));
+
+      expect(() => checkAndUpdateMaxSpent('test-peer', 5, storeKey)).toThrow();
+    });
+  });
+});
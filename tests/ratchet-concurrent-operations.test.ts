@@ -396,4 +396,90 @@ describe('Ratchet Protocol - Concurrent Operations', () => {
       }).toThrow(/Decryption failed/);
     });
   });
-});
\ No newline at end of file
+
+  describe.each([
+    ['initiator', true],
+    ['responder', false]
+  ])('Both parties send first (Alice as %s)', (_, aliceInitiates) => {
+    // Roles follow identity key order, so pick keys that give Alice the requested role
+    function isLower(a: Uint8Array, b: Uint8Array): boolean {
+      for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return a[i] < b[i];
+      }
+      return false;
+    }
+
+    beforeEach(() => {
+      if (isLower(alice.publicKey, bob.publicKey) !== aliceInitiates) {
+        [alice, bob] = [bob, alice];
+      }
+      aliceState = initializeRatchet(alice, bob.publicKey);
+      bobState = initializeRatchet(bob, alice.publicKey);
+    });
+
+    it('should start with distinct directional chains', () => {
+      const [initiator, responder] = aliceInitiates ? [aliceState, bobState] : [bobState, aliceState];
+
+      // Only the responder -> initiator chain is shared at setup
+      expect(initiator.receivingChainKey).toEqual(responder.sendingChainKey);
+      expect(initiator.sendingChainKey).not.toEqual(responder.sendingChainKey);
+      expect(initiator.sendingChainKey).not.toEqual(responder.receivingChainKey);
+    });
+
+    it('should decrypt simultaneous first messages', () => {
+      const [encA1, aliceState2] = ratchetEncrypt(aliceState, new TextEncoder().encode('Alice first'));
+      const [encB1, bobState2] = ratchetEncrypt(bobState, new TextEncoder().encode('Bob first'));
+
+      const [decB1, aliceState3] = ratchetDecrypt(aliceState2, encB1);
+      expect(new TextDecoder().decode(decB1)).toBe('Bob first');
+
+      const [decA1, bobState3] = ratchetDecrypt(bobState2, encA1);
+      expect(new TextDecoder().decode(decA1)).toBe('Alice first');
+
+      // The conversation continues normally in both directions
+      const [encA2, aliceState4] = ratchetEncrypt(aliceState3, new TextEncoder().encode('Alice second'));
+      const [decA2, bobState4] = ratchetDecrypt(bobState3, encA2);
+      expect(new TextDecoder().decode(decA2)).toBe('Alice second');
+
+      const [encB2] = ratchetEncrypt(bobState4, new TextEncoder().encode('Bob second'));
+      const [decB2] = ratchetDecrypt(aliceState4, encB2);
+      expect(new TextDecoder().decode(decB2)).toBe('Bob second');
+    });
+
+    it('should handle overlapping first bursts delivered out of order', () => {
+      let currentAliceState = aliceState;
+      let currentBobState = bobState;
+      const aliceEncrypted: Uint8Array[] = [];
+      const bobEncrypted: Uint8Array[] = [];
+
+      for (let i = 0; i < 3; i++) {
+        const [encA, newAliceState] = ratchetEncrypt(currentAliceState, new TextEncoder().encode(`Alice ${i}`));
+        aliceEncrypted.push(encA);
+        currentAliceState = newAliceState;
+
+        const [encB, newBobState] = ratchetEncrypt(currentBobState, new TextEncoder().encode(`Bob ${i}`));
+        bobEncrypted.push(encB);
+        currentBobState = newBobState;
+      }
+
+      for (const i of [2, 0, 1]) {
+        const [decB, newAliceState] = ratchetDecrypt(currentAliceState, bobEncrypted[i]);
+        expect(new TextDecoder().decode(decB)).toBe(`Bob ${i}`);
+        currentAliceState = newAliceState;
+
+        const [decA, newBobState] = ratchetDecrypt(currentBobState, aliceEncrypted[i]);
+        expect(new TextDecoder().decode(decA)).toBe(`Alice ${i}`);
+        currentBobState = newBobState;
+      }
+
+      // Replies after the bursts ratchet both ways
+      const [reply, newBobState] = ratchetEncrypt(currentBobState, new TextEncoder().encode('Bob reply'));
+      const [decReply, newAliceState] = ratchetDecrypt(currentAliceState, reply);
+      expect(new TextDecoder().decode(decReply)).toBe('Bob reply');
+
+      const [answer] = ratchetEncrypt(newAliceState, new TextEncoder().encode('Alice answer'));
+      const [decAnswer] = ratchetDecrypt(newBobState, answer);
+      expect(new TextDecoder().decode(decAnswer)).toBe('Alice answer');
+    });
+  });
+});
@@ -30,8 +30,8 @@ describe('Ratchet Protocol - DH Transitions', () => {
       const msg1 = new TextEncoder().encode('First in chain');
       const [enc1, aliceState2] = ratchetEncrypt(aliceState, msg1);
       
-      // Check that ephemeral key is included (version byte = 0x01)
-      expect(enc1[0]).toBe(0x01);
+      // Check that ephemeral key is included (version byte = 0x02)
+      expect(enc1[0]).toBe(0x02);
       
       // Extract the ephemeral key from first message
       const ephemeral1 = enc1.slice(1, 33);
@@ -41,7 +41,7 @@ describe('Ratchet Protocol - DH Transitions', () => {
       const [enc2, aliceState3] = ratchetEncrypt(aliceState2, msg2);
       
       // Check that same ephemeral key is included
-      expect(enc2[0]).toBe(0x01);
+      expect(enc2[0]).toBe(0x02);
       const ephemeral2 = enc2.slice(1, 33);
       expect(ephemeral2).toEqual(ephemeral1);
       
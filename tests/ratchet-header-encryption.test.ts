@@ -0,0 +1,215 @@
+/**
+ * Tests for the header-encrypted ratchet message format (version 0x03)
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  initializeRatchet,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeRatchetState,
+  deserializeRatchetState,
+  RATCHET_VERSION_AUTH,
+  RATCHET_VERSION_HEADER_ENCRYPTED,
+  DEFAULT_SKIPPED_KEY_LIMITS
+} from '../src/utils/ratchet';
+import { RatchetState, SkippedKeyLimits } from '../src/types/ratchet';
+import { KeyPair } from '../src/types';
+
+const encode = (s: string) => new TextEncoder().encode(s);
+const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+
+const storeKey = nacl.randomBytes(32);
+
+// Is `needle` contained anywhere in `haystack`?
+function containsBytes(haystack: Uint8Array, needle: Uint8Array): boolean {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    let match = true;
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return true;
+  }
+  return false;
+}
+
+describe('Ratchet Protocol - Header Encryption', () => {
+  let alice: KeyPair;
+  let bob: KeyPair;
+  let aliceState: RatchetState;
+  let bobState: RatchetState;
+
+  beforeEach(() => {
+    alice = nacl.box.keyPair();
+    bob = nacl.box.keyPair();
+    aliceState = initializeRatchet(alice, bob.publicKey, { messageVersion: RATCHET_VERSION_HEADER_ENCRYPTED });
+    bobState = initializeRatchet(bob, alice.publicKey, { messageVersion: RATCHET_VERSION_HEADER_ENCRYPTED });
+  });
+
+  it('should round-trip with the header-encrypted version byte', () => {
+    const [encrypted] = ratchetEncrypt(aliceState, encode('Hidden header'));
+    expect(encrypted[0]).toBe(RATCHET_VERSION_HEADER_ENCRYPTED);
+
+    const [decrypted] = ratchetDecrypt(bobState, encrypted);
+    expect(decode(decrypted)).toBe('Hidden header');
+  });
+
+  it('should not expose the ephemeral key or counters', () => {
+    const [, aliceState2] = ratchetEncrypt(aliceState, encode('one'));
+    const [encrypted, aliceState3] = ratchetEncrypt(aliceState2, encode('two'));
+
+    expect(containsBytes(encrypted, aliceState3.myCurrentEphemeralKeyPair.publicKey)).toBe(false);
+    // Plaintext header would carry counter 1 big-endian at offset 37
+    expect(Array.from(encrypted.slice(37, 41))).not.toEqual([0, 0, 0, 1]);
+  });
+
+  it('should follow DH ratchets across several turns', () => {
+    let a = aliceState;
+    let b = bobState;
+
+    for (let turn = 0; turn < 4; turn++) {
+      const [fromAlice, a2] = ratchetEncrypt(a, encode(`alice ${turn}`));
+      const [decA, b2] = ratchetDecrypt(b, fromAlice);
+      expect(decode(decA)).toBe(`alice ${turn}`);
+
+      const [fromBob, b3] = ratchetEncrypt(b2, encode(`bob ${turn}`));
+      const [decB, a3] = ratchetDecrypt(a2, fromBob);
+      expect(decode(decB)).toBe(`bob ${turn}`);
+
+      a = a3;
+      b = b3;
+    }
+
+    // Header keys rotate with the DH ratchet
+    expect(a.headerKeys!.sending).not.toEqual(aliceState.headerKeys!.sending);
+  });
+
+  it('should decrypt out-of-order messages from a previous chain', () => {
+    const [enc1, aliceState2] = ratchetEncrypt(aliceState, encode('msg1'));
+    const [enc2, aliceState3] = ratchetEncrypt(aliceState2, encode('msg2'));
+
+    // Bob receives msg1 and replies, so Alice ratchets
+    const [, bobState2] = ratchetDecrypt(bobState, enc1);
+    const [reply, bobState3] = ratchetEncrypt(bobState2, encode('reply'));
+    const [, aliceState4] = ratchetDecrypt(aliceState3, reply);
+
+    // Alice sends on her new chain before Bob sees msg2
+    const [enc3] = ratchetEncrypt(aliceState4, encode('msg3'));
+    const [dec3, bobState4] = ratchetDecrypt(bobState3, enc3);
+    expect(decode(dec3)).toBe('msg3');
+
+    // msg2 is still readable under the previous chain's header key
+    const [dec2] = ratchetDecrypt(bobState4, enc2);
+    expect(decode(dec2)).toBe('msg2');
+  });
+
+  it('should drop skipped keys together with an evicted previous chain', () => {
+    const limits: SkippedKeyLimits = { ...DEFAULT_SKIPPED_KEY_LIMITS, maxPreviousChains: 1 };
+    const [enc1, aliceState2] = ratchetEncrypt(aliceState, encode('msg1'));
+    const [enc2, aliceState3] = ratchetEncrypt(aliceState2, encode('msg2'));
+
+    // Two round trips retire two of Bob's receiving chains; the first one holds msg2's key
+    const [, bobState2] = ratchetDecrypt(bobState, enc1, limits);
+    const [reply1, bobState3] = ratchetEncrypt(bobState2, encode('reply1'));
+    const [, aliceState4] = ratchetDecrypt(aliceState3, reply1);
+    const [enc3, aliceState5] = ratchetEncrypt(aliceState4, encode('msg3'));
+    const [, bobState4] = ratchetDecrypt(bobState3, enc3, limits);
+    const [reply2, bobState5] = ratchetEncrypt(bobState4, encode('reply2'));
+    const [, aliceState6] = ratchetDecrypt(aliceState5, reply2);
+    const [enc4] = ratchetEncrypt(aliceState6, encode('msg4'));
+
+    // With room for both chains msg2 still arrives
+    const [, bobKeepsBoth] = ratchetDecrypt(bobState5, enc4);
+    const [dec2] = ratchetDecrypt(bobKeepsBoth, enc2);
+    expect(decode(dec2)).toBe('msg2');
+
+    // Evicting the first chain takes its header key, and its unusable skipped key goes with it
+    const [, bobState6] = ratchetDecrypt(bobState5, enc4, limits);
+    expect(bobState6.previousReceivingChains.size).toBe(1);
+    expect(bobState6.skippedMessageKeys.size).toBe(0);
+    expect(() => ratchetDecrypt(bobState6, enc2, limits)).toThrow('Header decryption failed');
+  });
+
+  it('should reject a tampered encrypted header', () => {
+    const [encrypted] = ratchetEncrypt(aliceState, encode('Test message'));
+    const tampered = new Uint8Array(encrypted);
+    tampered[30] ^= 0x01;
+
+    expect(() => {
+      ratchetDecrypt(bobState, tampered);
+    }).toThrow(/Header decryption failed/);
+  });
+
+  it('should reject a message from an unrelated session', () => {
+    const eve = nacl.box.keyPair();
+    const eveState = initializeRatchet(eve, bob.publicKey, { messageVersion: RATCHET_VERSION_HEADER_ENCRYPTED });
+    const [encrypted] = ratchetEncrypt(eveState, encode('Intruder'));
+
+    expect(() => {
+      ratchetDecrypt(bobState, encrypted);
+    }).toThrow(/Header decryption failed/);
+  });
+
+  it('should upgrade an authenticated session after receiving an encrypted header', () => {
+    const bobAuth = initializeRatchet(bob, alice.publicKey, { messageVersion: RATCHET_VERSION_AUTH });
+
+    const [encrypted, aliceState2] = ratchetEncrypt(aliceState, encode('Upgrade'));
+    const [, bobAuth2] = ratchetDecrypt(bobAuth, encrypted);
+    expect(bobAuth2.messageVersion).toBe(RATCHET_VERSION_HEADER_ENCRYPTED);
+
+    const [reply] = ratchetEncrypt(bobAuth2, encode('Reply'));
+    expect(reply[0]).toBe(RATCHET_VERSION_HEADER_ENCRYPTED);
+
+    const [decrypted] = ratchetDecrypt(aliceState2, reply);
+    expect(decode(decrypted)).toBe('Reply');
+  });
+
+  it('should accept 0x02 from a peer that does not encrypt headers yet', () => {
+    const aliceAuth = initializeRatchet(alice, bob.publicKey, { messageVersion: RATCHET_VERSION_AUTH });
+    const [plainHeader] = ratchetEncrypt(aliceAuth, encode('Clear header'));
+    expect(plainHeader[0]).toBe(RATCHET_VERSION_AUTH);
+
+    const [decrypted, bobState2] = ratchetDecrypt(bobState, plainHeader);
+    expect(decode(decrypted)).toBe('Clear header');
+    expect(bobState2.messageVersion).toBe(RATCHET_VERSION_HEADER_ENCRYPTED);
+  });
+
+  it('should reject a 0x03 message relabelled as 0x02', () => {
+    const [encrypted] = ratchetEncrypt(aliceState, encode('Hidden header'));
+    const relabelled = new Uint8Array(encrypted);
+    relabelled[0] = RATCHET_VERSION_AUTH;
+
+    expect(() => {
+      ratchetDecrypt(bobState, relabelled);
+    }).toThrow();
+
+    // The genuine message still decrypts
+    const [decrypted] = ratchetDecrypt(bobState, encrypted);
+    expect(decode(decrypted)).toBe('Hidden header');
+  });
+
+  it('should reject encrypted headers in a session without header keys', () => {
+    const legacy = deserializeRatchetState(serializeRatchetState(bobState, storeKey), storeKey)!;
+    legacy.headerKeys = null;
+
+    const [encrypted] = ratchetEncrypt(aliceState, encode('Test message'));
+    expect(() => {
+      ratchetDecrypt(legacy, encrypted);
+    }).toThrow(/Header encryption not available/);
+  });
+
+  it('should preserve header keys through serialization', () => {
+    const [enc1, aliceState2] = ratchetEncrypt(aliceState, encode('msg1'));
+    const [, bobState2] = ratchetDecrypt(bobState, enc1);
+
+    const restored = deserializeRatchetState(serializeRatchetState(bobState2, storeKey), storeKey)!;
+    expect(restored.headerKeys).toEqual(bobState2.headerKeys);
+
+    const [enc2] = ratchetEncrypt(aliceState2, encode('msg2'));
+    const [dec2] = ratchetDecrypt(restored, enc2);
+    expect(decode(dec2)).toBe('msg2');
+  });
+});
@@ -6,7 +6,9 @@ import * as nacl from 'tweetnacl';
 import {
   initializeRatchet,
   ratchetEncrypt,
-  ratchetDecrypt
+  ratchetDecrypt,
+  RATCHET_VERSION,
+  RATCHET_VERSION_AUTH
 } from '../src/utils/ratchet';
 import { RatchetState } from '../src/types/ratchet';
 import { KeyPair } from '../src/types';
@@ -54,7 +56,7 @@ describe('Ratchet Protocol - Integrity & Misuse Resistance', () => {
       const [encrypted1, aliceState2] = ratchetEncrypt(aliceState, message1);
       
       // Verify first byte indicates ephemeral key presence
-      expect(encrypted1[0]).toBe(0x01); // Version with ephemeral
+      expect(encrypted1[0]).toBe(RATCHET_VERSION_AUTH); // Version with ephemeral
       
       // Flip to indicate no ephemeral key when there is one
       const tampered = new Uint8Array(encrypted1);
@@ -263,4 +265,95 @@ describe('Ratchet Protocol - Integrity & Misuse Resistance', () => {
       }).toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('Authenticated headers (version 0x02)', () => {
+    let aliceAuth: RatchetState;
+    let bobAuth: RatchetState;
+
+    beforeEach(() => {
+      aliceAuth = initializeRatchet(alice, bob.publicKey, { messageVersion: RATCHET_VERSION_AUTH });
+      bobAuth = initializeRatchet(bob, alice.publicKey, { messageVersion: RATCHET_VERSION_AUTH });
+    });
+
+    it('should round-trip with the authenticated version byte', () => {
+      const [encrypted] = ratchetEncrypt(aliceAuth, new TextEncoder().encode('Authenticated'));
+      expect(encrypted[0]).toBe(RATCHET_VERSION_AUTH);
+
+      const [decrypted] = ratchetDecrypt(bobAuth, encrypted);
+      expect(new TextDecoder().decode(decrypted)).toBe('Authenticated');
+    });
+
+    it.each([
+      ['ephemeral key', 1],
+      ['previous counter', 36],
+      ['message counter', 40]
+    ])('should reject a tampered %s', (_, offset) => {
+      const [encrypted] = ratchetEncrypt(aliceAuth, new TextEncoder().encode('Test message'));
+      const tampered = new Uint8Array(encrypted);
+      tampered[offset] ^= 0x01;
+
+      expect(() => {
+        ratchetDecrypt(bobAuth, tampered);
+      }).toThrow();
+    });
+
+    it('should reject a version downgrade to 0x01', () => {
+      const [encrypted] = ratchetEncrypt(aliceAuth, new TextEncoder().encode('Test message'));
+      const downgraded = new Uint8Array(encrypted);
+      downgraded[0] = RATCHET_VERSION;
+
+      expect(() => {
+        ratchetDecrypt(bobAuth, downgraded);
+      }).toThrow(/Version downgrade rejected/);
+    });
+
+    it('should reject a genuine 0x01 message once a session authenticates headers', () => {
+      const aliceLegacy = initializeRatchet(alice, bob.publicKey, { messageVersion: RATCHET_VERSION });
+      const [legacy] = ratchetEncrypt(aliceLegacy, new TextEncoder().encode('Legacy'));
+      expect(legacy[0]).toBe(RATCHET_VERSION);
+
+      expect(() => {
+        ratchetDecrypt(bobAuth, legacy);
+      }).toThrow(/Version downgrade rejected/);
+    });
+
+    it('should keep skipped keys usable after a tampered header', () => {
+      const [enc1, aliceAuth2] = ratchetEncrypt(aliceAuth, new TextEncoder().encode('msg1'));
+      const [enc2] = ratchetEncrypt(aliceAuth2, new TextEncoder().encode('msg2'));
+
+      // Bob receives msg2 first, storing the key for msg1
+      const [, bobAuth2] = ratchetDecrypt(bobAuth, enc2);
+      expect(bobAuth2.skippedMessageKeys.size).toBe(1);
+
+      // A forged msg1 with a tampered previous counter must not burn the skipped key
+      const tampered = new Uint8Array(enc1);
+      tampered[36] ^= 0x01;
+      expect(() => {
+        ratchetDecrypt(bobAuth2, tampered);
+      }).toThrow(/Decryption failed/);
+
+      const [dec1] = ratchetDecrypt(bobAuth2, enc1);
+      expect(new TextDecoder().decode(dec1)).toBe('msg1');
+    });
+
+    it('should default new sessions to authenticated headers', () => {
+      expect(aliceState.messageVersion).toBe(RATCHET_VERSION_AUTH);
+      expect(bobState.messageVersion).toBe(RATCHET_VERSION_AUTH);
+    });
+
+    it('should upgrade a legacy session after receiving an authenticated header', () => {
+      const bobLegacy = initializeRatchet(bob, alice.publicKey, { messageVersion: RATCHET_VERSION });
+      expect(bobLegacy.messageVersion).toBe(RATCHET_VERSION);
+
+      const [encrypted, aliceAuth2] = ratchetEncrypt(aliceAuth, new TextEncoder().encode('Upgrade'));
+      const [, bobState2] = ratchetDecrypt(bobLegacy, encrypted);
+      expect(bobState2.messageVersion).toBe(RATCHET_VERSION_AUTH);
+
+      const [reply] = ratchetEncrypt(bobState2, new TextEncoder().encode('Reply'));
+      expect(reply[0]).toBe(RATCHET_VERSION_AUTH);
+
+      const [decrypted] = ratchetDecrypt(aliceAuth2, reply);
+      expect(new TextDecoder().decode(decrypted)).toBe('Reply');
+    });
+  });
+});
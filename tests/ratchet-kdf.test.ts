@@ -0,0 +1,142 @@
+/**
+ * Tests for ratchet key derivation: HKDF-SHA512 primitives and KDF versions
+ */
+
+import * as nacl from 'tweetnacl';
+import { hmacSha512, hkdfSha512 } from '../src/utils/hkdf';
+import {
+  initializeRatchet,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeRatchetState,
+  deserializeRatchetState,
+  KDF_VERSION_LEGACY,
+  KDF_VERSION_HKDF
+} from '../src/utils/ratchet';
+import { RatchetState } from '../src/types/ratchet';
+import { KeyPair } from '../src/types';
+
+const encode = (s: string) => new TextEncoder().encode(s);
+const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+const hex = (b: Uint8Array) => Array.from(b).map(x => x.toString(16).padStart(2, '0')).join('');
+const fromHex = (s: string) => new Uint8Array(s.match(/../g)!.map(x => parseInt(x, 16)));
+
+const storeKey = nacl.randomBytes(32);
+
+describe('HMAC-SHA512 (RFC 4231)', () => {
+  it('matches test case 1', () => {
+    const mac = hmacSha512(new Uint8Array(20).fill(0x0b), encode('Hi There'));
+    expect(hex(mac)).toBe(
+      '87aa7cdea5ef619d4ff0b4241a1d6cb02379f4e2ce4ec2787ad0b30545e17cde' +
+      'daa833b7d6b8a702038b274eaea3f4e4be9d914eeb61f1702e696c203a126854'
+    );
+  });
+
+  it('hashes keys longer than the block size (test case 6)', () => {
+    const mac = hmacSha512(
+      new Uint8Array(131).fill(0xaa),
+      encode('Test Using Larger Than Block-Size Key - Hash Key First')
+    );
+    expect(hex(mac)).toBe(
+      '80b24263c7c1a3ebb71493c1dd7be8b49b46d1f41b4aeec1121b013783f8f352' +
+      '6b56d037e05f2598bd0fd2215d6a1e5295e64f73f63f0aec8b915a985d786598'
+    );
+  });
+});
+
+describe('HKDF-SHA512', () => {
+  const ikm = new Uint8Array(22).fill(0x0b);
+
+  it('derives the expected output for RFC 5869 test case 1 inputs', () => {
+    const okm = hkdfSha512(fromHex('000102030405060708090a0b0c'), ikm, fromHex('f0f1f2f3f4f5f6f7f8f9'), 42);
+    expect(hex(okm)).toBe('832390086cda71fb47625bb5ceb168e4c8e26a1a16ed34d9fc7fe92c1481579338da362cb8d9f925d7cb');
+  });
+
+  it('treats an empty salt as HashLen zero bytes', () => {
+    const okm = hkdfSha512(new Uint8Array(0), ikm, new Uint8Array(0), 42);
+    expect(hex(okm)).toBe('f5fa02b18298a72a8c23898a8703472c6eb179dc204c03425c970e3b164bf90fff22d04836d0e2343bac');
+    expect(hkdfSha512(new Uint8Array(64), ikm, new Uint8Array(0), 42)).toEqual(okm);
+  });
+
+  it('separates outputs by info label', () => {
+    const a = hkdfSha512(new Uint8Array(0), ikm, encode('label-a'), 32);
+    const b = hkdfSha512(new Uint8Array(0), ikm, encode('label-b'), 32);
+    expect(a).not.toEqual(b);
+  });
+
+  it('rejects oversized output lengths', () => {
+    expect(() => hkdfSha512(new Uint8Array(0), ikm, new Uint8Array(0), 255 * 64 + 1)).toThrow('exceeds maximum');
+  });
+});
+
+describe('Ratchet KDF versions', () => {
+  let alice: KeyPair;
+  let bob: KeyPair;
+
+  beforeEach(() => {
+    alice = nacl.box.keyPair();
+    bob = nacl.box.keyPair();
+  });
+
+  // Alice -> Bob, Bob -> Alice, Alice -> Bob, exercising both DH ratchet directions
+  function converse(aliceState: RatchetState, bobState: RatchetState): void {
+    const [enc1, alice2] = ratchetEncrypt(aliceState, encode('one'));
+    const [dec1, bob2] = ratchetDecrypt(bobState, enc1);
+    expect(decode(dec1)).toBe('one');
+
+    const [enc2, bob3] = ratchetEncrypt(bob2, encode('two'));
+    const [dec2, alice3] = ratchetDecrypt(alice2, enc2);
+    expect(decode(dec2)).toBe('two');
+
+    const [enc3] = ratchetEncrypt(alice3, encode('three'));
+    const [dec3] = ratchetDecrypt(bob3, enc3);
+    expect(decode(dec3)).toBe('three');
+  }
+
+  it('creates new sessions with labeled HKDF', () => {
+    const state = initializeRatchet(alice, bob.publicKey);
+    expect(state.kdfVersion).toBe(KDF_VERSION_HKDF);
+  });
+
+  it.each([
+    ['HKDF', KDF_VERSION_HKDF],
+    ['legacy', KDF_VERSION_LEGACY]
+  ])('exchanges messages with %s derivation', (_, kdfVersion) => {
+    converse(
+      initializeRatchet(alice, bob.publicKey, { kdfVersion }),
+      initializeRatchet(bob, alice.publicKey, { kdfVersion })
+    );
+  });
+
+  it('derives different keys per version from the same identities', () => {
+    // The responder (higher identity key) sends on the chain derived at init
+    const [initiator, responder] = hex(alice.publicKey) < hex(bob.publicKey) ? [alice, bob] : [bob, alice];
+    const legacy = initializeRatchet(responder, initiator.publicKey, { kdfVersion: KDF_VERSION_LEGACY });
+    const hkdf = initializeRatchet(responder, initiator.publicKey, { kdfVersion: KDF_VERSION_HKDF });
+    expect(hkdf.rootKey).not.toEqual(legacy.rootKey);
+    expect(hkdf.sendingChainKey).not.toEqual(legacy.sendingChainKey);
+  });
+
+  it('does not decrypt across KDF versions', () => {
+    const aliceState = initializeRatchet(alice, bob.publicKey, { kdfVersion: KDF_VERSION_HKDF });
+    const bobState = initializeRatchet(bob, alice.publicKey, { kdfVersion: KDF_VERSION_LEGACY });
+    const [encrypted] = ratchetEncrypt(aliceState, encode('mismatch'));
+
+    expect(() => ratchetDecrypt(bobState, encrypted)).toThrow(/Decryption failed/);
+  });
+
+  it('preserves the KDF version through serialization', () => {
+    const state = initializeRatchet(alice, bob.publicKey);
+    const restored = deserializeRatchetState(serializeRatchetState(state, storeKey), storeKey)!;
+    expect(restored.kdfVersion).toBe(KDF_VERSION_HKDF);
+  });
+
+  it('rejects stored sessions with an unknown KDF version', () => {
+    const state = initializeRatchet(alice, bob.publicKey);
+    const stored = serializeRatchetState({ ...state, kdfVersion: 9 }, storeKey);
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(deserializeRatchetState(stored, storeKey)).toBeNull();
+    jest.restoreAllMocks();
+  });
+});
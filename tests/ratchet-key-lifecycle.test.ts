@@ -133,27 +133,24 @@ describe('Ratchet Protocol - Key Lifecycle', () => {
 
   describe('Root key evolution', () => {
     it('should update root key on DH ratchet', () => {
-      // Store initial root key
-      const initialRootKey = new Uint8Array(aliceState.rootKey);
-      
       // Alice sends first message
       const msg1 = new TextEncoder().encode('Alice message');
       const [enc1, aliceState2] = ratchetEncrypt(aliceState, msg1);
       const [_, bobState2] = ratchetDecrypt(bobState, enc1);
       
-      // Root key should not change yet (no DH ratchet)
-      expect(aliceState2.rootKey).toEqual(initialRootKey);
+      // Both sides agree on the root key after the first message
+      expect(bobState2.rootKey).toEqual(aliceState2.rootKey);
       
       // Bob replies, triggering DH ratchet
       const msg2 = new TextEncoder().encode('Bob reply');
       const [enc2, bobState3] = ratchetEncrypt(bobState2, msg2);
       
       // Bob's root key should have changed
-      expect(bobState3.rootKey).not.toEqual(initialRootKey);
+      expect(bobState3.rootKey).not.toEqual(bobState2.rootKey);
       
       // Alice receives, her root key should update
       const [__, aliceState3] = ratchetDecrypt(aliceState2, enc2);
-      expect(aliceState3.rootKey).not.toEqual(initialRootKey);
+      expect(aliceState3.rootKey).not.toEqual(aliceState2.rootKey);
       
       // Both should have the same root key now
       expect(aliceState3.rootKey).toEqual(bobState3.rootKey);
@@ -198,15 +195,16 @@ describe('Ratchet Protocol - Key Lifecycle', () => {
 
   describe('Ephemeral key rotation', () => {
     it('should generate new ephemeral key for each sending chain', () => {
-      // Alice's initial ephemeral
-      const initialEphemeral = new Uint8Array(aliceState.myCurrentEphemeralKeyPair.publicKey);
-      
       // Alice sends first message
       const msg1 = new TextEncoder().encode('Alice 1');
-      const [enc1, aliceState2] = ratchetEncrypt(aliceState, msg1);
+      const [enc1, aliceState1] = ratchetEncrypt(aliceState, msg1);
       const [_, bobState2] = ratchetDecrypt(bobState, enc1);
       
-      // Ephemeral should not change yet (same sending chain)
+      // Alice's ephemeral for her first sending chain
+      const initialEphemeral = new Uint8Array(aliceState1.myCurrentEphemeralKeyPair.publicKey);
+      
+      // Ephemeral should not change within the same sending chain
+      const [, aliceState2] = ratchetEncrypt(aliceState1, new TextEncoder().encode('Alice 1b'));
       expect(aliceState2.myCurrentEphemeralKeyPair.publicKey).toEqual(initialEphemeral);
       
       // Bob replies (triggers DH ratchet for Alice)
@@ -230,20 +228,18 @@ describe('Ratchet Protocol - Key Lifecycle', () => {
       let currentBobState = bobState;
       
       // Store initial ephemeral keys
-      aliceEphemeralKeys.push(
-        new Uint8Array(currentAliceState.myCurrentEphemeralKeyPair.publicKey)
-      );
       bobEphemeralKeys.push(
         new Uint8Array(currentBobState.myCurrentEphemeralKeyPair.publicKey)
       );
       
-      // Alice sends first (no ratchet yet)
+      // Alice sends first (ratchets only if she is the initiator)
       const msgA1 = new TextEncoder().encode('Alice 1');
       const [encA1, aliceState2] = ratchetEncrypt(currentAliceState, msgA1);
       const [_, bobState2] = ratchetDecrypt(currentBobState, encA1);
       
-      // Alice's ephemeral shouldn't change (no DH ratchet occurred)
-      expect(aliceState2.myCurrentEphemeralKeyPair.publicKey).toEqual(aliceEphemeralKeys[0]);
+      // Alice's first message carries her current ephemeral
+      aliceEphemeralKeys.push(new Uint8Array(aliceState2.myCurrentEphemeralKeyPair.publicKey));
+      expect(encA1.slice(1, 33)).toEqual(aliceEphemeralKeys[0]);
       
       // Bob replies (Bob performs DH ratchet)
       const msgB1 = new TextEncoder().encode('Bob 1');
@@ -0,0 +1,264 @@
+/**
+ * Tests for ratchet state storage: binary format, JSON migration and corruption handling
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  initializeRatchet,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeRatchetState,
+  deserializeRatchetState,
+  deserializeLegacyRatchetState,
+  isLegacyRatchetState,
+  KDF_VERSION_LEGACY,
+  RATCHET_VERSION_HEADER_ENCRYPTED,
+  RATCHET_STORE_PREFIX
+} from '../src/utils/ratchet';
+import {
+  encodeRatchetState,
+  decodeRatchetState,
+  RATCHET_STATE_FORMAT_BINARY
+} from '../src/utils/ratchetSerialization';
+import { deriveKeyFromMasterKey } from '../src/utils/crypto';
+import { RatchetState } from '../src/types/ratchet';
+import { KeyPair } from '../src/types';
+
+const encode = (s: string) => new TextEncoder().encode(s);
+const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+
+const MASTER = 'correct horse battery';
+const STORE_KEY = nacl.randomBytes(32);
+
+function sealWith(plaintext: Uint8Array, key: Uint8Array): string {
+  const nonce = nacl.randomBytes(24);
+  const box = nacl.secretbox(plaintext, nonce, key);
+  const combined = new Uint8Array(24 + box.length);
+  combined.set(nonce, 0);
+  combined.set(box, 24);
+  return btoa(String.fromCharCode(...combined));
+}
+
+// Encrypt a plaintext blob the way serializeRatchetState stores it
+function seal(plaintext: Uint8Array): string {
+  return RATCHET_STORE_PREFIX + sealWith(plaintext, STORE_KEY);
+}
+
+function open(serialized: string): Uint8Array {
+  const combined = new Uint8Array(atob(serialized.slice(RATCHET_STORE_PREFIX.length)).split('').map(c => c.charCodeAt(0)));
+  return nacl.secretbox.open(combined.slice(24), combined.slice(0, 24), STORE_KEY)!;
+}
+
+// The original JSON storage format, before skipped key timestamps and KDF versions,
+// encrypted under the unsalted master key hash
+function sealJsonState(state: RatchetState, { withKdfVersion = true } = {}): string {
+  const stateObj = {
+    myIdentityKeyPair: {
+      publicKey: Array.from(state.myIdentityKeyPair.publicKey),
+      secretKey: Array.from(state.myIdentityKeyPair.secretKey)
+    },
+    theirIdentityPublicKey: Array.from(state.theirIdentityPublicKey),
+    myCurrentEphemeralKeyPair: {
+      publicKey: Array.from(state.myCurrentEphemeralKeyPair.publicKey),
+      secretKey: Array.from(state.myCurrentEphemeralKeyPair.secretKey)
+    },
+    theirLatestEphemeralPublicKey: state.theirLatestEphemeralPublicKey ?
+      Array.from(state.theirLatestEphemeralPublicKey) : null,
+    hasRatchetedForTheirEphemeral: state.hasRatchetedForTheirEphemeral,
+    rootKey: Array.from(state.rootKey),
+    sendingChainKey: Array.from(state.sendingChainKey),
+    receivingChainKey: Array.from(state.receivingChainKey),
+    sendMessageCounter: state.sendMessageCounter,
+    receiveMessageCounter: state.receiveMessageCounter,
+    previousSendCounter: state.previousSendCounter,
+    skippedMessageKeys: Array.from(state.skippedMessageKeys.entries()).map(([k, v]) => [k, Array.from(v.messageKey)]),
+    previousReceivingChains: Array.from(state.previousReceivingChains.entries()).map(([k, v]) => [k, {
+      chainKey: Array.from(v.chainKey),
+      messageCounter: v.messageCounter,
+      headerKey: v.headerKey ? Array.from(v.headerKey) : undefined
+    }]),
+    headerKeys: state.headerKeys ? {
+      sending: Array.from(state.headerKeys.sending),
+      receiving: Array.from(state.headerKeys.receiving),
+      nextSending: Array.from(state.headerKeys.nextSending),
+      nextReceiving: Array.from(state.headerKeys.nextReceiving)
+    } : null,
+    messageVersion: state.messageVersion,
+    kdfVersion: withKdfVersion ? state.kdfVersion : undefined,
+    isInitialized: state.isInitialized
+  };
+  return sealWith(new Uint8Array(encode(JSON.stringify(stateObj))), deriveKeyFromMasterKey(MASTER));
+}
+
+describe('Ratchet State Serialization', () => {
+  let alice: KeyPair;
+  let bob: KeyPair;
+  let aliceState: RatchetState;
+  let bobState: RatchetState;
+
+  // Bob skips two messages, then Alice ratchets so Bob also retires a chain
+  function busyBobState(): { bob: RatchetState; late: Uint8Array[]; alice: RatchetState } {
+    const [m0, a1] = ratchetEncrypt(aliceState, encode('msg 0'));
+    const [m1, a2] = ratchetEncrypt(a1, encode('msg 1'));
+    const [m2, a3] = ratchetEncrypt(a2, encode('msg 2'));
+    const [, b1] = ratchetDecrypt(bobState, m2);
+    const [reply, b2] = ratchetEncrypt(b1, encode('reply'));
+    const [, a4] = ratchetDecrypt(a3, reply);
+    const [m3, a5] = ratchetEncrypt(a4, encode('msg 3'));
+    const [, b3] = ratchetDecrypt(b2, m3);
+    return { bob: b3, late: [m0, m1], alice: a5 };
+  }
+
+  beforeEach(() => {
+    alice = nacl.box.keyPair();
+    bob = nacl.box.keyPair();
+    aliceState = initializeRatchet(alice, bob.publicKey, { messageVersion: RATCHET_VERSION_HEADER_ENCRYPTED });
+    bobState = initializeRatchet(bob, alice.publicKey, { messageVersion: RATCHET_VERSION_HEADER_ENCRYPTED });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('binary format', () => {
+    it('round-trips a new session', () => {
+      const restored = deserializeRatchetState(serializeRatchetState(aliceState, STORE_KEY), STORE_KEY);
+      expect(restored).toEqual(aliceState);
+    });
+
+    it('round-trips skipped keys, previous chains and header keys', () => {
+      const { bob: busy, late } = busyBobState();
+      expect(busy.skippedMessageKeys.size).toBe(2);
+      expect(busy.previousReceivingChains.size).toBeGreaterThan(0);
+
+      const restored = deserializeRatchetState(serializeRatchetState(busy, STORE_KEY), STORE_KEY)!;
+      expect(restored).toEqual(busy);
+
+      const [dec0, restored2] = ratchetDecrypt(restored, late[0]);
+      const [dec1] = ratchetDecrypt(restored2, late[1]);
+      expect(decode(dec0)).toBe('msg 0');
+      expect(decode(dec1)).toBe('msg 1');
+    });
+
+    it('round-trips a session without their ephemeral key or header keys', () => {
+      const state = { ...bobState, theirLatestEphemeralPublicKey: null, headerKeys: null, isInitialized: false };
+      expect(decodeRatchetState(encodeRatchetState(state))).toEqual(state);
+    });
+
+    it('starts with the format version byte', () => {
+      const plaintext = open(serializeRatchetState(aliceState, STORE_KEY));
+      expect(plaintext[0]).toBe(RATCHET_STATE_FORMAT_BINARY);
+    });
+
+    it('is much smaller than the JSON format', () => {
+      const { bob: busy } = busyBobState();
+      const binary = serializeRatchetState(busy, STORE_KEY);
+      const json = sealJsonState(busy);
+      expect(binary.length * 3).toBeLessThan(json.length);
+    });
+
+    it('stores a thousand skipped keys', () => {
+      const skipped: RatchetState['skippedMessageKeys'] = new Map();
+      const ephemeral = Array.from(nacl.randomBytes(32)).join(',');
+      for (let i = 0; i < 1000; i++) {
+        skipped.set(`${ephemeral}-${i}`, { messageKey: nacl.randomBytes(32), storedAt: 1_700_000_000_000 + i });
+      }
+      const state = { ...bobState, skippedMessageKeys: skipped };
+
+      const restored = deserializeRatchetState(serializeRatchetState(state, STORE_KEY), STORE_KEY)!;
+      expect(restored.skippedMessageKeys).toEqual(skipped);
+    });
+  });
+
+  describe('store key migration', () => {
+    it('marks entries written with the store key', () => {
+      const stored = serializeRatchetState(aliceState, STORE_KEY);
+      expect(stored.startsWith(RATCHET_STORE_PREFIX)).toBe(true);
+      expect(isLegacyRatchetState(stored)).toBe(false);
+      expect(isLegacyRatchetState(sealJsonState(aliceState))).toBe(true);
+    });
+
+    it('reads master-key entries only through the legacy path', () => {
+      const stored = sealJsonState(aliceState);
+      expect(deserializeRatchetState(stored, STORE_KEY)).toBeNull();
+      expect(deserializeLegacyRatchetState(stored, MASTER)).not.toBeNull();
+      expect(deserializeLegacyRatchetState(stored, 'wrong passphrase')).toBeNull();
+    });
+  });
+
+  describe('JSON migration', () => {
+    it('reads sessions stored as JSON and continues the conversation', () => {
+      const { bob: busy, late, alice: aliceLater } = busyBobState();
+      const restored = deserializeLegacyRatchetState(sealJsonState(busy), MASTER)!;
+
+      const [dec0] = ratchetDecrypt(restored, late[0]);
+      expect(decode(dec0)).toBe('msg 0');
+
+      const [next] = ratchetEncrypt(aliceLater, encode('msg 4'));
+      const [dec4, migrated] = ratchetDecrypt(restored, next);
+      expect(decode(dec4)).toBe('msg 4');
+
+      // Saving again writes the binary format
+      expect(open(serializeRatchetState(migrated, STORE_KEY))[0]).toBe(RATCHET_STATE_FORMAT_BINARY);
+    });
+
+    it('keeps JSON sessions without a KDF version on the legacy derivation', () => {
+      const aliceLegacy = initializeRatchet(alice, bob.publicKey, { kdfVersion: KDF_VERSION_LEGACY });
+      const bobLegacy = initializeRatchet(bob, alice.publicKey, { kdfVersion: KDF_VERSION_LEGACY });
+
+      // Simulate a session persisted before the field existed
+      const restored = deserializeLegacyRatchetState(sealJsonState(bobLegacy, { withKdfVersion: false }), MASTER)!;
+      expect(restored.kdfVersion).toBe(KDF_VERSION_LEGACY);
+
+      const [enc] = ratchetEncrypt(aliceLegacy, encode('legacy'));
+      const [dec] = ratchetDecrypt(restored, enc);
+      expect(decode(dec)).toBe('legacy');
+    });
+
+    it('timestamps skipped keys and chains at load', () => {
+      const { bob: busy, late } = busyBobState();
+
+      jest.spyOn(Date, 'now').mockReturnValue(1_800_000_000_000);
+      const restored = deserializeLegacyRatchetState(sealJsonState(busy), MASTER)!;
+      expect(restored.skippedMessageKeys.size).toBe(2);
+      restored.skippedMessageKeys.forEach(entry => {
+        expect(entry.storedAt).toBe(1_800_000_000_000);
+      });
+      restored.previousReceivingChains.forEach(chain => {
+        expect(chain.storedAt).toBe(1_800_000_000_000);
+      });
+
+      const [dec1] = ratchetDecrypt(restored, late[1]);
+      expect(decode(dec1)).toBe('msg 1');
+    });
+  });
+
+  describe('corrupt or unknown data', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('rejects an unknown format version', () => {
+      const plaintext = encodeRatchetState(aliceState);
+      plaintext[0] = 0x7f;
+      expect(deserializeRatchetState(seal(plaintext), STORE_KEY)).toBeNull();
+    });
+
+    it('rejects truncated state', () => {
+      const plaintext = encodeRatchetState(aliceState);
+      expect(deserializeRatchetState(seal(plaintext.slice(0, plaintext.length - 1)), STORE_KEY)).toBeNull();
+      expect(() => decodeRatchetState(plaintext.slice(0, 40))).toThrow(/Truncated/);
+    });
+
+    it('rejects trailing bytes', () => {
+      const plaintext = encodeRatchetState(aliceState);
+      const padded = new Uint8Array(plaintext.length + 1);
+      padded.set(plaintext);
+      expect(() => decodeRatchetState(padded)).toThrow(/Trailing bytes/);
+    });
+
+    it('rejects the wrong store key', () => {
+      expect(deserializeRatchetState(serializeRatchetState(aliceState, STORE_KEY), nacl.randomBytes(32))).toBeNull();
+    });
+  });
+});
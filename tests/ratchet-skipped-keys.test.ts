@@ -0,0 +1,146 @@
+/**
+ * Tests for bounded, expiring storage of skipped message keys and previous chains
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  initializeRatchet,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeRatchetState,
+  deserializeRatchetState,
+  pruneSkippedKeys,
+  getSkippedKeyStats,
+  DEFAULT_SKIPPED_KEY_LIMITS
+} from '../src/utils/ratchet';
+import { RatchetState, SkippedKeyLimits } from '../src/types/ratchet';
+import { KeyPair } from '../src/types';
+
+const encode = (s: string) => new TextEncoder().encode(s);
+const decode = (b: Uint8Array) => new TextDecoder().decode(b);
+
+const storeKey = nacl.randomBytes(32);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Encrypt `count` messages in a row, returning the ciphertexts and the final state
+function sendMany(state: RatchetState, count: number, prefix: string): [Uint8Array[], RatchetState] {
+  const messages: Uint8Array[] = [];
+  let current = state;
+  for (let i = 0; i < count; i++) {
+    const [encrypted, next] = ratchetEncrypt(current, encode(`${prefix} ${i}`));
+    messages.push(encrypted);
+    current = next;
+  }
+  return [messages, current];
+}
+
+describe('Ratchet Protocol - Skipped Key Limits', () => {
+  let alice: KeyPair;
+  let bob: KeyPair;
+  let aliceState: RatchetState;
+  let bobState: RatchetState;
+
+  beforeEach(() => {
+    alice = nacl.box.keyPair();
+    bob = nacl.box.keyPair();
+    aliceState = initializeRatchet(alice, bob.publicKey);
+    bobState = initializeRatchet(bob, alice.publicKey);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('timestamps skipped keys when they are stored', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const [messages] = sendMany(aliceState, 3, 'msg');
+
+    const [, bobState2] = ratchetDecrypt(bobState, messages[2]);
+    expect(bobState2.skippedMessageKeys.size).toBe(2);
+    bobState2.skippedMessageKeys.forEach(entry => {
+      expect(entry.storedAt).toBe(1_700_000_000_000);
+      expect(entry.messageKey.length).toBe(32);
+    });
+  });
+
+  it('evicts the oldest skipped keys beyond the cap', () => {
+    const limits: SkippedKeyLimits = { ...DEFAULT_SKIPPED_KEY_LIMITS, maxSkippedKeys: 3 };
+    const [messages] = sendMany(aliceState, 6, 'msg');
+
+    // Receiving the last message skips five; only the three newest are kept
+    const [, bobState2] = ratchetDecrypt(bobState, messages[5], limits);
+    expect(bobState2.skippedMessageKeys.size).toBe(3);
+
+    const [decrypted] = ratchetDecrypt(bobState2, messages[4], limits);
+    expect(decode(decrypted)).toBe('msg 4');
+
+    expect(() => ratchetDecrypt(bobState2, messages[0], limits)).toThrow();
+  });
+
+  it('caps retained previous receiving chains', () => {
+    // Alternate turns so each of Alice's DH ratchets retires one of Bob's receiving chains
+    const converse = (limits: SkippedKeyLimits): RatchetState => {
+      let a = aliceState;
+      let b = bobState;
+      for (let turn = 0; turn < 5; turn++) {
+        const [fromAlice, a2] = ratchetEncrypt(a, encode(`alice ${turn}`));
+        const [, b2] = ratchetDecrypt(b, fromAlice, limits);
+        const [fromBob, b3] = ratchetEncrypt(b2, encode(`bob ${turn}`));
+        [, a] = ratchetDecrypt(a2, fromBob);
+        b = b3;
+      }
+      return b;
+    };
+
+    expect(converse(DEFAULT_SKIPPED_KEY_LIMITS).previousReceivingChains.size).toBeGreaterThan(2);
+    expect(converse({ ...DEFAULT_SKIPPED_KEY_LIMITS, maxPreviousChains: 2 }).previousReceivingChains.size).toBe(2);
+  });
+
+  it('expires skipped keys and previous chains after maxAge', () => {
+    const now = 1_700_000_000_000;
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    const [messages] = sendMany(aliceState, 4, 'msg');
+    const [, bobState2] = ratchetDecrypt(bobState, messages[2]);
+
+    const stillFresh = pruneSkippedKeys(bobState2, DEFAULT_SKIPPED_KEY_LIMITS, now + DAY);
+    expect(stillFresh.skippedMessageKeys.size).toBe(2);
+
+    const expired = pruneSkippedKeys(bobState2, DEFAULT_SKIPPED_KEY_LIMITS, now + DEFAULT_SKIPPED_KEY_LIMITS.maxAge);
+    expect(expired.skippedMessageKeys.size).toBe(0);
+    expect(expired.previousReceivingChains.size).toBe(0);
+
+    // Pruning does not modify the input state
+    expect(bobState2.skippedMessageKeys.size).toBe(2);
+
+    // A late message arriving after expiry can no longer be read
+    clock.mockReturnValue(now + DEFAULT_SKIPPED_KEY_LIMITS.maxAge);
+    const [, bobState3] = ratchetDecrypt(bobState2, messages[3]);
+    expect(bobState3.skippedMessageKeys.size).toBe(0);
+    expect(() => ratchetDecrypt(bobState3, messages[0])).toThrow();
+  });
+
+  it('reports counts and the next expiry', () => {
+    expect(getSkippedKeyStats(bobState)).toEqual({ skippedKeys: 0, previousChains: 0, nextExpiry: null });
+
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const [messages] = sendMany(aliceState, 4, 'msg');
+    const [, bobState2] = ratchetDecrypt(bobState, messages[3]);
+
+    const stats = getSkippedKeyStats(bobState2, { ...DEFAULT_SKIPPED_KEY_LIMITS, maxAge: DAY });
+    expect(stats.skippedKeys).toBe(3);
+    expect(stats.nextExpiry).toBe(1_700_000_000_000 + DAY);
+  });
+
+  it('preserves timestamps through serialization', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const [messages] = sendMany(aliceState, 3, 'msg');
+    const [, bobState2] = ratchetDecrypt(bobState, messages[2]);
+
+    const restored = deserializeRatchetState(serializeRatchetState(bobState2, storeKey), storeKey)!;
+    expect(restored.skippedMessageKeys).toEqual(bobState2.skippedMessageKeys);
+
+    const [decrypted] = ratchetDecrypt(restored, messages[0]);
+    expect(decode(decrypted)).toBe('msg 0');
+  });
+});
@@ -26,7 +26,8 @@ describe('Double Ratchet Protocol', () => {
       expect(state.theirIdentityPublicKey).toEqual(bob.publicKey);
       expect(state.myCurrentEphemeralKeyPair.publicKey).toHaveLength(32);
       expect(state.myCurrentEphemeralKeyPair.secretKey).toHaveLength(32);
-      expect(state.theirLatestEphemeralPublicKey).toBeNull();
+      // Their identity key stands in for their first ratchet key
+      expect(state.theirLatestEphemeralPublicKey).toEqual(bob.publicKey);
       expect(state.rootKey).toHaveLength(32);
       expect(state.sendingChainKey).toHaveLength(32);
       expect(state.receivingChainKey).toHaveLength(32);
@@ -52,7 +53,7 @@ describe('Double Ratchet Protocol', () => {
       
       expect(encrypted1).toBeInstanceOf(Uint8Array);
       expect(encrypted1.length).toBeGreaterThan(65); // Header + nonce + encrypted
-      expect(encrypted1[0]).toBe(0x01); // Version byte
+      expect(encrypted1[0]).toBe(0x02); // Version byte
       
       // Bob receives and decrypts
       const [decrypted1, bobState2] = ratchetDecrypt(bobState, encrypted1);
@@ -195,16 +196,16 @@ describe('Double Ratchet Protocol', () => {
     it('should serialize and deserialize ratchet state', () => {
       const alice = generateKeyPair();
       const bob = generateKeyPair();
-      const masterKey = 'test-master-key-12345';
+      const storeKey = nacl.randomBytes(32);
       
       const state = initializeRatchet(alice, bob.publicKey);
       
       // Serialize
-      const serialized = serializeRatchetState(state, masterKey);
+      const serialized = serializeRatchetState(state, storeKey);
       expect(typeof serialized).toBe('string');
       
       // Deserialize
-      const deserialized = deserializeRatchetState(serialized, masterKey);
+      const deserialized = deserializeRatchetState(serialized, storeKey);
       expect(deserialized).not.toBeNull();
       expect(deserialized!.isInitialized).toBe(true);
       expect(deserialized!.myIdentityKeyPair.publicKey).toEqual(alice.publicKey);
@@ -212,14 +213,14 @@ describe('Double Ratchet Protocol', () => {
       expect(deserialized!.theirIdentityPublicKey).toEqual(bob.publicKey);
     });
 
-    it('should fail to deserialize with wrong master key', () => {
+    it('should fail to deserialize with wrong store key', () => {
       const alice = generateKeyPair();
       const bob = generateKeyPair();
-      const masterKey = 'correct-master-key';
-      const wrongKey = 'wrong-master-key';
+      const storeKey = nacl.randomBytes(32);
+      const wrongKey = nacl.randomBytes(32);
       
       const state = initializeRatchet(alice, bob.publicKey);
-      const serialized = serializeRatchetState(state, masterKey);
+      const serialized = serializeRatchetState(state, storeKey);
       
       const deserialized = deserializeRatchetState(serialized, wrongKey);
       expect(deserialized).toBeNull();
@@ -228,7 +229,7 @@ describe('Double Ratchet Protocol', () => {
     it('should preserve state through serialization', () => {
       const alice = generateKeyPair();
       const bob = generateKeyPair();
-      const masterKey = 'test-master-key';
+      const storeKey = nacl.randomBytes(32);
       
       let aliceState = initializeRatchet(alice, bob.publicKey);
       let bobState = initializeRatchet(bob, alice.publicKey);
@@ -239,10 +240,10 @@ describe('Double Ratchet Protocol', () => {
       const [, bobState2] = ratchetDecrypt(bobState, enc1);
       
       // Serialize Bob's state
-      const serialized = serializeRatchetState(bobState2, masterKey);
+      const serialized = serializeRatchetState(bobState2, storeKey);
       
       // Deserialize and continue conversation
-      const bobStateRestored = deserializeRatchetState(serialized, masterKey)!;
+      const bobStateRestored = deserializeRatchetState(serialized, storeKey)!;
       
       // Alice sends another message
       const msg2 = new TextEncoder().encode('Another message');
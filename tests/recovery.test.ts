@@ -0,0 +1,104 @@
+/**
+ * Tests for recovery phrases and deterministic key derivation
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  generateRecoveryEntropy,
+  deriveIdentityKeys,
+  entropyToRecoveryPhrase,
+  recoveryPhraseToEntropy,
+  pickConfirmationIndices,
+  RECOVERY_WORD_COUNT
+} from '../src/utils/recovery';
+import { createSignedBundle, parsePublicKeyBundle } from '../src/utils/ladder';
+import { BIP39_WORDLIST } from '../src/utils/bip39';
+
+describe('Recovery phrases', () => {
+  describe('deriveIdentityKeys', () => {
+    it('derives the same keys from the same entropy', () => {
+      const entropy = generateRecoveryEntropy();
+      const first = deriveIdentityKeys(entropy);
+      const second = deriveIdentityKeys(new Uint8Array(entropy));
+
+      expect(second.identity.secretKey).toEqual(first.identity.secretKey);
+      expect(second.ephemeralSeed.secretKey).toEqual(first.ephemeralSeed.secretKey);
+      expect(second.signing.secretKey).toEqual(first.signing.secretKey);
+    });
+
+    it('derives distinct keys per label and per entropy', () => {
+      const keys = deriveIdentityKeys(generateRecoveryEntropy());
+      const other = deriveIdentityKeys(generateRecoveryEntropy());
+
+      expect(keys.identity.secretKey).not.toEqual(keys.ephemeralSeed.secretKey);
+      expect(keys.identity.publicKey).not.toEqual(other.identity.publicKey);
+    });
+
+    it('produces working keypairs that sign a verifiable bundle', () => {
+      const keys = deriveIdentityKeys(generateRecoveryEntropy());
+
+      expect(nacl.box.keyPair.fromSecretKey(keys.identity.secretKey).publicKey).toEqual(keys.identity.publicKey);
+      const bundle = createSignedBundle(keys.identity.publicKey, keys.ephemeralSeed.publicKey, keys.signing);
+      expect(parsePublicKeyBundle(bundle).signingKey).toEqual(keys.signing.publicKey);
+    });
+
+    it('rejects entropy of the wrong length', () => {
+      expect(() => deriveIdentityKeys(new Uint8Array(16))).toThrow('Recovery entropy must be 32 bytes');
+    });
+  });
+
+  describe('phrase encoding', () => {
+    it('round-trips entropy through 24 words', () => {
+      const entropy = generateRecoveryEntropy();
+      const words = entropyToRecoveryPhrase(entropy);
+
+      expect(words).toHaveLength(RECOVERY_WORD_COUNT);
+      expect(recoveryPhraseToEntropy(words.join(' '))).toEqual(entropy);
+    });
+
+    it('accepts extra whitespace, line breaks and capitals', () => {
+      const entropy = generateRecoveryEntropy();
+      const words = entropyToRecoveryPhrase(entropy);
+      const typed = `  ${words.slice(0, 12).join('  ').toUpperCase()}\n${words.slice(12).join(' ')}\n`;
+
+      expect(recoveryPhraseToEntropy(typed)).toEqual(entropy);
+    });
+
+    it('rejects the wrong number of words', () => {
+      const words = entropyToRecoveryPhrase(generateRecoveryEntropy());
+      expect(() => recoveryPhraseToEntropy(words.slice(0, 23).join(' '))).toThrow('A recovery phrase has 24 words, got 23');
+    });
+
+    it('rejects swapped words through the checksum', () => {
+      const words = entropyToRecoveryPhrase(new Uint8Array(32).fill(7));
+      const swapped = [...words];
+      [swapped[0], swapped[1]] = [swapped[1], swapped[0]];
+
+      expect(() => recoveryPhraseToEntropy(swapped.join(' '))).toThrow('checksum mismatch');
+    });
+
+    it('suggests a fix for a misspelled word', () => {
+      const words = entropyToRecoveryPhrase(generateRecoveryEntropy());
+      words[3] = 'abandn';
+
+      expect(() => recoveryPhraseToEntropy(words.join(' '))).toThrow(/abandn \(did you mean abandon/);
+    });
+  });
+
+  describe('pickConfirmationIndices', () => {
+    it('picks distinct sorted positions within the phrase', () => {
+      for (let i = 0; i < 20; i++) {
+        const indices = pickConfirmationIndices();
+        expect(indices).toHaveLength(3);
+        expect(new Set(indices).size).toBe(3);
+        expect([...indices].sort((a, b) => a - b)).toEqual(indices);
+        expect(indices.every(index => index >= 0 && index < RECOVERY_WORD_COUNT)).toBe(true);
+      }
+    });
+  });
+
+  it('uses words from the BIP39 list', () => {
+    const words = entropyToRecoveryPhrase(generateRecoveryEntropy());
+    expect(words.every(word => BIP39_WORDLIST.includes(word))).toBe(true);
+  });
+});
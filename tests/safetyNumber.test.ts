@@ -0,0 +1,97 @@
+/**
+ * Tests for session safety numbers and the verified flag
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  computeSafetyNumber,
+  isSafetyNumberPayload,
+  matchesSafetyNumber,
+  SAFETY_NUMBER_QR_PREFIX
+} from '../src/utils/safetyNumber';
+import {
+  initializeRatchet,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeRatchetState,
+  deserializeRatchetState
+} from '../src/utils/ratchet';
+import { BIP39_WORDLIST } from '../src/utils/bip39';
+import { KeyPair } from '../src/types';
+
+const encode = (s: string) => new TextEncoder().encode(s);
+
+describe('Safety numbers', () => {
+  let alice: KeyPair;
+  let bob: KeyPair;
+
+  beforeEach(() => {
+    alice = nacl.box.keyPair();
+    bob = nacl.box.keyPair();
+  });
+
+  describe('computeSafetyNumber', () => {
+    it('gives both parties the same 60 digits', () => {
+      const forAlice = computeSafetyNumber(alice.publicKey, bob.publicKey);
+      const forBob = computeSafetyNumber(bob.publicKey, alice.publicKey);
+
+      expect(forAlice.digits).toMatch(/^\d{60}$/);
+      expect(forBob).toEqual(forAlice);
+    });
+
+    it('changes when either identity key changes', () => {
+      const original = computeSafetyNumber(alice.publicKey, bob.publicKey);
+      const mallory = nacl.box.keyPair();
+
+      expect(computeSafetyNumber(alice.publicKey, mallory.publicKey).digits).not.toBe(original.digits);
+      expect(computeSafetyNumber(mallory.publicKey, bob.publicKey).digits).not.toBe(original.digits);
+    });
+
+    it('derives twelve wordlist words from the digits', () => {
+      const { words } = computeSafetyNumber(alice.publicKey, bob.publicKey);
+
+      expect(words).toHaveLength(12);
+      words.forEach(word => expect(BIP39_WORDLIST).toContain(word));
+      expect(computeSafetyNumber(bob.publicKey, alice.publicKey).words).toEqual(words);
+    });
+  });
+
+  describe('QR comparison', () => {
+    it('recognizes safety number payloads', () => {
+      const { qrPayload } = computeSafetyNumber(alice.publicKey, bob.publicKey);
+
+      expect(qrPayload.startsWith(SAFETY_NUMBER_QR_PREFIX)).toBe(true);
+      expect(isSafetyNumberPayload(qrPayload)).toBe(true);
+      expect(isSafetyNumberPayload('0123ABCD')).toBe(false);
+    });
+
+    it('matches the other party\'s code and rejects a different session', () => {
+      const mine = computeSafetyNumber(alice.publicKey, bob.publicKey);
+      const theirs = computeSafetyNumber(bob.publicKey, alice.publicKey);
+      const intercepted = computeSafetyNumber(bob.publicKey, nacl.box.keyPair().publicKey);
+
+      expect(matchesSafetyNumber(` ${theirs.qrPayload}\n`, mine)).toBe(true);
+      expect(matchesSafetyNumber(intercepted.qrPayload, mine)).toBe(false);
+    });
+  });
+
+  describe('verified flag', () => {
+    it('starts unverified', () => {
+      expect(initializeRatchet(alice, bob.publicKey).verified).toBe(false);
+    });
+
+    it('survives storage and later ratchet steps', () => {
+      const storeKey = nacl.randomBytes(32);
+      const aliceState = initializeRatchet(alice, bob.publicKey);
+      const bobState = { ...initializeRatchet(bob, alice.publicKey), verified: true };
+
+      const restored = deserializeRatchetState(serializeRatchetState(bobState, storeKey), storeKey)!;
+      expect(restored.verified).toBe(true);
+
+      const [enc] = ratchetEncrypt(aliceState, encode('hello'));
+      const [, bobAfter] = ratchetDecrypt(restored, enc);
+      const [, bobAfterReply] = ratchetEncrypt(bobAfter, encode('hi'));
+      expect(bobAfterReply.verified).toBe(true);
+    });
+  });
+});
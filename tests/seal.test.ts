@@ -0,0 +1,325 @@
+/**
+ * Tests for the sealed URL fragment: v2 passphrase slots and reading v1 fragments
+ */
+
+import * as nacl from 'tweetnacl';
+import { scrypt } from 'scrypt-js';
+import {
+  encryptToFragment,
+  decryptFromFragment,
+  isSealedFragment,
+  readFragmentSlots,
+  readContext,
+  contextAllows,
+  MAX_FRAGMENT_SLOTS,
+  DEFAULT_SLOT_LABEL,
+  APP_ID
+} from '../src/utils/seal';
+import { argon2id } from '../src/utils/argon2';
+import { uint8ArrayToBase32Crockford } from '../src/utils/encoding';
+
+// Counts KDF runs; still derives the real key
+jest.mock('scrypt-js', () => {
+  const actual = jest.requireActual('scrypt-js');
+  return { ...actual, scrypt: jest.fn(actual.scrypt) };
+});
+
+describe('Sealed fragment', () => {
+  // Low cost keeps the tests fast; the app calibrates the cost per device
+  const cost = { N: 1024, r: 8, p: 1 };
+  const master = 'correct horse battery staple';
+  const recovery = 'a much longer passphrase kept in the safe';
+  const data = { secret: 'keys' };
+
+  describe('v2 envelope', () => {
+    it('round-trips a payload through a single master key slot', async () => {
+      const fragment = await encryptToFragment(master, data, { ...cost, seq: 3 });
+
+      expect(fragment.startsWith('v2.')).toBe(true);
+      expect(isSealedFragment(fragment)).toBe(true);
+
+      const { payload, slot, listSlots } = await decryptFromFragment<typeof data>(master, fragment);
+      expect(payload.data).toEqual(data);
+      expect(payload.seq).toBe(3);
+      expect(slot.label).toBe(DEFAULT_SLOT_LABEL);
+      expect(listSlots()).toHaveLength(1);
+    });
+
+    it('rejects a wrong passphrase', async () => {
+      const fragment = await encryptToFragment(master, data, cost);
+      await expect(decryptFromFragment('not the master key', fragment)).rejects.toThrow('Decryption/authentication failed');
+    });
+
+    it('lets every added slot unlock the same payload', async () => {
+      const fragment = await encryptToFragment(master, data, cost);
+      const opened = await decryptFromFragment<typeof data>(master, fragment);
+      const withSlot = await opened.addSlot(recovery, 'Recovery (safe)');
+
+      const viaMaster = await decryptFromFragment<typeof data>(master, withSlot);
+      const viaRecovery = await decryptFromFragment<typeof data>(recovery, withSlot);
+
+      expect(viaRecovery.payload.data).toEqual(data);
+      expect(viaRecovery.slot.label).toBe('Recovery (safe)');
+      expect(viaMaster.listSlots().map(slot => slot.label)).toEqual([DEFAULT_SLOT_LABEL, 'Recovery (safe)']);
+      expect(viaMaster.payload.seq).toBe(2);
+    });
+
+    it('keeps labels out of the plaintext envelope', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      const fragment = await opened.addSlot(recovery, 'Recovery (safe)');
+
+      expect(fragment).not.toContain('Recovery');
+      expect(readFragmentSlots(fragment).map(slot => slot.label)).toEqual([DEFAULT_SLOT_LABEL, DEFAULT_SLOT_LABEL]);
+    });
+
+    it('removes a slot so its passphrase no longer unlocks', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      const withSlot = await opened.addSlot(recovery, 'Recovery');
+      const recoverySlot = opened.listSlots()[1];
+
+      const reopened = await decryptFromFragment(master, withSlot);
+      const removed = await reopened.removeSlot(recoverySlot.id);
+
+      await expect(decryptFromFragment(recovery, removed)).rejects.toThrow('Decryption/authentication failed');
+      expect((await decryptFromFragment(master, removed)).listSlots()).toHaveLength(1);
+    });
+
+    it('refuses to remove the slot that unlocked it', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      await expect(opened.removeSlot(opened.slot.id)).rejects.toThrow('Cannot remove the slot that unlocked this fragment');
+      await expect(opened.removeSlot('NOPE')).rejects.toThrow('Unknown slot');
+    });
+
+    it('changes one slot passphrase and leaves the others', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      await opened.addSlot(recovery, 'Recovery');
+      const changed = await opened.changePassphrase('the new master key phrase');
+
+      await expect(decryptFromFragment(master, changed)).rejects.toThrow('Decryption/authentication failed');
+      const viaNew = await decryptFromFragment('the new master key phrase', changed);
+      expect(viaNew.slot.label).toBe(DEFAULT_SLOT_LABEL);
+      expect((await decryptFromFragment(recovery, changed)).payload.data).toEqual(data);
+    });
+
+    it('re-wraps the unlocking slot under a new cost with the same passphrase', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      const upgraded = await opened.changePassphrase(master, { cost: { N: 2048, r: 8, p: 1 } });
+
+      expect(readFragmentSlots(upgraded)[0].params).toMatchObject({ kdf: 'scrypt', N: 2048 });
+      const reopened = await decryptFromFragment<typeof data>(master, upgraded);
+      expect(reopened.params).toMatchObject({ kdf: 'scrypt', N: 2048 });
+      expect(reopened.slot.id).toBe(opened.slot.id);
+      expect(reopened.payload.data).toEqual(data);
+    });
+
+    it('reports KDF progress across the slots it tries', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      const withSlot = await opened.addSlot(recovery, 'Recovery');
+      const fractions: number[] = [];
+
+      await decryptFromFragment(recovery, withSlot, { onProgress: fraction => fractions.push(fraction) });
+
+      expect(fractions.length).toBeGreaterThan(2);
+      expect(fractions.every((fraction, i) => i === 0 || fraction >= fractions[i - 1])).toBe(true);
+      expect(fractions[fractions.length - 1]).toBeCloseTo(1);
+    });
+
+    it('reseals new data without dropping slots', async () => {
+      const opened = await decryptFromFragment<typeof data>(master, await encryptToFragment(master, data, cost));
+      await opened.addSlot(recovery, 'Recovery');
+      const resealed = await opened.reseal({ secret: 'new keys' });
+
+      const viaRecovery = await decryptFromFragment<typeof data>(recovery, resealed);
+      expect(viaRecovery.payload.data).toEqual({ secret: 'new keys' });
+      expect(viaRecovery.payload.seq).toBe(3);
+    });
+
+    it('caps the number of slots', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      for (let i = 1; i < MAX_FRAGMENT_SLOTS; i++) {
+        await opened.addSlot(`extra passphrase number ${i}`, `Extra ${i}`);
+      }
+      await expect(opened.addSlot('one passphrase too many', 'Too many')).rejects.toThrow(`at most ${MAX_FRAGMENT_SLOTS}`);
+    });
+
+    it('rejects a crafted link with more slots than the cap before deriving', async () => {
+      const [version, slot, ...rest] = (await encryptToFragment(master, data, cost)).split('.');
+      const crafted = [version, ...Array(MAX_FRAGMENT_SLOTS + 1).fill(slot), ...rest].join('.');
+      (scrypt as jest.Mock).mockClear();
+
+      await expect(decryptFromFragment(master, crafted)).rejects.toThrow(`at most ${MAX_FRAGMENT_SLOTS}`);
+      expect(() => readFragmentSlots(crafted)).toThrow(`at most ${MAX_FRAGMENT_SLOTS}`);
+      expect(scrypt).not.toHaveBeenCalled();
+    });
+
+    it('still detects rollback', async () => {
+      const fragment = await encryptToFragment(master, data, { ...cost, seq: 2 });
+      await expect(decryptFromFragment(master, fragment, { lastSeenSeq: 5 })).rejects.toThrow('Rollback detected');
+    });
+  });
+
+  describe('context binding', () => {
+    const movedTo = (origin: string) => {
+      window.location = { ...window.location, origin } as any;
+    };
+    afterEach(() => movedTo('http://localhost'));
+
+    it('refuses a link sealed for another origin', async () => {
+      const fragment = await encryptToFragment(master, data, cost);
+      movedTo('null');
+      await expect(decryptFromFragment(master, fragment)).rejects.toThrow('Context mismatch');
+    });
+
+    it('opens an app-bound link wherever the app runs', async () => {
+      const fragment = await encryptToFragment(master, data, { ...cost, context: { kind: 'app', appId: APP_ID } });
+      movedTo('null');
+      expect((await decryptFromFragment<typeof data>(master, fragment)).payload.data).toEqual(data);
+    });
+
+    it('opens a link only at its allowed origins', async () => {
+      const context = { kind: 'origins' as const, origins: ['http://localhost', 'file://'] };
+      const fragment = await encryptToFragment(master, data, { ...cost, context });
+
+      movedTo('file://');
+      expect((await decryptFromFragment(master, fragment)).contextMatches).toBe(true);
+      movedTo('https://elsewhere.example');
+      await expect(decryptFromFragment(master, fragment)).rejects.toThrow('Context mismatch');
+    });
+
+    it('re-binds a verified link to where it is opened', async () => {
+      const fragment = await encryptToFragment(master, data, { ...cost, seq: 2 });
+      movedTo('null');
+
+      const opened = await decryptFromFragment(master, fragment, { allowContextMismatch: true });
+      expect(opened.contextMatches).toBe(false);
+      expect(opened.payload.context).toBe('http://localhost');
+
+      const rebound = await opened.rebind({ kind: 'origin', origin: 'null' });
+      const reopened = await decryptFromFragment(master, rebound);
+      expect(reopened.contextMatches).toBe(true);
+      expect(reopened.payload.context).toBe('null');
+      expect(reopened.payload.seq).toBe(3);
+    });
+
+    it('still requires the passphrase before reporting a mismatch', async () => {
+      const fragment = await encryptToFragment(master, data, cost);
+      movedTo('null');
+      await expect(decryptFromFragment('not the master key', fragment, { allowContextMismatch: true }))
+        .rejects.toThrow('Decryption/authentication failed');
+    });
+
+    it('reads the bare origin strings of older payloads', () => {
+      expect(readContext('https://a.example')).toEqual({ kind: 'origin', origin: 'https://a.example' });
+      expect(contextAllows('https://a.example', 'https://a.example')).toBe(true);
+      expect(contextAllows('https://a.example', 'https://b.example')).toBe(false);
+      expect(contextAllows({ kind: 'app', appId: 'another-app' }, 'https://a.example')).toBe(false);
+    });
+  });
+
+  describe('Argon2id slots', () => {
+    const argonCost = { kdf: 'argon2id' as const, m: 64, t: 1, p: 1 };
+
+    it('round-trips a payload through an Argon2id slot', async () => {
+      const fragment = await encryptToFragment(master, data, argonCost);
+
+      expect(fragment).toContain('~argon2id~64~1~1~');
+      const opened = await decryptFromFragment<typeof data>(master, fragment);
+      expect(opened.payload.data).toEqual(data);
+      expect(opened.params).toMatchObject(argonCost);
+      await expect(decryptFromFragment('not the master key', fragment)).rejects.toThrow('Decryption/authentication failed');
+    });
+
+    it('mixes scrypt and Argon2id slots in one fragment', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      const withSlot = await opened.addSlot(recovery, 'Recovery', { cost: argonCost });
+
+      expect(readFragmentSlots(withSlot).map(slot => slot.params.kdf)).toEqual(['scrypt', 'argon2id']);
+      expect((await decryptFromFragment<typeof data>(recovery, withSlot)).payload.data).toEqual(data);
+    });
+
+    it('switches the unlocking slot to Argon2id', async () => {
+      const opened = await decryptFromFragment(master, await encryptToFragment(master, data, cost));
+      const switched = await opened.changePassphrase(master, { cost: argonCost });
+
+      expect((await decryptFromFragment(master, switched)).params).toMatchObject(argonCost);
+    });
+
+    it('rejects an unknown KDF', async () => {
+      const fragment = await encryptToFragment(master, data, cost);
+      await expect(decryptFromFragment(master, fragment.replace('~scrypt~', '~bcrypt~'))).rejects.toThrow('Unsupported KDF: bcrypt');
+    });
+
+    it('rejects out-of-range KDF costs before deriving', async () => {
+      const fragment = await encryptToFragment(master, data, cost);
+      const withCost = (fields: string) => fragment.replace('~scrypt~1024~8~1~', fields);
+
+      await expect(decryptFromFragment(master, withCost('~scrypt~262144~8~1~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~scrypt~1000~8~1~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~scrypt~1024~0~1~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~scrypt~1024~8~64~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~argon2id~4000000000~3~1~'))).rejects.toThrow('Bad argon2id parameters');
+      await expect(decryptFromFragment(master, withCost('~argon2id~16384~0~1~'))).rejects.toThrow('Bad argon2id parameters');
+      await expect(decryptFromFragment(master, withCost('~argon2id~16384~3~100~'))).rejects.toThrow('Bad argon2id parameters');
+    });
+
+    it('rejects KDF costs that are not plain digits', async () => {
+      const fragment = await encryptToFragment(master, data, cost);
+      const withCost = (fields: string) => fragment.replace('~scrypt~1024~8~1~', fields);
+
+      await expect(decryptFromFragment(master, withCost('~scrypt~1024abc~8~1~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~scrypt~1024~8x~1~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~scrypt~+1024~8~1~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~scrypt~1024~8~1 ~'))).rejects.toThrow('Bad scrypt parameters');
+      await expect(decryptFromFragment(master, withCost('~argon2id~16384~3abc~1~'))).rejects.toThrow('Bad argon2id parameters');
+    });
+  });
+
+  describe('v1 fragments', () => {
+    async function buildV1Fragment(passphrase: string, kdf: 'scrypt' | 'argon2id' = 'scrypt'): Promise<string> {
+      const salt = nacl.randomBytes(16);
+      const pw = new Uint8Array(new TextEncoder().encode(passphrase));
+      const key = kdf === 'argon2id'
+        ? await argon2id(pw, salt, { m: 64, t: 1, p: 1 })
+        : await scrypt(pw, salt, cost.N, cost.r, cost.p, 32);
+      const payload = { seq: 4, iat: Date.now(), context: location.origin, data };
+      const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+      const ct = nacl.secretbox(new Uint8Array(new TextEncoder().encode(JSON.stringify(payload))), nonce, new Uint8Array(key));
+      const costFields = kdf === 'argon2id' ? [64, 1, 1] : [cost.N, cost.r, cost.p];
+      return ['v1', kdf, ...costFields, uint8ArrayToBase32Crockford(salt), uint8ArrayToBase32Crockford(nonce), uint8ArrayToBase32Crockford(ct)].join('.');
+    }
+
+    it('reads a v1.argon2id fragment and keeps its cost when rewriting', async () => {
+      const v1 = await buildV1Fragment(master, 'argon2id');
+      expect(isSealedFragment(v1)).toBe(true);
+
+      const opened = await decryptFromFragment<typeof data>(master, v1);
+      expect(opened.payload.data).toEqual(data);
+
+      const reopened = await decryptFromFragment<typeof data>(master, await opened.rotate(false));
+      expect(reopened.params).toMatchObject({ kdf: 'argon2id', m: 64, t: 1, p: 1 });
+    });
+
+    it('reads a v1 fragment and rewrites it as v2 with one slot', async () => {
+      const v1 = await buildV1Fragment(master);
+      expect(isSealedFragment(v1)).toBe(true);
+
+      const opened = await decryptFromFragment<typeof data>(master, v1);
+      expect(opened.payload.data).toEqual(data);
+
+      const v2 = await opened.rotate(false);
+      expect(v2.startsWith('v2.')).toBe(true);
+      const reopened = await decryptFromFragment<typeof data>(master, v2);
+      expect(reopened.payload.seq).toBe(4);
+      expect(reopened.params.salt).toEqual(opened.params.salt);
+      expect(reopened.listSlots()).toHaveLength(1);
+    });
+
+    it('runs the KDF once when upgrading a v1 fragment', async () => {
+      const v1 = await buildV1Fragment(master);
+      (scrypt as jest.Mock).mockClear();
+
+      await decryptFromFragment<typeof data>(master, v1);
+      expect(scrypt).toHaveBeenCalledTimes(1);
+    });
+  });
+});
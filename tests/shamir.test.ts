@@ -0,0 +1,115 @@
+/**
+ * Tests for Shamir recovery shares: splitting, combining and share encodings
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  splitSecret,
+  combineShares,
+  serializeShare,
+  deserializeShare,
+  shareToWords,
+  shareToBase32,
+  parseShare,
+  formatSetId,
+  SHARE_TYPE
+} from '../src/utils/shamir';
+
+describe('Shamir recovery shares', () => {
+  const secret = nacl.randomBytes(32);
+
+  describe('splitSecret and combineShares', () => {
+    it('rebuilds the secret from any threshold-sized subset', () => {
+      const shares = splitSecret(secret, 3, 5);
+
+      expect(shares).toHaveLength(5);
+      for (const subset of [[0, 1, 2], [0, 2, 4], [4, 3, 1], [1, 2, 3, 4]]) {
+        expect(combineShares(subset.map(i => shares[i]))).toEqual(secret);
+      }
+    });
+
+    it('works for 2-of-2 and 16-of-16', () => {
+      expect(combineShares(splitSecret(secret, 2, 2))).toEqual(secret);
+      expect(combineShares(splitSecret(secret, 16, 16))).toEqual(secret);
+    });
+
+    it('gives every share the same set ID and distinct indices', () => {
+      const shares = splitSecret(secret, 2, 4);
+
+      expect(new Set(shares.map(share => formatSetId(share.setId))).size).toBe(1);
+      expect(shares.map(share => share.index)).toEqual([1, 2, 3, 4]);
+      expect(shares.every(share => share.threshold === 2)).toBe(true);
+    });
+
+    it('rejects bad parameters', () => {
+      expect(() => splitSecret(secret, 1, 3)).toThrow('Threshold must be between 2 and the number of shares');
+      expect(() => splitSecret(secret, 4, 3)).toThrow('Threshold must be between 2 and the number of shares');
+      expect(() => splitSecret(secret, 2, 17)).toThrow('Number of shares must be between 2 and 16');
+    });
+
+    it('refuses too few shares', () => {
+      const shares = splitSecret(secret, 3, 5);
+      expect(() => combineShares(shares.slice(0, 2))).toThrow('Need 3 shares, got 2');
+    });
+
+    it('detects shares from different splits instead of combining them', () => {
+      const first = splitSecret(secret, 2, 3);
+      const second = splitSecret(secret, 2, 3);
+
+      expect(() => combineShares([first[0], second[1]])).toThrow('Shares come from different backups');
+    });
+
+    it('detects the same share entered twice', () => {
+      const shares = splitSecret(secret, 2, 3);
+      expect(() => combineShares([shares[1], shares[1]])).toThrow('Share 2 was entered twice');
+    });
+
+    it('detects a damaged share', () => {
+      const shares = splitSecret(secret, 2, 3);
+      const damaged = { ...shares[0], value: new Uint8Array(shares[0].value) };
+      damaged.value[5] ^= 0x01;
+
+      expect(() => combineShares([damaged, shares[1]])).toThrow('one of them is damaged');
+    });
+  });
+
+  describe('encodings', () => {
+    it('serializes with type, version, set ID, threshold and index', () => {
+      const [share] = splitSecret(secret, 2, 3);
+      const bytes = serializeShare(share);
+
+      expect(bytes).toHaveLength(44);
+      expect(bytes[0]).toBe(SHARE_TYPE);
+      expect(bytes[1]).toBe(1);
+      expect(bytes.slice(2, 6)).toEqual(share.setId);
+      expect(bytes[6]).toBe(2);
+      expect(bytes[7]).toBe(1);
+      expect(deserializeShare(bytes)).toEqual(share);
+    });
+
+    it('round-trips shares as words and as base32', () => {
+      const shares = splitSecret(secret, 2, 3);
+      const words = shareToWords(shares[0]);
+
+      expect(words).toHaveLength(33);
+      expect(parseShare(words.join(' '))).toEqual(shares[0]);
+      expect(parseShare(shareToBase32(shares[1]))).toEqual(shares[1]);
+      expect(combineShares([parseShare(words.join('\n')), parseShare(shareToBase32(shares[2]))])).toEqual(secret);
+    });
+
+    it('catches a mistyped share word through the BIP39 checksum', () => {
+      const words = shareToWords(splitSecret(secret, 2, 3)[0]);
+      [words[10], words[11]] = [words[11], words[10]];
+
+      expect(() => parseShare(words.join(' '))).toThrow('BIP39 checksum mismatch');
+    });
+
+    it('rejects other payloads and versions', () => {
+      const bytes = serializeShare(splitSecret(secret, 2, 3)[0]);
+
+      expect(() => deserializeShare(nacl.randomBytes(44).fill(0x01, 0, 1))).toThrow('Not a recovery share');
+      bytes[1] = 2;
+      expect(() => deserializeShare(bytes)).toThrow('Unsupported share version: 2');
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for sign-only messages: detached signatures and clearsigned blocks
+ */
+
+import * as nacl from 'tweetnacl';
+import { KeyPair } from '../src/types';
+import {
+  canonicalizeSignedText,
+  createDetachedSignature,
+  verifyDetachedSignature,
+  isDetachedSignature,
+  createClearsignedMessage,
+  isClearsignedMessage,
+  parseClearsignedMessage,
+  verifyClearsignedMessage,
+  SIGNATURE_LENGTH,
+  CLEARSIGN_BEGIN
+} from '../src/utils/signatures';
+import { createSignedBundle } from '../src/utils/ladder';
+import { createContact, findContactBySigningKey } from '../src/utils/contacts';
+import { generateUserId } from '../src/utils/encoding';
+
+describe('Message signatures', () => {
+  let identity: KeyPair;
+  let ephemeralSeed: KeyPair;
+  let signing: KeyPair;
+
+  const announcement = 'Release 2.0 is out.\nChecksum: 1234abcd';
+  const signedAt = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+  beforeEach(() => {
+    identity = nacl.box.keyPair();
+    ephemeralSeed = nacl.box.keyPair();
+    signing = nacl.sign.keyPair();
+  });
+
+  const sign = (text: string) =>
+    createDetachedSignature(text, identity.publicKey, ephemeralSeed.publicKey, signing, signedAt);
+
+  const clearsign = (text: string) =>
+    createClearsignedMessage(text, identity.publicKey, ephemeralSeed.publicKey, signing, signedAt);
+
+  describe('canonicalizeSignedText', () => {
+    it('normalizes line endings and trailing whitespace', () => {
+      expect(canonicalizeSignedText('a  \r\nb\t\rc\n\n')).toBe('a\nb\nc');
+      expect(canonicalizeSignedText('  indented')).toBe('  indented');
+    });
+  });
+
+  describe('detached signatures', () => {
+    it('identifies the signer and the signing time', () => {
+      const signature = sign(announcement);
+      expect(signature.length).toBe(SIGNATURE_LENGTH);
+      expect(isDetachedSignature(signature)).toBe(true);
+
+      const result = verifyDetachedSignature(announcement, signature);
+      expect(result.text).toBe(announcement);
+      expect(result.identityKey).toEqual(identity.publicKey);
+      expect(result.signingKey).toEqual(signing.publicKey);
+      expect(result.userId).toBe(generateUserId(identity.publicKey));
+      expect(result.createdAt).toBe(signedAt);
+    });
+
+    it('survives line ending and trailing whitespace changes', () => {
+      const signature = sign(announcement);
+      expect(() => verifyDetachedSignature(announcement.replace('\n', '  \r\n') + '\n', signature)).not.toThrow();
+    });
+
+    it('rejects a changed message', () => {
+      const signature = sign(announcement);
+      expect(() => verifyDetachedSignature(announcement.replace('2.0', '2.1'), signature)).toThrow('Invalid signature');
+    });
+
+    it('rejects a changed signing time', () => {
+      const signature = sign(announcement);
+      signature[2] ^= 0x01;
+      expect(() => verifyDetachedSignature(announcement, signature)).toThrow('Invalid signature');
+    });
+
+    it('rejects a swapped identity key in the embedded bundle', () => {
+      const signature = sign(announcement);
+      signature.set(nacl.box.keyPair().publicKey, 7);
+      expect(() => verifyDetachedSignature(announcement, signature)).toThrow('Invalid bundle signature');
+    });
+
+    it('rejects a signature made with another key', () => {
+      const signature = sign(announcement);
+      const forger = nacl.sign.keyPair();
+      const forged = createDetachedSignature(announcement, identity.publicKey, ephemeralSeed.publicKey, forger, signedAt);
+      forged.set(signature.slice(6, 6 + 161), 6); // Claim the real signer's bundle
+
+      expect(() => verifyDetachedSignature(announcement, forged)).toThrow('Invalid signature');
+    });
+
+    it('rejects other data and unknown versions', () => {
+      expect(() => verifyDetachedSignature(announcement, nacl.randomBytes(64))).toThrow('Not a signature');
+
+      const future = sign(announcement);
+      future[1] = 2;
+      expect(() => verifyDetachedSignature(announcement, future)).toThrow('Unknown signature version');
+    });
+  });
+
+  describe('clearsigned messages', () => {
+    it('round-trips the text with the signature in base32 groups', () => {
+      const block = clearsign(announcement);
+      const lines = block.split('\n');
+
+      expect(isClearsignedMessage(block)).toBe(true);
+      expect(lines[0]).toBe(CLEARSIGN_BEGIN);
+      expect(lines[1]).toBe('Release 2.0 is out.');
+      expect(lines[lines.length - 2]).toMatch(/^[0-9A-Z]{1,5}( [0-9A-Z]{1,5})*$/);
+
+      const result = verifyClearsignedMessage(block);
+      expect(result.text).toBe(announcement);
+      expect(result.userId).toBe(generateUserId(identity.publicKey));
+    });
+
+    it('dash-escapes lines that look like markers', () => {
+      const text = 'Before\n-----END SIGNATURE-----\n- a list item';
+      const block = clearsign(text);
+
+      expect(block).toContain('\n- -----END SIGNATURE-----\n');
+      expect(parseClearsignedMessage(block).text).toBe(text);
+      expect(verifyClearsignedMessage(block).text).toBe(text);
+    });
+
+    it('verifies after being pasted with extra whitespace and CRLF line endings', () => {
+      const pasted = `\n  ${clearsign(announcement).replace(/\n/g, '\r\n')}\r\n\n`;
+      expect(verifyClearsignedMessage(pasted).text).toBe(announcement);
+    });
+
+    it('rejects an edited message', () => {
+      const block = clearsign(announcement).replace('Checksum: 1234abcd', 'Checksum: 9999abcd');
+      expect(() => verifyClearsignedMessage(block)).toThrow('Invalid signature');
+    });
+
+    it('rejects a block without its signature', () => {
+      const truncated = clearsign(announcement).split('-----BEGIN SIGNATURE-----')[0];
+      expect(() => verifyClearsignedMessage(truncated)).toThrow('Malformed clearsigned message');
+      expect(isClearsignedMessage(announcement)).toBe(false);
+    });
+  });
+
+  describe('findContactBySigningKey', () => {
+    it('matches only contacts saved from a signed bundle with the same signing key', () => {
+      const signer = createContact('Alice', createSignedBundle(identity.publicKey, ephemeralSeed.publicKey, signing));
+      const unsigned = createContact('Bob', nacl.randomBytes(64));
+      const other = createContact('Carol', createSignedBundle(
+        nacl.box.keyPair().publicKey,
+        nacl.box.keyPair().publicKey,
+        nacl.sign.keyPair()
+      ));
+      const { signingKey } = verifyDetachedSignature(announcement, sign(announcement));
+
+      expect(findContactBySigningKey([unsigned, other, signer], signingKey)).toBe(signer);
+      expect(findContactBySigningKey([unsigned, other], signingKey)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for the scrypt session store key and migration of stored sessions
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  deriveStoreKey,
+  createStoreKdfParams,
+  loadStoreKdfParams,
+  saveStoreKdfParams,
+  unlockStoreKey,
+  changeStoreKey,
+  storeKdfParamsLost,
+  migrateRatchetSessions,
+  DEFAULT_STORE_KDF_PARAMS
+} from '../src/utils/storeKey';
+import {
+  initializeRatchet,
+  serializeRatchetState,
+  deserializeRatchetState,
+  isLegacyRatchetState
+} from '../src/utils/ratchet';
+import { encodeRatchetState } from '../src/utils/ratchetSerialization';
+import { deriveKeyFromMasterKey } from '../src/utils/crypto';
+import { pinIdentity, saveTrustStore, loadTrustStore } from '../src/utils/trustStore';
+import { createContact, saveContacts, loadContacts } from '../src/utils/contacts';
+import { createGroup, saveGroups, loadGroups } from '../src/utils/groups';
+import { saveFragmentSeq, loadFragmentSeq } from '../src/utils/fragmentSeq';
+import { checkAndUpdateMaxSpent, loadCounters } from '../src/utils/ladderState';
+import { RatchetState } from '../src/types/ratchet';
+
+// Low cost keeps the suite fast; production cost is covered by one test below
+const FAST = { N: 1024, r: 8, p: 1 };
+
+// A session as stored before the store key: encrypted under the master key hash, no prefix
+function storeLegacySession(key: string, state: RatchetState, masterKey: string): void {
+  const nonce = nacl.randomBytes(24);
+  const box = nacl.secretbox(encodeRatchetState(state), nonce, deriveKeyFromMasterKey(masterKey));
+  const combined = new Uint8Array(24 + box.length);
+  combined.set(nonce, 0);
+  combined.set(box, 24);
+  localStorage.setItem(key, btoa(String.fromCharCode(...combined)));
+}
+
+describe('Session store key', () => {
+  let state: RatchetState;
+
+  beforeEach(() => {
+    localStorage.clear();
+    state = initializeRatchet(nacl.box.keyPair(), nacl.box.keyPair().publicKey);
+  });
+
+  describe('deriveStoreKey', () => {
+    it('derives a 32-byte key that depends on the salt', async () => {
+      const params = createStoreKdfParams(FAST);
+      const key1 = await deriveStoreKey('correct horse battery', params);
+      const key2 = await deriveStoreKey('correct horse battery', params);
+      const otherSalt = await deriveStoreKey('correct horse battery', createStoreKdfParams(FAST));
+
+      expect(key1).toHaveLength(32);
+      expect(key1).toEqual(key2);
+      expect(key1).not.toEqual(otherSalt);
+      expect(key1).not.toEqual(deriveKeyFromMasterKey('correct horse battery'));
+    });
+  });
+
+  describe('unlockStoreKey', () => {
+    it('creates and persists parameters on first unlock', async () => {
+      expect(loadStoreKdfParams()).toBeNull();
+
+      const key = await unlockStoreKey('correct horse battery');
+      const params = loadStoreKdfParams()!;
+
+      expect(params.N).toBe(DEFAULT_STORE_KDF_PARAMS.N);
+      expect(params.salt).toHaveLength(16);
+      expect(await deriveStoreKey('correct horse battery', params)).toEqual(key);
+    });
+
+    it('derives the same key on later unlocks', async () => {
+      saveStoreKdfParams(createStoreKdfParams(FAST));
+      const first = await unlockStoreKey('correct horse battery');
+      const second = await unlockStoreKey('correct horse battery');
+      expect(second).toEqual(first);
+    });
+
+    it('re-encrypts legacy sessions under the store key', async () => {
+      saveStoreKdfParams(createStoreKdfParams(FAST));
+      storeLegacySession('ratchet_a', state, 'correct horse battery');
+
+      const key = await unlockStoreKey('correct horse battery');
+      const stored = localStorage.getItem('ratchet_a')!;
+
+      expect(isLegacyRatchetState(stored)).toBe(false);
+      expect(deserializeRatchetState(stored, key)).toEqual(state);
+    });
+
+    it('seals Ladder counters stored as plain JSON', async () => {
+      saveStoreKdfParams(createStoreKdfParams(FAST));
+      localStorage.setItem('ladder_counters', JSON.stringify({ peer: { maxSpentIndex: 3 } }));
+
+      const key = await unlockStoreKey('correct horse battery');
+
+      expect(localStorage.getItem('ladder_counters')!.startsWith('{')).toBe(false);
+      expect(loadCounters(key)).toEqual({ peer: { maxSpentIndex: 3 } });
+    });
+
+    it('refuses to replace lost parameters while sealed stores exist', async () => {
+      saveTrustStore(pinIdentity(new Map(), 'Alice', state.theirIdentityPublicKey, null), nacl.randomBytes(32));
+      expect(storeKdfParamsLost()).toBe(true);
+
+      await expect(unlockStoreKey('correct horse battery')).rejects.toThrow('Store key parameters are missing');
+      expect(localStorage.getItem('store_kdf')).toBeNull();
+
+      await unlockStoreKey('correct horse battery', { replaceLostParams: true });
+      expect(loadStoreKdfParams()).not.toBeNull();
+      expect(localStorage.getItem('trusted_identities')).not.toBeNull();
+    });
+
+    it('creates parameters when only stores from before the store key exist', async () => {
+      storeLegacySession('ratchet_a', state, 'correct horse battery');
+      localStorage.setItem('ladder_counters', '{}');
+      expect(storeKdfParamsLost()).toBe(false);
+
+      const key = await unlockStoreKey('correct horse battery');
+      expect(deserializeRatchetState(localStorage.getItem('ratchet_a')!, key)).toEqual(state);
+    });
+  });
+
+  describe('migrateRatchetSessions', () => {
+    it('leaves entries it cannot open and other storage untouched', () => {
+      const storeKey = nacl.randomBytes(32);
+      storeLegacySession('ratchet_a', state, 'correct horse battery');
+      storeLegacySession('ratchet_b', state, 'some other passphrase');
+      localStorage.setItem('ladder_counters', '{}');
+
+      expect(migrateRatchetSessions('correct horse battery', storeKey)).toBe(1);
+      expect(isLegacyRatchetState(localStorage.getItem('ratchet_b')!)).toBe(true);
+      expect(localStorage.getItem('ladder_counters')).toBe('{}');
+
+      // Already migrated entries are skipped
+      expect(migrateRatchetSessions('correct horse battery', storeKey)).toBe(0);
+    });
+  });
+
+  describe('changeStoreKey', () => {
+    it('re-encrypts sessions under a key from the new master key and fresh salt', async () => {
+      saveStoreKdfParams(createStoreKdfParams(FAST));
+      const oldParams = loadStoreKdfParams()!;
+      const oldKey = await unlockStoreKey('correct horse battery');
+      localStorage.setItem('ratchet_a', serializeRatchetState(state, oldKey));
+      const trusted = pinIdentity(new Map(), 'Alice', state.theirIdentityPublicKey, null);
+      saveTrustStore(trusted, oldKey);
+      const contacts = [createContact('Alice', state.theirIdentityPublicKey)];
+      saveContacts(contacts, oldKey);
+      const groups = [createGroup('Team', [state.theirIdentityPublicKey], state.myIdentityKeyPair.publicKey)];
+      saveGroups(groups, oldKey);
+      saveFragmentSeq(7, state.myIdentityKeyPair.publicKey, oldKey);
+      checkAndUpdateMaxSpent('peer', 4, oldKey);
+
+      const newKey = await changeStoreKey('new passphrase here', oldKey);
+      const newParams = loadStoreKdfParams()!;
+
+      expect(newParams.N).toBe(FAST.N);
+      expect(newParams.salt).not.toEqual(oldParams.salt);
+      expect(await deriveStoreKey('new passphrase here', newParams)).toEqual(newKey);
+
+      const stored = localStorage.getItem('ratchet_a')!;
+      expect(deserializeRatchetState(stored, newKey)).toEqual(state);
+      expect(deserializeRatchetState(stored, oldKey)).toBeNull();
+      expect(loadTrustStore(newKey)).toEqual(trusted);
+      expect(loadContacts(newKey)).toEqual(contacts);
+      expect(loadGroups(newKey)).toEqual(groups);
+      expect(loadFragmentSeq(newKey)?.seq).toBe(7);
+      expect(loadCounters(newKey)).toEqual({ peer: { maxSpentIndex: 4 } });
+    });
+
+    it('hands the new key to commit before re-keying anything', async () => {
+      saveStoreKdfParams(createStoreKdfParams(FAST));
+      const oldKey = await unlockStoreKey('correct horse battery');
+      localStorage.setItem('ratchet_a', serializeRatchetState(state, oldKey));
+      saveFragmentSeq(7, state.myIdentityKeyPair.publicKey, oldKey);
+
+      let committedKey: Uint8Array | null = null;
+      const newKey = await changeStoreKey('new passphrase here', oldKey, async key => {
+        committedKey = key;
+        // The sequence record is already readable for the fragment write
+        expect(loadFragmentSeq(key)?.seq).toBe(7);
+        expect(deserializeRatchetState(localStorage.getItem('ratchet_a')!, oldKey)).toEqual(state);
+      });
+
+      expect(committedKey).toEqual(newKey);
+      expect(deserializeRatchetState(localStorage.getItem('ratchet_a')!, newKey)).toEqual(state);
+    });
+
+    it('leaves every store under the old key when the fragment write fails', async () => {
+      saveStoreKdfParams(createStoreKdfParams(FAST));
+      const oldParams = loadStoreKdfParams()!;
+      const oldKey = await unlockStoreKey('correct horse battery');
+      localStorage.setItem('ratchet_a', serializeRatchetState(state, oldKey));
+      const trusted = pinIdentity(new Map(), 'Alice', state.theirIdentityPublicKey, null);
+      saveTrustStore(trusted, oldKey);
+      saveFragmentSeq(7, state.myIdentityKeyPair.publicKey, oldKey);
+      checkAndUpdateMaxSpent('peer', 4, oldKey);
+
+      await expect(changeStoreKey('new passphrase here', oldKey, async () => {
+        throw new Error('Failed to write the URL fragment');
+      })).rejects.toThrow('Failed to write the URL fragment');
+
+      expect(loadStoreKdfParams()).toEqual(oldParams);
+      expect(deserializeRatchetState(localStorage.getItem('ratchet_a')!, oldKey)).toEqual(state);
+      expect(loadTrustStore(oldKey)).toEqual(trusted);
+      expect(loadFragmentSeq(oldKey)?.seq).toBe(7);
+      expect(loadCounters(oldKey)).toEqual({ peer: { maxSpentIndex: 4 } });
+    });
+  });
+});
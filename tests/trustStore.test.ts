@@ -0,0 +1,193 @@
+/**
+ * Tests for trust-on-first-use pinning of contact keys
+ */
+
+import * as nacl from 'tweetnacl';
+import {
+  TrustStore,
+  checkPinnedIdentity,
+  findPinnedContact,
+  anonymousContactName,
+  pinIdentity,
+  loadTrustStore,
+  saveTrustStore,
+  rekeyTrustStore,
+  clearTrustStore
+} from '../src/utils/trustStore';
+
+describe('Trust store', () => {
+  let identityKey: Uint8Array;
+  let ephemeralSeed: Uint8Array;
+  let store: TrustStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    identityKey = nacl.randomBytes(32);
+    ephemeralSeed = nacl.randomBytes(32);
+    store = pinIdentity(new Map(), 'Alice', identityKey, ephemeralSeed, null, 1_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('checkPinnedIdentity', () => {
+    it('accepts unknown contacts and matching keys', () => {
+      expect(checkPinnedIdentity(store, 'Bob', nacl.randomBytes(32), null)).toBeNull();
+      expect(checkPinnedIdentity(store, 'Alice', identityKey, ephemeralSeed)).toBeNull();
+    });
+
+    it('matches contact names ignoring case and whitespace', () => {
+      expect(checkPinnedIdentity(store, '  alice ', nacl.randomBytes(32), null)).not.toBeNull();
+    });
+
+    it('reports a changed identity key', () => {
+      const newKey = nacl.randomBytes(32);
+      const change = checkPinnedIdentity(store, 'Alice', newKey, ephemeralSeed)!;
+
+      expect(change.identityKeyChanged).toBe(true);
+      expect(change.ephemeralSeedChanged).toBe(false);
+      expect(change.previous.identityKey).toEqual(identityKey);
+      expect(change.identityKey).toEqual(newKey);
+    });
+
+    it('reports a changed ephemeral seed', () => {
+      const change = checkPinnedIdentity(store, 'Alice', identityKey, nacl.randomBytes(32))!;
+      expect(change.identityKeyChanged).toBe(false);
+      expect(change.ephemeralSeedChanged).toBe(true);
+    });
+
+    it('only checks the identity key when no seed is given', () => {
+      expect(checkPinnedIdentity(store, 'Alice', identityKey, null)).toBeNull();
+    });
+  });
+
+  describe('signing keys', () => {
+    let signingKey: Uint8Array;
+
+    beforeEach(() => {
+      signingKey = nacl.sign.keyPair().publicKey;
+      store = pinIdentity(store, 'Alice', identityKey, ephemeralSeed, signingKey, 1_500);
+    });
+
+    it('accepts a new seed signed by the pinned signing key', () => {
+      expect(checkPinnedIdentity(store, 'Alice', identityKey, nacl.randomBytes(32), signingKey)).toBeNull();
+    });
+
+    it('reports a seed change from an unsigned bundle', () => {
+      const change = checkPinnedIdentity(store, 'Alice', identityKey, nacl.randomBytes(32), null)!;
+
+      expect(change.ephemeralSeedChanged).toBe(true);
+      expect(change.signingKeyChanged).toBe(false);
+    });
+
+    it('reports a different signing key', () => {
+      const newSigningKey = nacl.sign.keyPair().publicKey;
+      const change = checkPinnedIdentity(store, 'Alice', identityKey, nacl.randomBytes(32), newSigningKey)!;
+
+      expect(change.signingKeyChanged).toBe(true);
+      expect(change.ephemeralSeedChanged).toBe(true);
+      expect(change.signingKey).toEqual(newSigningKey);
+    });
+
+    it('keeps the signing key when an unsigned bundle re-pins the same identity', () => {
+      const entry = pinIdentity(store, 'Alice', identityKey, null, null, 2_000).get('alice')!;
+      expect(entry.signingKey).toEqual(signingKey);
+    });
+
+    it('marks a seed from a signed bundle as authenticated', () => {
+      expect(store.get('alice')!.unsignedSeed).toBe(false);
+      expect(pinIdentity(store, 'Alice', identityKey, ephemeralSeed, null).get('alice')!.unsignedSeed).toBe(false);
+    });
+  });
+
+  describe('unsigned seeds', () => {
+    it('marks a seed pinned from an unsigned bundle', () => {
+      expect(store.get('alice')!.unsignedSeed).toBe(true);
+      expect(pinIdentity(store, 'Alice', identityKey, null).get('alice')!.unsignedSeed).toBe(true);
+    });
+
+    it('leaves bare keys unmarked', () => {
+      expect(pinIdentity(new Map(), 'Bob', nacl.randomBytes(32), null).get('bob')!.unsignedSeed).toBe(false);
+    });
+  });
+
+  describe('pinIdentity', () => {
+    it('keeps first-seen and the seed while the identity key is unchanged', () => {
+      const updated = pinIdentity(store, 'ALICE', identityKey, null, null, 2_000);
+      const entry = updated.get('alice')!;
+
+      expect(entry.firstSeen).toBe(1_000);
+      expect(entry.lastSeen).toBe(2_000);
+      expect(entry.ephemeralSeed).toEqual(ephemeralSeed);
+    });
+
+    it('starts over after an accepted identity key change', () => {
+      const newKey = nacl.randomBytes(32);
+      const entry = pinIdentity(store, 'Alice', newKey, null, null, 3_000).get('alice')!;
+
+      expect(entry.identityKey).toEqual(newKey);
+      expect(entry.ephemeralSeed).toBeNull();
+      expect(entry.firstSeen).toBe(3_000);
+      expect(checkPinnedIdentity(store, 'Alice', newKey, null)).not.toBeNull();
+    });
+  });
+
+  describe('recipients without a name', () => {
+    it('finds the pin by identity key', () => {
+      expect(findPinnedContact(store, identityKey, null)).toBe('alice');
+    });
+
+    it('finds the pin by seed when the identity key changed', () => {
+      const newKey = nacl.randomBytes(32);
+      const contact = findPinnedContact(store, newKey, ephemeralSeed)!;
+
+      expect(contact).toBe('alice');
+      expect(checkPinnedIdentity(store, contact, newKey, ephemeralSeed)?.identityKeyChanged).toBe(true);
+    });
+
+    it('pins unknown keys under a key-derived name and flags a later seed change', () => {
+      const stranger = nacl.randomBytes(32);
+      expect(findPinnedContact(store, stranger, null)).toBeNull();
+
+      const name = anonymousContactName(stranger);
+      expect(name).toBe(anonymousContactName(new Uint8Array(stranger)));
+      expect(name).not.toBe(anonymousContactName(identityKey));
+
+      const pinned = pinIdentity(store, name, stranger, nacl.randomBytes(32));
+      const contact = findPinnedContact(pinned, stranger, null)!;
+      expect(contact).toBe(name);
+      expect(checkPinnedIdentity(pinned, contact, stranger, nacl.randomBytes(32))?.ephemeralSeedChanged).toBe(true);
+    });
+  });
+
+  describe('storage', () => {
+    it('round-trips encrypted with the store key', () => {
+      const storeKey = nacl.randomBytes(32);
+      saveTrustStore(store, storeKey);
+      expect(loadTrustStore(storeKey)).toEqual(store);
+    });
+
+    it('loads nothing with the wrong key', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      saveTrustStore(store, nacl.randomBytes(32));
+      expect(loadTrustStore(nacl.randomBytes(32)).size).toBe(0);
+    });
+
+    it('re-encrypts under a new store key', () => {
+      const oldKey = nacl.randomBytes(32);
+      const newKey = nacl.randomBytes(32);
+      saveTrustStore(store, oldKey);
+
+      rekeyTrustStore(oldKey, newKey);
+      expect(loadTrustStore(newKey)).toEqual(store);
+    });
+
+    it('clears pinned keys', () => {
+      const storeKey = nacl.randomBytes(32);
+      saveTrustStore(store, storeKey);
+      clearTrustStore();
+      expect(loadTrustStore(storeKey).size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Tests for decrypting bare (non-armored) messages through the crypto hook
+ */
+
+import * as nacl from 'tweetnacl';
+import { renderHook, act } from '@testing-library/react';
+import { useCrypto } from '../src/hooks/useCrypto';
+import { uint8ArrayToBase32Crockford } from '../src/utils/encoding';
+
+describe('useCrypto bare messages', () => {
+  const alice = nacl.box.keyPair();
+  const bob = nacl.box.keyPair();
+  // Stable across renders; a new key each render would reload every store forever
+  const storeKey = nacl.randomBytes(32);
+  const onNonceUpdate = () => {};
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  function boxStartingWith(firstByte: number): Uint8Array {
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    nonce[0] = firstByte;
+    const box = nacl.box(new Uint8Array(new TextEncoder().encode('hello')), nonce, bob.publicKey, alice.secretKey);
+    const encrypted = new Uint8Array(nonce.length + box.length);
+    encrypted.set(nonce);
+    encrypted.set(box, nonce.length);
+    return encrypted;
+  }
+
+  function ratchetSessionKeys(): string[] {
+    return Object.keys(localStorage).filter(key => key.startsWith('ratchet_'));
+  }
+
+  it.each([0x01, 0x02, 0x03])('opens a box message starting with byte %i without creating a session', async firstByte => {
+    const { result } = renderHook(() => useCrypto(bob, onNonceUpdate, storeKey));
+
+    act(() => {
+      result.current.setRecipientPublicKey(uint8ArrayToBase32Crockford(alice.publicKey));
+      result.current.setMessage(uint8ArrayToBase32Crockford(boxStartingWith(firstByte)));
+    });
+    await act(async () => {
+      await result.current.handleDecrypt();
+    });
+
+    expect(result.current.output).toBe('Decrypted:\nhello');
+    expect(ratchetSessionKeys()).toHaveLength(0);
+    expect(result.current.ratchetSessionCount).toBe(0);
+  });
+});
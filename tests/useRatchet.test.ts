@@ -0,0 +1,63 @@
+/**
+ * Tests for accepting Ladder sessions through the ratchet hook
+ */
+
+import * as nacl from 'tweetnacl';
+import { renderHook, act } from '@testing-library/react';
+import { useRatchet } from '../src/hooks/useRatchet';
+import { createLadderMessage, encodeLadderMessage } from '../src/utils/ladder';
+import { KeyPair } from '../src/types';
+
+describe('useRatchet Ladder sessions', () => {
+  let alice: KeyPair;
+  let bob: KeyPair;
+  let bobSeed: KeyPair;
+  // Stable across renders; a new key each render would reload every store forever
+  const storeKey = nacl.randomBytes(32);
+
+  beforeEach(() => {
+    localStorage.clear();
+    alice = nacl.box.keyPair();
+    bob = nacl.box.keyPair();
+    bobSeed = nacl.box.keyPair();
+  });
+
+  async function ladderFromAlice(index: number, text: string): Promise<Uint8Array> {
+    const [message] = await createLadderMessage(alice, bob.publicKey, bobSeed.publicKey, index, new TextEncoder().encode(text));
+    return encodeLadderMessage(message);
+  }
+
+  it('accepts a first Ladder message without reporting a replacement', async () => {
+    const { result } = renderHook(() => useRatchet(bob, storeKey));
+    const encrypted = await ladderFromAlice(1, 'hello');
+
+    let text: string | null = null;
+    await act(async () => {
+      text = await result.current.decryptWithLadder(encrypted, alice.publicKey, bobSeed);
+    });
+
+    expect(text).toBe('hello');
+    expect(result.current.sessionCount).toBe(1);
+    expect(result.current.operations.some(op => op.type === 'key-change')).toBe(false);
+  });
+
+  it('records when a Ladder message replaces an existing session', async () => {
+    const { result } = renderHook(() => useRatchet(bob, storeKey));
+    act(() => {
+      result.current.initializeSession(alice.publicKey);
+    });
+    act(() => {
+      result.current.setCurrentSessionVerified(true);
+    });
+    const encrypted = await ladderFromAlice(1, 'starting over');
+
+    await act(async () => {
+      await result.current.decryptWithLadder(encrypted, alice.publicKey, bobSeed);
+    });
+
+    expect(result.current.sessionCount).toBe(1);
+    expect(result.current.getCurrentSession()!.verified).toBe(false);
+    const keyChange = result.current.operations.find(op => op.type === 'key-change');
+    expect(keyChange?.details).toBe('Ladder message replaced the existing session; safety number verification cleared');
+  });
+});